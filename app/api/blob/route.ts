@@ -1,4 +1,5 @@
 import { handleUpload, type HandleUploadBody } from "@vercel/blob/client";
+import { UPLOAD_CONTENT_TYPES } from "@/app/lib/sources/format";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -14,7 +15,7 @@ export async function POST(request: Request): Promise<Response> {
     body,
     onBeforeGenerateToken: async () => {
       return {
-        allowedContentTypes: ["image/png", "application/pdf"]
+        allowedContentTypes: UPLOAD_CONTENT_TYPES
       };
     },
     onUploadCompleted: async () => {
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { isTerminal, leaseExpired, readJob, requestCancel, writeJob } from "@/app/lib/jobs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ id: string }> };
+
+// Ask a job to stop. A running job stops before its next step (the current
+// one finishes and is kept); a job no runner holds is cancelled right away.
+export async function POST(_req: Request, ctx: Params): Promise<Response> {
+  try {
+    const { id } = await ctx.params;
+    const job = await readJob(id);
+    if (!job) return NextResponse.json({ ok: false, error: `Job ${id} not found` }, { status: 404 });
+    if (isTerminal(job)) return NextResponse.json({ ok: true, job });
+
+    await requestCancel(job);
+    if (leaseExpired(job)) {
+      job.status = "cancelled";
+      job.finishedAt = new Date().toISOString();
+      await writeJob(job);
+    }
+
+    return NextResponse.json({ ok: true, job });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : String(e) }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { after, NextResponse } from "next/server";
+import { isTerminal, kickJob, leaseExpired, readJob } from "@/app/lib/jobs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// A job nobody holds that hasn't moved for this long lost its chain of
+// invocations (e.g. the function was killed), so polling restarts it. One
+// waiting to retry a failed step counts from when the wait is over.
+const STALLED_MS = 15_000;
+
+type Params = { params: Promise<{ id: string }> };
+
+// Job state and progress, for polling
+export async function GET(req: Request, ctx: Params): Promise<Response> {
+  try {
+    const { id } = await ctx.params;
+    const job = await readJob(id);
+    if (!job) return NextResponse.json({ ok: false, error: `Job ${id} not found` }, { status: 404 });
+
+    const idleSince = Math.max(Date.parse(job.updatedAt), job.retryAt ? Date.parse(job.retryAt) : 0);
+    if (!isTerminal(job) && leaseExpired(job) && Date.now() - idleSince > STALLED_MS) {
+      const origin = new URL(req.url).origin;
+      after(() => kickJob(job.jobId, origin));
+    }
+
+    return NextResponse.json({ ok: true, job });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : String(e) }, { status: 500 });
+  }
+}
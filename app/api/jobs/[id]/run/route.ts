@@ -0,0 +1,23 @@
+import { after, NextResponse } from "next/server";
+import { readJob, runJob } from "@/app/lib/jobs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+type Params = { params: Promise<{ id: string }> };
+
+// One invocation of a job, started by the http runner (JOBS_RUNNER=http).
+// Answers at once and does the work after the response, so the caller isn't
+// held for the whole invocation. Safe to call at any time: a job that is
+// finished or held by another runner is left alone.
+export async function POST(req: Request, ctx: Params): Promise<Response> {
+  const { id } = await ctx.params;
+  const job = await readJob(id);
+  if (!job) return NextResponse.json({ ok: false, error: `Job ${id} not found` }, { status: 404 });
+
+  const origin = new URL(req.url).origin;
+  after(() => runJob(id, origin));
+
+  return NextResponse.json({ ok: true, jobId: id }, { status: 202 });
+}
@@ -0,0 +1,55 @@
+import { after, NextResponse } from "next/server";
+import { z } from "zod";
+import { fetchManifestDirect } from "@/app/lib/manifest";
+import { createJob, JOB_HANDLERS, kickJob, listJobs, type JobKind } from "@/app/lib/jobs";
+import { parseJsonBody, requiredString, validate, validationErrorResponse, ValidationError } from "@/app/lib/validation";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const JOB_KINDS = Object.keys(JOB_HANDLERS) as [JobKind, ...JobKind[]];
+
+const Body = z.object({
+  projectId: requiredString,
+  manifestUrl: requiredString,
+  kind: z.enum(JOB_KINDS),
+  // Checked against the kind's own schema (see app/lib/jobs/handlers.ts)
+  params: z.record(z.string(), z.unknown()).optional()
+});
+
+// Enqueue a long-running step as a background job. Poll GET /api/jobs/{jobId}
+// for progress; POST /api/jobs/{jobId}/cancel stops it between steps.
+export async function POST(req: Request): Promise<Response> {
+  try {
+    const parsed = await parseJsonBody(req, Body);
+    if (!parsed.ok) return parsed.response;
+    const { projectId, manifestUrl, kind } = parsed.body;
+    const params = validate(JOB_HANDLERS[kind].params, parsed.body.params ?? {}, "job params");
+
+    const manifest = await fetchManifestDirect(manifestUrl);
+    if (manifest.projectId !== projectId) {
+      return NextResponse.json({ ok: false, error: "projectId does not match manifest" }, { status: 400 });
+    }
+
+    const job = await createJob(projectId, kind, manifestUrl, params);
+    const origin = new URL(req.url).origin;
+    after(() => kickJob(job.jobId, origin));
+
+    return NextResponse.json({ ok: true, jobId: job.jobId, job }, { status: 202 });
+  } catch (e) {
+    if (e instanceof ValidationError) return validationErrorResponse(e);
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : String(e) }, { status: 500 });
+  }
+}
+
+// A project's jobs, newest first: GET /api/jobs?projectId=...
+export async function GET(req: Request): Promise<Response> {
+  try {
+    const projectId = new URL(req.url).searchParams.get("projectId")?.trim();
+    if (!projectId) return NextResponse.json({ ok: false, error: "Missing projectId" }, { status: 400 });
+
+    return NextResponse.json({ ok: true, jobs: await listJobs(projectId) });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : String(e) }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { cropAssets, cropBoxFromDetected } from "@/app/lib/asset-crops";
+import { detectionRulesSchema } from "@/app/lib/detection-rules";
+import { journalFromRequest } from "@/app/lib/manifest-journal";
+import {
+  isManifestError,
+  manifestErrorResponse,
+  pageNumberField,
+  parseJsonBody,
+  requiredString,
+  ValidationError,
+  validationErrorResponse
+} from "@/app/lib/validation";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+// Set by ensemble detection; recorded on the asset as its `detection`
+const boxDetection = {
+  category: z.string().optional(),
+  confidence: z.number().min(0).max(1).optional(),
+  detectors: z.array(z.string()).optional(),
+  needsReview: z.boolean().optional()
+};
+
+// Boxes as returned by the detectors ({ x, y, w, h, category? }, see
+// DetectedBox); { x, y, width, height } from older clients is still accepted
+const DetectedBox = z
+  .union([
+    z.object({
+      x: z.number().nonnegative(),
+      y: z.number().nonnegative(),
+      w: z.number().positive(),
+      h: z.number().positive(),
+      ...boxDetection
+    }),
+    z.object({
+      x: z.number().nonnegative(),
+      y: z.number().nonnegative(),
+      width: z.number().positive(),
+      height: z.number().positive(),
+      ...boxDetection
+    })
+  ])
+  .transform((b) => cropBoxFromDetected("w" in b ? b : { ...b, w: b.width, h: b.height }));
+
+const Body = z.object({
+  projectId: requiredString,
+  manifestUrl: requiredString,
+  pages: z
+    .array(z.object({ pageNumber: pageNumberField, boxes: z.array(DetectedBox) }))
+    .min(1, "Missing or empty pages array"),
+  // Defaults to the project's saved settings.detectionRulesJson
+  detectionRules: detectionRulesSchema.optional(),
+  // Crop boxes whose page, box and padding haven't changed too
+  force: z.boolean().optional()
+});
+
+// Crop detected boxes out of page images and record them as assets; see
+// app/lib/asset-crops.ts
+export async function POST(req: Request): Promise<Response> {
+  try {
+    const parsed = await parseJsonBody(req, Body);
+    if (!parsed.ok) return parsed.response;
+
+    const result = await cropAssets(parsed.body, journalFromRequest(req));
+    return NextResponse.json({ ok: true, ...result });
+  } catch (e) {
+    if (isManifestError(e)) return manifestErrorResponse(e);
+    if (e instanceof ValidationError) return validationErrorResponse(e);
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : String(e) }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { dedupeAssets } from "@/app/lib/asset-dedupe";
+import { journalFromRequest } from "@/app/lib/manifest-journal";
+import {
+  isManifestError,
+  manifestErrorResponse,
+  parseJsonBody,
+  requiredString,
+  ValidationError,
+  validationErrorResponse
+} from "@/app/lib/validation";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+const Body = z.object({
+  projectId: requiredString,
+  manifestUrl: requiredString,
+  // Bits (of 64) two crops' hashes may differ in and still be duplicates
+  maxDistance: z.number().int().min(0).max(32).optional(),
+  // Hash every crop again, not just those without a phash
+  force: z.boolean().optional()
+});
+
+// Group near-duplicate assets across pages and sources; see dedupeAssets()
+// in app/lib/asset-dedupe.ts
+export async function POST(req: Request): Promise<Response> {
+  try {
+    const parsed = await parseJsonBody(req, Body);
+    if (!parsed.ok) return parsed.response;
+
+    const result = await dedupeAssets(parsed.body, journalFromRequest(req));
+    return NextResponse.json({ ok: true, ...result });
+  } catch (e) {
+    if (isManifestError(e)) return manifestErrorResponse(e);
+    if (e instanceof ValidationError) return validationErrorResponse(e);
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : String(e) }, { status: 500 });
+  }
+}
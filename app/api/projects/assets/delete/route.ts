@@ -1,46 +1,37 @@
 import { NextResponse } from "next/server";
-import { del, list } from "@vercel/blob";
-import { saveManifest, fetchManifestDirect, type ProjectManifest } from "@/app/lib/manifest";
+import { z } from "zod";
+import { fetchPageDirect, updatePage } from "@/app/lib/manifest";
+import { journalFromRequest } from "@/app/lib/manifest-journal";
+import { getProjectStore, moveToTrash, parseAssetPath, projectPaths } from "@/app/lib/store";
+import {
+  isManifestError,
+  manifestErrorResponse,
+  pageNumberField,
+  parseJsonBody,
+  requiredString,
+  ValidationError,
+  validationErrorResponse
+} from "@/app/lib/validation";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type Body = {
-  projectId?: string;
-  manifestUrl?: string;
-  pageNumber?: number;
-  assetId?: string; // e.g. "p13-img05"
-};
-
-type ListResult = {
-  blobs: Array<{ url: string; pathname?: string }>;
-  cursor?: string | null;
-};
+const Body = z.object({
+  projectId: requiredString,
+  manifestUrl: requiredString,
+  pageNumber: pageNumberField,
+  assetId: requiredString // e.g. "p13-img05"
+});
 
 export async function POST(req: Request): Promise<Response> {
   try {
-    let body: Body;
-    try {
-      body = (await req.json()) as Body;
-    } catch {
-      return NextResponse.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
-    }
-
-    const projectId = (body.projectId || "").trim();
-    const manifestUrl = (body.manifestUrl || "").trim();
-    const assetId = (body.assetId || "").trim();
-    const pageNumber = Number(body.pageNumber);
-
-    if (!projectId || !manifestUrl || !assetId || !Number.isFinite(pageNumber)) {
-      return NextResponse.json(
-        { ok: false, error: "Missing projectId/manifestUrl/pageNumber/assetId" },
-        { status: 400 }
-      );
-    }
+    const parsed = await parseJsonBody(req, Body);
+    if (!parsed.ok) return parsed.response;
+    const { projectId, manifestUrl, pageNumber, assetId } = parsed.body;
 
     // Use direct fetch to avoid cache
-    const manifest = await fetchManifestDirect(manifestUrl);
-    if (manifest.projectId !== projectId) {
+    const { root, page: pageEntry } = await fetchPageDirect(manifestUrl, pageNumber);
+    if (root.projectId !== projectId) {
       return NextResponse.json({ ok: false, error: "projectId does not match manifest" }, { status: 400 });
     }
 
@@ -48,81 +39,62 @@ export async function POST(req: Request): Promise<Response> {
 
     // 1) Delete the exact URL referenced by the manifest (covers .png/.jpg/etc).
     // This is the most reliable deletion path.
-    const pageEntry = Array.isArray(manifest.pages)
-      ? manifest.pages.find((x) => x.pageNumber === pageNumber)
-      : undefined;
-    const assetEntry = pageEntry?.assets?.find((a) => a.assetId === assetId);
+    const assetEntry = pageEntry?.assets.find((a) => a.assetId === assetId);
     if (assetEntry?.url) urlsToDelete.push(assetEntry.url);
 
     // 2) Also delete any variants under the folder (handles duplicates / random suffixes)
-    const prefix = `projects/${projectId}/assets/p${pageNumber}/`;
-
-    let cursor: string | undefined = undefined;
-    for (;;) {
-      const page = (await list({ prefix, limit: 1000, cursor })) as unknown as ListResult;
-
-      for (const b of page.blobs) {
-        const pathname = typeof b.pathname === "string" ? b.pathname : "";
-        // match: .../p13-img05*.(png|jpg|jpeg|webp) or any extension.
-        // We intentionally do NOT filter by extension to avoid "delete then resurrect".
-        if (pathname.includes(`/${assetId}`)) {
-          if (typeof b.url === "string" && b.url) urlsToDelete.push(b.url);
-        }
-      }
-
-      const next = page.cursor ?? undefined;
-      cursor = typeof next === "string" && next.length > 0 ? next : undefined;
-      if (!cursor) break;
+    const store = getProjectStore();
+    for (const b of await store.list(projectPaths.pageAssetsPrefix(projectId, pageNumber))) {
+      // match: .../p13-img05*.(png|jpg|jpeg|webp) or any extension, but not
+      // another asset whose id starts the same (p13-y...h0250_2).
+      // We intentionally do NOT filter by extension to avoid "delete then resurrect".
+      if (parseAssetPath(b.pathname)?.assetId === assetId) urlsToDelete.push(b.url);
     }
 
-    // De-dupe URLs before delete
+    // De-dupe URLs before delete. Trashed rather than dropped so a manifest
+    // rollback can restore them.
     const uniqUrls = Array.from(new Set(urlsToDelete));
-    if (uniqUrls.length > 0) await del(uniqUrls);
-
-    // Re-fetch latest manifest to avoid race conditions
-    const latest = await fetchManifestDirect(manifestUrl);
-    if (latest.projectId !== projectId) {
-      throw new Error("projectId does not match manifest on re-fetch");
+    await moveToTrash(store, projectId, uniqUrls);
+
+    // Apply onto the latest page (retried on conflict) to avoid race conditions.
+    // A page that isn't in the manifest has nothing to tombstone, so skip the save.
+    let newManifestUrl = manifestUrl;
+    if (pageEntry) {
+      ({ manifestUrl: newManifestUrl } = await updatePage(
+        manifestUrl,
+        pageNumber,
+        (p, root) => {
+          // Add debug log
+          const timestamp = new Date().toISOString();
+
+          // Remove from manifest + tombstone it (prevents later background saves from resurrecting it)
+          let foundAsset = false;
+          let tombstoneAdded = false;
+
+          const initialLen = p.assets.length;
+          p.assets = p.assets.filter((a) => a.assetId !== assetId);
+          if (p.assets.length < initialLen) foundAsset = true;
+          if (!p.deletedAssetIds.includes(assetId)) {
+            p.deletedAssetIds.push(assetId);
+            tombstoneAdded = true;
+          }
+
+          root.debugLog.unshift(`[${timestamp}] DELETE ${assetId} (p${pageNumber}). Blobs: ${uniqUrls.length}. AssetFound: ${foundAsset}. Tombstone: ${tombstoneAdded}.`);
+          // Keep log size manageable
+          if (root.debugLog.length > 50) root.debugLog = root.debugLog.slice(0, 50);
+        },
+        { projectId, journal: journalFromRequest(req) }
+      ));
     }
 
-    // Add debug log
-    if (!Array.isArray(latest.debugLog)) latest.debugLog = [];
-    const timestamp = new Date().toISOString();
-    
-    // Remove from manifest + tombstone it (prevents later background saves from resurrecting it)
-    let foundPage = false;
-    let foundAsset = false;
-    let tombstoneAdded = false;
-
-    if (Array.isArray(latest.pages)) {
-      const p = latest.pages.find((x) => x.pageNumber === pageNumber);
-      if (p) {
-        foundPage = true;
-        if (Array.isArray(p.assets)) {
-           const initialLen = p.assets.length;
-           p.assets = p.assets.filter((a) => a.assetId !== assetId);
-           if (p.assets.length < initialLen) foundAsset = true;
-        }
-        if (!Array.isArray(p.deletedAssetIds)) p.deletedAssetIds = [];
-        if (!p.deletedAssetIds.includes(assetId)) {
-          p.deletedAssetIds.push(assetId);
-          tombstoneAdded = true;
-        }
-      }
-    }
-
-    latest.debugLog.unshift(`[${timestamp}] DELETE ${assetId} (p${pageNumber}). Blobs: ${uniqUrls.length}. PageFound: ${foundPage}. AssetFound: ${foundAsset}. Tombstone: ${tombstoneAdded}.`);
-    // Keep log size manageable
-    if (latest.debugLog.length > 50) latest.debugLog = latest.debugLog.slice(0, 50);
-
-    const newManifestUrl = await saveManifest(latest);
-
     return NextResponse.json({
       ok: true,
       manifestUrl: newManifestUrl,
       deletedCount: uniqUrls.length
     });
   } catch (e) {
+    if (isManifestError(e)) return manifestErrorResponse(e);
+    if (e instanceof ValidationError) return validationErrorResponse(e);
     return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : String(e) }, { status: 500 });
   }
 }
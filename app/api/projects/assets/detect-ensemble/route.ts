@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { detectEnsemble } from "@/app/lib/detect-ensemble";
+import { detectionRulesSchema } from "@/app/lib/detection-rules";
+import {
+  isManifestError,
+  manifestErrorResponse,
+  parseJsonBody,
+  requiredString,
+  ValidationError,
+  validationErrorResponse
+} from "@/app/lib/validation";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+const Body = z.object({
+  projectId: requiredString,
+  manifestUrl: requiredString,
+  // Default: every rendered page
+  pageNumbers: z.array(z.number().int().positive()).optional(),
+  // Defaults to the project's saved settings.detectionRulesJson
+  detectionRules: detectionRulesSchema.optional()
+});
+
+// Run the Document AI and Gemini detectors on each page and merge their
+// boxes (see detect-ensemble.ts)
+export async function POST(req: Request): Promise<Response> {
+  try {
+    const parsed = await parseJsonBody(req, Body);
+    if (!parsed.ok) return parsed.response;
+
+    const { pages, skipped } = await detectEnsemble(parsed.body);
+    return NextResponse.json({ ok: true, pages, skipped });
+  } catch (e) {
+    if (isManifestError(e)) return manifestErrorResponse(e);
+    if (e instanceof ValidationError) return validationErrorResponse(e);
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : String(e) }, { status: 500 });
+  }
+}
@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { applyCrop, assetsById, cropForEdit, editBoxSchema, unionBox } from "@/app/lib/asset-edits";
+import { fetchPageDirect, updatePage } from "@/app/lib/manifest";
+import { journalFromRequest } from "@/app/lib/manifest-journal";
+import { mergeAssetTags } from "@/app/lib/page-assets";
+import { addAssetText } from "@/app/lib/page-text";
+import { getProjectStore, moveToTrash } from "@/app/lib/store";
+import {
+  isManifestError,
+  manifestErrorResponse,
+  pageNumberField,
+  parseJsonBody,
+  requiredString,
+  ValidationError,
+  validationErrorResponse
+} from "@/app/lib/validation";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const Body = z.object({
+  projectId: requiredString,
+  manifestUrl: requiredString,
+  pageNumber: pageNumberField,
+  // The first one is kept; the rest are merged into it
+  assetIds: z
+    .array(requiredString)
+    .min(2, "Merge needs at least two assets")
+    .refine((ids) => new Set(ids).size === ids.length, "assetIds must be distinct"),
+  // Defaults to the smallest box around all of them
+  bbox: editBoxSchema.optional()
+});
+
+// Join several assets on a page into the first one. It takes every tag and,
+// if it has none, the first category among the others; the others are
+// deleted and tombstoned.
+export async function POST(req: Request): Promise<Response> {
+  try {
+    const parsed = await parseJsonBody(req, Body);
+    if (!parsed.ok) return parsed.response;
+    const { projectId, manifestUrl, pageNumber, assetIds, bbox } = parsed.body;
+    const [keepId, ...mergedIds] = assetIds;
+
+    const { root, page } = await fetchPageDirect(manifestUrl, pageNumber);
+    if (root.projectId !== projectId) {
+      return NextResponse.json({ ok: false, error: "projectId does not match manifest" }, { status: 400 });
+    }
+    if (!page) return NextResponse.json({ ok: false, error: `Page ${pageNumber} not found` }, { status: 404 });
+    const assets = assetsById(page, assetIds);
+
+    const [crop] = await cropForEdit(projectId, page, [
+      { assetId: keepId, bbox: bbox ?? unionBox(assets.map((a) => a.bbox)) }
+    ]);
+
+    const { manifestUrl: newManifestUrl, page: saved, result: oldUrls } = await updatePage(
+      manifestUrl,
+      pageNumber,
+      async (latest, latestRoot) => {
+        const [keep, ...merged] = assetsById(latest, assetIds);
+        const oldUrls = [keep.url, ...merged.map((a) => a.url)];
+
+        mergeAssetTags(keep, merged);
+
+        const timestamp = new Date().toISOString();
+        applyCrop(keep, crop, { timestamp, action: "merge", from: mergedIds });
+        latest.assets = latest.assets.filter((a) => !mergedIds.includes(a.assetId));
+        // So a later crop run doesn't bring the merged boxes back
+        for (const id of mergedIds) {
+          if (!latest.deletedAssetIds.includes(id)) latest.deletedAssetIds.push(id);
+        }
+        await addAssetText(latest, [keepId]);
+
+        latestRoot.debugLog.unshift(`[${timestamp}] MERGE ${mergedIds.join(", ")} into ${keepId} (p${pageNumber}).`);
+        if (latestRoot.debugLog.length > 50) latestRoot.debugLog = latestRoot.debugLog.slice(0, 50);
+        return oldUrls;
+      },
+      { projectId, journal: journalFromRequest(req) }
+    );
+
+    // Trashed rather than dropped so a manifest rollback can restore them
+    await moveToTrash(getProjectStore(), projectId, oldUrls.filter((u) => u && u !== crop.url));
+
+    return NextResponse.json({
+      ok: true,
+      manifestUrl: newManifestUrl,
+      asset: saved.assets.find((a) => a.assetId === keepId)
+    });
+  } catch (e) {
+    if (isManifestError(e)) return manifestErrorResponse(e);
+    if (e instanceof ValidationError) return validationErrorResponse(e);
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : String(e) }, { status: 500 });
+  }
+}
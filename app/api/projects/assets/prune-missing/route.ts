@@ -1,32 +1,28 @@
 import { NextResponse } from "next/server";
-import { saveManifest, fetchManifestDirect, type ProjectManifest } from "@/app/lib/manifest";
+import { z } from "zod";
+import {
+  fetchManifestDirect,
+  updateManifest
+} from "@/app/lib/manifest";
+import { journalFromRequest } from "@/app/lib/manifest-journal";
+import { getProjectStore } from "@/app/lib/store";
+import {
+  isManifestError,
+  manifestErrorResponse,
+  parseJsonBody,
+  requiredString,
+  ValidationError,
+  validationErrorResponse
+} from "@/app/lib/validation";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type Body = { projectId?: string; manifestUrl?: string };
-
-function baseUrl(u: string) {
-  const url = new URL(u);
-  return `${url.origin}${url.pathname}`;
-}
-
-async function readErrorText(res: Response) {
-  try {
-    const t = await res.text();
-    return t || `${res.status} ${res.statusText}`;
-  } catch {
-    return `${res.status} ${res.statusText}`;
-  }
-}
+const Body = z.object({ projectId: requiredString, manifestUrl: requiredString });
 
 async function existsDefinitely(url: string): Promise<"exists" | "missing" | "unknown"> {
-  const u = `${baseUrl(url)}?v=${Date.now()}`;
   try {
-    const res = await fetch(u, { method: "GET", cache: "no-store" });
-    if (res.status === 404) return "missing";
-    if (res.ok) return "exists";
-    return "unknown";
+    return (await getProjectStore().head(url)) ? "exists" : "missing";
   } catch {
     return "unknown";
   }
@@ -34,18 +30,9 @@ async function existsDefinitely(url: string): Promise<"exists" | "missing" | "un
 
 export async function POST(req: Request): Promise<Response> {
   try {
-    let body: Body;
-    try {
-      body = (await req.json()) as Body;
-    } catch {
-      return NextResponse.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
-    }
-
-    const projectId = (body.projectId || "").trim();
-    const manifestUrl = (body.manifestUrl || "").trim();
-    if (!projectId || !manifestUrl) {
-      return NextResponse.json({ ok: false, error: "Missing projectId/manifestUrl" }, { status: 400 });
-    }
+    const parsed = await parseJsonBody(req, Body);
+    if (!parsed.ok) return parsed.response;
+    const { projectId, manifestUrl } = parsed.body;
 
     const manifest = await fetchManifestDirect(manifestUrl);
     if (manifest.projectId !== projectId) {
@@ -57,39 +44,33 @@ export async function POST(req: Request): Promise<Response> {
     let unknown = 0;
     const toRemove = new Set<string>();
 
-    if (Array.isArray(manifest.pages)) {
-      for (const p of manifest.pages) {
-        if (!Array.isArray(p.assets) || p.assets.length === 0) continue;
-
-        for (const a of p.assets) {
-          checked += 1;
-          const st = await existsDefinitely(a.url);
-          if (st === "missing") {
-            removed += 1;
-            toRemove.add(`${p.pageNumber}-${a.assetId}`);
-          } else if (st === "unknown") {
-            unknown += 1;
-          }
+    for (const p of manifest.pages) {
+      for (const a of p.assets) {
+        checked += 1;
+        const st = await existsDefinitely(a.url);
+        if (st === "missing") {
+          removed += 1;
+          toRemove.add(`${p.pageNumber}-${a.assetId}`);
+        } else if (st === "unknown") {
+          unknown += 1;
         }
       }
     }
 
-    // Re-fetch latest manifest to avoid race conditions
-    const latest = await fetchManifestDirect(manifestUrl);
-    if (latest.projectId !== projectId) {
-      return NextResponse.json({ ok: false, error: "projectId does not match manifest on re-fetch" }, { status: 400 });
-    }
-
-    if (Array.isArray(latest.pages)) {
-      for (const p of latest.pages) {
-        if (!Array.isArray(p.assets)) continue;
-        p.assets = p.assets.filter((a) => !toRemove.has(`${p.pageNumber}-${a.assetId}`));
-      }
-    }
-
-    const newManifestUrl = await saveManifest(latest);
+    // Apply removals onto the latest manifest (retried on conflict)
+    const { manifestUrl: newManifestUrl } = await updateManifest(
+      manifestUrl,
+      (latest) => {
+        for (const p of latest.pages) {
+          p.assets = p.assets.filter((a) => !toRemove.has(`${p.pageNumber}-${a.assetId}`));
+        }
+      },
+      { projectId, journal: journalFromRequest(req) }
+    );
     return NextResponse.json({ ok: true, manifestUrl: newManifestUrl, checked, removed, unknown });
   } catch (e) {
+    if (isManifestError(e)) return manifestErrorResponse(e);
+    if (e instanceof ValidationError) return validationErrorResponse(e);
     return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : String(e) }, { status: 500 });
   }
 }
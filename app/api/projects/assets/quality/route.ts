@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { belowQuality, measureQuality } from "@/app/lib/asset-quality";
+import { parseDetectionRules } from "@/app/lib/detection-rules";
+import { fetchManifestDirect, updateManifest, type AssetQuality } from "@/app/lib/manifest";
+import { journalFromRequest } from "@/app/lib/manifest-journal";
+import { readPageText, textCoverage } from "@/app/lib/page-text";
+import { getProjectStore } from "@/app/lib/store";
+import {
+  isManifestError,
+  manifestErrorResponse,
+  parseJsonBody,
+  requiredString,
+  ValidationError,
+  validationErrorResponse
+} from "@/app/lib/validation";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+const Body = z.object({
+  projectId: requiredString,
+  manifestUrl: requiredString,
+  // Measure every asset again, not just those without a quality
+  force: z.boolean().optional()
+});
+
+// Measure the quality of assets cropped before it was measured (or recorded
+// from the browser). Nothing is deleted: assets scoring below the detection
+// rules' qualityThreshold are listed, and schema fill leaves them out.
+export async function POST(req: Request): Promise<Response> {
+  try {
+    const parsed = await parseJsonBody(req, Body);
+    if (!parsed.ok) return parsed.response;
+    const { projectId, manifestUrl, force } = parsed.body;
+
+    const manifest = await fetchManifestDirect(manifestUrl);
+    if (manifest.projectId !== projectId) {
+      return NextResponse.json({ ok: false, error: "projectId does not match manifest" }, { status: 400 });
+    }
+    let threshold: number | undefined;
+    try {
+      threshold = parseDetectionRules(manifest.settings.detectionRulesJson)?.qualityThreshold;
+    } catch (e) {
+      return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : String(e) }, { status: 400 });
+    }
+
+    const store = getProjectStore();
+    const computed = new Map<string, { url: string; quality: AssetQuality }>();
+    const skipped: Array<{ pageNumber: number; assetId: string; error: string }> = [];
+    for (const page of manifest.pages) {
+      const deleted = new Set(page.deletedAssetIds);
+      const todo = page.assets.filter((a) => !deleted.has(a.assetId) && (force || !a.quality));
+      if (todo.length === 0) continue;
+      const pageText = await readPageText(page.textUrl);
+      for (const asset of todo) {
+        try {
+          const image = asset.url ? await store.get(asset.url) : null;
+          if (!image) throw new Error("Crop is missing");
+          const quality = await measureQuality(image, textCoverage(pageText, page, asset.bbox));
+          computed.set(asset.assetId, { url: asset.url, quality });
+        } catch (e) {
+          skipped.push({ pageNumber: page.pageNumber, assetId: asset.assetId, error: e instanceof Error ? e.message : String(e) });
+        }
+      }
+    }
+
+    const { manifestUrl: newManifestUrl, manifest: updated } = await updateManifest(
+      manifestUrl,
+      (latest) => {
+        for (const asset of latest.pages.flatMap((p) => p.assets)) {
+          const c = computed.get(asset.assetId);
+          // Not if it was re-cropped meanwhile
+          if (c && c.url === asset.url) asset.quality = c.quality;
+        }
+
+        const timestamp = new Date().toISOString();
+        latest.debugLog.unshift(`[${timestamp}] QUALITY: Measured ${computed.size} assets, skipped ${skipped.length}.`);
+        if (latest.debugLog.length > 50) latest.debugLog = latest.debugLog.slice(0, 50);
+      },
+      { projectId, journal: journalFromRequest(req) }
+    );
+
+    const below = updated.pages.flatMap((p) =>
+      p.assets
+        .filter((a) => belowQuality(a, threshold))
+        .map((a) => ({ pageNumber: p.pageNumber, assetId: a.assetId, score: a.quality?.score }))
+    );
+
+    return NextResponse.json({ ok: true, manifestUrl: newManifestUrl, measured: computed.size, threshold, below, skipped });
+  } catch (e) {
+    if (isManifestError(e)) return manifestErrorResponse(e);
+    if (e instanceof ValidationError) return validationErrorResponse(e);
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : String(e) }, { status: 500 });
+  }
+}
@@ -1,95 +1,86 @@
 import { NextResponse } from "next/server";
-import { saveManifest, fetchManifestDirect, type ProjectManifest, type PageAsset, type AssetBBox } from "@/app/lib/manifest";
+import { z } from "zod";
+import { updatePage } from "@/app/lib/manifest";
+import { journalFromRequest } from "@/app/lib/manifest-journal";
+import { ASSET_CATEGORIES } from "@/app/lib/asset-categories";
+import { boxEdited } from "@/app/lib/asset-edits";
+import { assetBBoxSchema } from "@/app/lib/manifest-schema";
+import { mergePageAssets } from "@/app/lib/page-assets";
+import { addAssetText } from "@/app/lib/page-text";
+import {
+  isManifestError,
+  manifestErrorResponse,
+  pageNumberField,
+  parseJsonBody,
+  requiredString,
+  ValidationError,
+  validationErrorResponse
+} from "@/app/lib/validation";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type Body = {
-  projectId?: string;
-  manifestUrl?: string;
-  pageNumber?: number;
-  assets?: Array<{
-    assetId: string;
-    url: string;
-    bbox: AssetBBox;
-    tags?: string[];
-  }>;
-};
+const Body = z.object({
+  projectId: requiredString,
+  manifestUrl: requiredString,
+  pageNumber: pageNumberField,
+  assets: z
+    .array(
+      z.object({
+        assetId: requiredString,
+        url: z.string(),
+        bbox: assetBBoxSchema,
+        tags: z.array(z.string()).optional(),
+        category: z.enum(ASSET_CATEGORIES).optional()
+      })
+    )
+    .optional()
+    .default([]),
+  // Replace assets whose box was edited by hand too (see asset-edits.ts)
+  replaceEdited: z.boolean().optional()
+});
 
 export async function POST(req: Request): Promise<Response> {
   try {
-    const body = (await req.json()) as Body;
-
-    const projectId = (body.projectId || "").trim();
-    const manifestUrl = (body.manifestUrl || "").trim();
-    const pageNumber = Number(body.pageNumber);
-    const incoming = Array.isArray(body.assets) ? body.assets : [];
-
-    if (!projectId || !manifestUrl || !Number.isFinite(pageNumber)) {
-      return NextResponse.json(
-        { ok: false, error: "Missing projectId/manifestUrl/pageNumber" },
-        { status: 400 }
-      );
-    }
+    const parsed = await parseJsonBody(req, Body);
+    if (!parsed.ok) return parsed.response;
+    const { projectId, manifestUrl, pageNumber, assets: incoming, replaceEdited } = parsed.body;
 
     if (incoming.length === 0) {
       return NextResponse.json({ ok: true, manifestUrl }, { status: 200 });
     }
 
-    // Validate shape (no silent junk)
-    for (const a of incoming) {
-      if (!a || typeof a.assetId !== "string" || typeof a.url !== "string") {
-        return NextResponse.json({ ok: false, error: "Invalid assets[] payload" }, { status: 400 });
-      }
-      const b = a.bbox;
-      if (
-        !b ||
-        !Number.isFinite(b.x) ||
-        !Number.isFinite(b.y) ||
-        !Number.isFinite(b.w) ||
-        !Number.isFinite(b.h)
-      ) {
-        return NextResponse.json({ ok: false, error: "Invalid bbox in assets[]" }, { status: 400 });
-      }
-    }
-
-    // Re-fetch latest manifest before saving to avoid resurrecting deleted assets
-    const latest = await fetchManifestDirect(manifestUrl);
-    if (latest.projectId !== projectId) {
-      return NextResponse.json({ ok: false, error: "projectId does not match manifest" }, { status: 400 });
-    }
-    if (!Array.isArray(latest.pages)) latest.pages = [];
-    const page = latest.pages.find((p) => p.pageNumber === pageNumber);
-    if (!page) {
-      return NextResponse.json({ ok: false, error: `Page ${pageNumber} not found in manifest.pages` }, { status: 400 });
-    }
-    const deleted = new Set<string>(Array.isArray(page.deletedAssetIds) ? page.deletedAssetIds : []);
-    const existing = Array.isArray(page.assets) ? page.assets : [];
-    const byId = new Map<string, PageAsset>();
-    for (const e of existing) byId.set(e.assetId, e);
-    for (const a of incoming) {
-      // Respect tombstones: never resurrect a deleted assetId.
-      if (deleted.has(a.assetId)) continue;
-      const merged: PageAsset = {
-        assetId: a.assetId,
-        url: a.url,
-        bbox: a.bbox,
-        tags: Array.isArray(a.tags) ? a.tags : byId.get(a.assetId)?.tags
-      };
-      byId.set(a.assetId, merged);
-    }
-    // Final filter: never keep assets with tombstoned assetIds
-    page.assets = Array.from(byId.values()).filter((a) => !deleted.has(a.assetId)).sort((a, b) => a.assetId.localeCompare(b.assetId));
+    // Apply onto the latest page (retried on conflict) to avoid resurrecting deleted assets
+    // Boxes corrected by hand win, as they do over assets/crop
+    const { manifestUrl: newManifestUrl, result: skippedEdited } = await updatePage(
+      manifestUrl,
+      pageNumber,
+      async (page, root) => {
+        const edited = new Set(page.assets.filter((a) => boxEdited(a)).map((a) => a.assetId));
+        const recorded = replaceEdited ? incoming : incoming.filter((a) => !edited.has(a.assetId));
+        mergePageAssets(page, recorded);
+        await addAssetText(page, recorded.map((a) => a.assetId));
 
-    // Add debug log
-    if (!Array.isArray(latest.debugLog)) latest.debugLog = [];
-    const timestamp = new Date().toISOString();
-    latest.debugLog.unshift(`[${timestamp}] RECORD-BULK: Page ${pageNumber}, recorded ${incoming.length} assets. Total on page: ${page.assets.length}.`);
-    if (latest.debugLog.length > 50) latest.debugLog = latest.debugLog.slice(0, 50);
+        // Add debug log
+        const timestamp = new Date().toISOString();
+        root.debugLog.unshift(`[${timestamp}] RECORD-BULK: Page ${pageNumber}, recorded ${recorded.length} assets. Total on page: ${page.assets.length}.`);
+        if (root.debugLog.length > 50) root.debugLog = root.debugLog.slice(0, 50);
+        return incoming.filter((a) => !recorded.includes(a)).map((a) => a.assetId);
+      },
+      { projectId, journal: journalFromRequest(req) }
+    );
 
-    const newManifestUrl = await saveManifest(latest);
-    return NextResponse.json({ ok: true, manifestUrl: newManifestUrl, pageNumber, count: incoming.length });
+    return NextResponse.json({
+      ok: true,
+      manifestUrl: newManifestUrl,
+      pageNumber,
+      count: incoming.length - skippedEdited.length,
+      // Hand-edited assets left as they are
+      skippedEdited
+    });
   } catch (e) {
+    if (isManifestError(e)) return manifestErrorResponse(e);
+    if (e instanceof ValidationError) return validationErrorResponse(e);
     return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : String(e) }, { status: 500 });
   }
 }
@@ -1,65 +1,62 @@
 import { NextResponse } from "next/server";
-import { saveManifest, fetchManifestDirect, type ProjectManifest } from "@/app/lib/manifest";
+import { z } from "zod";
+import { updatePage, ManifestUpdateRejected } from "@/app/lib/manifest";
+import { journalFromRequest } from "@/app/lib/manifest-journal";
+import { ASSET_CATEGORIES } from "@/app/lib/asset-categories";
+import { boxEdited } from "@/app/lib/asset-edits";
+import { assetBBoxSchema } from "@/app/lib/manifest-schema";
+import { mergePageAssets } from "@/app/lib/page-assets";
+import { addAssetText } from "@/app/lib/page-text";
+import {
+  isManifestError,
+  manifestErrorResponse,
+  pageNumberField,
+  parseJsonBody,
+  requiredString,
+  ValidationError,
+  validationErrorResponse
+} from "@/app/lib/validation";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type AssetBBox = { x: number; y: number; w: number; h: number };
-
-type Body = {
-  projectId?: string;
-  manifestUrl?: string;
-  pageNumber?: number;
-  assetId?: string;
-  url?: string;
-  bbox?: AssetBBox;
-};
+const Body = z.object({
+  projectId: requiredString,
+  manifestUrl: requiredString,
+  pageNumber: pageNumberField,
+  assetId: requiredString,
+  url: requiredString,
+  bbox: assetBBoxSchema,
+  category: z.enum(ASSET_CATEGORIES).optional(),
+  // Replace the asset even if its box was edited by hand (see asset-edits.ts)
+  replaceEdited: z.boolean().optional()
+});
 
 export async function POST(req: Request): Promise<Response> {
-  let body: Body;
-  try {
-    body = (await req.json()) as Body;
-  } catch {
-    return NextResponse.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
-  }
-
-  const projectId = String(body.projectId || "").trim();
-  const manifestUrl = String(body.manifestUrl || "").trim();
-  const pageNumber = Number(body.pageNumber || 0);
-  const assetId = String(body.assetId || "").trim();
-  const url = String(body.url || "").trim();
-  const bbox = body.bbox;
-
-  if (!projectId || !manifestUrl || !pageNumber || !assetId || !url || !bbox) {
-    return NextResponse.json({ ok: false, error: "Missing fields" }, { status: 400 });
-  }
+  const parsed = await parseJsonBody(req, Body);
+  if (!parsed.ok) return parsed.response;
+  const { projectId, manifestUrl, pageNumber, assetId, url, bbox, category, replaceEdited } = parsed.body;
 
-  // Re-fetch latest manifest before saving to avoid resurrecting deleted assets
-  const latest = await fetchManifestDirect(manifestUrl);
-  if (latest.projectId !== projectId) {
-    return NextResponse.json({ ok: false, error: "projectId does not match manifest" }, { status: 400 });
-  }
-  if (!Array.isArray(latest.pages)) {
-    return NextResponse.json({ ok: false, error: "Manifest has no pages[]" }, { status: 400 });
-  }
-  const page = latest.pages.find((p) => p.pageNumber === pageNumber);
-  if (!page) {
-    return NextResponse.json({ ok: false, error: `Page ${pageNumber} not found` }, { status: 400 });
-  }
-  // Respect tombstones: never resurrect a deleted assetId.
-  if (Array.isArray(page.deletedAssetIds) && page.deletedAssetIds.includes(assetId)) {
-    return NextResponse.json({ ok: true, manifestUrl });
-  }
-  if (!Array.isArray(page.assets)) page.assets = [];
-  const idx = page.assets.findIndex((a) => a.assetId === assetId);
-  const asset = { assetId, url, bbox };
-  if (idx >= 0) page.assets[idx] = asset;
-  else page.assets.push(asset);
-  // Final filter: never keep assets with tombstoned assetIds
-  if (Array.isArray(page.deletedAssetIds)) {
-    const deleted = new Set(page.deletedAssetIds);
-    page.assets = page.assets.filter((a) => !deleted.has(a.assetId));
+  try {
+    // Apply onto the latest page (retried on conflict) to avoid resurrecting deleted assets
+    const { manifestUrl: newManifestUrl } = await updatePage(
+      manifestUrl,
+      pageNumber,
+      async (page) => {
+        if (!replaceEdited && boxEdited(page.assets.find((a) => a.assetId === assetId))) {
+          throw new ManifestUpdateRejected(`Asset ${assetId} was edited by hand; pass replaceEdited to replace it`, 409);
+        }
+        // Keeps what the asset already has (tags, history); never resurrects
+        // a deleted assetId
+        mergePageAssets(page, [{ assetId, url, bbox, category }]);
+        await addAssetText(page, [assetId]);
+      },
+      { projectId, journal: journalFromRequest(req) }
+    );
+    return NextResponse.json({ ok: true, manifestUrl: newManifestUrl });
+  } catch (e) {
+    if (isManifestError(e)) return manifestErrorResponse(e);
+    if (e instanceof ValidationError) return validationErrorResponse(e);
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : String(e) }, { status: 500 });
   }
-  const newManifestUrl = await saveManifest(latest);
-  return NextResponse.json({ ok: true, manifestUrl: newManifestUrl });
 }
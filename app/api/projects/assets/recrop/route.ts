@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { applyCrop, assetsById, cropForEdit, editBoxSchema } from "@/app/lib/asset-edits";
+import { fetchPageDirect, updatePage } from "@/app/lib/manifest";
+import { journalFromRequest } from "@/app/lib/manifest-journal";
+import { addAssetText } from "@/app/lib/page-text";
+import { getProjectStore, moveToTrash } from "@/app/lib/store";
+import {
+  isManifestError,
+  manifestErrorResponse,
+  pageNumberField,
+  parseJsonBody,
+  requiredString,
+  ValidationError,
+  validationErrorResponse
+} from "@/app/lib/validation";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const Body = z.object({
+  projectId: requiredString,
+  manifestUrl: requiredString,
+  pageNumber: pageNumberField,
+  assetId: requiredString,
+  // The new box, cut as is; without one the asset's own box is cut again
+  // from the current page image
+  bbox: editBoxSchema.optional()
+});
+
+// Move or resize an asset's box, or regenerate its crop
+export async function POST(req: Request): Promise<Response> {
+  try {
+    const parsed = await parseJsonBody(req, Body);
+    if (!parsed.ok) return parsed.response;
+    const { projectId, manifestUrl, pageNumber, assetId, bbox } = parsed.body;
+
+    const { root, page } = await fetchPageDirect(manifestUrl, pageNumber);
+    if (root.projectId !== projectId) {
+      return NextResponse.json({ ok: false, error: "projectId does not match manifest" }, { status: 400 });
+    }
+    if (!page) return NextResponse.json({ ok: false, error: `Page ${pageNumber} not found` }, { status: 404 });
+    const [asset] = assetsById(page, [assetId]);
+
+    const [crop] = await cropForEdit(projectId, page, [{ assetId, bbox: bbox ?? asset.bbox }]);
+
+    const { manifestUrl: newManifestUrl, page: saved, result: oldUrl } = await updatePage(
+      manifestUrl,
+      pageNumber,
+      async (latest, latestRoot) => {
+        const [target] = assetsById(latest, [assetId]);
+        const oldUrl = target.url;
+        const timestamp = new Date().toISOString();
+        applyCrop(target, crop, { timestamp, action: "recrop" });
+        await addAssetText(latest, [assetId]);
+
+        latestRoot.debugLog.unshift(`[${timestamp}] RECROP ${assetId} (p${pageNumber}): ${bbox ? "new box" : "same box"} ${JSON.stringify(crop.bbox)}.`);
+        if (latestRoot.debugLog.length > 50) latestRoot.debugLog = latestRoot.debugLog.slice(0, 50);
+        return oldUrl;
+      },
+      { projectId, journal: journalFromRequest(req) }
+    );
+
+    // Trashed rather than dropped so a manifest rollback can restore it
+    if (oldUrl && oldUrl !== crop.url) await moveToTrash(getProjectStore(), projectId, [oldUrl]);
+
+    return NextResponse.json({
+      ok: true,
+      manifestUrl: newManifestUrl,
+      asset: saved.assets.find((a) => a.assetId === assetId)
+    });
+  } catch (e) {
+    if (isManifestError(e)) return manifestErrorResponse(e);
+    if (e instanceof ValidationError) return validationErrorResponse(e);
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : String(e) }, { status: 500 });
+  }
+}
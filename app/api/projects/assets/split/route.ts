@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { applyCrop, assetsById, cropForEdit, editBoxSchema, newAssetIds } from "@/app/lib/asset-edits";
+import { fetchPageDirect, updatePage, ManifestUpdateRejected } from "@/app/lib/manifest";
+import { journalFromRequest } from "@/app/lib/manifest-journal";
+import { addAssetText } from "@/app/lib/page-text";
+import { getProjectStore, moveToTrash } from "@/app/lib/store";
+import {
+  isManifestError,
+  manifestErrorResponse,
+  pageNumberField,
+  parseJsonBody,
+  requiredString,
+  ValidationError,
+  validationErrorResponse
+} from "@/app/lib/validation";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const Body = z.object({
+  projectId: requiredString,
+  manifestUrl: requiredString,
+  pageNumber: pageNumberField,
+  assetId: requiredString,
+  // One box per new asset, in page pixels
+  boxes: z.array(editBoxSchema).min(2, "Split needs at least two boxes")
+});
+
+// Cut one asset into several. The parts get new ids and keep the original's
+// tags, category and history; the original is deleted and tombstoned.
+export async function POST(req: Request): Promise<Response> {
+  try {
+    const parsed = await parseJsonBody(req, Body);
+    if (!parsed.ok) return parsed.response;
+    const { projectId, manifestUrl, pageNumber, assetId, boxes } = parsed.body;
+
+    const { root, page } = await fetchPageDirect(manifestUrl, pageNumber);
+    if (root.projectId !== projectId) {
+      return NextResponse.json({ ok: false, error: "projectId does not match manifest" }, { status: 400 });
+    }
+    if (!page) return NextResponse.json({ ok: false, error: `Page ${pageNumber} not found` }, { status: 404 });
+    assetsById(page, [assetId]);
+
+    const ids = newAssetIds(page, boxes);
+    const crops = await cropForEdit(projectId, page, boxes.map((bbox, i) => ({ assetId: ids[i], bbox })));
+
+    const { manifestUrl: newManifestUrl, page: saved, result: oldUrl } = await updatePage(
+      manifestUrl,
+      pageNumber,
+      async (latest, latestRoot) => {
+        const [original] = assetsById(latest, [assetId]);
+        const taken = new Set([...latest.assets.map((a) => a.assetId), ...latest.deletedAssetIds]);
+        if (ids.some((id) => taken.has(id))) {
+          throw new ManifestUpdateRejected(`Page ${pageNumber} changed while splitting ${assetId}; try again`, 409);
+        }
+
+        const timestamp = new Date().toISOString();
+        const parts = crops.map((crop) => {
+          const part = { ...structuredClone(original), assetId: crop.assetId };
+          applyCrop(part, crop, { timestamp, action: "split", from: [assetId] });
+          return part;
+        });
+        latest.assets = [...latest.assets.filter((a) => a.assetId !== assetId), ...parts].sort((a, b) =>
+          a.assetId.localeCompare(b.assetId)
+        );
+        // So a later crop run doesn't bring the whole box back
+        if (!latest.deletedAssetIds.includes(assetId)) latest.deletedAssetIds.push(assetId);
+        await addAssetText(latest, ids);
+
+        latestRoot.debugLog.unshift(`[${timestamp}] SPLIT ${assetId} (p${pageNumber}) into ${ids.join(", ")}.`);
+        if (latestRoot.debugLog.length > 50) latestRoot.debugLog = latestRoot.debugLog.slice(0, 50);
+        return original.url;
+      },
+      { projectId, journal: journalFromRequest(req) }
+    );
+
+    // Trashed rather than dropped so a manifest rollback can restore it
+    if (oldUrl) await moveToTrash(getProjectStore(), projectId, [oldUrl]);
+
+    return NextResponse.json({
+      ok: true,
+      manifestUrl: newManifestUrl,
+      assets: saved.assets.filter((a) => ids.includes(a.assetId))
+    });
+  } catch (e) {
+    if (isManifestError(e)) return manifestErrorResponse(e);
+    if (e instanceof ValidationError) return validationErrorResponse(e);
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : String(e) }, { status: 500 });
+  }
+}
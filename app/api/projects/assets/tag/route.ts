@@ -1,690 +1,47 @@
 import { NextResponse } from "next/server";
-import { saveManifest, type ProjectManifest, type PageAsset } from "@/app/lib/manifest";
-import { GoogleGenerativeAI, type GenerativeModel } from "@google/generative-ai";
+import { z } from "zod";
+import { tagAssets, TAG_TIME_BUDGET_MS } from "@/app/lib/asset-tagging";
+import { journalFromRequest } from "@/app/lib/manifest-journal";
+import {
+  isManifestError,
+  manifestErrorResponse,
+  parseJsonBody,
+  requiredString,
+  ValidationError,
+  validationErrorResponse
+} from "@/app/lib/validation";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type Body = {
-  projectId?: string;
-  manifestUrl?: string;
-  overwrite?: boolean;
-  limitAssets?: number; // optional safety
-};
-
-type TagUpdate = { pageNumber: number; assetId: string; tags: string[]; rationale: string };
-type TagError = { pageNumber: number; assetId: string; error: string };
-
-function mustEnv(name: string): string {
-  const v = process.env[name];
-  if (!v || !String(v).trim()) throw new Error(`Missing ${name}`);
-  return String(v).trim();
-}
-
-function optEnv(name: string, fallback: string): string {
-  const v = process.env[name];
-  return v && String(v).trim() ? String(v).trim() : fallback;
-}
-
-function baseUrl(u: string) {
-  const url = new URL(u);
-  return `${url.origin}${url.pathname}`;
-}
-
-async function readErrorText(res: Response) {
-  try {
-    const t = await res.text();
-    return t || `${res.status} ${res.statusText}`;
-  } catch {
-    return `${res.status} ${res.statusText}`;
-  }
-}
-
-async function fetchJson<T>(url: string): Promise<T> {
-  const res = await fetch(`${baseUrl(url)}?v=${Date.now()}`, { cache: "no-store" });
-  if (!res.ok) throw new Error(`Fetch failed (${res.status}): ${await readErrorText(res)}`);
-  return (await res.json()) as T;
-}
-
-async function fetchText(url: string): Promise<string> {
-  const res = await fetch(`${baseUrl(url)}?v=${Date.now()}`, { cache: "no-store" });
-  if (!res.ok) throw new Error(`Fetch failed (${res.status}): ${await readErrorText(res)}`);
-  return await res.text();
-}
-
-function clampInt(n: number, min: number, max: number) {
-  return Math.max(min, Math.min(max, n));
-}
-
-function safeParseJsonFromText(raw: string): unknown {
-  const t = raw.trim();
-  if (!t) return null;
-
-  // 1) ```json ... ```
-  const fence = t.match(/```json\s*([\s\S]*?)\s*```/i);
-  if (fence?.[1]) {
-    try {
-      return JSON.parse(fence[1].trim());
-    } catch {
-      // fall through
-    }
-  }
-
-  // 2) first {...} block
-  const firstObj = t.match(/\{[\s\S]*\}/);
-  if (firstObj?.[0]) {
-    try {
-      return JSON.parse(firstObj[0]);
-    } catch {
-      // fall through
-    }
-  }
-
-  // 3) try whole text
-  try {
-    return JSON.parse(t);
-  } catch {
-    return null;
-  }
-}
-
-function uniqCleanTags(tags: unknown, maxTags: number): string[] {
-  const out: string[] = [];
-  const seen = new Set<string>();
-
-  if (!Array.isArray(tags)) return out;
-
-  for (const v of tags) {
-    if (typeof v !== "string") continue;
-    const s = v.trim().replace(/\s+/g, " ");
-    if (!s) continue;
-    const key = s.toLowerCase();
-    if (seen.has(key)) continue;
-    seen.add(key);
-    out.push(s);
-    if (out.length >= maxTags) break;
-  }
-
-  return out;
-}
-
-function getPageTextFallback(fullText: string, pageNumber: number): string {
-  // If you later store per-page text, replace this.
-  // For now: return a window around "Page X" markers or just first N chars.
-  const marker = new RegExp(`\\bpage\\s*${pageNumber}\\b`, "i");
-  const idx = fullText.search(marker);
-  if (idx >= 0) {
-    const start = clampInt(idx - 2500, 0, fullText.length);
-    const end = clampInt(idx + 2500, 0, fullText.length);
-    return fullText.slice(start, end);
-  }
-  return fullText.slice(0, 5000);
-}
-
-function buildPrompt(args: {
-  aiRules: string;
-  taggingJson: string;
-  pageNumber: number;
-  assetId: string;
-  pageText: string;
-  maxTags: number;
-}) {
-  const { aiRules, taggingJson, pageNumber, assetId, pageText, maxTags } = args;
-
-  return [
-    `SYSTEM RULES (follow strictly):`,
-    aiRules,
-    ``,
-    `TAGGING CONFIG (JSON, use as constraints):`,
-    taggingJson,
-    ``,
-    `TASK: You are tagging ONE cropped image asset extracted from a PDF page.`,
-    `Analyze the IMAGE provided to understand what it shows visually.`,
-    `Use the PAGE TEXT below for context about what this image relates to in the document.`,
-    `You must output ONLY valid JSON (no markdown).`,
-    ``,
-    `CONTEXT:`,
-    `- pageNumber: ${pageNumber}`,
-    `- assetId: ${assetId}`,
-    ``,
-    `PAGE TEXT (use for context about what this image relates to):`,
-    pageText,
-    ``,
-    `TAGGING APPROACH:`,
-    `1. Look at the image to understand what it visually depicts (objects, scenes, diagrams, etc.)`,
-    `2. Use the page text to understand the context (what topic/section this image belongs to)`,
-    `3. Combine visual + contextual understanding into meaningful tags`,
-    ``,
-    `OUTPUT SCHEMA (JSON):`,
-    `{`,
-    `  "tags": ["..."],`,
-    `  "rationale": "short reason grounded in page text"`,
-    `}`,
-    ``,
-    `RULES:`,
-    `- tags must be short, lowercase preferred, comma-free strings`,
-    `- max ${maxTags} tags`,
-    `- if uncertain, output fewer tags (not guesses)`,
-    `- rationale should mention what you see in the image AND how it relates to the page text`
-  ].join("\n");
-}
-
-async function fetchImageAsBase64(url: string): Promise<{ base64: string; mimeType: string }> {
-  // Don't use baseUrl() here - Vercel Blob URLs need their query params
-  const fetchUrl = new URL(url);
-  fetchUrl.searchParams.set("v", String(Date.now()));
-  
-  const res = await fetch(fetchUrl.toString(), { cache: "no-store" });
-  if (!res.ok) throw new Error(`Failed to fetch image: ${res.status}`);
-  
-  const contentType = res.headers.get("content-type") || "image/png";
-  const buffer = await res.arrayBuffer();
-  const base64 = Buffer.from(buffer).toString("base64");
-  
-  return { base64, mimeType: contentType };
-}
-
-async function geminiGenerateWithImage(
-  model: GenerativeModel,
-  prompt: string,
-  imageBase64: string,
-  imageMimeType: string
-) {
-  let res;
-  try {
-    res = await model.generateContent({
-      contents: [
-        {
-          role: "user",
-          parts: [
-            { inlineData: { mimeType: imageMimeType, data: imageBase64 } },
-            { text: prompt }
-          ]
-        }
-      ],
-      generationConfig: {
-        temperature: 0.2,
-        topP: 0.9,
-        maxOutputTokens: 600
-      }
-    });
-  } catch (e) {
-    // Handle Gemini API errors (rate limits, content filtering, etc.)
-    const errMsg = e instanceof Error ? e.message : String(e);
-    if (errMsg.includes("pattern") || errMsg.includes("SAFETY") || errMsg.includes("blocked")) {
-      throw new Error(`Gemini content filter: ${errMsg}`);
-    }
-    if (errMsg.includes("429") || errMsg.includes("quota") || errMsg.includes("rate")) {
-      throw new Error(`Gemini rate limit: ${errMsg}`);
-    }
-    throw new Error(`Gemini API error: ${errMsg}`);
-  }
-
-  // Primary: response.text()
-  let text = "";
-  try {
-    text = res.response.text?.() ?? "";
-  } catch (e) {
-    // Sometimes .text() throws if blocked
-    const errMsg = e instanceof Error ? e.message : String(e);
-    throw new Error(`Gemini response error: ${errMsg}`);
-  }
-  
-  if (text && text.trim()) return { text, raw: res };
-
-  // Fallback: candidates parts
-  const anyRes = res as unknown as {
-    response?: { candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }> };
-  };
-
-  const parts = anyRes.response?.candidates?.[0]?.content?.parts ?? [];
-  const joined = parts.map((p) => (typeof p.text === "string" ? p.text : "")).join("");
-  if (joined && joined.trim()) return { text: joined, raw: res };
-
-  throw new Error("Gemini returned empty response text");
-}
-
-async function callGeminiTagger(args: {
-  apiKey: string;
-  modelName: string;
-  aiRules: string;
-  taggingJson: string;
-  pageNumber: number;
-  assetId: string;
-  assetUrl: string;
-  pageText: string;
-}) {
-  const { apiKey, modelName, aiRules, taggingJson, pageNumber, assetId, assetUrl, pageText } = args;
-
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({ model: modelName });
-
-  // Fetch the image for visual analysis
-  const { base64: imageBase64, mimeType: imageMimeType } = await fetchImageAsBase64(assetUrl);
-
-  // Read max_tags_per_image from taggingJson if present
-  let maxTags = 20;
-  try {
-    const cfg = JSON.parse(taggingJson) as unknown;
-    if (cfg && typeof cfg === "object") {
-      const mt = (cfg as Record<string, unknown>)["max_tags_per_image"];
-      if (typeof mt === "number" && Number.isFinite(mt) && mt > 0) maxTags = clampInt(mt, 1, 50);
-    }
-  } catch {
-    // ignore
-  }
-
-  const promptA = buildPrompt({ aiRules, taggingJson, pageNumber, assetId, pageText, maxTags });
-
-  // Retry strategy for empty/invalid JSON
-  const attempts: Array<{ prompt: string }> = [
-    { prompt: promptA },
-    {
-      prompt:
-        promptA +
-        `\n\nIMPORTANT: Output ONLY JSON. No markdown. If you cannot comply, output {"tags":[],"rationale":"could not analyze image"}.`
-    }
-  ];
-
-  let lastErr: Error | null = null;
-
-  for (let i = 0; i < attempts.length; i++) {
-    try {
-      const { text } = await geminiGenerateWithImage(model, attempts[i].prompt, imageBase64, imageMimeType);
-
-      const parsed = safeParseJsonFromText(text);
-      if (!parsed || typeof parsed !== "object") throw new Error("Gemini did not return valid JSON");
-
-      const obj = parsed as Record<string, unknown>;
-      const tags = uniqCleanTags(obj.tags, maxTags);
-      const rationale = typeof obj.rationale === "string" ? obj.rationale.trim() : "";
-
-      // Accept even empty tags if rationale exists; otherwise make a safe fallback
-      return {
-        tags,
-        rationale: rationale || (tags.length ? "tags inferred from image and context" : "could not determine tags")
-      };
-    } catch (e) {
-      lastErr = e instanceof Error ? e : new Error(String(e));
-    }
-  }
-
-  throw lastErr ?? new Error("Gemini tagger failed");
-}
-
-// Batch asset info for batch tagging
-type BatchAsset = {
-  pageNumber: number;
-  assetId: string;
-  assetUrl: string;
-  pageText: string;
-};
-
-type BatchResult = {
-  assetId: string;
-  tags: string[];
-  rationale: string;
-};
-
-function buildBatchPrompt(args: {
-  aiRules: string;
-  taggingJson: string;
-  assets: Array<{ assetId: string; pageNumber: number }>;
-  maxTags: number;
-}) {
-  const { aiRules, taggingJson, assets, maxTags } = args;
-
-  const assetList = assets.map((a, i) => `  Image ${i + 1}: assetId="${a.assetId}" (page ${a.pageNumber})`).join("\n");
-
-  return [
-    `SYSTEM RULES (follow strictly):`,
-    aiRules,
-    ``,
-    `TAGGING CONFIG (JSON, use as constraints):`,
-    taggingJson,
-    ``,
-    `TASK: You are tagging MULTIPLE cropped image assets extracted from a PDF.`,
-    `Analyze each IMAGE provided to understand what it shows visually.`,
-    `You must output ONLY valid JSON (no markdown).`,
-    ``,
-    `IMAGES TO TAG:`,
-    assetList,
-    ``,
-    `OUTPUT SCHEMA (JSON array):`,
-    `[`,
-    `  { "assetId": "...", "tags": ["..."], "rationale": "..." },`,
-    `  ...`,
-    `]`,
-    ``,
-    `RULES:`,
-    `- Output one object per image in the same order as provided`,
-    `- tags must be short, lowercase preferred, comma-free strings`,
-    `- max ${maxTags} tags per image`,
-    `- if uncertain, output fewer tags (not guesses)`,
-    `- rationale should mention what you see in the image`
-  ].join("\n");
-}
-
-async function callGeminiBatchTagger(args: {
-  apiKey: string;
-  modelName: string;
-  aiRules: string;
-  taggingJson: string;
-  assets: BatchAsset[];
-}): Promise<BatchResult[]> {
-  const { apiKey, modelName, aiRules, taggingJson, assets } = args;
-
-  if (assets.length === 0) return [];
-
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({ model: modelName });
-
-  // Read max_tags_per_image from taggingJson if present
-  let maxTags = 20;
-  try {
-    const cfg = JSON.parse(taggingJson) as unknown;
-    if (cfg && typeof cfg === "object") {
-      const mt = (cfg as Record<string, unknown>)["max_tags_per_image"];
-      if (typeof mt === "number" && Number.isFinite(mt) && mt > 0) maxTags = clampInt(mt, 1, 50);
-    }
-  } catch {
-    // ignore
-  }
-
-  // Fetch all images in parallel
-  const imagePromises = assets.map(async (a) => {
-    try {
-      const { base64, mimeType } = await fetchImageAsBase64(a.assetUrl);
-      return { assetId: a.assetId, base64, mimeType, error: null };
-    } catch (e) {
-      return { assetId: a.assetId, base64: null, mimeType: null, error: e instanceof Error ? e.message : String(e) };
-    }
-  });
-  const imageResults = await Promise.all(imagePromises);
-
-  // Filter out failed fetches
-  const validImages = imageResults.filter((r) => r.base64 !== null);
-  if (validImages.length === 0) {
-    // All failed - return empty results
-    return assets.map((a) => ({
-      assetId: a.assetId,
-      tags: [],
-      rationale: "failed to fetch image"
-    }));
-  }
-
-  const prompt = buildBatchPrompt({
-    aiRules,
-    taggingJson,
-    assets: validImages.map((v) => {
-      const orig = assets.find((a) => a.assetId === v.assetId)!;
-      return { assetId: v.assetId, pageNumber: orig.pageNumber };
-    }),
-    maxTags
-  });
-
-  // Build parts: prompt text + all images
-  const parts: Array<{ text: string } | { inlineData: { mimeType: string; data: string } }> = [
-    { text: prompt }
-  ];
-  for (const img of validImages) {
-    parts.push({ inlineData: { mimeType: img.mimeType!, data: img.base64! } });
-  }
-
-  try {
-    const res = await model.generateContent({
-      contents: [{ role: "user", parts }],
-      generationConfig: {
-        temperature: 0.2,
-        topP: 0.9,
-        maxOutputTokens: 4000
-      }
-    });
-
-    let text = "";
-    try {
-      text = res.response.text?.() ?? "";
-    } catch {
-      text = "";
-    }
-
-    const parsed = safeParseJsonFromText(text);
-    if (!parsed || !Array.isArray(parsed)) {
-      // Fallback: return empty for all
-      return assets.map((a) => ({
-        assetId: a.assetId,
-        tags: [],
-        rationale: "batch parse failed"
-      }));
-    }
-
-    // Map results back to assets
-    const results: BatchResult[] = [];
-    for (const a of assets) {
-      const match = (parsed as Array<Record<string, unknown>>).find(
-        (r) => r.assetId === a.assetId
-      );
-      if (match) {
-        results.push({
-          assetId: a.assetId,
-          tags: uniqCleanTags(match.tags, maxTags),
-          rationale: typeof match.rationale === "string" ? match.rationale : ""
-        });
-      } else {
-        results.push({
-          assetId: a.assetId,
-          tags: [],
-          rationale: "not found in batch response"
-        });
-      }
-    }
-    return results;
-  } catch (e) {
-    const errMsg = e instanceof Error ? e.message : String(e);
-    // Return error for all
-    return assets.map((a) => ({
-      assetId: a.assetId,
-      tags: [],
-      rationale: `batch error: ${errMsg}`
-    }));
-  }
-}
-
+const Body = z.object({
+  projectId: requiredString,
+  manifestUrl: requiredString,
+  // Re-tag tagged assets too. Assets whose tags were made from the same crop,
+  // page text and settings are still skipped unless `force` is set.
+  overwrite: z.boolean().optional().default(false),
+  // Without `overwrite`, re-tag tagged assets whose tags were made from
+  // inputs that have since changed. Tagged assets are left alone otherwise.
+  retagStale: z.boolean().optional().default(false),
+  force: z.boolean().optional().default(false),
+  limitAssets: z.number().int().nonnegative().optional().default(0), // optional safety; 0 = no limit
+  // Resume a run that hit the time limit: start at the previous response's nextAsset
+  fromAsset: z.object({ pageNumber: z.number().int().positive(), assetId: requiredString }).optional(),
+  // Callers with less time left (background jobs) can shorten the time limit
+  timeBudgetMs: z.number().int().positive().max(TAG_TIME_BUDGET_MS).optional()
+});
+
+// Tag assets with Gemini; see app/lib/asset-tagging.ts
 export async function POST(req: Request): Promise<Response> {
   try {
-    const body = (await req.json()) as Body;
-
-    const projectId = String(body.projectId || "").trim();
-    const manifestUrl = String(body.manifestUrl || "").trim();
-    const overwrite = Boolean(body.overwrite);
-    const limitAssets = typeof body.limitAssets === "number" && Number.isFinite(body.limitAssets) ? body.limitAssets : 0;
-
-    if (!projectId || !manifestUrl) {
-      return NextResponse.json({ ok: false, error: "Missing projectId/manifestUrl" }, { status: 400 });
-    }
-
-    let GEMINI_API_KEY: string;
-    try {
-      GEMINI_API_KEY = mustEnv("GEMINI_API_KEY");
-    } catch {
-      return NextResponse.json({ ok: false, error: "GEMINI_API_KEY not configured on server" }, { status: 500 });
-    }
-    // Default to a modern model name; you can override via env
-    const GEMINI_DETECT_MODEL = optEnv("GEMINI_DETECT_MODEL", "gemini-2.0-flash");
-    
-    // Log model being used for debugging
-    console.log(`[tag] Using model: ${GEMINI_DETECT_MODEL}`);
-
-    // NOTE: We will *not* save this manifest directly at the end.
-    // Tagging can take time, and the user may delete assets while it's running.
-    // If we save the stale manifest, we can resurrect deleted assets.
-    let manifest: ProjectManifest;
-    try {
-      manifest = await fetchJson<ProjectManifest>(manifestUrl);
-    } catch (e) {
-      const msg = e instanceof Error ? e.message : String(e);
-      return NextResponse.json({ ok: false, error: `Failed to fetch manifest: ${msg}` }, { status: 500 });
-    }
-
-    if (manifest.projectId !== projectId) {
-      return NextResponse.json({ ok: false, error: "projectId does not match manifest" }, { status: 400 });
-    }
-
-    if (!manifest.extractedText?.url) {
-      return NextResponse.json({ ok: false, error: "No extractedText in manifest. Please process the document first." }, { status: 400 });
-    }
-
-    if (!manifest.pages || !Array.isArray(manifest.pages) || manifest.pages.length === 0) {
-      return NextResponse.json({ ok: false, error: "No pages in manifest" }, { status: 400 });
-    }
-
-    // Full text (fallback) — later you can store per-page text in DocAI JSON
-    let fullText: string;
-    try {
-      fullText = await fetchText(manifest.extractedText.url);
-    } catch (e) {
-      const msg = e instanceof Error ? e.message : String(e);
-      return NextResponse.json({ ok: false, error: `Failed to fetch extracted text: ${msg}` }, { status: 500 });
-    }
-
-    const aiRules = manifest.settings?.aiRules ?? "";
-    const taggingJson = manifest.settings?.taggingJson ?? "{}";
-
-    let totalConsidered = 0;
-    let totalTagged = 0;
-    const updates: TagUpdate[] = [];
-    const errors: TagError[] = [];
-    
-    // Time limit to avoid Vercel timeout (leave 30s buffer for saving)
-    const startTime = Date.now();
-    const MAX_DURATION_MS = 270_000; // 270 seconds (4.5 min), Vercel limit is 300s
-    let timedOut = false;
-
-    // Batch size for processing multiple images in one API call
-    const BATCH_SIZE = 6;
-
-    // Collect all assets to tag first
-    const assetsToTag: (BatchAsset & { pageText: string })[] = [];
-    
-    for (const page of manifest.pages) {
-      const pageNumber = page.pageNumber;
-      const pageText = getPageTextFallback(fullText, pageNumber);
-      const deleted = new Set<string>(Array.isArray(page.deletedAssetIds) ? page.deletedAssetIds : []);
-      const assets = Array.isArray(page.assets) ? page.assets : [];
-
-      for (const asset of assets) {
-        if (deleted.has(asset.assetId)) continue;
-        totalConsidered += 1;
-        if (limitAssets > 0 && totalConsidered > limitAssets) break;
-
-        const alreadyTagged = Array.isArray(asset.tags) && asset.tags.length > 0;
-        if (alreadyTagged && !overwrite) continue;
-
-        assetsToTag.push({
-          pageNumber,
-          assetId: asset.assetId,
-          assetUrl: asset.url,
-          pageText
-        });
-      }
-
-      if (limitAssets > 0 && totalConsidered > limitAssets) break;
-    }
-
-    console.log(`[tag] Found ${assetsToTag.length} assets to tag in batches of ${BATCH_SIZE}`);
-
-    // Process in batches
-    for (let i = 0; i < assetsToTag.length; i += BATCH_SIZE) {
-      // Check time limit
-      if (Date.now() - startTime > MAX_DURATION_MS) {
-        console.log(`[tag] Time limit reached after ${totalTagged} assets`);
-        timedOut = true;
-        break;
-      }
-
-      const batch = assetsToTag.slice(i, i + BATCH_SIZE);
-      console.log(`[tag] Processing batch ${Math.floor(i / BATCH_SIZE) + 1}: ${batch.length} assets`);
-
-      try {
-        const batchResults = await callGeminiBatchTagger({
-          apiKey: GEMINI_API_KEY,
-          modelName: GEMINI_DETECT_MODEL,
-          aiRules,
-          taggingJson,
-          assets: batch
-        });
-
-        for (const result of batchResults) {
-          const orig = batch.find((b) => b.assetId === result.assetId);
-          if (!orig) continue;
-
-          if (result.tags.length > 0) {
-            updates.push({
-              pageNumber: orig.pageNumber,
-              assetId: result.assetId,
-              tags: result.tags,
-              rationale: result.rationale
-            });
-            totalTagged += 1;
-          } else if (result.rationale.includes("error") || result.rationale.includes("failed")) {
-            errors.push({
-              pageNumber: orig.pageNumber,
-              assetId: result.assetId,
-              error: result.rationale
-            });
-          }
-        }
-
-        // Small delay between batch API calls
-        await new Promise((resolve) => setTimeout(resolve, 200));
-      } catch (batchErr) {
-        const errMsg = batchErr instanceof Error ? batchErr.message : String(batchErr);
-        console.error(`[tag] Batch error:`, errMsg);
-        
-        // Record errors for each asset in the failed batch
-        for (const asset of batch) {
-          errors.push({
-            pageNumber: asset.pageNumber,
-            assetId: asset.assetId,
-            error: `batch failed: ${errMsg}`
-          });
-        }
-
-        // If rate limited, add a longer delay before continuing
-        if (errMsg.includes("rate") || errMsg.includes("429") || errMsg.includes("quota")) {
-          await new Promise((resolve) => setTimeout(resolve, 5000));
-        }
-      }
-    }
-
-    // Re-fetch latest manifest and merge tag updates onto it, so we don't
-    // overwrite concurrent changes like deletions.
-    const latest = await fetchJson<ProjectManifest>(manifestUrl);
-
-    for (const u of updates) {
-      const p = latest.pages?.find((x) => x.pageNumber === u.pageNumber);
-      if (!p) continue;
-      if (Array.isArray(p.deletedAssetIds) && p.deletedAssetIds.includes(u.assetId)) continue;
-      const a = p.assets?.find((x) => x.assetId === u.assetId);
-      if (!a) continue;
-      (a as PageAsset).tags = u.tags;
-      (a as PageAsset).tagRationale = u.rationale;
-    }
-
-    const newManifestUrl = await saveManifest(latest);
+    const parsed = await parseJsonBody(req, Body);
+    if (!parsed.ok) return parsed.response;
 
-    return NextResponse.json({
-      ok: true,
-      manifestUrl: newManifestUrl,
-      considered: totalConsidered,
-      tagged: totalTagged,
-      failed: errors.length,
-      errors: errors.length > 0 ? errors.slice(0, 10) : undefined, // Limit to first 10 errors
-      model: GEMINI_DETECT_MODEL,
-      timedOut,
-      message: timedOut ? `Partial results: tagged ${totalTagged} assets before time limit. Run again to continue.` : undefined
-    });
+    const result = await tagAssets(parsed.body, journalFromRequest(req));
+    return NextResponse.json({ ok: true, ...result });
   } catch (e) {
+    if (isManifestError(e)) return manifestErrorResponse(e);
+    if (e instanceof ValidationError) return validationErrorResponse(e);
     const msg = e instanceof Error ? e.message : String(e);
     return NextResponse.json({ ok: false, error: msg }, { status: 500 });
   }
@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { ASSET_CATEGORIES } from "@/app/lib/asset-categories";
+import { applyUpdate, assetsById } from "@/app/lib/asset-edits";
+import { updatePage } from "@/app/lib/manifest";
+import { journalFromRequest } from "@/app/lib/manifest-journal";
+import {
+  isManifestError,
+  manifestErrorResponse,
+  pageNumberField,
+  parseJsonBody,
+  requiredString,
+  ValidationError,
+  validationErrorResponse
+} from "@/app/lib/validation";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const Body = z
+  .object({
+    projectId: requiredString,
+    manifestUrl: requiredString,
+    pageNumber: pageNumberField,
+    assetId: requiredString,
+    // null clears it
+    category: z.enum(ASSET_CATEGORIES).nullable().optional(),
+    // Replace the tags; [] clears them
+    tags: z.array(z.string().trim().min(1)).optional()
+  })
+  .refine((b) => b.category !== undefined || b.tags !== undefined, { message: "Pass category or tags" });
+
+// Edit an asset's fields by hand
+export async function POST(req: Request): Promise<Response> {
+  try {
+    const parsed = await parseJsonBody(req, Body);
+    if (!parsed.ok) return parsed.response;
+    const { projectId, manifestUrl, pageNumber, assetId, category } = parsed.body;
+    const tags = parsed.body.tags && [...new Set(parsed.body.tags)];
+
+    const { manifestUrl: newManifestUrl } = await updatePage(
+      manifestUrl,
+      pageNumber,
+      (page, root) => {
+        const [asset] = assetsById(page, [assetId]);
+        applyUpdate(asset, { tags, category });
+
+        const changes = [
+          category !== undefined && `category ${category ?? "cleared"}`,
+          tags && (tags.length > 0 ? `tags ${tags.join(", ")}` : "tags cleared")
+        ].filter(Boolean);
+        const timestamp = new Date().toISOString();
+        root.debugLog.unshift(`[${timestamp}] UPDATE ${assetId} (p${pageNumber}): ${changes.join("; ")}.`);
+        if (root.debugLog.length > 50) root.debugLog = root.debugLog.slice(0, 50);
+      },
+      { projectId, journal: journalFromRequest(req) }
+    );
+
+    return NextResponse.json({ ok: true, manifestUrl: newManifestUrl });
+  } catch (e) {
+    if (isManifestError(e)) return manifestErrorResponse(e);
+    if (e instanceof ValidationError) return validationErrorResponse(e);
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : String(e) }, { status: 500 });
+  }
+}
@@ -1,9 +1,10 @@
 import { NextResponse } from "next/server";
 import { newManifest, saveManifest } from "@/app/lib/manifest";
+import { journalFromRequest } from "@/app/lib/manifest-journal";
 
-export async function POST() {
+export async function POST(req: Request) {
   const projectId = crypto.randomUUID();
   const manifest = newManifest(projectId);
-  const manifestUrl = await saveManifest(manifest);
+  const manifestUrl = await saveManifest(manifest, journalFromRequest(req));
   return NextResponse.json({ ok: true, projectId, manifestUrl });
 }
@@ -1,49 +1,26 @@
 import { NextResponse } from "next/server";
-import { del, list } from "@vercel/blob";
+import { z } from "zod";
+import { getProjectStore, projectPrefix } from "@/app/lib/store";
+import { parseJsonBody, requiredString } from "@/app/lib/validation";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type Body = { projectId?: string };
-
-type ListResult = {
-  blobs: Array<{ url: string; pathname?: string }>;
-  cursor?: string | null;
-};
+const Body = z.object({ projectId: requiredString });
 
 export async function POST(req: Request): Promise<Response> {
   try {
-    let body: Body;
-    try {
-      body = (await req.json()) as Body;
-    } catch {
-      return NextResponse.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
-    }
-
-    const projectId = (body.projectId || "").trim();
-    if (!projectId) {
-      return NextResponse.json({ ok: false, error: "Missing projectId" }, { status: 400 });
-    }
+    const parsed = await parseJsonBody(req, Body);
+    if (!parsed.ok) return parsed.response;
+    const { projectId } = parsed.body;
 
-    const prefix = `projects/${projectId}/`;
+    const prefix = projectPrefix(projectId);
+    const store = getProjectStore();
 
-    const urls: string[] = [];
-    let cursor: string | undefined = undefined;
-
-    for (;;) {
-      const page = (await list({ prefix, limit: 1000, cursor })) as unknown as ListResult;
-
-      for (const b of page.blobs) {
-        if (typeof b.url === "string" && b.url) urls.push(b.url);
-      }
-
-      const next = page.cursor ?? undefined;
-      cursor = typeof next === "string" && next.length > 0 ? next : undefined;
-      if (!cursor) break;
-    }
+    const urls = (await store.list(prefix)).map((b) => b.url);
 
     if (urls.length > 0) {
-      await del(urls);
+      await store.del(urls);
     }
 
     return NextResponse.json({ ok: true, deletedPrefix: prefix, deletedCount: urls.length });
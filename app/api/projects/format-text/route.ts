@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { GoogleGenerativeAI } from "@google/generative-ai";
-import { put } from "@vercel/blob";
-import { fetchManifestDirect, saveManifest } from "@/app/lib/manifest";
+import { z } from "zod";
+import { fetchManifestDirect, updateManifest } from "@/app/lib/manifest";
+import { journalFromRequest } from "@/app/lib/manifest-journal";
+import { structuredProjectText } from "@/app/lib/page-text";
+import { getProjectStore, projectPaths } from "@/app/lib/store";
+import { optionalString, parseJsonBody } from "@/app/lib/validation";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -9,27 +13,42 @@ export const dynamic = "force-dynamic";
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY || "";
 const GEMINI_DETECT_MODEL = process.env.GEMINI_DETECT_MODEL || "gemini-2.0-flash";
 
-type Body = {
-  projectId?: string;
-  manifestUrl?: string;
-  text?: string;
-};
+// projectId/manifestUrl are optional: when both are given the result is cached
+// on the project, and `text` may be left out to format the project's own text
+// page by page
+const Body = z
+  .object({
+    projectId: optionalString,
+    manifestUrl: optionalString,
+    text: optionalString
+  })
+  .refine((b) => b.text || (b.projectId && b.manifestUrl), {
+    message: "Missing text (or projectId and manifestUrl)",
+    path: ["text"]
+  });
 
 export async function POST(req: NextRequest) {
   try {
-    const body = (await req.json()) as Body;
-    const text = String(body.text || "").trim();
-    const projectId = body.projectId;
-    const manifestUrl = body.manifestUrl;
-
-    if (!text) {
-      return NextResponse.json({ ok: false, error: "Missing text" }, { status: 400 });
-    }
+    const parsed = await parseJsonBody(req, Body);
+    if (!parsed.ok) return parsed.response;
+    const { projectId, manifestUrl } = parsed.body;
+    let text = parsed.body.text;
 
     if (!GEMINI_API_KEY) {
       return NextResponse.json({ ok: false, error: "GEMINI_API_KEY not configured" }, { status: 500 });
     }
 
+    if (!text) {
+      const manifest = await fetchManifestDirect(manifestUrl);
+      if (manifest.projectId !== projectId) {
+        return NextResponse.json({ ok: false, error: "projectId does not match manifest" }, { status: 400 });
+      }
+      text = await structuredProjectText(manifest);
+      if (!text.trim()) {
+        return NextResponse.json({ ok: false, error: "No extracted text available. Process the sources first." }, { status: 400 });
+      }
+    }
+
     const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
     const model = genAI.getGenerativeModel({ model: GEMINI_DETECT_MODEL });
 
@@ -39,6 +58,8 @@ export async function POST(req: NextRequest) {
 - Headers/titles run together with body text
 - Inconsistent spacing
 
+Where the text has "--- Page N ---" markers, paragraphs within a page are already separated by blank lines and in reading order; keep the markers.
+
 Please reformat this text to be readable:
 1. Combine lines that should be single sentences/paragraphs
 2. Add proper paragraph breaks between distinct sections
@@ -59,16 +80,20 @@ ${text}
     if (projectId && manifestUrl) {
       try {
         // Save formatted text to blob
-        const formattedBlob = await put(
-          `projects/${projectId}/formatted-text.txt`,
+        const formattedBlob = await getProjectStore().put(
+          projectPaths.formattedText(projectId),
           formatted,
-          { access: "public", contentType: "text/plain", addRandomSuffix: false }
+          "text/plain"
         );
 
         // Update manifest with formatted text URL
-        const manifest = await fetchManifestDirect(manifestUrl);
-        manifest.formattedText = { url: formattedBlob.url };
-        const newManifestUrl = await saveManifest(manifest);
+        const { manifestUrl: newManifestUrl } = await updateManifest(
+          manifestUrl,
+          (manifest) => {
+            manifest.formattedText = { url: formattedBlob.url };
+          },
+          { projectId, journal: journalFromRequest(req) }
+        );
 
         return NextResponse.json({ ok: true, formatted, manifestUrl: newManifestUrl });
       } catch (cacheErr) {
@@ -0,0 +1,107 @@
+import { after, NextResponse } from "next/server";
+import { z } from "zod";
+import { fetchManifestDirect } from "@/app/lib/manifest";
+import { createJob, kickJob } from "@/app/lib/jobs";
+import { journalFromRequest } from "@/app/lib/manifest-journal";
+import { uploadSource } from "@/app/lib/manifest-sources";
+import { parsePipeline, pipelineSchema, type Pipeline } from "@/app/lib/pipeline";
+import { UnsupportedSourceError } from "@/app/lib/sources";
+import {
+  isManifestError,
+  manifestErrorResponse,
+  optionalJsonString,
+  optionalString,
+  parseFormBody,
+  parseJsonBody,
+  requiredString,
+  sourceIdField,
+  validate,
+  validationErrorResponse,
+  ValidationError
+} from "@/app/lib/validation";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Run the pipeline on sources already in the project
+const JsonBody = z.object({
+  projectId: requiredString,
+  manifestUrl: requiredString,
+  // Only this source's text and pages; default is the whole project
+  sourceId: z.string().trim().min(1).optional(),
+  // Default is the project's settings.pipelineJson
+  pipeline: pipelineSchema.optional()
+});
+
+// Upload a source first (as /api/projects/upload-source), then run the
+// pipeline on it. Without a projectId a new project is created.
+const FormBody = z.object({
+  file: z.instanceof(File, { message: "Expected a file" }),
+  projectId: optionalString,
+  manifestUrl: optionalString,
+  // Replace this source; default adds a new one
+  sourceId: z.union([z.literal(""), sourceIdField]).optional().default(""),
+  pipeline: optionalJsonString.optional()
+});
+
+type Ingest = { projectId: string; manifestUrl: string; sourceId?: string; pipeline?: Pipeline };
+
+async function uploadAndPlan(req: Request, body: z.output<typeof FormBody>): Promise<Ingest> {
+  // Checked before anything is uploaded
+  const pipeline = body.pipeline?.trim() ? validate(pipelineSchema, JSON.parse(body.pipeline), "pipeline") : undefined;
+  const projectId = body.projectId || crypto.randomUUID();
+  const uploaded = await uploadSource({ ...body, projectId }, journalFromRequest(req));
+  return {
+    projectId,
+    manifestUrl: uploaded.manifestUrl,
+    sourceId: uploaded.sourceId,
+    pipeline
+  };
+}
+
+// Run the whole chain (process, rasterize, detect, tag, fill, or the steps
+// the project's pipeline lists) as one background job. Steps whose outputs
+// are already current are skipped. Poll GET /api/jobs/{jobId}; the job's
+// result.steps reports each step's status.
+export async function POST(req: Request): Promise<Response> {
+  try {
+    let ingest: Ingest;
+    if ((req.headers.get("content-type") ?? "").includes("multipart/form-data")) {
+      const parsed = await parseFormBody(req, FormBody);
+      if (!parsed.ok) return parsed.response;
+      ingest = await uploadAndPlan(req, parsed.body);
+    } else {
+      const parsed = await parseJsonBody(req, JsonBody);
+      if (!parsed.ok) return parsed.response;
+      ingest = parsed.body;
+    }
+    const { projectId, manifestUrl, sourceId, pipeline } = ingest;
+
+    const manifest = await fetchManifestDirect(manifestUrl);
+    if (manifest.projectId !== projectId) {
+      return NextResponse.json({ ok: false, error: "projectId does not match manifest" }, { status: 400 });
+    }
+    if (sourceId && !manifest.sources.some((s) => s.sourceId === sourceId)) {
+      return NextResponse.json({ ok: false, error: `Unknown source ${sourceId}` }, { status: 404 });
+    }
+    // Fail now rather than in the job if the saved pipeline is broken
+    if (!pipeline) {
+      try {
+        parsePipeline(manifest.settings.pipelineJson);
+      } catch (e) {
+        return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : String(e) }, { status: 400 });
+      }
+    }
+
+    const job = await createJob(projectId, "ingest", manifestUrl, { sourceId, pipeline });
+    const origin = new URL(req.url).origin;
+    after(() => kickJob(job.jobId, origin));
+
+    return NextResponse.json({ ok: true, jobId: job.jobId, job, projectId, manifestUrl, sourceId }, { status: 202 });
+  } catch (e) {
+    if (e instanceof UnsupportedSourceError) return NextResponse.json({ ok: false, error: e.message }, { status: e.status });
+    if (isManifestError(e)) return manifestErrorResponse(e);
+    if (e instanceof ValidationError) return validationErrorResponse(e);
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : String(e) }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
-import { list } from "@vercel/blob";
+import { readStoredJson } from "@/app/lib/store";
+import { listManifests } from "@/app/lib/manifest";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -18,24 +19,20 @@ type Manifest = {
   projectId: string;
   createdAt: string;
   status: string;
+  sources?: Array<{ filename: string }>;
+  // Manifests from before v3
+  source?: { url: string; filename: string };
+  // Manifests from before v2
   sourcePdf?: { url: string; filename: string };
   extractedText?: { url: string };
+  pageShards?: Array<{ pageNumber: number }>;
+  // Manifests saved before page sharding
   pages?: Array<{ pageNumber: number; url: string }>;
 };
 
-type ListResult = {
-  blobs: Array<{ url: string; pathname?: string }>;
-  cursor?: string | null;
-};
-
 async function safeFetchManifest(url: string): Promise<Manifest | null> {
   try {
-    const res = await fetch(`${url}?v=${Date.now()}`, {
-      cache: "no-store",
-      headers: { "Cache-Control": "no-cache" }
-    });
-    if (!res.ok) return null;
-    const j = (await res.json()) as Manifest;
+    const j = await readStoredJson<Manifest>(url);
     if (!j?.projectId) return null;
     return j;
   } catch {
@@ -43,30 +40,13 @@ async function safeFetchManifest(url: string): Promise<Manifest | null> {
   }
 }
 
-export async function GET(): Promise<Response> {
-  const manifestBlobs: Array<{ url: string; pathname: string }> = [];
-
-  let cursor: string | undefined = undefined;
-
-  for (;;) {
-    const page = (await list({
-      prefix: "projects/",
-      limit: 1000,
-      cursor
-    })) as unknown as ListResult;
-
-    for (const b of page.blobs) {
-      const pathname = typeof b.pathname === "string" ? b.pathname : "";
-      if (pathname.endsWith("/manifest.json")) {
-        manifestBlobs.push({ url: b.url, pathname });
-      }
-    }
-
-    const next = page.cursor ?? undefined;
-    cursor = typeof next === "string" && next.length > 0 ? next : undefined;
+function sourceFilenames(m: Manifest): string {
+  if (m.sources?.length) return m.sources.map((s) => s.filename).join(", ");
+  return m.source?.filename || m.sourcePdf?.filename || "";
+}
 
-    if (!cursor) break;
-  }
+export async function GET(): Promise<Response> {
+  const manifestBlobs = await listManifests();
 
   const rows: ProjectRow[] = [];
 
@@ -79,8 +59,8 @@ export async function GET(): Promise<Response> {
       manifestUrl: mb.url,
       createdAt: m.createdAt || "",
       status: m.status || "",
-      filename: m.sourcePdf?.filename || "(no source)",
-      pagesCount: Array.isArray(m.pages) ? m.pages.length : 0,
+      filename: sourceFilenames(m) || "(no source)",
+      pagesCount: m.pageShards?.length ?? m.pages?.length ?? 0,
       hasText: !!m.extractedText?.url
     });
   }
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { listJournal } from "@/app/lib/manifest-journal";
+import { parseJsonBody, requiredString } from "@/app/lib/validation";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const Body = z.object({
+  projectId: requiredString,
+  limit: z.number().int().min(1).max(200).optional(),
+  // Only entries older than this revision (for paging back)
+  beforeRevision: z.number().int().positive().optional()
+});
+
+// Journal of manifest saves, newest first. Entries carry the changed paths
+// but not the full snapshot; pass a revision to /manifest/rollback to restore one.
+export async function POST(req: Request): Promise<Response> {
+  try {
+    const parsed = await parseJsonBody(req, Body);
+    if (!parsed.ok) return parsed.response;
+    const { projectId, limit, beforeRevision } = parsed.body;
+
+    const entries = await listJournal(projectId, { limit, beforeRevision });
+    return NextResponse.json({ ok: true, entries });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : String(e) }, { status: 500 });
+  }
+}
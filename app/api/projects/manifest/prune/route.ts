@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { fetchRawManifest, isShardedManifest } from "@/app/lib/manifest";
+import { pruneJournal } from "@/app/lib/manifest-journal";
+import { parseJsonBody, requiredString } from "@/app/lib/validation";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+const Body = z.object({
+  projectId: requiredString,
+  manifestUrl: requiredString,
+  // Journal entries to keep, newest first; without it only unreferenced shards go
+  keepRevisions: z.number().int().min(1).optional(),
+  // Only report what would be deleted
+  dryRun: z.boolean().optional()
+});
+
+// Drop old journal entries and the page shards nothing points at any more
+export async function POST(req: Request): Promise<Response> {
+  try {
+    const parsed = await parseJsonBody(req, Body);
+    if (!parsed.ok) return parsed.response;
+    const { projectId, manifestUrl, keepRevisions, dryRun } = parsed.body;
+
+    const raw = await fetchRawManifest(manifestUrl);
+    if ((raw as { projectId?: unknown }).projectId !== projectId) {
+      return NextResponse.json({ ok: false, error: "projectId does not match manifest" }, { status: 400 });
+    }
+
+    const { deletedRevisions, deletedShards } = await pruneJournal(projectId, isShardedManifest(raw) ? raw : {}, {
+      keepRevisions,
+      dryRun
+    });
+    return NextResponse.json({ ok: true, dryRun: !!dryRun, deletedRevisions, deletedShards });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : String(e) }, { status: 500 });
+  }
+}
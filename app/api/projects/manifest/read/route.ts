@@ -1,28 +1,23 @@
 import { NextResponse } from "next/server";
+import { z } from "zod";
 import { fetchManifestDirect } from "@/app/lib/manifest";
+import { parseJsonBody, requiredString, validationErrorResponse, ValidationError } from "@/app/lib/validation";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type Body = { manifestUrl?: string };
+const Body = z.object({ manifestUrl: requiredString });
 
 export async function POST(req: Request): Promise<Response> {
   try {
-    let body: Body;
-    try {
-      body = (await req.json()) as Body;
-    } catch {
-      return NextResponse.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
-    }
+    const parsed = await parseJsonBody(req, Body);
+    if (!parsed.ok) return parsed.response;
+    const { manifestUrl } = parsed.body;
 
-    const manifestUrlRaw = (body.manifestUrl || "").trim();
-    if (!manifestUrlRaw) {
-      return NextResponse.json({ ok: false, error: "Missing manifestUrl" }, { status: 400 });
-    }
-
-    const manifest = await fetchManifestDirect(manifestUrlRaw);
+    const manifest = await fetchManifestDirect(manifestUrl);
     return NextResponse.json({ ok: true, manifest });
   } catch (e) {
+    if (e instanceof ValidationError) return validationErrorResponse(e);
     return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : String(e) }, { status: 500 });
   }
 }
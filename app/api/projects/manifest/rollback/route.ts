@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { loadManifest, updateManifest } from "@/app/lib/manifest";
+import { journalFromRequest, readJournalEntry } from "@/app/lib/manifest-journal";
+import { getProjectStore, restoreFromTrash } from "@/app/lib/store";
+import {
+  isManifestError,
+  manifestErrorResponse,
+  parseJsonBody,
+  requiredString,
+  ValidationError,
+  validationErrorResponse
+} from "@/app/lib/validation";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const Body = z.object({
+  projectId: requiredString,
+  manifestUrl: requiredString,
+  // Journal entry to restore: the manifest goes back to how it was right after this save
+  revision: z.number().int().positive()
+});
+
+// Rollback is itself a save (a new revision with its own journal entry), so
+// it can be undone the same way.
+export async function POST(req: Request): Promise<Response> {
+  try {
+    const parsed = await parseJsonBody(req, Body);
+    if (!parsed.ok) return parsed.response;
+    const { projectId, manifestUrl, revision } = parsed.body;
+
+    const entry = await readJournalEntry(projectId, revision);
+    if (!entry) {
+      return NextResponse.json({ ok: false, error: `No journal entry for revision ${revision}` }, { status: 404 });
+    }
+
+    // Snapshots are stored as written, so older ones may need migrating
+    const restored = await loadManifest(entry.snapshot);
+
+    const { manifestUrl: newManifestUrl, manifest } = await updateManifest(
+      manifestUrl,
+      (latest) => {
+        const current = latest as Record<string, unknown>;
+        for (const k of Object.keys(current)) delete current[k];
+        Object.assign(latest, structuredClone(restored));
+
+        const timestamp = new Date().toISOString();
+        latest.debugLog.unshift(`[${timestamp}] ROLLBACK: Restored revision ${revision}.`);
+        if (latest.debugLog.length > 50) latest.debugLog = latest.debugLog.slice(0, 50);
+      },
+      { projectId, journal: journalFromRequest(req, `rollback to revision ${revision}`) }
+    );
+
+    // Bring back page/asset files deleted since then
+    const urls = manifest.pages.flatMap((p) => [p.url, ...p.assets.map((a) => a.url)]).filter(Boolean);
+    const missingFiles = await restoreFromTrash(getProjectStore(), projectId, urls);
+
+    return NextResponse.json({
+      ok: true,
+      manifestUrl: newManifestUrl,
+      restoredRevision: revision,
+      revision: manifest.revision,
+      missingFiles
+    });
+  } catch (e) {
+    if (isManifestError(e)) return manifestErrorResponse(e);
+    if (e instanceof ValidationError) return validationErrorResponse(e);
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : String(e) }, { status: 500 });
+  }
+}
@@ -0,0 +1,113 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { isLegacyAssetId } from "@/app/lib/asset-ids";
+import {
+  fetchRawManifest,
+  isShardedManifest,
+  listManifests,
+  loadManifest,
+  updateManifest,
+  type ProjectManifest
+} from "@/app/lib/manifest";
+import { journalFromRequest } from "@/app/lib/manifest-journal";
+import { CURRENT_MANIFEST_VERSION, manifestVersion, needsMigration } from "@/app/lib/manifest-migrations";
+import { validate, validationErrorResponse, ValidationError } from "@/app/lib/validation";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const Body = z.object({ dryRun: z.boolean().optional().default(false) });
+
+type MigrateRow = {
+  manifestUrl: string;
+  projectId: string;
+  fromVersion: number;
+  toVersion: number;
+  migrated: boolean;
+  // Tombstones left under positional ids, which only a box in the same
+  // position will match (see the v6 migration)
+  positionalTombstones?: number;
+  error?: string;
+};
+
+function positionalTombstones(manifest: ProjectManifest) {
+  return manifest.pages.reduce((n, p) => n + p.deletedAssetIds.filter(isLegacyAssetId).length, 0);
+}
+
+// Rewrites every stored manifest that is behind CURRENT_MANIFEST_VERSION or
+// still has its pages inline. Manifests are also upgraded lazily on read (and
+// sharded on their next save), so this is only needed to bring storage up to
+// date in one pass (e.g. before dropping an old migration).
+export async function POST(req: Request): Promise<Response> {
+  let rawBody: unknown = {};
+  try {
+    rawBody = await req.json();
+  } catch {
+    // empty body is fine
+  }
+
+  let dryRun: boolean;
+  try {
+    ({ dryRun } = validate(Body, rawBody, "request body"));
+  } catch (e) {
+    if (e instanceof ValidationError) return validationErrorResponse(e);
+    throw e;
+  }
+
+  const rows: MigrateRow[] = [];
+
+  for (const mb of await listManifests()) {
+    let raw: unknown;
+    try {
+      raw = await fetchRawManifest(mb.url);
+    } catch (e) {
+      rows.push({
+        manifestUrl: mb.url,
+        projectId: "",
+        fromVersion: 0,
+        toVersion: CURRENT_MANIFEST_VERSION,
+        migrated: false,
+        error: e instanceof Error ? e.message : String(e)
+      });
+      continue;
+    }
+
+    const fromVersion = manifestVersion(raw);
+    const projectId = String((raw as { projectId?: unknown })?.projectId ?? "");
+    // Unsharded manifests are rewritten too, which moves their pages into shards
+    if (!needsMigration(raw) && isShardedManifest(raw)) continue;
+
+    const row: MigrateRow = {
+      manifestUrl: mb.url,
+      projectId,
+      fromVersion,
+      toVersion: CURRENT_MANIFEST_VERSION,
+      migrated: false
+    };
+
+    try {
+      if (dryRun) {
+        row.positionalTombstones = positionalTombstones(await loadManifest(raw));
+      } else {
+        // updateManifest reads through migrateManifest, so a no-op mutation
+        // persists the upgraded shape.
+        const { manifest } = await updateManifest(mb.url, () => {}, {
+          journal: journalFromRequest(req, "batch migration")
+        });
+        row.migrated = true;
+        row.positionalTombstones = positionalTombstones(manifest);
+      }
+    } catch (e) {
+      row.error = e instanceof Error ? e.message : String(e);
+    }
+
+    rows.push(row);
+  }
+
+  return NextResponse.json({
+    ok: rows.every((r) => !r.error),
+    dryRun,
+    currentVersion: CURRENT_MANIFEST_VERSION,
+    projects: rows
+  });
+}
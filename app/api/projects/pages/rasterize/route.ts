@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { journalFromRequest } from "@/app/lib/manifest-journal";
+import { rasterizePages, RASTERIZE_TIME_BUDGET_MS } from "@/app/lib/rasterize-pages";
+import { MAX_RASTER_DPI, MIN_RASTER_DPI } from "@/app/lib/sources/pdf";
+import {
+  isManifestError,
+  manifestErrorResponse,
+  pageNumberField,
+  parseJsonBody,
+  requiredString,
+  ValidationError,
+  validationErrorResponse
+} from "@/app/lib/validation";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+const Body = z
+  .object({
+    projectId: requiredString,
+    manifestUrl: requiredString,
+    // Rasterize just this source; default is every PDF source
+    sourceId: z.string().trim().min(1).optional(),
+    dpi: z.number().int().min(MIN_RASTER_DPI).max(MAX_RASTER_DPI).optional(),
+    // Project page numbers to render, inclusive. Pass a previous response's
+    // nextPage as fromPage to resume.
+    fromPage: pageNumberField.optional(),
+    toPage: pageNumberField.optional(),
+    // Callers with less time left (background jobs) can shorten the budget
+    timeBudgetMs: z.number().int().positive().max(RASTERIZE_TIME_BUDGET_MS).optional(),
+    // Render pages already rendered from the same file at the same DPI too
+    force: z.boolean().optional()
+  })
+  .refine((b) => !b.fromPage || !b.toPage || b.fromPage <= b.toPage, {
+    message: "fromPage must not be after toPage",
+    path: ["toPage"]
+  });
+
+// Render PDF pages to PNGs; see app/lib/rasterize-pages.ts
+export async function POST(req: Request): Promise<Response> {
+  try {
+    const parsed = await parseJsonBody(req, Body);
+    if (!parsed.ok) return parsed.response;
+
+    const result = await rasterizePages(parsed.body, journalFromRequest(req));
+    return NextResponse.json({ ok: true, ...result });
+  } catch (e) {
+    if (isManifestError(e)) return manifestErrorResponse(e);
+    if (e instanceof ValidationError) return validationErrorResponse(e);
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : String(e) }, { status: 500 });
+  }
+}
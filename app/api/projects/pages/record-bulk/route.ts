@@ -1,88 +1,88 @@
 import { NextResponse } from "next/server";
-import { saveManifest, fetchManifestDirect, type ProjectManifest } from "@/app/lib/manifest";
+import { z } from "zod";
+import { updateManifest } from "@/app/lib/manifest";
+import { journalFromRequest } from "@/app/lib/manifest-journal";
+import { requireSource } from "@/app/lib/manifest-sources";
+import { rescalePageAssets } from "@/app/lib/page-assets";
+import {
+  isManifestError,
+  manifestErrorResponse,
+  pageNumberField,
+  parseJsonBody,
+  requiredString,
+  ValidationError,
+  validationErrorResponse
+} from "@/app/lib/validation";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type PageData = {
-  pageNumber: number;
-  url: string;
-  width: number;
-  height: number;
-};
+const PageData = z.object({
+  pageNumber: pageNumberField,
+  // Page number within the source document
+  sourcePageNumber: z.number().int().positive().optional(),
+  url: requiredString,
+  width: z.number().positive(),
+  height: z.number().positive()
+});
 
-type Body = {
-  projectId?: string;
-  manifestUrl?: string;
-  pages?: PageData[];
-};
+const Body = z.object({
+  projectId: requiredString,
+  manifestUrl: requiredString,
+  // Source document the pages were rendered from
+  sourceId: z.string().trim().min(1).optional(),
+  pages: z.array(PageData).min(1, "Missing or empty pages array")
+});
 
 export async function POST(req: Request): Promise<Response> {
-  let body: Body;
-  try {
-    body = (await req.json()) as Body;
-  } catch {
-    return NextResponse.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
-  }
-
-  const projectId = String(body.projectId || "").trim();
-  const manifestUrl = String(body.manifestUrl || "").trim();
-  const pages = body.pages;
-
-  if (!projectId || !manifestUrl) {
-    return NextResponse.json({ ok: false, error: "Missing projectId/manifestUrl" }, { status: 400 });
-  }
-
-  if (!Array.isArray(pages) || pages.length === 0) {
-    return NextResponse.json({ ok: false, error: "Missing or empty pages array" }, { status: 400 });
-  }
-
-  // Validate each page entry
-  for (const p of pages) {
-    if (!p.pageNumber || !p.url || !p.width || !p.height) {
-      return NextResponse.json({ ok: false, error: `Invalid page entry: ${JSON.stringify(p)}` }, { status: 400 });
-    }
-  }
+  const parsed = await parseJsonBody(req, Body);
+  if (!parsed.ok) return parsed.response;
+  const { projectId, manifestUrl, sourceId, pages } = parsed.body;
 
   try {
-    // Fetch the latest manifest
-    const manifest = await fetchManifestDirect(manifestUrl);
-    
-    if (manifest.projectId !== projectId) {
-      return NextResponse.json({ ok: false, error: "projectId does not match manifest" }, { status: 400 });
-    }
-
-    if (!Array.isArray(manifest.pages)) manifest.pages = [];
+    // Apply onto the latest manifest (retried on conflict)
+    const { manifestUrl: newManifestUrl } = await updateManifest(
+      manifestUrl,
+      (manifest) => {
+        if (sourceId) requireSource(manifest, sourceId);
 
-    // Add or update all pages
-    for (const pageData of pages) {
-      const idx = manifest.pages.findIndex((p) => p.pageNumber === pageData.pageNumber);
-      const page = {
-        pageNumber: pageData.pageNumber,
-        url: pageData.url,
-        width: pageData.width,
-        height: pageData.height
-      };
+        // Add or update all pages
+        for (const pageData of pages) {
+          const idx = manifest.pages.findIndex((p) => p.pageNumber === pageData.pageNumber);
+          const page = {
+            pageNumber: pageData.pageNumber,
+            url: pageData.url,
+            width: pageData.width,
+            height: pageData.height,
+            ...(sourceId ? { sourceId, sourcePageNumber: pageData.sourcePageNumber } : {}),
+            // Rendered elsewhere, so its inputs are unknown (see content-hash.ts)
+            inputsHash: undefined
+          };
 
-      if (idx >= 0) {
-        manifest.pages[idx] = { ...manifest.pages[idx], ...page };
-      } else {
-        manifest.pages.push(page);
-      }
-    }
+          if (idx >= 0) {
+            // Rendered at another scale: assets keep pointing at the same place
+            rescalePageAssets(manifest.pages[idx], page.width, page.height);
+            manifest.pages[idx] = { ...manifest.pages[idx], ...page };
+          } else {
+            manifest.pages.push({ ...page, assets: [], deletedAssetIds: [] });
+          }
+        }
 
-    // Sort pages by page number
-    manifest.pages.sort((a, b) => a.pageNumber - b.pageNumber);
+        // Sort pages by page number
+        manifest.pages.sort((a, b) => a.pageNumber - b.pageNumber);
 
-    // Add debug log
-    if (!Array.isArray(manifest.debugLog)) manifest.debugLog = [];
-    const timestamp = new Date().toISOString();
-    manifest.debugLog.unshift(`[${timestamp}] RECORD-BULK-PAGES: Added ${pages.length} pages`);
-    if (manifest.debugLog.length > 50) manifest.debugLog = manifest.debugLog.slice(0, 50);
+        // Add debug log
+        const timestamp = new Date().toISOString();
+        manifest.debugLog.unshift(`[${timestamp}] RECORD-BULK-PAGES: Added ${pages.length} pages`);
+        if (manifest.debugLog.length > 50) manifest.debugLog = manifest.debugLog.slice(0, 50);
+      },
+      { projectId, journal: journalFromRequest(req) }
+    );
 
-    const newManifestUrl = await saveManifest(manifest);
     return NextResponse.json({ ok: true, manifestUrl: newManifestUrl, pagesRecorded: pages.length });
   } catch (e) {
+    if (isManifestError(e)) return manifestErrorResponse(e);
+    if (e instanceof ValidationError) return validationErrorResponse(e);
     return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : String(e) }, { status: 500 });
   }
 }
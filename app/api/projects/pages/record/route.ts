@@ -1,53 +1,56 @@
 import { NextResponse } from "next/server";
-import { saveManifest, fetchManifestDirect, type ProjectManifest } from "@/app/lib/manifest";
+import { z } from "zod";
+import { updatePage } from "@/app/lib/manifest";
+import { journalFromRequest } from "@/app/lib/manifest-journal";
+import { rescalePageAssets } from "@/app/lib/page-assets";
+import {
+  isManifestError,
+  manifestErrorResponse,
+  pageNumberField,
+  parseJsonBody,
+  requiredString,
+  ValidationError,
+  validationErrorResponse
+} from "@/app/lib/validation";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type Body = {
-  projectId?: string;
-  manifestUrl?: string;
-  pageNumber?: number;
-  url?: string;
-  width?: number;
-  height?: number;
-};
+const Body = z.object({
+  projectId: requiredString,
+  manifestUrl: requiredString,
+  pageNumber: pageNumberField,
+  url: requiredString,
+  width: z.number().positive(),
+  height: z.number().positive(),
+  sourceId: z.string().trim().min(1).optional(),
+  sourcePageNumber: z.number().int().positive().optional()
+});
 
 export async function POST(req: Request): Promise<Response> {
-  let body: Body;
-  try {
-    body = (await req.json()) as Body;
-  } catch {
-    return NextResponse.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
-  }
-
-  const projectId = String(body.projectId || "").trim();
-  const manifestUrl = String(body.manifestUrl || "").trim();
-  const pageNumber = Number(body.pageNumber || 0);
-  const url = String(body.url || "").trim();
-  const width = Number(body.width || 0);
-  const height = Number(body.height || 0);
+  const parsed = await parseJsonBody(req, Body);
+  if (!parsed.ok) return parsed.response;
+  const { projectId, manifestUrl, pageNumber, url, width, height, sourceId, sourcePageNumber } = parsed.body;
 
-  if (!projectId || !manifestUrl || !pageNumber || !url || !width || !height) {
-    return NextResponse.json({ ok: false, error: "Missing fields" }, { status: 400 });
-  }
-
-  // Re-fetch latest manifest to avoid race conditions
-  const manifest = await fetchManifestDirect(manifestUrl);
-  if (manifest.projectId !== projectId) {
-    return NextResponse.json({ ok: false, error: "projectId does not match manifest" }, { status: 400 });
+  try {
+    // Apply onto the latest page (retried on conflict) to avoid race conditions
+    const { manifestUrl: newManifestUrl } = await updatePage(
+      manifestUrl,
+      pageNumber,
+      (page) => {
+        // Rendered at another scale: assets keep pointing at the same place
+        rescalePageAssets(page, width, height);
+        Object.assign(page, { url, width, height });
+        // Rendered elsewhere, so its inputs are unknown (see content-hash.ts)
+        delete page.inputsHash;
+        if (sourceId) Object.assign(page, { sourceId, sourcePageNumber });
+      },
+      { projectId, create: true, journal: journalFromRequest(req) }
+    );
+    return NextResponse.json({ ok: true, manifestUrl: newManifestUrl });
+  } catch (e) {
+    if (isManifestError(e)) return manifestErrorResponse(e);
+    if (e instanceof ValidationError) return validationErrorResponse(e);
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : String(e) }, { status: 500 });
   }
-
-  if (!Array.isArray(manifest.pages)) manifest.pages = [];
-
-  const idx = manifest.pages.findIndex((p) => p.pageNumber === pageNumber);
-  const page = { pageNumber, url, width, height };
-
-  if (idx >= 0) manifest.pages[idx] = { ...manifest.pages[idx], ...page };
-  else manifest.pages.push(page);
-
-  manifest.pages.sort((a, b) => a.pageNumber - b.pageNumber);
-
-  const newManifestUrl = await saveManifest(manifest);
-  return NextResponse.json({ ok: true, manifestUrl: newManifestUrl });
 }
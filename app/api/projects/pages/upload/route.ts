@@ -1,6 +1,18 @@
 import { NextResponse } from "next/server";
-import { put } from "@vercel/blob";
-import { saveManifest, type ProjectManifest, type PageImage } from "@/app/lib/manifest";
+import { z } from "zod";
+import { updatePage, type PageImage } from "@/app/lib/manifest";
+import { journalFromRequest } from "@/app/lib/manifest-journal";
+import { getProjectStore, projectPaths } from "@/app/lib/store";
+import {
+  isManifestError,
+  manifestErrorResponse,
+  optionalString,
+  pageNumberField,
+  parseFormBody,
+  requiredString,
+  ValidationError,
+  validationErrorResponse
+} from "@/app/lib/validation";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -10,68 +22,57 @@ function baseUrl(u: string) {
   return `${url.origin}${url.pathname}`;
 }
 
-export async function POST(req: Request) {
-  const form = await req.formData();
-
-  const file = form.get("file");
-  const projectId = String(form.get("projectId") || "");
-  const manifestUrlRaw = String(form.get("manifestUrl") || "");
-  const pageNumberStr = String(form.get("pageNumber") || "");
-  const widthStr = String(form.get("width") || "");
-  const heightStr = String(form.get("height") || "");
-
-  if (!projectId || !manifestUrlRaw || !pageNumberStr) {
-    return NextResponse.json({ ok: false, error: "Missing projectId/manifestUrl/pageNumber" }, { status: 400 });
-  }
-  if (!(file instanceof File)) {
-    return NextResponse.json({ ok: false, error: "Missing file" }, { status: 400 });
-  }
+// Unknown dimensions are sent as "" and recorded as 0
+const dimension = z.preprocess((v) => (v === undefined || v === "" ? 0 : v), z.coerce.number().nonnegative());
 
-  const pageNumber = Number(pageNumberStr);
-  const width = Number(widthStr);
-  const height = Number(heightStr);
+const Body = z.object({
+  file: z.instanceof(File, { message: "Expected a file" }),
+  projectId: requiredString,
+  manifestUrl: requiredString,
+  pageNumber: pageNumberField,
+  width: dimension,
+  height: dimension,
+  sourceId: optionalString,
+  sourcePageNumber: z.preprocess((v) => (v === "" ? undefined : v), z.coerce.number().int().positive().optional())
+});
 
-  if (!Number.isFinite(pageNumber) || pageNumber <= 0) {
-    return NextResponse.json({ ok: false, error: "Invalid pageNumber" }, { status: 400 });
-  }
+export async function POST(req: Request) {
+  const parsed = await parseFormBody(req, Body);
+  if (!parsed.ok) return parsed.response;
+  const { file, projectId, manifestUrl: manifestUrlRaw, pageNumber, width, height, sourceId, sourcePageNumber } = parsed.body;
 
   // Upload PNG
   const ab = await file.arrayBuffer();
-  const pngBlob = await put(`projects/${projectId}/pages/page-${pageNumber}.png`, ab, {
-    access: "public",
-    contentType: "image/png",
-    addRandomSuffix: false
-  });
-
-  // Fetch manifest (cache-bust)
-  const manifestUrl = baseUrl(manifestUrlRaw);
-  const mRes = await fetch(`${manifestUrl}?v=${Date.now()}`, {
-    cache: "no-store",
-    headers: { "Cache-Control": "no-cache" }
-  });
-  if (!mRes.ok) {
-    return NextResponse.json({ ok: false, error: `Cannot fetch manifest (${mRes.status})` }, { status: 400 });
-  }
-  const manifest = (await mRes.json()) as ProjectManifest;
-
-  const pages = Array.isArray(manifest.pages) ? manifest.pages.slice() : [];
+  const pngBlob = await getProjectStore().put(projectPaths.page(projectId, pageNumber), ab, "image/png");
 
   const entry: PageImage = {
     pageNumber,
     url: pngBlob.url,
-    width: Number.isFinite(width) ? width : 0,
-    height: Number.isFinite(height) ? height : 0
+    width,
+    height,
+    assets: [],
+    deletedAssetIds: [],
+    ...(sourceId ? { sourceId, sourcePageNumber } : {})
   };
 
-  const idx = pages.findIndex((p) => p.pageNumber === pageNumber);
-  if (idx >= 0) pages[idx] = entry;
-  else pages.push(entry);
-
-  pages.sort((a, b) => a.pageNumber - b.pageNumber);
-
-  manifest.pages = pages;
-
-  const newManifestUrl = await saveManifest(manifest);
+  let newManifestUrl: string;
+  try {
+    // A re-uploaded page starts over: its assets are replaced with the new entry's
+    ({ manifestUrl: newManifestUrl } = await updatePage(
+      baseUrl(manifestUrlRaw),
+      pageNumber,
+      (page) => {
+        const p = page as Record<string, unknown>;
+        for (const k of Object.keys(p)) delete p[k];
+        Object.assign(page, structuredClone(entry));
+      },
+      { projectId, create: true, journal: journalFromRequest(req) }
+    ));
+  } catch (e) {
+    if (isManifestError(e)) return manifestErrorResponse(e);
+    if (e instanceof ValidationError) return validationErrorResponse(e);
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : String(e) }, { status: 400 });
+  }
 
   return NextResponse.json({
     ok: true,
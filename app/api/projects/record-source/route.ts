@@ -1,46 +1,85 @@
 import { NextResponse } from "next/server";
-import { newManifest, saveManifest, fetchManifestDirect, type ProjectManifest } from "@/app/lib/manifest";
+import { z } from "zod";
+import { newManifest, saveManifest, updateManifest, type ProjectManifest } from "@/app/lib/manifest";
+import { journalFromRequest } from "@/app/lib/manifest-journal";
+import { contentHash } from "@/app/lib/content-hash";
+import { sourceFormatSchema } from "@/app/lib/manifest-schema";
+import { allocateSourcePages, countSourcePages, fetchManifestIfExists, upsertSource } from "@/app/lib/manifest-sources";
+import { detectSourceFormat, newSourceId, UnsupportedSourceError } from "@/app/lib/sources";
+import { getProjectStore } from "@/app/lib/store";
+import {
+  isManifestError,
+  manifestErrorResponse,
+  parseJsonBody,
+  requiredString,
+  sourceIdField,
+  ValidationError,
+  validationErrorResponse
+} from "@/app/lib/validation";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type Body = {
-  projectId?: string;
-  manifestUrl?: string;
-  sourcePdfUrl?: string;
-  filename?: string;
-};
+const Body = z
+  .object({
+    projectId: requiredString,
+    manifestUrl: requiredString,
+    sourceUrl: z.string().trim().min(1).optional(),
+    // Older clients; PDF only
+    sourcePdfUrl: z.string().trim().min(1).optional(),
+    filename: z.string().trim().min(1).optional().default("source.pdf"),
+    // Detected from the filename when omitted
+    format: sourceFormatSchema.optional(),
+    // Replace this source; default adds a new one. Part of storage paths.
+    sourceId: sourceIdField.optional()
+  })
+  .refine((b) => b.sourceUrl || b.sourcePdfUrl, { message: "Required", path: ["sourceUrl"] });
 
 export async function POST(req: Request): Promise<Response> {
-  let body: Body;
+  const parsed = await parseJsonBody(req, Body);
+  if (!parsed.ok) return parsed.response;
+  const { projectId, manifestUrl, filename } = parsed.body;
+  const sourceUrl = (parsed.body.sourceUrl || parsed.body.sourcePdfUrl) as string;
+
+  let format = parsed.body.format;
   try {
-    body = (await req.json()) as Body;
-  } catch {
-    return NextResponse.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
+    format ??= detectSourceFormat(filename);
+  } catch (e) {
+    if (e instanceof UnsupportedSourceError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: e.status });
+    }
+    throw e;
   }
 
-  const projectId = String(body.projectId || "").trim();
-  const manifestUrl = String(body.manifestUrl || "").trim();
-  const sourcePdfUrl = String(body.sourcePdfUrl || "").trim();
-  const filename = String(body.filename || "source.pdf").trim();
-
-  if (!projectId || !manifestUrl || !sourcePdfUrl) {
-    return NextResponse.json({ ok: false, error: "Missing projectId, manifestUrl, or sourcePdfUrl" }, { status: 400 });
-  }
+  const sourceId = parsed.body.sourceId || newSourceId();
+  const journal = journalFromRequest(req);
 
-  // Fetch existing manifest or create new one
-  let manifest: ProjectManifest;
   try {
-    manifest = await fetchManifestDirect(manifestUrl);
-  } catch {
-    manifest = newManifest(projectId);
-  }
+    const bytes = format === "pdf" ? await getProjectStore().get(sourceUrl) : null;
+    const pageCount = bytes ? await countSourcePages(format, bytes) : undefined;
+    const fileHash = bytes ? contentHash(bytes) : undefined;
 
-  // Update manifest with source PDF
-  manifest.sourcePdf = { url: sourcePdfUrl, filename };
-  manifest.status = "uploaded";
+    const applySource = (manifest: ProjectManifest) => {
+      upsertSource(manifest, { sourceId, url: sourceUrl, filename, format, contentHash: fileHash });
+      // Reserve page numbers now so the source can be rasterized before it is processed
+      if (pageCount !== undefined) allocateSourcePages(manifest, sourceId, pageCount);
+      manifest.status = "uploaded";
+    };
 
-  const newUrl = await saveManifest(manifest);
+    // Update the existing manifest, or create one if there is none yet
+    let newUrl: string;
+    if (await fetchManifestIfExists(manifestUrl)) {
+      ({ manifestUrl: newUrl } = await updateManifest(manifestUrl, applySource, { projectId, journal }));
+    } else {
+      const manifest = newManifest(projectId);
+      applySource(manifest);
+      newUrl = await saveManifest(manifest, journal);
+    }
 
-  return NextResponse.json({ ok: true, manifestUrl: newUrl, sourcePdfUrl });
+    return NextResponse.json({ ok: true, manifestUrl: newUrl, sourceId, sourceUrl, format });
+  } catch (e) {
+    if (isManifestError(e)) return manifestErrorResponse(e);
+    if (e instanceof ValidationError) return validationErrorResponse(e);
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : String(e) }, { status: 500 });
+  }
 }
@@ -1,84 +1,38 @@
 import { NextResponse } from "next/server";
-import { list } from "@vercel/blob";
-import { saveManifest, fetchManifestDirect, type ProjectManifest, type PageImage, type PageAsset, type AssetBBox } from "@/app/lib/manifest";
+import { z } from "zod";
+import {
+  fetchManifestDirect,
+  updateManifest,
+  type PageImage,
+  type PageAsset,
+  type AssetBBox
+} from "@/app/lib/manifest";
+import { journalFromRequest } from "@/app/lib/manifest-journal";
+import { getProjectStore, parseAssetPath, parsePagePath, projectPaths } from "@/app/lib/store";
+import {
+  isManifestError,
+  manifestErrorResponse,
+  parseJsonBody,
+  requiredString,
+  ValidationError,
+  validationErrorResponse
+} from "@/app/lib/validation";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type Body = {
-  projectId?: string;
-  manifestUrl?: string;
-};
-
-function baseUrl(u: string) {
-  const url = new URL(u);
-  return `${url.origin}${url.pathname}`;
-}
-
-async function readErrorText(res: Response) {
-  try {
-    const t = await res.text();
-    return t || `${res.status} ${res.statusText}`;
-  } catch {
-    return `${res.status} ${res.statusText}`;
-  }
-}
-
-type ListResult = {
-  blobs: Array<{ url: string; pathname: string }>;
-  cursor?: string;
-};
-
-async function listAll(prefix: string): Promise<Array<{ url: string; pathname: string }>> {
-  const out: Array<{ url: string; pathname: string }> = [];
-  let cursor: string | undefined = undefined;
-
-  for (;;) {
-    const page = (await list({ prefix, limit: 1000, cursor })) as unknown;
-    const p = page as ListResult;
-
-    if (Array.isArray(p.blobs)) {
-      for (const b of p.blobs) {
-        if (b && typeof b.url === "string" && typeof b.pathname === "string") out.push(b);
-      }
-    }
-
-    if (!p.cursor) break;
-    cursor = p.cursor;
-  }
-
-  return out;
-}
-
-function parsePageNumberFromPath(pathname: string): number | null {
-  // projects/{id}/pages/page-12.png
-  const m = pathname.match(/\/pages\/page-(\d+)\.png$/i);
-  if (!m) return null;
-  const n = Number(m[1]);
-  return Number.isFinite(n) && n > 0 ? n : null;
-}
-
-function parseAssetFromPath(pathname: string): { pageNumber: number; assetId: string } | null {
-  // projects/{id}/assets/p12/p12-img03.png
-  const m = pathname.match(/\/assets\/p(\d+)\/(p\d+-img\d+)\.png$/i);
-  if (!m) return null;
-  const pageNumber = Number(m[1]);
-  const assetId = String(m[2]);
-  if (!Number.isFinite(pageNumber) || pageNumber <= 0) return null;
-  return { pageNumber, assetId };
-}
+const Body = z.object({
+  projectId: requiredString,
+  manifestUrl: requiredString
+});
 
 const ZERO_BBOX: AssetBBox = { x: 0, y: 0, w: 0, h: 0 };
 
 export async function POST(req: Request): Promise<Response> {
   try {
-    const body = (await req.json()) as Body;
-    const projectId = String(body.projectId || "").trim();
-    const manifestUrl = String(body.manifestUrl || "").trim();
-
-    if (!projectId || !manifestUrl) {
-      return NextResponse.json({ ok: false, error: "Missing projectId/manifestUrl" }, { status: 400 });
-    }
+    const parsedBody = await parseJsonBody(req, Body);
+    if (!parsedBody.ok) return parsedBody.response;
+    const { projectId, manifestUrl } = parsedBody.body;
 
     const manifest = await fetchManifestDirect(manifestUrl);
 
@@ -86,26 +40,18 @@ export async function POST(req: Request): Promise<Response> {
       return NextResponse.json({ ok: false, error: "projectId does not match manifest" }, { status: 400 });
     }
 
-    const pagesPrefix = `projects/${projectId}/pages/`;
-    const assetsPrefix = `projects/${projectId}/assets/`;
-
-    const pageBlobs = await listAll(pagesPrefix);
-    const assetBlobs = await listAll(assetsPrefix);
+    const store = getProjectStore();
+    const pageBlobs = await store.list(projectPaths.pagesPrefix(projectId));
+    const assetBlobs = await store.list(projectPaths.assetsPrefix(projectId));
 
     const pagesByNumber = new Map<number, PageImage>();
 
     // Start from existing manifest pages (if any)
-    if (Array.isArray(manifest.pages)) {
-      for (const p of manifest.pages) {
-        if (p && Number.isFinite(p.pageNumber)) {
-          pagesByNumber.set(p.pageNumber, p);
-        }
-      }
-    }
+    for (const p of manifest.pages) pagesByNumber.set(p.pageNumber, p);
 
     // Ensure pages exist for each page PNG blob
     for (const b of pageBlobs) {
-      const pageNumber = parsePageNumberFromPath(b.pathname);
+      const pageNumber = parsePagePath(b.pathname);
       if (!pageNumber) continue;
 
       const existing = pagesByNumber.get(pageNumber);
@@ -118,19 +64,20 @@ export async function POST(req: Request): Promise<Response> {
           url: b.url,
           width: 0,
           height: 0,
-          assets: []
+          assets: [],
+          deletedAssetIds: []
         });
       }
     }
 
     // Add assets if missing, but never re-add tombstoned assetIds
     for (const b of assetBlobs) {
-      const parsed = parseAssetFromPath(b.pathname);
+      const parsed = parseAssetPath(b.pathname);
       if (!parsed) continue;
 
       // Check tombstone
       const page = pagesByNumber.get(parsed.pageNumber);
-      const deleted = page && Array.isArray(page.deletedAssetIds) ? new Set(page.deletedAssetIds) : new Set();
+      const deleted = new Set(page?.deletedAssetIds ?? []);
       if (deleted.has(parsed.assetId)) continue;
 
       if (!page) {
@@ -145,9 +92,8 @@ export async function POST(req: Request): Promise<Response> {
         continue;
       }
 
-      if (!Array.isArray(page.assets)) page.assets = [];
-
-      const already = page.assets.some((a: PageAsset) => a.assetId === parsed.assetId);
+      // Assets renamed from positional ids keep their old file, so match by url too
+      const already = page.assets.some((a: PageAsset) => a.assetId === parsed.assetId || a.url === b.url);
       if (!already) {
         page.assets.push({
           assetId: parsed.assetId,
@@ -161,73 +107,68 @@ export async function POST(req: Request): Promise<Response> {
       }
     }
 
-    // Re-fetch latest manifest to avoid race conditions
-    const latest = await fetchManifestDirect(manifestUrl);
-    if (latest.projectId !== projectId) {
-      return NextResponse.json({ ok: false, error: "projectId does not match manifest on re-fetch" }, { status: 400 });
-    }
-
-    // Merge restored assets into latest manifest
-    const latestPagesByNumber = new Map<number, PageImage>();
-    if (Array.isArray(latest.pages)) {
-      for (const p of latest.pages) latestPagesByNumber.set(p.pageNumber, p);
-    } else {
-      latest.pages = [];
-    }
-
-    for (const [pageNumber, p] of pagesByNumber) {
-      let latestPage = latestPagesByNumber.get(pageNumber);
-      if (!latestPage) {
-        latestPage = {
-          pageNumber,
-          url: p.url,
-          width: p.width,
-          height: p.height,
-          assets: [],
-          deletedAssetIds: []
-        };
-        latest.pages.push(latestPage);
-        latestPagesByNumber.set(pageNumber, latestPage);
-      }
+    // Merge into the latest manifest (retried on conflict) to avoid race conditions
+    const { manifestUrl: newManifestUrl, manifest: latest } = await updateManifest(
+      manifestUrl,
+      (latest) => {
+        // Merge restored assets into latest manifest
+        const latestPagesByNumber = new Map<number, PageImage>();
+        for (const p of latest.pages) latestPagesByNumber.set(p.pageNumber, p);
+
+        for (const [pageNumber, p] of pagesByNumber) {
+          let latestPage = latestPagesByNumber.get(pageNumber);
+          if (!latestPage) {
+            latestPage = {
+              pageNumber,
+              url: p.url,
+              width: p.width,
+              height: p.height,
+              assets: [],
+              deletedAssetIds: []
+            };
+            latest.pages.push(latestPage);
+            latestPagesByNumber.set(pageNumber, latestPage);
+          }
 
-      if (!Array.isArray(latestPage.assets)) latestPage.assets = [];
-      const deleted = new Set(Array.isArray(latestPage.deletedAssetIds) ? latestPage.deletedAssetIds : []);
+          const deleted = new Set(latestPage.deletedAssetIds);
 
-      // Only add assets that are NOT in the latest tombstone list
-      if (Array.isArray(p.assets)) {
-        for (const a of p.assets) {
-          if (deleted.has(a.assetId)) continue;
+          // Only add assets that are NOT in the latest tombstone list
+          if (Array.isArray(p.assets)) {
+            for (const a of p.assets) {
+              if (deleted.has(a.assetId)) continue;
           
-          const existingIdx = latestPage.assets.findIndex((x) => x.assetId === a.assetId);
-          if (existingIdx >= 0) {
-             // Update existing
-             if (!latestPage.assets[existingIdx].url) latestPage.assets[existingIdx].url = a.url;
-          } else {
-             // Add new
-             latestPage.assets.push(a);
+              const existingIdx = latestPage.assets.findIndex((x) => x.assetId === a.assetId);
+              if (existingIdx >= 0) {
+                 // Update existing
+                 if (!latestPage.assets[existingIdx].url) latestPage.assets[existingIdx].url = a.url;
+              } else {
+                 // Add new
+                 latestPage.assets.push({ ...a, sourceId: latestPage.sourceId });
+              }
+            }
           }
         }
-      }
-    }
     
-    latest.pages.sort((a, b) => a.pageNumber - b.pageNumber);
-
-    // Add debug log
-    if (!Array.isArray(latest.debugLog)) latest.debugLog = [];
-    const timestamp = new Date().toISOString();
-    latest.debugLog.unshift(`[${timestamp}] RESTORE: Restored assets. Found ${assetBlobs.length} blobs.`);
-    if (latest.debugLog.length > 50) latest.debugLog = latest.debugLog.slice(0, 50);
+        latest.pages.sort((a, b) => a.pageNumber - b.pageNumber);
 
-    const newManifestUrl = await saveManifest(latest);
+        // Add debug log
+        const timestamp = new Date().toISOString();
+        latest.debugLog.unshift(`[${timestamp}] RESTORE: Restored assets. Found ${assetBlobs.length} blobs.`);
+        if (latest.debugLog.length > 50) latest.debugLog = latest.debugLog.slice(0, 50);
+      },
+      { projectId, journal: journalFromRequest(req) }
+    );
 
     return NextResponse.json({
       ok: true,
       manifestUrl: newManifestUrl,
       pagesFound: pageBlobs.length,
       assetsFound: assetBlobs.length,
-      pagesInManifest: latest.pages?.length ?? 0
+      pagesInManifest: latest.pages.length
     });
   } catch (e) {
+    if (isManifestError(e)) return manifestErrorResponse(e);
+    if (e instanceof ValidationError) return validationErrorResponse(e);
     const msg = e instanceof Error ? e.message : String(e);
     return NextResponse.json({ ok: false, error: msg }, { status: 500 });
   }
@@ -1,55 +1,34 @@
 import { NextRequest, NextResponse } from "next/server";
-import { put } from "@vercel/blob";
-import { fetchManifestDirect, saveManifest } from "@/app/lib/manifest";
+import { z } from "zod";
+import { journalFromRequest } from "@/app/lib/manifest-journal";
+import { saveSchemaResults } from "@/app/lib/schema-results";
+import {
+  isManifestError,
+  manifestErrorResponse,
+  parseJsonBody,
+  requiredString,
+  ValidationError,
+  validationErrorResponse
+} from "@/app/lib/validation";
+
+const Body = z.object({
+  projectId: requiredString,
+  manifestUrl: requiredString,
+  results: z.string().min(1, "Required"),
+  // From /schema/fill, when saving its results unedited
+  inputsHash: z.string().optional()
+});
 
 export async function POST(req: NextRequest) {
   try {
-    const body = (await req.json()) as {
-      projectId?: string;
-      manifestUrl?: string;
-      results?: string;
-    };
+    const parsed = await parseJsonBody(req, Body);
+    if (!parsed.ok) return parsed.response;
 
-    const { projectId, manifestUrl, results } = body;
-
-    if (!projectId || !manifestUrl) {
-      return NextResponse.json({ ok: false, error: "Missing projectId or manifestUrl" }, { status: 400 });
-    }
-
-    if (!results) {
-      return NextResponse.json({ ok: false, error: "Missing results" }, { status: 400 });
-    }
-
-    // Load manifest
-    const manifest = await fetchManifestDirect(manifestUrl);
-
-    // Validate that results is valid JSON (optional but recommended)
-    try {
-      JSON.parse(results);
-    } catch {
-      // Allow saving even if not valid JSON - user might be editing
-    }
-
-    // Save schema results to blob storage
-    const schemaResultsPath = `projects/${projectId}/schema-results.json`;
-    const blob = await put(schemaResultsPath, results, {
-      access: "public",
-      contentType: "application/json",
-      addRandomSuffix: false
-    });
-
-    // Update manifest with schema results URL
-    manifest.schemaResults = { url: blob.url };
-
-    // Save updated manifest
-    const newManifestUrl = await saveManifest(manifest);
-
-    return NextResponse.json({
-      ok: true,
-      manifestUrl: newManifestUrl,
-      schemaResultsUrl: blob.url
-    });
+    const { manifestUrl, schemaResultsUrl } = await saveSchemaResults(parsed.body, journalFromRequest(req));
+    return NextResponse.json({ ok: true, manifestUrl, schemaResultsUrl });
   } catch (err) {
+    if (isManifestError(err)) return manifestErrorResponse(err);
+    if (err instanceof ValidationError) return validationErrorResponse(err);
     console.error("Schema save error:", err);
     return NextResponse.json(
       { ok: false, error: err instanceof Error ? err.message : String(err) },
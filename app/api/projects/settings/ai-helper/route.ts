@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
 import { GoogleGenerativeAI } from "@google/generative-ai";
+import { z } from "zod";
+import { parseJsonBody } from "@/app/lib/validation";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -8,17 +10,19 @@ export const maxDuration = 60;
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY || "";
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY || "";
 
-type Message = {
-  role: "user" | "assistant";
-  content: string;
-};
+const Message = z.object({
+  role: z.enum(["user", "assistant"]),
+  content: z.string()
+});
 
-type Body = {
-  messages: Message[];
-  settingsTab: string;
-  currentContent: string;
-  provider?: "gemini" | "openai";
-};
+type Message = z.infer<typeof Message>;
+
+const Body = z.object({
+  messages: z.array(Message).min(1, "No messages provided"),
+  settingsTab: z.string(),
+  currentContent: z.string().optional().default(""),
+  provider: z.enum(["gemini", "openai"]).optional().default("gemini")
+});
 
 const SYSTEM_PROMPT = `You are an expert AI assistant helping users write configuration JSON and AI rules for a creative IP (intellectual property) ingestion tool.
 
@@ -72,6 +76,13 @@ Your role is to help users configure:
    }
    \`\`\`
 
+6. **Pipeline**: Steps /api/projects/ingest runs, in order (blank = all five). Steps are process, rasterize (optional "dpi"), detect, tag (optional "overwrite") and fill (optional "save", default true):
+   \`\`\`json
+   {
+     "steps": [{ "step": "process" }, { "step": "rasterize", "dpi": 90 }, { "step": "detect" }, { "step": "tag" }, { "step": "fill", "save": true }]
+   }
+   \`\`\`
+
 When helping:
 - Provide valid JSON when asked for configuration
 - Explain what each field does
@@ -137,18 +148,9 @@ async function chatWithOpenAI(messages: Message[], systemPrompt: string): Promis
 }
 
 export async function POST(req: Request): Promise<Response> {
-  let body: Body;
-  try {
-    body = (await req.json()) as Body;
-  } catch {
-    return NextResponse.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
-  }
-
-  const { messages, settingsTab, currentContent, provider = "gemini" } = body;
-
-  if (!messages || !Array.isArray(messages) || messages.length === 0) {
-    return NextResponse.json({ ok: false, error: "No messages provided" }, { status: 400 });
-  }
+  const parsed = await parseJsonBody(req, Body);
+  if (!parsed.ok) return parsed.response;
+  const { messages, settingsTab, currentContent, provider } = parsed.body;
 
   // Build context-aware system prompt
   const tabContext = `\n\nThe user is currently editing the "${settingsTab}" settings tab.${
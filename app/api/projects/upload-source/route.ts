@@ -1,68 +1,42 @@
 import { NextResponse } from "next/server";
-import { put } from "@vercel/blob";
-import { newManifest, saveManifest, type ProjectManifest } from "@/app/lib/manifest";
+import { z } from "zod";
+import { journalFromRequest } from "@/app/lib/manifest-journal";
+import { uploadSource } from "@/app/lib/manifest-sources";
+import { UnsupportedSourceError } from "@/app/lib/sources";
+import {
+  isManifestError,
+  manifestErrorResponse,
+  optionalString,
+  parseFormBody,
+  requiredString,
+  sourceIdField,
+  ValidationError,
+  validationErrorResponse
+} from "@/app/lib/validation";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-function baseUrl(u: string) {
-  const url = new URL(u);
-  return `${url.origin}${url.pathname}`;
-}
-
-async function fetchManifestIfExists(manifestUrlRaw: string): Promise<ProjectManifest | null> {
-  const trimmed = manifestUrlRaw.trim();
-  if (!trimmed) return null;
-
-  try {
-    const url = baseUrl(trimmed);
-    const res = await fetch(`${url}?v=${Date.now()}`, {
-      cache: "no-store",
-      headers: { "Cache-Control": "no-cache" }
-    });
-
-    // IMPORTANT: treat 404/anything non-200 as "missing"
-    if (!res.ok) return null;
-
-    const j = (await res.json()) as ProjectManifest;
-    if (!j?.projectId) return null;
-    return j;
-  } catch {
-    return null;
-  }
-}
+const Body = z.object({
+  file: z.instanceof(File, { message: "Expected a file" }),
+  projectId: requiredString,
+  manifestUrl: optionalString,
+  // Replace this source; default adds a new one. Part of storage paths.
+  sourceId: z.union([z.literal(""), sourceIdField]).optional()
+});
 
+// Upload a source document; see uploadSource() in app/lib/manifest-sources.ts
 export async function POST(req: Request): Promise<Response> {
-  const form = await req.formData();
-
-  const file = form.get("file");
-  const projectId = String(form.get("projectId") || "").trim();
-  const manifestUrlRaw = String(form.get("manifestUrl") || "").trim();
-
-  if (!(file instanceof File)) {
-    return NextResponse.json({ ok: false, error: "Missing file" }, { status: 400 });
-  }
-  if (!projectId) {
-    return NextResponse.json({ ok: false, error: "Missing projectId" }, { status: 400 });
+  try {
+    const parsed = await parseFormBody(req, Body);
+    if (!parsed.ok) return parsed.response;
+
+    const result = await uploadSource(parsed.body, journalFromRequest(req));
+    return NextResponse.json({ ok: true, ...result });
+  } catch (e) {
+    if (e instanceof UnsupportedSourceError) return NextResponse.json({ ok: false, error: e.message }, { status: e.status });
+    if (isManifestError(e)) return manifestErrorResponse(e);
+    if (e instanceof ValidationError) return validationErrorResponse(e);
+    throw e;
   }
-
-  // 1) Upload PDF (overwrite stable path)
-  const ab = await file.arrayBuffer();
-  const source = await put(`projects/${projectId}/source/source.pdf`, ab, {
-    access: "public",
-    contentType: "application/pdf",
-    addRandomSuffix: false
-  });
-
-  // 2) Load manifest if it exists; otherwise recreate
-  const existing = await fetchManifestIfExists(manifestUrlRaw);
-  const manifest: ProjectManifest = existing ?? newManifest(projectId);
-
-  // 3) Update + save manifest
-  manifest.sourcePdf = { url: source.url, filename: file.name };
-  manifest.status = "uploaded";
-
-  const newUrl = await saveManifest(manifest);
-
-  return NextResponse.json({ ok: true, manifestUrl: newUrl, sourcePdfUrl: source.url });
 }
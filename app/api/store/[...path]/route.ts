@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { UPLOAD_CONTENT_TYPES } from "@/app/lib/sources/format";
+import { getProjectStore, contentTypeForPath, isUploadPath, PROJECTS_PREFIX } from "@/app/lib/store";
+import { LocalFsStore, isSafePathname } from "@/app/lib/store/local";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ path: string[] }> };
+
+async function pathnameFrom(ctx: Params): Promise<string | null> {
+  const { path } = await ctx.params;
+  const pathname = (path || []).join("/");
+  if (!isSafePathname(pathname) || !pathname.startsWith(PROJECTS_PREFIX)) return null;
+  return pathname;
+}
+
+// Serves files written by the local filesystem store.
+export async function GET(_req: Request, ctx: Params): Promise<Response> {
+  const store = getProjectStore();
+  if (!(store instanceof LocalFsStore)) {
+    return NextResponse.json({ ok: false, error: "Not using the local store" }, { status: 404 });
+  }
+
+  const pathname = await pathnameFrom(ctx);
+  if (!pathname) return NextResponse.json({ ok: false, error: "Invalid path" }, { status: 400 });
+
+  const data = await store.readPath(pathname);
+  if (!data) return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+
+  return new Response(new Uint8Array(data), {
+    status: 200,
+    headers: { "Content-Type": contentTypeForPath(pathname), "Cache-Control": "no-store" }
+  });
+}
+
+// Browser uploads for backends without a direct-upload protocol
+// (Vercel Blob uploads go through /api/blob instead). Like /api/blob, only
+// page PNGs, asset crops and source files of the allowed types.
+export async function PUT(req: Request, ctx: Params): Promise<Response> {
+  const store = getProjectStore();
+  if (store.backend === "vercel") {
+    return NextResponse.json({ ok: false, error: "Use /api/blob for Vercel Blob uploads" }, { status: 400 });
+  }
+
+  const pathname = await pathnameFrom(ctx);
+  if (!pathname) return NextResponse.json({ ok: false, error: "Invalid path" }, { status: 400 });
+  if (!isUploadPath(pathname)) {
+    return NextResponse.json(
+      { ok: false, error: "Uploads may only write page images, asset crops and sources" },
+      { status: 403 }
+    );
+  }
+
+  const contentType = req.headers.get("content-type") || contentTypeForPath(pathname);
+  if (!UPLOAD_CONTENT_TYPES.includes(contentType.split(";")[0].trim().toLowerCase())) {
+    return NextResponse.json({ ok: false, error: `Content type ${contentType} is not allowed` }, { status: 403 });
+  }
+  const body = Buffer.from(await req.arrayBuffer());
+  const stored = await store.put(pathname, body, contentType);
+
+  return NextResponse.json({ ok: true, url: stored.url, pathname: stored.pathname });
+}
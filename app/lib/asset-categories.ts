@@ -0,0 +1,98 @@
+// What an asset shows, set by detection (autoCategory) or by hand and used to
+// narrow which assets schema fill may put in a field. Safe to import from the
+// browser.
+
+export const ASSET_CATEGORIES = ["character", "location", "keyArt", "logo", "diagram", "style", "other"] as const;
+export type AssetCategory = (typeof ASSET_CATEGORIES)[number];
+
+export const ASSET_CATEGORY_LABELS: Record<AssetCategory, string> = {
+  character: "Character",
+  location: "Location",
+  keyArt: "Key art",
+  logo: "Logo",
+  diagram: "Diagram",
+  style: "Style",
+  other: "Other"
+};
+
+function key(name: string) {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "").replace(/s$/, "");
+}
+
+const BY_KEY = new Map<string, AssetCategory>(ASSET_CATEGORIES.map((c) => [key(c), c]));
+
+/**
+ * A detector's category as one of ASSET_CATEGORIES, matched loosely ("Key
+ * Art", "characters"). Anything else is "other"; blank is no category.
+ */
+export function normalizeAssetCategory(raw: string | undefined): AssetCategory | undefined {
+  if (!raw?.trim()) return undefined;
+  return BY_KEY.get(key(raw)) ?? "other";
+}
+
+// Schema field names that only take one category of image, checked in order
+// against each name on the field's path from the innermost out
+const FIELD_CATEGORIES: Array<[RegExp, AssetCategory]> = [
+  [/character|cast|protagonist|antagonist|villain/i, "character"],
+  [/location|setting|place|environment|world/i, "location"],
+  [/keyart|cover|poster|hero.?image/i, "keyArt"],
+  [/logo|wordmark/i, "logo"],
+  [/style|palette|moodboard|artdirection/i, "style"],
+  [/diagram|map|chart/i, "diagram"]
+];
+
+/**
+ * The asset category an image field at `path` (schema keys and array
+ * indexes, outermost first) should be filled from, e.g. "character" for
+ * L2.CHARACTERS.CharacterList[0].Images. Undefined when the path says
+ * nothing about it.
+ */
+export function categoryForField(path: Array<string | number>): AssetCategory | undefined {
+  const names = path.filter((p): p is string => typeof p === "string").reverse();
+  for (const name of names) {
+    for (const [pattern, category] of FIELD_CATEGORIES) {
+      if (pattern.test(name)) return category;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Remove asset references ({ url, ... } objects) that schema fill put in a
+ * field meant for another category: set to null, or taken out of arrays.
+ * Assets without a category, and fields categoryForField can't place, are
+ * left alone. Edits `value` in place; returns what was removed.
+ */
+export function dropMismatchedAssets(
+  value: unknown,
+  categoryByUrl: Map<string, AssetCategory>
+): Array<{ path: string; url: string; category: AssetCategory; expected: AssetCategory }> {
+  const dropped: Array<{ path: string; url: string; category: AssetCategory; expected: AssetCategory }> = [];
+
+  const mismatch = (v: unknown, path: Array<string | number>) => {
+    if (!v || typeof v !== "object" || Array.isArray(v)) return false;
+    const url = (v as { url?: unknown }).url;
+    const category = typeof url === "string" ? categoryByUrl.get(url) : undefined;
+    const expected = category ? categoryForField(path) : undefined;
+    if (!category || !expected || category === expected) return false;
+    dropped.push({ path: path.join("."), url: url as string, category, expected });
+    return true;
+  };
+
+  const walk = (node: unknown, path: Array<string | number>) => {
+    if (Array.isArray(node)) {
+      for (let i = node.length - 1; i >= 0; i--) {
+        if (mismatch(node[i], [...path, i])) node.splice(i, 1);
+        else walk(node[i], [...path, i]);
+      }
+    } else if (node && typeof node === "object") {
+      const obj = node as Record<string, unknown>;
+      for (const k of Object.keys(obj)) {
+        if (mismatch(obj[k], [...path, k])) obj[k] = null;
+        else walk(obj[k], [...path, k]);
+      }
+    }
+  };
+  walk(value, []);
+  return dropped;
+}
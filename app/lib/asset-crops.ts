@@ -0,0 +1,234 @@
+import {
+  fetchPageDirect,
+  updatePage,
+  ManifestUpdateRejected,
+  type AssetBBox,
+  type AssetDetection,
+  type AssetQuality
+} from "./manifest";
+import type { JournalContext } from "./manifest-journal";
+import { chainedHash } from "./content-hash";
+import { normalizeAssetCategory } from "./asset-categories";
+import { perceptualHash, relinkSchemaResults } from "./asset-dedupe";
+import { boxEdited } from "./asset-edits";
+import { matchAssetIds } from "./asset-ids";
+import { measureQuality } from "./asset-quality";
+import { cropPageImage, padBox } from "./crop";
+import { cropPaddingFor, parseDetectionRules, type DetectionRules } from "./detection-rules";
+import { mergePageAssets, type IncomingAsset } from "./page-assets";
+import { addAssetText, readPageText, textCoverage } from "./page-text";
+import { getProjectStore, moveToTrash, parseAssetPath, pathnameFromObjectUrl, projectPaths, projectPrefix } from "@/app/lib/store";
+
+// Turning detected boxes into assets. Shared by /api/projects/assets/crop and
+// the detect job.
+
+// A box to crop, with what the detector said about it
+export type CropBox = {
+  bbox: AssetBBox;
+  category?: string;
+  detection?: AssetDetection;
+};
+
+/** A detector's box (see DetectedBox) as a CropBox. Ensemble details become its `detection`. */
+export function cropBoxFromDetected(
+  b: AssetBBox & { category?: string; confidence?: number; detectors?: string[]; needsReview?: boolean }
+): CropBox {
+  return {
+    bbox: { x: b.x, y: b.y, w: b.w, h: b.h },
+    category: b.category,
+    detection: b.detectors?.length
+      ? { detectors: b.detectors, confidence: b.confidence ?? 0, needsReview: b.needsReview ?? b.detectors.length < 2 }
+      : undefined
+  };
+}
+
+export type CropAssetsInput = {
+  projectId: string;
+  manifestUrl: string;
+  pages: Array<{ pageNumber: number; boxes: CropBox[] }>;
+  // Defaults to the project's saved settings.detectionRulesJson
+  detectionRules?: DetectionRules;
+  // Crop boxes whose page, box and padding haven't changed too
+  force?: boolean;
+};
+
+export type CroppedPage = {
+  pageNumber: number;
+  assets: IncomingAsset[];
+};
+
+export type RejectedCrop = {
+  pageNumber: number;
+  assetId: string;
+  quality: AssetQuality;
+};
+
+/**
+ * The store path of an existing asset's crop, if a new PNG crop can
+ * overwrite it: a PNG under the page's assets. Crops named before asset ids
+ * named the box (p3-img02.png, see the v6 migration) qualify; images taken
+ * from source files in other formats don't.
+ */
+function reusableCropPath(projectId: string, pageNumber: number, url: string): string | null {
+  const pathname = pathnameFromObjectUrl(url);
+  if (!pathname?.startsWith(projectPrefix(projectId)) || !/\.png$/i.test(pathname)) return null;
+  return parseAssetPath(pathname)?.pageNumber === pageNumber ? pathname : null;
+}
+
+/**
+ * Crop detected boxes out of page images and record them as assets, one page
+ * at a time so a long batch keeps what it finished. A box that lands on an
+ * existing asset (see asset-ids.ts) replaces its crop and keeps its tags,
+ * unless the asset was deleted or edited by hand; a crop made from the same
+ * page render, box and padding is kept as is. A new crop for an existing
+ * asset overwrites its file, so schema results linking to it still do; one
+ * whose file can't take a PNG moves, and the links move with it. New crops
+ * scoring below the rules' qualityThreshold (see asset-quality.ts) are left
+ * out and reported.
+ */
+export async function cropAssets(
+  input: CropAssetsInput,
+  journal?: JournalContext
+): Promise<{
+  manifestUrl: string;
+  pages: CroppedPage[];
+  skipped: Array<{ pageNumber: number; error: string }>;
+  // Boxes whose existing crop was kept
+  unchanged: number;
+  rejected: RejectedCrop[];
+}> {
+  const { projectId, manifestUrl, pages, force } = input;
+
+  const store = getProjectStore();
+  let currentManifestUrl = manifestUrl;
+  let rules: DetectionRules | undefined = input.detectionRules;
+  let rulesLoaded = !!rules;
+
+  const cropped: CroppedPage[] = [];
+  const skipped: Array<{ pageNumber: number; error: string }> = [];
+  const rejected: RejectedCrop[] = [];
+  let unchanged = 0;
+
+  for (const { pageNumber, boxes } of pages) {
+    const { root, page } = await fetchPageDirect(currentManifestUrl, pageNumber);
+
+    if (root.projectId !== projectId) {
+      throw new ManifestUpdateRejected("projectId does not match manifest");
+    }
+    if (!rulesLoaded) {
+      try {
+        rules = parseDetectionRules(root.settings.detectionRulesJson);
+      } catch (e) {
+        throw new ManifestUpdateRejected(e instanceof Error ? e.message : String(e));
+      }
+      rulesLoaded = true;
+    }
+
+    if (!page) {
+      skipped.push({ pageNumber, error: `Page ${pageNumber} not found` });
+      continue;
+    }
+    if (!page.url) {
+      skipped.push({ pageNumber, error: `Page ${pageNumber} has no page image to crop from` });
+      continue;
+    }
+    if (boxes.length === 0) continue;
+
+    const deleted = new Set(page.deletedAssetIds);
+    const existing = new Map(page.assets.map((a) => [a.assetId, a]));
+    const paddings = boxes.map((b) => cropPaddingFor(rules, b.category));
+    // Matched as they will be cut, which is how assets keep their bbox
+    const ids = matchAssetIds(
+      page,
+      boxes.map((b, i) => padBox(b.bbox, paddings[i], page.width, page.height))
+    );
+    const wanted = boxes
+      .map((b, i) => {
+        const padding = paddings[i];
+        return {
+          assetId: ids[i],
+          bbox: b.bbox,
+          padding,
+          category: normalizeAssetCategory(b.category),
+          detection: b.detection,
+          inputsHash: chainedHash("crop-v1", [page.inputsHash], b.bbox, padding, page.width, page.height)
+        };
+      })
+      // Boxes corrected by hand (see asset-edits.ts) win over detection
+      .filter((w) => !deleted.has(w.assetId) && !boxEdited(existing.get(w.assetId)));
+    const toCrop = wanted.filter((w) => force || !w.inputsHash || existing.get(w.assetId)?.inputsHash !== w.inputsHash);
+    unchanged += wanted.length - toCrop.length;
+    // Kept crops still take the latest detection details, and a category
+    // if they have none
+    const redetected = wanted.filter((w) => {
+      const asset = existing.get(w.assetId);
+      if (!asset || toCrop.includes(w)) return false;
+      return JSON.stringify(asset.detection) !== JSON.stringify(w.detection) || (!!w.category && !asset.category);
+    });
+    if (toCrop.length === 0 && redetected.length === 0) continue;
+
+    const assets: IncomingAsset[] = [];
+    // Old URL to new, for replaced crops that couldn't keep their file
+    const moved = new Map<string, string>();
+    if (toCrop.length > 0) {
+      const pageImage = await store.get(page.url);
+      if (!pageImage) {
+        skipped.push({ pageNumber, error: `Page ${pageNumber} image is missing` });
+        continue;
+      }
+
+      const pageText = await readPageText(page.textUrl);
+      const crops = await cropPageImage(pageImage, page, toCrop);
+      for (const [i, crop] of crops.entries()) {
+        const { assetId, inputsHash, category, detection } = toCrop[i];
+        const quality = await measureQuality(crop.png, textCoverage(pageText, page, crop.bbox));
+        if (rules?.qualityThreshold !== undefined && quality.score < rules.qualityThreshold) {
+          rejected.push({ pageNumber, assetId, quality });
+          continue;
+        }
+        const oldUrl = existing.get(assetId)?.url;
+        const blob = await store.put(
+          (oldUrl && reusableCropPath(projectId, pageNumber, oldUrl)) || projectPaths.asset(projectId, pageNumber, assetId),
+          crop.png,
+          "image/png"
+        );
+        if (oldUrl && oldUrl !== blob.url) moved.set(oldUrl, blob.url);
+        const phash = await perceptualHash(crop.png);
+        assets.push({ assetId, url: blob.url, bbox: crop.bbox, inputsHash, category, detection, phash, quality });
+      }
+    }
+
+    const rejectedHere = rejected.filter((r) => r.pageNumber === pageNumber).length;
+    if (assets.length === 0 && redetected.length === 0) continue;
+
+    const relinked = await relinkSchemaResults(projectId, root.schemaResults?.url, moved);
+
+    const { manifestUrl: newManifestUrl } = await updatePage(
+      currentManifestUrl,
+      pageNumber,
+      async (latest, latestRoot) => {
+        mergePageAssets(latest, assets);
+        if (relinked.url && latestRoot.schemaResults) latestRoot.schemaResults.url = relinked.url;
+        await addAssetText(latest, assets.map((a) => a.assetId));
+        for (const w of redetected) {
+          const asset = latest.assets.find((a) => a.assetId === w.assetId);
+          if (!asset) continue;
+          if (w.detection) asset.detection = w.detection;
+          else delete asset.detection;
+          asset.category ??= w.category;
+        }
+
+        const timestamp = new Date().toISOString();
+        latestRoot.debugLog.unshift(`[${timestamp}] CROP: Page ${pageNumber}, cropped ${assets.length} assets${rejectedHere ? `, rejected ${rejectedHere} below quality threshold` : ""}. Total on page: ${latest.assets.length}.`);
+        if (latestRoot.debugLog.length > 50) latestRoot.debugLog = latestRoot.debugLog.slice(0, 50);
+      },
+      { projectId, journal }
+    );
+    currentManifestUrl = newManifestUrl;
+    cropped.push({ pageNumber, assets });
+    // Trashed rather than dropped so a manifest rollback can restore them
+    if (moved.size > 0) await moveToTrash(store, projectId, [...moved.keys()]);
+  }
+
+  return { manifestUrl: currentManifestUrl, pages: cropped, skipped, unchanged, rejected };
+}
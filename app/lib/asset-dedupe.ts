@@ -0,0 +1,247 @@
+import sharp from "sharp";
+import { fetchManifestDirect, updateManifest, ManifestUpdateRejected } from "./manifest";
+import type { JournalContext } from "./manifest-journal";
+import { mergeAssetTags } from "./page-assets";
+import { getProjectStore, projectPaths, readStoredText } from "./store";
+
+// Finding the same image cut from several pages (a logo on every slide, a
+// character render reused across decks). Each crop gets a 64-bit difference
+// hash (dHash), which survives rescaling and recompression; crops whose
+// hashes differ in at most a few bits are duplicates. The earliest one is
+// canonical: it is tagged and linked, and the others point to it.
+
+// Bits (of 64) two hashes may differ in and still be the same image
+export const DUPLICATE_MAX_DISTANCE = 6;
+
+/** Difference hash of an image, as 16 hex digits. */
+export async function perceptualHash(image: Buffer): Promise<string> {
+  // 9x8 grey pixels: each bit says whether a pixel is brighter than its
+  // right-hand neighbour. Transparency is flattened onto white first.
+  const px = await sharp(image)
+    .flatten({ background: "#ffffff" })
+    .grayscale()
+    .resize(9, 8, { fit: "fill" })
+    .raw()
+    .toBuffer();
+
+  let hex = "";
+  for (let y = 0; y < 8; y++) {
+    // Two hex digits per row
+    for (let x = 0; x < 8; x += 4) {
+      let nibble = 0;
+      for (let k = 0; k < 4; k++) nibble = (nibble << 1) | (px[y * 9 + x + k] > px[y * 9 + x + k + 1] ? 1 : 0);
+      hex += nibble.toString(16);
+    }
+  }
+  return hex;
+}
+
+/** Bits in which two hashes from perceptualHash() differ. */
+export function hammingDistance(a: string, b: string): number {
+  let n = 0;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    let diff = parseInt(a[i] ?? "0", 16) ^ parseInt(b[i] ?? "0", 16);
+    for (; diff; diff &= diff - 1) n++;
+  }
+  return n;
+}
+
+export type HashedAsset = { pageNumber: number; assetId: string; phash: string };
+
+export type DuplicateGroup<T extends HashedAsset = HashedAsset> = {
+  canonical: T;
+  duplicates: T[];
+};
+
+/**
+ * Near-duplicate assets, grouped: assets within `maxDistance` of each other
+ * are in the same group, and so, transitively, is anything within reach of
+ * those. The canonical asset is the first by page and id. Assets without a
+ * duplicate are left out.
+ */
+export function duplicateGroups<T extends HashedAsset>(
+  assets: T[],
+  maxDistance = DUPLICATE_MAX_DISTANCE
+): DuplicateGroup<T>[] {
+  const sorted = [...assets].sort((a, b) => a.pageNumber - b.pageNumber || a.assetId.localeCompare(b.assetId));
+  const parent = sorted.map((_, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+
+  for (let i = 0; i < sorted.length; i++) {
+    for (let j = i + 1; j < sorted.length; j++) {
+      if (hammingDistance(sorted[i].phash, sorted[j].phash) > maxDistance) continue;
+      // The lower index (earlier asset) stays the root
+      const [a, b] = [root(i), root(j)];
+      if (a !== b) parent[Math.max(a, b)] = Math.min(a, b);
+    }
+  }
+
+  const groups = new Map<number, T[]>();
+  for (const [i, asset] of sorted.entries()) {
+    const r = root(i);
+    groups.set(r, [...(groups.get(r) ?? []), asset]);
+  }
+  return [...groups.values()]
+    .filter((g) => g.length > 1)
+    .map(([canonical, ...duplicates]) => ({ canonical, duplicates }));
+}
+
+/**
+ * Point `{ url }` references (as schema results make them) at another URL,
+ * per `urls`. Edits `value` in place; returns how many were changed.
+ */
+export function relinkAssetUrls(value: unknown, urls: Map<string, string>): number {
+  let changed = 0;
+  const walk = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(walk);
+    } else if (node && typeof node === "object") {
+      const obj = node as Record<string, unknown>;
+      const to = typeof obj.url === "string" ? urls.get(obj.url) : undefined;
+      if (to) {
+        obj.url = to;
+        changed++;
+      }
+      Object.values(obj).forEach(walk);
+    }
+  };
+  walk(value);
+  return changed;
+}
+
+/**
+ * Point links in a project's saved schema results at new asset URLs, per
+ * `urls`, and store the results again if any moved. Resolves to how many
+ * moved and, if any did, the results' URL for the manifest. Results that
+ * aren't JSON (mid-edit) are left as they are.
+ */
+export async function relinkSchemaResults(
+  projectId: string,
+  schemaResultsUrl: string | undefined,
+  urls: Map<string, string>
+): Promise<{ relinked: number; url?: string }> {
+  if (!schemaResultsUrl || urls.size === 0) return { relinked: 0 };
+  const saved = await readStoredText(schemaResultsUrl).catch(() => null);
+  if (!saved) return { relinked: 0 };
+  let results: unknown;
+  try {
+    results = JSON.parse(saved);
+  } catch {
+    return { relinked: 0 };
+  }
+  const relinked = relinkAssetUrls(results, urls);
+  if (relinked === 0) return { relinked };
+  const blob = await getProjectStore().put(
+    projectPaths.schemaResults(projectId),
+    JSON.stringify(results, null, 2),
+    "application/json"
+  );
+  return { relinked, url: blob.url };
+}
+
+/**
+ * Group near-duplicate assets across pages and sources. In each group the
+ * earliest asset is canonical: it takes the others' tags and category, and
+ * schema results linking to a duplicate are pointed at it. The others get
+ * `duplicateOf`, which assets/tag and schema/fill skip. Crops without a
+ * phash (or all of them, with `force`) are hashed first. Shared by
+ * /api/projects/assets/dedupe and the dedupe job.
+ */
+export async function dedupeAssets(
+  input: {
+    projectId: string;
+    manifestUrl: string;
+    // Bits (of 64) two crops' hashes may differ in and still be duplicates
+    maxDistance?: number;
+    force?: boolean;
+  },
+  journal?: JournalContext
+): Promise<{
+  manifestUrl: string;
+  // Crops hashed this time
+  hashed: number;
+  groups: Array<{ canonical: string; duplicates: string[] }>;
+  relinked: number;
+  skipped: Array<{ pageNumber: number; assetId: string; error: string }>;
+}> {
+  const { projectId, manifestUrl, maxDistance = DUPLICATE_MAX_DISTANCE, force } = input;
+
+  const manifest = await fetchManifestDirect(manifestUrl);
+  if (manifest.projectId !== projectId) {
+    throw new ManifestUpdateRejected("projectId does not match manifest");
+  }
+
+  // Hash crops made before hashing, or recorded from the browser
+  const store = getProjectStore();
+  const hashed: Array<HashedAsset & { url: string }> = [];
+  const computed = new Map<string, { url: string; phash: string }>();
+  const skipped: Array<{ pageNumber: number; assetId: string; error: string }> = [];
+  for (const page of manifest.pages) {
+    const deleted = new Set(page.deletedAssetIds);
+    for (const asset of page.assets) {
+      if (deleted.has(asset.assetId)) continue;
+      let phash = force ? undefined : asset.phash;
+      if (!phash) {
+        try {
+          const image = asset.url ? await store.get(asset.url) : null;
+          if (!image) throw new Error("Crop is missing");
+          phash = await perceptualHash(image);
+          computed.set(asset.assetId, { url: asset.url, phash });
+        } catch (e) {
+          skipped.push({ pageNumber: page.pageNumber, assetId: asset.assetId, error: e instanceof Error ? e.message : String(e) });
+          continue;
+        }
+      }
+      hashed.push({ pageNumber: page.pageNumber, assetId: asset.assetId, url: asset.url, phash });
+    }
+  }
+
+  const groups = duplicateGroups(hashed, maxDistance);
+  const canonicalOf = new Map<string, string>();
+  const relink = new Map<string, string>();
+  for (const g of groups) {
+    for (const d of g.duplicates) {
+      canonicalOf.set(d.assetId, g.canonical.assetId);
+      if (d.url && g.canonical.url) relink.set(d.url, g.canonical.url);
+    }
+  }
+
+  // Schema results linking to a duplicate link to its canonical asset instead
+  const { relinked, url: schemaResultsUrl } = await relinkSchemaResults(projectId, manifest.schemaResults?.url, relink);
+
+  const { manifestUrl: newManifestUrl } = await updateManifest(
+    manifestUrl,
+    (latest) => {
+      const byId = new Map(latest.pages.flatMap((p) => p.assets.map((a) => [a.assetId, a] as const)));
+      for (const asset of byId.values()) {
+        const c = computed.get(asset.assetId);
+        // Not if it was re-cropped meanwhile
+        if (c && c.url === asset.url) asset.phash = c.phash;
+        const canonicalId = canonicalOf.get(asset.assetId);
+        if (canonicalId && byId.has(canonicalId)) asset.duplicateOf = canonicalId;
+        else delete asset.duplicateOf;
+      }
+      for (const g of groups) {
+        const canonical = byId.get(g.canonical.assetId);
+        const duplicates = g.duplicates.map((d) => byId.get(d.assetId)).filter((a) => a !== undefined);
+        if (canonical) mergeAssetTags(canonical, duplicates);
+      }
+      if (schemaResultsUrl && latest.schemaResults) latest.schemaResults.url = schemaResultsUrl;
+
+      const timestamp = new Date().toISOString();
+      latest.debugLog.unshift(
+        `[${timestamp}] DEDUPE: ${groups.length} groups, ${canonicalOf.size} duplicates, ${computed.size} hashed, ${relinked} schema links moved.`
+      );
+      if (latest.debugLog.length > 50) latest.debugLog = latest.debugLog.slice(0, 50);
+    },
+    { projectId, journal }
+  );
+
+  return {
+    manifestUrl: newManifestUrl,
+    hashed: computed.size,
+    groups: groups.map((g) => ({ canonical: g.canonical.assetId, duplicates: g.duplicates.map((d) => d.assetId) })),
+    relinked,
+    skipped
+  };
+}
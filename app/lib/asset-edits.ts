@@ -0,0 +1,144 @@
+import { z } from "zod";
+import { perceptualHash } from "./asset-dedupe";
+import { assetIdForBox, uniqueAssetId } from "./asset-ids";
+import { measureQuality } from "./asset-quality";
+import type { AssetCategory } from "./asset-categories";
+import { chainedHash } from "./content-hash";
+import { cropPageImage } from "./crop";
+import { ManifestUpdateRejected, type AssetBBox, type AssetEdit, type AssetQuality, type PageAsset, type PageImage } from "./manifest";
+import { readPageText, textCoverage } from "./page-text";
+import { getProjectStore, projectPaths } from "./store";
+
+// Correcting asset boxes by hand: moving or resizing one, cutting one into
+// several, or joining several into one. The new crops are cut from the page
+// PNG exactly as given (no padding) and stored under new names, so the old
+// ones can go to the trash and a manifest rollback can still bring them back.
+// Their quality is measured but, drawn by hand, they are never rejected for it.
+// Tags and category can be set by hand too; that leaves the box as it is.
+
+const HISTORY_LIMIT = 20;
+
+// A box drawn by hand, in page pixels
+export const editBoxSchema = z.object({
+  x: z.number().nonnegative(),
+  y: z.number().nonnegative(),
+  w: z.number().positive(),
+  h: z.number().positive()
+});
+
+export type EditedCrop = {
+  assetId: string;
+  // As cut, i.e. kept within the page
+  bbox: AssetBBox;
+  url: string;
+  inputsHash?: string;
+  phash: string;
+  quality: AssetQuality;
+};
+
+/** The smallest box holding all of `boxes`. */
+export function unionBox(boxes: AssetBBox[]): AssetBBox {
+  const x = Math.min(...boxes.map((b) => b.x));
+  const y = Math.min(...boxes.map((b) => b.y));
+  const right = Math.max(...boxes.map((b) => b.x + b.w));
+  const bottom = Math.max(...boxes.map((b) => b.y + b.h));
+  return { x, y, w: right - x, h: bottom - y };
+}
+
+/**
+ * Ids for new assets at `boxes`, never one the page has used, deleted ones
+ * included, so they don't take over an old id or its tombstone.
+ */
+export function newAssetIds(page: PageImage, boxes: AssetBBox[]): string[] {
+  const taken = new Set([...page.assets.map((a) => a.assetId), ...page.deletedAssetIds]);
+  return boxes.map((b) => uniqueAssetId(assetIdForBox(page.pageNumber, b, page), taken));
+}
+
+/**
+ * Cut each box out of the page image and store it as a new file for its
+ * asset. Throws ManifestUpdateRejected when the page has no image.
+ */
+export async function cropForEdit(
+  projectId: string,
+  page: PageImage,
+  boxes: Array<{ assetId: string; bbox: AssetBBox }>
+): Promise<EditedCrop[]> {
+  if (!page.url) throw new ManifestUpdateRejected(`Page ${page.pageNumber} has no page image to crop from`);
+  const store = getProjectStore();
+  const pageImage = await store.get(page.url);
+  if (!pageImage) throw new ManifestUpdateRejected(`Page ${page.pageNumber} image is missing`, 404);
+
+  const pageText = await readPageText(page.textUrl);
+  const crops = await cropPageImage(pageImage, page, boxes.map((b) => ({ bbox: b.bbox, padding: 0 })));
+  const version = Date.now().toString(36);
+  const out: EditedCrop[] = [];
+  for (const [i, crop] of crops.entries()) {
+    const { assetId } = boxes[i];
+    const blob = await store.put(
+      projectPaths.asset(projectId, page.pageNumber, `${assetId}-${version}`),
+      crop.png,
+      "image/png"
+    );
+    out.push({
+      assetId,
+      bbox: crop.bbox,
+      url: blob.url,
+      inputsHash: chainedHash("crop-v1", [page.inputsHash], crop.bbox, 0, page.width, page.height),
+      phash: await perceptualHash(crop.png),
+      quality: await measureQuality(crop.png, textCoverage(pageText, page, crop.bbox))
+    });
+  }
+  return out;
+}
+
+/**
+ * Point `asset` at a new crop and record what it was before. Tags stay, and
+ * so does their tagsInputsHash, which no longer matches: tagging redoes
+ * generated tags and keeps hand-set ones. A box drawn by hand needs no review,
+ * and a new crop may no longer be a duplicate.
+ */
+export function applyCrop(asset: PageAsset, crop: EditedCrop, edit: Omit<AssetEdit, "bbox" | "url">) {
+  asset.history = [{ ...edit, bbox: asset.bbox, url: asset.url }, ...(asset.history ?? [])].slice(0, HISTORY_LIMIT);
+  asset.url = crop.url;
+  asset.bbox = crop.bbox;
+  asset.inputsHash = crop.inputsHash;
+  asset.phash = crop.phash;
+  asset.quality = crop.quality;
+  delete asset.duplicateOf;
+  if (asset.detection) asset.detection = { ...asset.detection, needsReview: false };
+}
+
+/**
+ * Set `asset`'s tags and/or category by hand and record what they were.
+ * Empty tags or a null category clear them. Hand-set tags have no
+ * tagsInputsHash, so tagging keeps them.
+ */
+export function applyUpdate(asset: PageAsset, update: { tags?: string[]; category?: AssetCategory | null }) {
+  const before: AssetEdit = { timestamp: new Date().toISOString(), action: "update", bbox: asset.bbox, url: asset.url };
+  if (asset.tags) before.tags = [...asset.tags];
+  if (asset.category) before.category = asset.category;
+  asset.history = [before, ...(asset.history ?? [])].slice(0, HISTORY_LIMIT);
+
+  if (update.tags) {
+    if (update.tags.length > 0) asset.tags = update.tags;
+    else delete asset.tags;
+    delete asset.tagsInputsHash;
+    delete asset.tagRationale;
+  }
+  if (update.category) asset.category = update.category;
+  else if (update.category === null) delete asset.category;
+}
+
+/** Whether `asset`'s box was fixed by hand, which crop and record runs leave alone. */
+export function boxEdited(asset: Pick<PageAsset, "history"> | undefined): boolean {
+  return asset?.history?.some((e) => e.action !== "update") ?? false;
+}
+
+/** Find each of `assetIds` on `page`, or reject the update with a 404. */
+export function assetsById(page: PageImage, assetIds: string[]): PageAsset[] {
+  return assetIds.map((id) => {
+    const asset = page.assets.find((a) => a.assetId === id);
+    if (!asset) throw new ManifestUpdateRejected(`Asset ${id} not found on page ${page.pageNumber}`, 404);
+    return asset;
+  });
+}
@@ -0,0 +1,107 @@
+import { iou } from "./detection-rules";
+import type { AssetBBox, PageImage } from "./manifest";
+
+// Asset ids name the page and where the asset sits on it, so a box keeps its
+// id however many boxes a detection run finds and in whatever order:
+// "p3-y0120x0340w0440h0250" is on page 3, 12% down and 34% across, 44% of the
+// page wide and 25% tall (in thousandths of the page size, so they sort top
+// to bottom). Another asset in exactly the same place gets "_2", and so on.
+//
+// Ids from before this were positional ("p3-img02"); manifest-migrations.ts
+// renames them, and tombstones too where the journal still has their box.
+
+const SCALE = 1000;
+
+// A detected box overlapping an asset (or a deleted one) at least this much
+// is taken to be the same asset
+export const ASSET_MATCH_IOU = 0.7;
+
+const BOX_ID = /^p\d+-y(\d{4})x(\d{4})w(\d{4})h(\d{4})(?:_\d+)?$/;
+const LEGACY_ID = /^p\d+-img\d+$/;
+
+function scaled(v: number, size: number) {
+  const n = size > 0 ? Math.round((v / size) * SCALE) : 0;
+  return String(Math.max(0, Math.min(SCALE, n))).padStart(4, "0");
+}
+
+/** The id for an asset at `bbox` (page pixels) on a page of the given size. */
+export function assetIdForBox(pageNumber: number, bbox: AssetBBox, page: { width: number; height: number }): string {
+  const { width, height } = page;
+  return `p${pageNumber}-y${scaled(bbox.y, height)}x${scaled(bbox.x, width)}w${scaled(bbox.w, width)}h${scaled(bbox.h, height)}`;
+}
+
+/** The box an id names, in page pixels. Undefined for positional ids. */
+export function boxFromAssetId(assetId: string, page: { width: number; height: number }): AssetBBox | undefined {
+  const m = assetId.match(BOX_ID);
+  if (!m) return undefined;
+  const [y, x, w, h] = m.slice(1).map((v) => Number(v) / SCALE);
+  return { x: x * page.width, y: y * page.height, w: w * page.width, h: h * page.height };
+}
+
+export function isLegacyAssetId(assetId: string): boolean {
+  return LEGACY_ID.test(assetId);
+}
+
+// The positional id the box at `index` used to get
+function legacyAssetId(pageNumber: number, index: number) {
+  return `p${pageNumber}-img${String(index + 1).padStart(2, "0")}`;
+}
+
+/** `assetId`, or it with the first free "_n" suffix. Adds the result to `taken`. */
+export function uniqueAssetId(assetId: string, taken: Set<string>): string {
+  let id = assetId;
+  for (let n = 2; taken.has(id); n++) id = `${assetId}_${n}`;
+  taken.add(id);
+  return id;
+}
+
+/**
+ * An id for each box found on `page` (page pixels, as they will be cut).
+ * A box takes the id of the asset or tombstone it overlaps most (or the box
+ * a re-cropped asset had before), if by at least ASSET_MATCH_IOU and no
+ * closer box took it first, so tags, schema references and deletions carry
+ * over to the same image found again.
+ * A box matching nothing takes a positional tombstone the migration
+ * couldn't place, if it is in that position, as it would have before.
+ * Other boxes get a new id for where they are.
+ */
+export function matchAssetIds(page: PageImage, boxes: AssetBBox[]): string[] {
+  const known: Array<{ assetId: string; bbox: AssetBBox }> = page.assets.map((a) => ({ assetId: a.assetId, bbox: a.bbox }));
+  // A box re-cropped by hand is still where it was detected
+  for (const a of page.assets) {
+    for (const e of a.history ?? []) if (e.action === "recrop") known.push({ assetId: a.assetId, bbox: e.bbox });
+  }
+  for (const assetId of page.deletedAssetIds) {
+    const bbox = boxFromAssetId(assetId, page);
+    if (bbox && !known.some((k) => k.assetId === assetId)) known.push({ assetId, bbox });
+  }
+
+  const pairs: Array<{ box: number; assetId: string; overlap: number }> = [];
+  for (const [box, b] of boxes.entries()) {
+    for (const k of known) {
+      const overlap = iou(b, k.bbox);
+      if (overlap >= ASSET_MATCH_IOU) pairs.push({ box, assetId: k.assetId, overlap });
+    }
+  }
+  pairs.sort((a, b) => b.overlap - a.overlap);
+
+  const ids: Array<string | undefined> = boxes.map(() => undefined);
+  const used = new Set<string>();
+  for (const p of pairs) {
+    if (ids[p.box] || used.has(p.assetId)) continue;
+    ids[p.box] = p.assetId;
+    used.add(p.assetId);
+  }
+
+  const deleted = new Set(page.deletedAssetIds);
+  for (const i of boxes.keys()) {
+    const legacy = legacyAssetId(page.pageNumber, i);
+    if (!ids[i] && deleted.has(legacy) && !used.has(legacy)) {
+      ids[i] = legacy;
+      used.add(legacy);
+    }
+  }
+
+  const taken = new Set([...known.map((k) => k.assetId), ...page.deletedAssetIds]);
+  return boxes.map((b, i) => ids[i] ?? uniqueAssetId(assetIdForBox(page.pageNumber, b, page), taken));
+}
@@ -0,0 +1,113 @@
+import sharp from "sharp";
+import type { AssetQuality, PageAsset } from "./manifest";
+
+// How usable a crop is as a picture: big enough, in focus, not smeared by
+// JPEG compression, not mostly text, not blank. Crops that score below the
+// detection rules' qualityThreshold aren't kept, and schema fill offers the
+// best-scoring assets first.
+
+// Short side (pixels) from which a crop counts as full resolution
+const FULL_RESOLUTION_SIDE = 400;
+// Crops are measured at most this big (long side) to keep it quick
+const MEASURE_MAX_SIDE = 1024;
+// Laplacian variance (grey levels squared) at which sharpness is 0.5
+const SHARPNESS_MIDPOINT = 100;
+// Grey-level standard deviation below which a crop is blank
+const BLANK_MAX_STDEV = 6;
+// JPEG block size, and the block-edge to in-block difference ratio at which
+// artifacts reach 1
+const BLOCK = 8;
+const BLOCKING_FULL_RATIO = 3;
+
+const round = (n: number) => Math.round(n * 1000) / 1000;
+
+/**
+ * Measure a crop. `textCoverage` is the share of it the page's text covers
+ * (see textCoverage() in page-text.ts), which the image itself can't tell.
+ */
+export async function measureQuality(image: Buffer, textCoverage = 0): Promise<AssetQuality> {
+  const meta = await sharp(image).metadata();
+  const width = meta.width ?? 0;
+  const height = meta.height ?? 0;
+  const { data: px, info } = await sharp(image)
+    .flatten({ background: "#ffffff" })
+    .grayscale()
+    .resize(MEASURE_MAX_SIDE, MEASURE_MAX_SIDE, { fit: "inside", withoutEnlargement: true })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const w = info.width;
+  const h = info.height;
+  const at = (x: number, y: number) => px[y * w + x];
+
+  let sum = 0;
+  let sumSq = 0;
+  for (let i = 0; i < w * h; i++) {
+    sum += px[i];
+    sumSq += px[i] * px[i];
+  }
+  const mean = sum / (w * h);
+  const blank = Math.sqrt(Math.max(0, sumSq / (w * h) - mean * mean)) < BLANK_MAX_STDEV;
+
+  // Variance of the Laplacian: edges stay steep in a sharp image and
+  // flatten out in a blurry or upscaled one
+  let lapSum = 0;
+  let lapSumSq = 0;
+  let lapCount = 0;
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const lap = 4 * at(x, y) - at(x - 1, y) - at(x + 1, y) - at(x, y - 1) - at(x, y + 1);
+      lapSum += lap;
+      lapSumSq += lap * lap;
+      lapCount++;
+    }
+  }
+  const lapVariance = lapCount > 0 ? lapSumSq / lapCount - (lapSum / lapCount) ** 2 : 0;
+  const sharpness = lapVariance / (lapVariance + SHARPNESS_MIDPOINT);
+
+  // Real blocking shows both ways; stripes or a grid may show one way only
+  const artifacts = Math.min(
+    blocking(w, h, (i, line) => at(i, line)),
+    blocking(h, w, (i, line) => at(line, i))
+  );
+
+  const resolution = Math.min(1, Math.min(width, height) / FULL_RESOLUTION_SIDE);
+  const score = blank
+    ? 0
+    : Math.sqrt(resolution) * (0.6 * sharpness + 0.4 * (1 - artifacts)) * (1 - 0.5 * textCoverage);
+
+  return {
+    width,
+    height,
+    sharpness: round(sharpness),
+    artifacts: round(artifacts),
+    textCoverage: round(textCoverage),
+    blank,
+    score: round(score)
+  };
+}
+
+/**
+ * JPEG blocking along one axis, 0..1: how much bigger the steps between
+ * neighbouring pixels are on one of every 8 positions (block edges, at
+ * whatever offset the crop put them) than on the rest. `at(i, line)` reads
+ * pixel i of a line along the axis.
+ */
+function blocking(length: number, lines: number, at: (i: number, line: number) => number): number {
+  if (length < 2 * BLOCK) return 0;
+  const diffs = new Array<number>(BLOCK).fill(0);
+  for (let line = 0; line < lines; line++) {
+    for (let i = 1; i < length; i++) diffs[i % BLOCK] += Math.abs(at(i, line) - at(i - 1, line));
+  }
+  const total = diffs.reduce((a, b) => a + b, 0);
+  // Too flat to tell
+  if (total / (lines * (length - 1)) < 0.5) return 0;
+  const edge = Math.max(...diffs);
+  const inside = (total - edge) / (BLOCK - 1);
+  const ratio = edge / Math.max(inside, 1e-6);
+  return Math.max(0, Math.min(1, (ratio - 1) / (BLOCKING_FULL_RATIO - 1)));
+}
+
+/** Whether an asset's measured score is under `threshold`; unmeasured assets never are. */
+export function belowQuality(asset: Pick<PageAsset, "quality">, threshold: number | undefined): boolean {
+  return threshold !== undefined && asset.quality !== undefined && asset.quality.score < threshold;
+}
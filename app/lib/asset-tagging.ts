@@ -0,0 +1,773 @@
+import { GoogleGenerativeAI, type GenerativeModel } from "@google/generative-ai";
+import { fetchManifestDirect, updateManifest, ManifestUpdateRejected, type ProjectManifest } from "./manifest";
+import type { JournalContext } from "./manifest-journal";
+import { chainedHash } from "./content-hash";
+import { assetText, readPageText, textAround, type AssetText } from "./page-text";
+import { contentTypeForPath, getProjectStore, readStoredText } from "@/app/lib/store";
+import { ValidationError } from "./validation";
+
+// Tagging assets with Gemini, a few crops per request, from each crop and
+// the text around it on its page. Shared by /api/projects/assets/tag and the
+// tag job, which resumes from nextAsset.
+
+// Stop starting new batches after this long (Vercel's limit is 300s)
+export const TAG_TIME_BUDGET_MS = 270_000;
+
+export type TagAssetsInput = {
+  projectId: string;
+  manifestUrl: string;
+  // Re-tag tagged assets too. Assets whose tags were made from the same crop,
+  // page text and settings are still skipped unless `force` is set.
+  overwrite?: boolean;
+  // Without `overwrite`, re-tag tagged assets whose tags were made from
+  // inputs that have since changed. Tagged assets are left alone otherwise.
+  retagStale?: boolean;
+  force?: boolean;
+  // 0 = no limit
+  limitAssets?: number;
+  // Resume a run that hit the time limit: start at the previous result's nextAsset
+  fromAsset?: { pageNumber: number; assetId: string };
+  // Callers with less time left (background jobs) can shorten the time limit
+  timeBudgetMs?: number;
+};
+
+type AssetCursor = { pageNumber: number; assetId: string };
+
+function compareAssets(a: AssetCursor, b: AssetCursor) {
+  return a.pageNumber - b.pageNumber || a.assetId.localeCompare(b.assetId);
+}
+
+type TagUpdate = {
+  pageNumber: number;
+  assetId: string;
+  tags: string[];
+  rationale: string;
+  // The asset's crop hash the tags were made for, and the hash of all their inputs
+  assetInputsHash?: string;
+  inputsHash?: string;
+};
+type TagError = { pageNumber: number; assetId: string; error: string };
+
+function mustEnv(name: string): string {
+  const v = process.env[name];
+  if (!v || !String(v).trim()) throw new Error(`Missing ${name}`);
+  return String(v).trim();
+}
+
+function optEnv(name: string, fallback: string): string {
+  const v = process.env[name];
+  return v && String(v).trim() ? String(v).trim() : fallback;
+}
+
+async function fetchText(url: string): Promise<string> {
+  const text = await readStoredText(url);
+  if (text === null) throw new Error("Fetch failed: not found");
+  return text;
+}
+
+function clampInt(n: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, n));
+}
+
+function safeParseJsonFromText(raw: string): unknown {
+  const t = raw.trim();
+  if (!t) return null;
+
+  // 1) ```json ... ```
+  const fence = t.match(/```json\s*([\s\S]*?)\s*```/i);
+  if (fence?.[1]) {
+    try {
+      return JSON.parse(fence[1].trim());
+    } catch {
+      // fall through
+    }
+  }
+
+  // 2) first {...} block
+  const firstObj = t.match(/\{[\s\S]*\}/);
+  if (firstObj?.[0]) {
+    try {
+      return JSON.parse(firstObj[0]);
+    } catch {
+      // fall through
+    }
+  }
+
+  // 3) try whole text
+  try {
+    return JSON.parse(t);
+  } catch {
+    return null;
+  }
+}
+
+function uniqCleanTags(tags: unknown, maxTags: number): string[] {
+  const out: string[] = [];
+  const seen = new Set<string>();
+
+  if (!Array.isArray(tags)) return out;
+
+  for (const v of tags) {
+    if (typeof v !== "string") continue;
+    const s = v.trim().replace(/\s+/g, " ");
+    if (!s) continue;
+    const key = s.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push(s);
+    if (out.length >= maxTags) break;
+  }
+
+  return out;
+}
+
+// Pages without their own text (processed before per-page text, or uploaded
+// as PNGs): a window around a "Page X" marker in the full text, or its start
+function getPageTextFallback(fullText: string, pageNumber: number): string {
+  const marker = new RegExp(`\\bpage\\s*${pageNumber}\\b`, "i");
+  const idx = fullText.search(marker);
+  if (idx >= 0) {
+    const start = clampInt(idx - 2500, 0, fullText.length);
+    const end = clampInt(idx + 2500, 0, fullText.length);
+    return fullText.slice(start, end);
+  }
+  return fullText.slice(0, 5000);
+}
+
+function buildPrompt(args: {
+  aiRules: string;
+  taggingJson: string;
+  pageNumber: number;
+  assetId: string;
+  pageText: string;
+  maxTags: number;
+} & AssetText) {
+  const { aiRules, taggingJson, pageNumber, assetId, pageText, maxTags, caption, nearbyText } = args;
+
+  return [
+    `SYSTEM RULES (follow strictly):`,
+    aiRules,
+    ``,
+    `TAGGING CONFIG (JSON, use as constraints):`,
+    taggingJson,
+    ``,
+    `TASK: You are tagging ONE cropped image asset extracted from a PDF page.`,
+    `Analyze the IMAGE provided to understand what it shows visually.`,
+    `Use the PAGE TEXT below for context about what this image relates to in the document.`,
+    `You must output ONLY valid JSON (no markdown).`,
+    ``,
+    `CONTEXT:`,
+    `- pageNumber: ${pageNumber}`,
+    `- assetId: ${assetId}`,
+    ...(caption ? [`- caption (printed right next to the image): ${caption}`] : []),
+    ...(nearbyText ? [`- text near the image: ${nearbyText}`] : []),
+    ``,
+    `PAGE TEXT (use for context about what this image relates to):`,
+    pageText,
+    ``,
+    `TAGGING APPROACH:`,
+    `1. Look at the image to understand what it visually depicts (objects, scenes, diagrams, etc.)`,
+    `2. Use the caption and nearby text, if given, to identify who or what the image shows; use the page text to understand the context (what topic/section this image belongs to)`,
+    `3. Combine visual + contextual understanding into meaningful tags`,
+    ``,
+    `OUTPUT SCHEMA (JSON):`,
+    `{`,
+    `  "tags": ["..."],`,
+    `  "rationale": "short reason grounded in page text"`,
+    `}`,
+    ``,
+    `RULES:`,
+    `- tags must be short, lowercase preferred, comma-free strings`,
+    `- max ${maxTags} tags`,
+    `- if uncertain, output fewer tags (not guesses)`,
+    `- rationale should mention what you see in the image AND how it relates to the page text`
+  ].join("\n");
+}
+
+async function fetchImageAsBase64(url: string): Promise<{ base64: string; mimeType: string }> {
+  const buffer = await getProjectStore().get(url);
+  if (!buffer) throw new Error("Failed to fetch image: not found");
+
+  const contentType = contentTypeForPath(url);
+  const base64 = buffer.toString("base64");
+
+  return { base64, mimeType: contentType.startsWith("image/") ? contentType : "image/png" };
+}
+
+async function geminiGenerateWithImage(
+  model: GenerativeModel,
+  prompt: string,
+  imageBase64: string,
+  imageMimeType: string
+) {
+  let res;
+  try {
+    res = await model.generateContent({
+      contents: [
+        {
+          role: "user",
+          parts: [
+            { inlineData: { mimeType: imageMimeType, data: imageBase64 } },
+            { text: prompt }
+          ]
+        }
+      ],
+      generationConfig: {
+        temperature: 0.2,
+        topP: 0.9,
+        maxOutputTokens: 600
+      }
+    });
+  } catch (e) {
+    // Handle Gemini API errors (rate limits, content filtering, etc.)
+    const errMsg = e instanceof Error ? e.message : String(e);
+    if (errMsg.includes("pattern") || errMsg.includes("SAFETY") || errMsg.includes("blocked")) {
+      throw new Error(`Gemini content filter: ${errMsg}`);
+    }
+    if (errMsg.includes("429") || errMsg.includes("quota") || errMsg.includes("rate")) {
+      throw new Error(`Gemini rate limit: ${errMsg}`);
+    }
+    throw new Error(`Gemini API error: ${errMsg}`);
+  }
+
+  // Primary: response.text()
+  let text = "";
+  try {
+    text = res.response.text?.() ?? "";
+  } catch (e) {
+    // Sometimes .text() throws if blocked
+    const errMsg = e instanceof Error ? e.message : String(e);
+    throw new Error(`Gemini response error: ${errMsg}`);
+  }
+  
+  if (text && text.trim()) return { text, raw: res };
+
+  // Fallback: candidates parts
+  const anyRes = res as unknown as {
+    response?: { candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }> };
+  };
+
+  const parts = anyRes.response?.candidates?.[0]?.content?.parts ?? [];
+  const joined = parts.map((p) => (typeof p.text === "string" ? p.text : "")).join("");
+  if (joined && joined.trim()) return { text: joined, raw: res };
+
+  throw new Error("Gemini returned empty response text");
+}
+
+async function callGeminiTagger(args: {
+  apiKey: string;
+  modelName: string;
+  aiRules: string;
+  taggingJson: string;
+  pageNumber: number;
+  assetId: string;
+  assetUrl: string;
+  pageText: string;
+} & AssetText) {
+  const { apiKey, modelName, aiRules, taggingJson, pageNumber, assetId, assetUrl, pageText, caption, nearbyText } = args;
+
+  const genAI = new GoogleGenerativeAI(apiKey);
+  const model = genAI.getGenerativeModel({ model: modelName });
+
+  // Fetch the image for visual analysis
+  const { base64: imageBase64, mimeType: imageMimeType } = await fetchImageAsBase64(assetUrl);
+
+  // Read max_tags_per_image from taggingJson if present
+  let maxTags = 20;
+  try {
+    const cfg = JSON.parse(taggingJson) as unknown;
+    if (cfg && typeof cfg === "object") {
+      const mt = (cfg as Record<string, unknown>)["max_tags_per_image"];
+      if (typeof mt === "number" && Number.isFinite(mt) && mt > 0) maxTags = clampInt(mt, 1, 50);
+    }
+  } catch {
+    // ignore
+  }
+
+  const promptA = buildPrompt({ aiRules, taggingJson, pageNumber, assetId, pageText, maxTags, caption, nearbyText });
+
+  // Retry strategy for empty/invalid JSON
+  const attempts: Array<{ prompt: string }> = [
+    { prompt: promptA },
+    {
+      prompt:
+        promptA +
+        `\n\nIMPORTANT: Output ONLY JSON. No markdown. If you cannot comply, output {"tags":[],"rationale":"could not analyze image"}.`
+    }
+  ];
+
+  let lastErr: Error | null = null;
+
+  for (let i = 0; i < attempts.length; i++) {
+    try {
+      const { text } = await geminiGenerateWithImage(model, attempts[i].prompt, imageBase64, imageMimeType);
+
+      const parsed = safeParseJsonFromText(text);
+      if (!parsed || typeof parsed !== "object") throw new Error("Gemini did not return valid JSON");
+
+      const obj = parsed as Record<string, unknown>;
+      const tags = uniqCleanTags(obj.tags, maxTags);
+      const rationale = typeof obj.rationale === "string" ? obj.rationale.trim() : "";
+
+      // Accept even empty tags if rationale exists; otherwise make a safe fallback
+      return {
+        tags,
+        rationale: rationale || (tags.length ? "tags inferred from image and context" : "could not determine tags")
+      };
+    } catch (e) {
+      lastErr = e instanceof Error ? e : new Error(String(e));
+    }
+  }
+
+  throw lastErr ?? new Error("Gemini tagger failed");
+}
+
+// Batch asset info for batch tagging
+type BatchAsset = {
+  pageNumber: number;
+  assetId: string;
+  assetUrl: string;
+  pageText: string;
+} & AssetText;
+
+type BatchResult = {
+  assetId: string;
+  tags: string[];
+  rationale: string;
+};
+
+function buildBatchPrompt(args: {
+  aiRules: string;
+  taggingJson: string;
+  assets: Array<{ assetId: string; pageNumber: number } & AssetText>;
+  maxTags: number;
+}) {
+  const { aiRules, taggingJson, assets, maxTags } = args;
+
+  const assetList = assets
+    .map((a, i) =>
+      [
+        `  Image ${i + 1}: assetId="${a.assetId}" (page ${a.pageNumber})`,
+        ...(a.caption ? [`    caption: ${JSON.stringify(a.caption)}`] : []),
+        ...(a.nearbyText ? [`    nearby text: ${JSON.stringify(a.nearbyText)}`] : [])
+      ].join("\n")
+    )
+    .join("\n");
+
+  return [
+    `SYSTEM RULES (follow strictly):`,
+    aiRules,
+    ``,
+    `TAGGING CONFIG (JSON, use as constraints):`,
+    taggingJson,
+    ``,
+    `TASK: You are tagging MULTIPLE cropped image assets extracted from a PDF.`,
+    `Analyze each IMAGE provided to understand what it shows visually.`,
+    `You must output ONLY valid JSON (no markdown).`,
+    ``,
+    `IMAGES TO TAG:`,
+    assetList,
+    ``,
+    `OUTPUT SCHEMA (JSON array):`,
+    `[`,
+    `  { "assetId": "...", "tags": ["..."], "rationale": "..." },`,
+    `  ...`,
+    `]`,
+    ``,
+    `RULES:`,
+    `- Output one object per image in the same order as provided`,
+    `- tags must be short, lowercase preferred, comma-free strings`,
+    `- max ${maxTags} tags per image`,
+    `- if uncertain, output fewer tags (not guesses)`,
+    `- an image's caption and nearby text (printed next to it on the page) are the best clue to who or what it shows; use them when given`,
+    `- rationale should mention what you see in the image`
+  ].join("\n");
+}
+
+async function callGeminiBatchTagger(args: {
+  apiKey: string;
+  modelName: string;
+  aiRules: string;
+  taggingJson: string;
+  assets: BatchAsset[];
+}): Promise<BatchResult[]> {
+  const { apiKey, modelName, aiRules, taggingJson, assets } = args;
+
+  if (assets.length === 0) return [];
+
+  const genAI = new GoogleGenerativeAI(apiKey);
+  const model = genAI.getGenerativeModel({ model: modelName });
+
+  // Read max_tags_per_image from taggingJson if present
+  let maxTags = 20;
+  try {
+    const cfg = JSON.parse(taggingJson) as unknown;
+    if (cfg && typeof cfg === "object") {
+      const mt = (cfg as Record<string, unknown>)["max_tags_per_image"];
+      if (typeof mt === "number" && Number.isFinite(mt) && mt > 0) maxTags = clampInt(mt, 1, 50);
+    }
+  } catch {
+    // ignore
+  }
+
+  // Fetch all images in parallel
+  const imagePromises = assets.map(async (a) => {
+    try {
+      const { base64, mimeType } = await fetchImageAsBase64(a.assetUrl);
+      return { assetId: a.assetId, base64, mimeType, error: null };
+    } catch (e) {
+      return { assetId: a.assetId, base64: null, mimeType: null, error: e instanceof Error ? e.message : String(e) };
+    }
+  });
+  const imageResults = await Promise.all(imagePromises);
+
+  // Filter out failed fetches
+  const validImages = imageResults.filter((r) => r.base64 !== null);
+  if (validImages.length === 0) {
+    // All failed - return empty results
+    return assets.map((a) => ({
+      assetId: a.assetId,
+      tags: [],
+      rationale: "failed to fetch image"
+    }));
+  }
+
+  const prompt = buildBatchPrompt({
+    aiRules,
+    taggingJson,
+    assets: validImages.map((v) => {
+      const orig = assets.find((a) => a.assetId === v.assetId)!;
+      return { assetId: v.assetId, pageNumber: orig.pageNumber, caption: orig.caption, nearbyText: orig.nearbyText };
+    }),
+    maxTags
+  });
+
+  // Build parts: prompt text + all images
+  const parts: Array<{ text: string } | { inlineData: { mimeType: string; data: string } }> = [
+    { text: prompt }
+  ];
+  for (const img of validImages) {
+    parts.push({ inlineData: { mimeType: img.mimeType!, data: img.base64! } });
+  }
+
+  try {
+    const res = await model.generateContent({
+      contents: [{ role: "user", parts }],
+      generationConfig: {
+        temperature: 0.2,
+        topP: 0.9,
+        maxOutputTokens: 4000
+      }
+    });
+
+    let text = "";
+    try {
+      text = res.response.text?.() ?? "";
+    } catch {
+      text = "";
+    }
+
+    const parsed = safeParseJsonFromText(text);
+    if (!parsed || !Array.isArray(parsed)) {
+      // Fallback: return empty for all
+      return assets.map((a) => ({
+        assetId: a.assetId,
+        tags: [],
+        rationale: "batch parse failed"
+      }));
+    }
+
+    // Map results back to assets
+    const results: BatchResult[] = [];
+    for (const a of assets) {
+      const match = (parsed as Array<Record<string, unknown>>).find(
+        (r) => r.assetId === a.assetId
+      );
+      if (match) {
+        results.push({
+          assetId: a.assetId,
+          tags: uniqCleanTags(match.tags, maxTags),
+          rationale: typeof match.rationale === "string" ? match.rationale : ""
+        });
+      } else {
+        results.push({
+          assetId: a.assetId,
+          tags: [],
+          rationale: "not found in batch response"
+        });
+      }
+    }
+    return results;
+  } catch (e) {
+    const errMsg = e instanceof Error ? e.message : String(e);
+    // Return error for all
+    return assets.map((a) => ({
+      assetId: a.assetId,
+      tags: [],
+      rationale: `batch error: ${errMsg}`
+    }));
+  }
+}
+
+/**
+ * Tag the project's assets and merge the tags onto the latest manifest.
+ * Stops starting new batches once the time budget is spent, returning
+ * `timedOut` and the `nextAsset` to resume from.
+ */
+export async function tagAssets(input: TagAssetsInput, journal?: JournalContext) {
+  const {
+    projectId,
+    manifestUrl,
+    overwrite = false,
+    retagStale = false,
+    force = false,
+    limitAssets = 0,
+    fromAsset,
+    timeBudgetMs
+  } = input;
+
+  let GEMINI_API_KEY: string;
+  try {
+    GEMINI_API_KEY = mustEnv("GEMINI_API_KEY");
+  } catch {
+    throw new Error("GEMINI_API_KEY not configured on server");
+  }
+  // Default to a modern model name; you can override via env
+  const GEMINI_DETECT_MODEL = optEnv("GEMINI_DETECT_MODEL", "gemini-2.0-flash");
+  
+  // Log model being used for debugging
+  console.log(`[tag] Using model: ${GEMINI_DETECT_MODEL}`);
+
+  // NOTE: We will *not* save this manifest directly at the end.
+  // Tagging can take time, and the user may delete assets while it's running.
+  // If we save the stale manifest, we can resurrect deleted assets.
+  let manifest: ProjectManifest;
+  try {
+    manifest = await fetchManifestDirect(manifestUrl);
+  } catch (e) {
+    if (e instanceof ValidationError) throw e;
+    const msg = e instanceof Error ? e.message : String(e);
+    throw new Error(`Failed to fetch manifest: ${msg}`);
+  }
+
+  if (manifest.projectId !== projectId) {
+    throw new ManifestUpdateRejected("projectId does not match manifest");
+  }
+
+  if (!manifest.extractedText?.url) {
+    throw new ManifestUpdateRejected("No extractedText in manifest. Please process the document first.");
+  }
+
+  if (manifest.pages.length === 0) {
+    throw new ManifestUpdateRejected("No pages in manifest");
+  }
+
+  // Full text, for pages without their own (PageImage.textUrl)
+  let fullText: string;
+  try {
+    fullText = await fetchText(manifest.extractedText.url);
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    throw new Error(`Failed to fetch extracted text: ${msg}`);
+  }
+
+  const aiRules = manifest.settings.aiRules;
+  const taggingJson = manifest.settings.taggingJson || "{}";
+
+  let totalConsidered = 0;
+  let totalTagged = 0;
+  const updates: TagUpdate[] = [];
+  const errors: TagError[] = [];
+  
+  // Time limit to avoid Vercel timeout (leave 30s buffer for saving)
+  const startTime = Date.now();
+  const MAX_DURATION_MS = timeBudgetMs ?? TAG_TIME_BUDGET_MS;
+  let timedOut = false;
+  let nextAsset: AssetCursor | undefined;
+
+  // Batch size for processing multiple images in one API call
+  const BATCH_SIZE = 6;
+
+  // Collect all assets to tag first
+  const assetsToTag: (BatchAsset & { pageText: string; assetInputsHash?: string; inputsHash?: string })[] = [];
+  let unchanged = 0;
+  // Near-duplicates (see assets/dedupe) are left to their canonical asset,
+  // while it is still there
+  const live = new Set(
+    manifest.pages.flatMap((p) => p.assets.filter((a) => !p.deletedAssetIds.includes(a.assetId)).map((a) => a.assetId))
+  );
+  let duplicates = 0;
+  
+  for (const page of manifest.pages) {
+    const pageNumber = page.pageNumber;
+    const deleted = new Set<string>(page.deletedAssetIds);
+    // Filtered before any text work, so a resumed run doesn't redo it for
+    // the assets it already passed
+    const candidates = page.assets.filter((asset) => {
+      if (deleted.has(asset.assetId)) return false;
+      if (fromAsset && compareAssets({ pageNumber, assetId: asset.assetId }, fromAsset) < 0) return false;
+      if (asset.duplicateOf && live.has(asset.duplicateOf)) {
+        duplicates += 1;
+        return false;
+      }
+      return true;
+    });
+    const ownText = candidates.length > 0 ? await readPageText(page.textUrl) : null;
+
+    for (const asset of candidates) {
+      totalConsidered += 1;
+      if (limitAssets > 0 && totalConsidered > limitAssets) break;
+
+      // The paragraphs nearest the asset, when the page has its own text
+      const pageText = ownText
+        ? textAround(ownText, 5000, { bbox: asset.bbox, pageWidth: page.width, pageHeight: page.height })
+        : getPageTextFallback(fullText, pageNumber);
+      // Recomputed when possible, for assets cropped before the page had text
+      const { caption, nearbyText } = ownText
+        ? assetText(ownText, page, asset.bbox)
+        : { caption: asset.caption, nearbyText: asset.nearbyText };
+
+      const alreadyTagged = Array.isArray(asset.tags) && asset.tags.length > 0;
+      const inputsHash = chainedHash(
+        "tag-v2",
+        [asset.inputsHash],
+        pageText,
+        caption,
+        nearbyText,
+        aiRules,
+        taggingJson,
+        GEMINI_DETECT_MODEL
+      );
+      if (alreadyTagged && !force && inputsHash && asset.tagsInputsHash === inputsHash) {
+        unchanged += 1;
+        continue;
+      }
+      // With retagStale, tags made from inputs that have since changed are
+      // redone; tags without a hash (set by hand, or from before hashing)
+      // are still kept
+      if (alreadyTagged && !overwrite && !(retagStale && asset.tagsInputsHash)) continue;
+
+      assetsToTag.push({
+        pageNumber,
+        assetId: asset.assetId,
+        assetUrl: asset.url,
+        pageText,
+        caption,
+        nearbyText,
+        assetInputsHash: asset.inputsHash,
+        inputsHash
+      });
+    }
+
+    if (limitAssets > 0 && totalConsidered > limitAssets) break;
+  }
+
+  // Fixed order, so nextAsset means the same thing on the next run
+  assetsToTag.sort(compareAssets);
+
+  console.log(`[tag] Found ${assetsToTag.length} assets to tag in batches of ${BATCH_SIZE}`);
+
+  // Process in batches
+  for (let i = 0; i < assetsToTag.length; i += BATCH_SIZE) {
+    // Check time limit
+    if (Date.now() - startTime > MAX_DURATION_MS) {
+      console.log(`[tag] Time limit reached after ${totalTagged} assets`);
+      timedOut = true;
+      nextAsset = { pageNumber: assetsToTag[i].pageNumber, assetId: assetsToTag[i].assetId };
+      break;
+    }
+
+    const batch = assetsToTag.slice(i, i + BATCH_SIZE);
+    console.log(`[tag] Processing batch ${Math.floor(i / BATCH_SIZE) + 1}: ${batch.length} assets`);
+
+    try {
+      const batchResults = await callGeminiBatchTagger({
+        apiKey: GEMINI_API_KEY,
+        modelName: GEMINI_DETECT_MODEL,
+        aiRules,
+        taggingJson,
+        assets: batch
+      });
+
+      for (const result of batchResults) {
+        const orig = batch.find((b) => b.assetId === result.assetId);
+        if (!orig) continue;
+
+        if (result.tags.length > 0) {
+          updates.push({
+            pageNumber: orig.pageNumber,
+            assetId: result.assetId,
+            tags: result.tags,
+            rationale: result.rationale,
+            assetInputsHash: orig.assetInputsHash,
+            inputsHash: orig.inputsHash
+          });
+          totalTagged += 1;
+        } else if (result.rationale.includes("error") || result.rationale.includes("failed")) {
+          errors.push({
+            pageNumber: orig.pageNumber,
+            assetId: result.assetId,
+            error: result.rationale
+          });
+        }
+      }
+
+      // Small delay between batch API calls
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    } catch (batchErr) {
+      const errMsg = batchErr instanceof Error ? batchErr.message : String(batchErr);
+      console.error(`[tag] Batch error:`, errMsg);
+      
+      // Record errors for each asset in the failed batch
+      for (const asset of batch) {
+        errors.push({
+          pageNumber: asset.pageNumber,
+          assetId: asset.assetId,
+          error: `batch failed: ${errMsg}`
+        });
+      }
+
+      // If rate limited, add a longer delay before continuing
+      if (errMsg.includes("rate") || errMsg.includes("429") || errMsg.includes("quota")) {
+        await new Promise((resolve) => setTimeout(resolve, 5000));
+      }
+    }
+  }
+
+  // Merge tag updates onto the latest manifest, so we don't overwrite
+  // concurrent changes like deletions or another tagging run. If someone
+  // saves in between, the merge is replayed onto their version.
+  const { manifestUrl: newManifestUrl } = await updateManifest(
+    manifestUrl,
+    (latest) => {
+      for (const u of updates) {
+        const p = latest.pages.find((x) => x.pageNumber === u.pageNumber);
+        if (!p) continue;
+        if (p.deletedAssetIds.includes(u.assetId)) continue;
+        const a = p.assets.find((x) => x.assetId === u.assetId);
+        if (!a) continue;
+        a.tags = u.tags;
+        a.tagRationale = u.rationale;
+        // Recropped while we were tagging: the tags are for the old crop
+        a.tagsInputsHash = a.inputsHash === u.assetInputsHash ? u.inputsHash : undefined;
+      }
+    },
+    { projectId, maxAttempts: 8, journal }
+  );
+
+  return {
+    manifestUrl: newManifestUrl,
+    considered: totalConsidered,
+    tagged: totalTagged,
+    // Tags already made from the same inputs
+    unchanged,
+    // Skipped as near-duplicates of another asset
+    duplicates,
+    failed: errors.length,
+    errors: errors.length > 0 ? errors.slice(0, 10) : undefined, // Limit to first 10 errors
+    model: GEMINI_DETECT_MODEL,
+    timedOut,
+    nextAsset,
+    message: timedOut ? `Partial results: tagged ${totalTagged} assets before time limit. Run again to continue.` : undefined
+  };
+}
@@ -0,0 +1,46 @@
+import { createHash } from "crypto";
+
+// Derived artifacts (source text, page PNGs, asset crops, tags, schema
+// results) record an `inputsHash`: a hash of everything they were made from,
+// settings included. A step whose inputs hash the same as last time skips the
+// work and keeps what it made before.
+//
+// Hashes chain: a crop hashes its page's inputsHash, tags hash their asset's.
+// Something made from an input without a hash (e.g. a page PNG uploaded by the
+// browser) gets no hash either, so it is always redone.
+
+export type HashPart = string | number | boolean | null | undefined | Uint8Array | object;
+
+// Same value, same JSON, whatever order its keys were set in
+function stableJson(v: unknown): string {
+  if (Array.isArray(v)) return `[${v.map(stableJson).join(",")}]`;
+  if (v && typeof v === "object") {
+    const entries = Object.entries(v as Record<string, unknown>)
+      .filter(([, x]) => x !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, x]) => `${JSON.stringify(k)}:${stableJson(x)}`).join(",")}}`;
+  }
+  return JSON.stringify(v) ?? "null";
+}
+
+/**
+ * Hash of a list of inputs. Start with a label naming the step and the
+ * version of its recipe ("crop-v1"); bump the version when the step starts
+ * producing different output from the same inputs.
+ */
+export function contentHash(...parts: HashPart[]): string {
+  const h = createHash("sha256");
+  for (const p of parts) {
+    const bytes = p instanceof Uint8Array ? p : Buffer.from(stableJson(p), "utf-8");
+    // Length-prefixed, so ("ab", "c") and ("a", "bc") differ
+    h.update(`${p instanceof Uint8Array ? "b" : "j"}${bytes.length}:`);
+    h.update(bytes);
+  }
+  return h.digest("hex").slice(0, 32);
+}
+
+/** Hash of inputs that may lack a hash of their own; undefined if any does. */
+export function chainedHash(label: string, upstream: Array<string | undefined>, ...parts: HashPart[]): string | undefined {
+  if (upstream.some((u) => !u)) return undefined;
+  return contentHash(label, ...upstream, ...parts);
+}
@@ -0,0 +1,57 @@
+import sharp from "sharp";
+import type { AssetBBox } from "./manifest";
+
+// Cropping assets out of page images on the server. Boxes are in page
+// coordinates (PageImage.width/height); the stored page PNG is normally the
+// same size, but is scaled to if not.
+
+function clamp(n: number, a: number, b: number) {
+  return Math.max(a, Math.min(b, n));
+}
+
+/** Grow a box by `padding` on every side, kept within the page. */
+export function padBox(bbox: AssetBBox, padding: number, pageWidth: number, pageHeight: number): AssetBBox {
+  const x = clamp(Math.floor(bbox.x - padding), 0, pageWidth - 1);
+  const y = clamp(Math.floor(bbox.y - padding), 0, pageHeight - 1);
+  const right = clamp(Math.ceil(bbox.x + bbox.w + padding), x + 1, pageWidth);
+  const bottom = clamp(Math.ceil(bbox.y + bbox.h + padding), y + 1, pageHeight);
+  return { x, y, w: right - x, h: bottom - y };
+}
+
+export type CropRequest = {
+  bbox: AssetBBox;
+  padding: number;
+};
+
+export type Crop = {
+  // The box actually cut, padding included, in page coordinates
+  bbox: AssetBBox;
+  png: Buffer;
+};
+
+/** Cut each box (plus its padding) out of a page image, as PNGs. */
+export async function cropPageImage(
+  pageImage: Buffer,
+  page: { width: number; height: number },
+  boxes: CropRequest[]
+): Promise<Crop[]> {
+  const meta = await sharp(pageImage).metadata();
+  if (!meta.width || !meta.height) throw new Error("Cannot read page image size");
+  const sx = meta.width / page.width;
+  const sy = meta.height / page.height;
+
+  const crops: Crop[] = [];
+  for (const b of boxes) {
+    const bbox = padBox(b.bbox, b.padding, page.width, page.height);
+    const left = clamp(Math.round(bbox.x * sx), 0, meta.width - 1);
+    const top = clamp(Math.round(bbox.y * sy), 0, meta.height - 1);
+    const region = {
+      left,
+      top,
+      width: clamp(Math.round(bbox.w * sx), 1, meta.width - left),
+      height: clamp(Math.round(bbox.h * sy), 1, meta.height - top)
+    };
+    crops.push({ bbox, png: await sharp(pageImage).extract(region).png().toBuffer() });
+  }
+  return crops;
+}
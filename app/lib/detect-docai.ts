@@ -0,0 +1,134 @@
+import type { AssetBBox, PageImage, ProjectManifest } from "./manifest";
+import { applyDetectionRules, type DetectedBox, type DetectionRules } from "./detection-rules";
+import { readStoredJson } from "@/app/lib/store";
+
+// Image boxes from the layout Document AI already returned when the source
+// was processed (sources/{id}/docai.json): no model call of its own.
+
+function clamp(n: number, a: number, b: number) {
+  return Math.max(a, Math.min(b, n));
+}
+
+function bboxFromPoly(
+  poly: unknown,
+  pageW: number,
+  pageH: number
+): AssetBBox | null {
+  if (!poly || typeof poly !== "object") return null;
+
+  const o = poly as {
+    normalizedVertices?: Array<{ x?: number; y?: number }>;
+    vertices?: Array<{ x?: number; y?: number }>;
+  };
+
+  const verts = Array.isArray(o.normalizedVertices) ? o.normalizedVertices : Array.isArray(o.vertices) ? o.vertices : null;
+  if (!verts || verts.length === 0) return null;
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+
+  for (const v of verts) {
+    const x = typeof v.x === "number" ? v.x : 0;
+    const y = typeof v.y === "number" ? v.y : 0;
+
+    // If normalizedVertices, scale up. If vertices, treat as pixels.
+    const px = Array.isArray(o.normalizedVertices) ? x * pageW : x;
+    const py = Array.isArray(o.normalizedVertices) ? y * pageH : y;
+
+    xs.push(px);
+    ys.push(py);
+  }
+
+  if (xs.length === 0 || ys.length === 0) return null;
+
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const maxX = Math.max(...xs);
+  const maxY = Math.max(...ys);
+
+  const x = clamp(Math.floor(minX), 0, pageW - 1);
+  const y = clamp(Math.floor(minY), 0, pageH - 1);
+  const w = clamp(Math.ceil(maxX - minX), 1, pageW - x);
+  const h = clamp(Math.ceil(maxY - minY), 1, pageH - y);
+
+  return { x, y, w, h };
+}
+
+// Extract likely "image" boxes from DocAI JSON.
+// We try visualElements first; if missing, we fall back to scanning any objects that have layout.boundingPoly.
+// Size limits, merging and the cap come from the detection rules.
+function extractBoxesForDocAiPage(docPage: unknown, pageW: number, pageH: number): AssetBBox[] {
+  const boxes: AssetBBox[] = [];
+
+  // 1) visualElements
+  if (docPage && typeof docPage === "object") {
+    const p = docPage as { visualElements?: unknown };
+    if (Array.isArray(p.visualElements)) {
+      for (const ve of p.visualElements) {
+        if (!ve || typeof ve !== "object") continue;
+        const veObj = ve as { layout?: { boundingPoly?: unknown }; type?: unknown };
+        const poly = veObj.layout?.boundingPoly;
+        const b = bboxFromPoly(poly, pageW, pageH);
+        if (b) boxes.push(b);
+      }
+    }
+  }
+
+  // 2) Fallback scan: shallow-walk a few known arrays commonly present in DocAI
+  const knownArrays = ["blocks", "paragraphs", "lines", "tokens"];
+  if (boxes.length === 0 && docPage && typeof docPage === "object") {
+    const p = docPage as Record<string, unknown>;
+    for (const key of knownArrays) {
+      const arr = p[key];
+      if (!Array.isArray(arr)) continue;
+      for (const item of arr) {
+        if (!item || typeof item !== "object") continue;
+        const it = item as { layout?: { boundingPoly?: unknown } };
+        const b = bboxFromPoly(it.layout?.boundingPoly, pageW, pageH);
+        if (b) boxes.push(b);
+      }
+    }
+  }
+
+  return boxes;
+}
+
+// DocAI "document" shape varies. We try common nesting:
+// { document: { pages: [...] } } or { pages: [...] }
+function documentPages(doc: unknown): unknown[] {
+  if (!doc || typeof doc !== "object") return [];
+  const d = doc as { pages?: unknown; document?: { pages?: unknown } };
+  if (Array.isArray(d.pages)) return d.pages;
+  if (d.document && typeof d.document === "object" && Array.isArray(d.document.pages)) return d.document.pages;
+  return [];
+}
+
+// Document AI pages of every processed source, by sourceId
+export type DocAiPagesBySource = Map<string, unknown[]>;
+
+/** Read the stored Document AI output of every source that has one. */
+export async function loadDocAiPages(manifest: ProjectManifest): Promise<DocAiPagesBySource> {
+  const bySource: DocAiPagesBySource = new Map();
+  for (const source of manifest.sources) {
+    if (!source.docAiJson?.url) continue;
+    const doc = await readStoredJson<unknown>(source.docAiJson.url);
+    if (doc === null) throw new Error(`docAiJson for ${source.filename} not found in storage. Run Process Text again.`);
+    bySource.set(source.sourceId, documentPages(doc));
+  }
+  return bySource;
+}
+
+/**
+ * Boxes for one project page, through the detection rules. Pages whose
+ * source has no Document AI output (or that aren't rendered yet) get none.
+ */
+export function detectDocAiBoxes(
+  docPages: DocAiPagesBySource,
+  page: Pick<PageImage, "width" | "height" | "sourceId" | "sourcePageNumber">,
+  rules: DetectionRules | undefined
+): DetectedBox[] {
+  const pages = page.sourceId ? docPages.get(page.sourceId) : undefined;
+  const docPage = pages && page.sourcePageNumber ? pages[page.sourcePageNumber - 1] : null;
+  if (!docPage) return [];
+  return applyDetectionRules(extractBoxesForDocAiPage(docPage, page.width, page.height), page, rules);
+}
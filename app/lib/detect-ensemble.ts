@@ -0,0 +1,156 @@
+import { fetchManifestDirect, ManifestUpdateRejected, type AssetBBox } from "./manifest";
+import { detectDocAiBoxes, loadDocAiPages, type DocAiPagesBySource } from "./detect-docai";
+import { detectWithGemini } from "./detect-gemini";
+import {
+  DETECTION_DEFAULTS,
+  iou,
+  parseDetectionRules,
+  type DetectedBox,
+  type DetectionRules,
+  type DetectorName
+} from "./detection-rules";
+
+// Ensemble detection: both detectors look at the page and their boxes are
+// paired up by overlap. A box both found is the likelier asset; one only one
+// of them found is kept but flagged for review.
+
+// Overlap at which a Document AI box and a Gemini box are the same asset
+export const ENSEMBLE_MATCH_IOU = 0.5;
+// Confidence of a box one detector found; matched boxes get 0.6..1 by overlap
+const SINGLE_CONFIDENCE: Record<DetectorName, number> = { docai: 0.35, gemini: 0.45 };
+
+// The two boxes averaged, edge by edge
+function meanBox(a: AssetBBox, b: AssetBBox): AssetBBox {
+  const x = Math.round((a.x + b.x) / 2);
+  const y = Math.round((a.y + b.y) / 2);
+  const right = Math.round((a.x + a.w + b.x + b.w) / 2);
+  const bottom = Math.round((a.y + a.h + b.y + b.h) / 2);
+  return { x, y, w: Math.max(1, right - x), h: Math.max(1, bottom - y) };
+}
+
+function bboxOf(b: DetectedBox): AssetBBox {
+  return { x: b.x, y: b.y, w: b.w, h: b.h };
+}
+
+/**
+ * Merge one page's boxes from both detectors (each already through the
+ * detection rules). Pairs overlapping by at least ENSEMBLE_MATCH_IOU become
+ * one box, the two averaged, taking Gemini's category. Leftovers that sit on
+ * a matched box are dropped. Matched boxes come
+ * first, then single-detector ones, each largest first, up to maxBoxes.
+ */
+export function ensembleBoxes(
+  docai: DetectedBox[],
+  gemini: DetectedBox[],
+  rules: DetectionRules | undefined
+): DetectedBox[] {
+  const pairs: Array<{ d: number; g: number; overlap: number }> = [];
+  docai.forEach((d, di) =>
+    gemini.forEach((g, gi) => {
+      const overlap = iou(d, g);
+      if (overlap >= ENSEMBLE_MATCH_IOU) pairs.push({ d: di, g: gi, overlap });
+    })
+  );
+  pairs.sort((a, b) => b.overlap - a.overlap);
+
+  const usedD = new Set<number>();
+  const usedG = new Set<number>();
+  const matched: DetectedBox[] = [];
+  for (const { d, g, overlap } of pairs) {
+    if (usedD.has(d) || usedG.has(g)) continue;
+    usedD.add(d);
+    usedG.add(g);
+    const category = gemini[g].category ?? docai[d].category;
+    matched.push({
+      ...meanBox(docai[d], gemini[g]),
+      ...(category ? { category } : {}),
+      confidence: Math.round((0.6 + 0.4 * overlap) * 100) / 100,
+      detectors: ["docai", "gemini"],
+      needsReview: false
+    });
+  }
+
+  const single = (boxes: DetectedBox[], used: Set<number>, detector: DetectorName): DetectedBox[] =>
+    boxes
+      .filter((_, i) => !used.has(i))
+      .map((b) => ({
+        ...bboxOf(b),
+        ...(b.category ? { category: b.category } : {}),
+        confidence: SINGLE_CONFIDENCE[detector],
+        detectors: [detector],
+        needsReview: true
+      }));
+  // A leftover box on top of a matched one is a second guess at the same asset
+  const singles = [...single(gemini, usedG, "gemini"), ...single(docai, usedD, "docai")].filter(
+    (b) => !matched.some((m) => iou(b, m) >= ENSEMBLE_MATCH_IOU)
+  );
+
+  const bySize = (a: DetectedBox, b: DetectedBox) => b.w * b.h - a.w * a.h;
+  return [...matched.sort(bySize), ...singles.sort(bySize)].slice(0, rules?.maxBoxes ?? DETECTION_DEFAULTS.maxBoxes);
+}
+
+export type EnsemblePage = {
+  pageNumber: number;
+  // With confidence, detectors and needsReview; ready for assets/crop
+  boxes: DetectedBox[];
+  // Boxes each detector found, and how many of them were paired up
+  found: { docai: number; gemini: number; matched: number };
+};
+
+/**
+ * Run both detectors on each rendered page (all of them, or `pageNumbers`)
+ * and merge their boxes. Pages whose source has no Document AI output only
+ * get Gemini's boxes, all flagged for review; pages Gemini fails on are
+ * listed in `skipped`. Shared by /api/projects/assets/detect-ensemble and
+ * the detect job.
+ */
+export async function detectEnsemble(input: {
+  projectId: string;
+  manifestUrl: string;
+  pageNumbers?: number[];
+  // Defaults to the project's saved settings.detectionRulesJson
+  detectionRules?: DetectionRules;
+}): Promise<{ pages: EnsemblePage[]; skipped: Array<{ pageNumber: number; error: string }> }> {
+  const { projectId, manifestUrl, pageNumbers } = input;
+
+  const manifest = await fetchManifestDirect(manifestUrl);
+  if (manifest.projectId !== projectId) {
+    throw new ManifestUpdateRejected("projectId does not match manifest");
+  }
+
+  let rules: DetectionRules | undefined = input.detectionRules;
+  let docPages: DocAiPagesBySource;
+  try {
+    rules ??= parseDetectionRules(manifest.settings.detectionRulesJson);
+    docPages = await loadDocAiPages(manifest);
+  } catch (e) {
+    throw new ManifestUpdateRejected(e instanceof Error ? e.message : String(e));
+  }
+
+  const wanted = pageNumbers ? new Set(pageNumbers) : null;
+  const pages = manifest.pages.filter((p) => p.url && (!wanted || wanted.has(p.pageNumber)));
+  if (pages.length === 0) {
+    throw new ManifestUpdateRejected("No page PNGs found. Run Rasterize PNGs first.");
+  }
+
+  const out: EnsemblePage[] = [];
+  const skipped: Array<{ pageNumber: number; error: string }> = [];
+  for (const page of pages) {
+    const docai = detectDocAiBoxes(docPages, page, rules);
+    let gemini: DetectedBox[];
+    try {
+      gemini = await detectWithGemini(page.url, page.width, page.height, rules);
+    } catch (e) {
+      skipped.push({ pageNumber: page.pageNumber, error: `Gemini detection failed: ${e instanceof Error ? e.message : String(e)}` });
+      continue;
+    }
+    const boxes = ensembleBoxes(docai, gemini, rules);
+    out.push({
+      pageNumber: page.pageNumber,
+      boxes,
+      found: { docai: docai.length, gemini: gemini.length, matched: boxes.filter((b) => !b.needsReview).length }
+    });
+  }
+
+  return { pages: out, skipped };
+}
@@ -0,0 +1,109 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { ASSET_CATEGORIES } from "./asset-categories";
+import { applyDetectionRules, type DetectedBox, type DetectionRules } from "./detection-rules";
+import { getProjectStore } from "@/app/lib/store";
+
+// Image boxes from Gemini looking at the rendered page PNG.
+
+const GEMINI_API_KEY = process.env.GEMINI_API_KEY || "";
+const GEMINI_DETECT_MODEL = process.env.GEMINI_DETECT_MODEL || "gemini-2.0-flash";
+
+async function fetchPngAsBase64(url: string): Promise<string> {
+  const buffer = await getProjectStore().get(url);
+  if (!buffer) throw new Error("Failed to fetch image: not found");
+  return buffer.toString("base64");
+}
+
+function buildPrompt(pageWidth: number, pageHeight: number, rules?: DetectionRules): string {
+  const targets = rules?.targets?.length 
+    ? rules.targets.join(", ")
+    : "images, figures, photos, illustrations, diagrams, charts, graphics, character art, location scenes, logos";
+  
+  const ignoreList = rules?.ignore?.length
+    ? `\n5. IGNORE these elements: ${rules.ignore.join(", ")}`
+    : "\n5. IGNORE: decorative borders, page numbers, watermarks, tiny icons under 50px";
+  
+  const minSize = rules?.minimumSize
+    ? `\n6. Minimum size: Only detect regions larger than ${rules.minimumSize.width}x${rules.minimumSize.height} pixels on this ${pageWidth}x${pageHeight} page`
+    : "\n6. Minimum size: Skip very small elements (less than 5% of page dimension)";
+  
+  // preferFullBleed works on categories, so it needs them too
+  const withCategory = !!rules?.autoCategory || !!rules?.preferFullBleed?.length;
+  const categoryInstruction = withCategory
+    ? `\n7. For each detection, include a "category" field with one of: ${ASSET_CATEGORIES.join(", ")}`
+    : "";
+  const fullBleed = rules?.preferFullBleed?.length
+    ? `\n8. ${rules.preferFullBleed.join(", ")} images often run to the page edges: box the whole image, edge to edge`
+    : "";
+
+  return `You are analyzing a scanned document page image. Your task is to detect all distinct visual assets.
+
+DETECT these types: ${targets}
+
+For each detected image region, output a JSON object with normalized bounding box coordinates:
+- x: left edge as fraction of page width (0.0 to 1.0)
+- y: top edge as fraction of page height (0.0 to 1.0)  
+- width: width as fraction of page width
+- height: height as fraction of page height${withCategory ? `\n- category: type of image (${ASSET_CATEGORIES.join("/")})` : ""}
+
+Rules:
+1. Only detect actual images/figures/graphics, NOT text blocks or captions
+2. ${rules?.cropPadding ? "Fit each box tightly around the visual; padding is added when cropping" : "Include some margin/padding around each detected region for clean crops"}
+3. If regions overlap significantly, merge them
+4. Return an empty array if no images are found${ignoreList}${minSize}${categoryInstruction}${fullBleed}
+
+Output ONLY a valid JSON array of objects, no other text. Example:
+[{"x": 0.1, "y": 0.2, "width": 0.3, "height": 0.4${withCategory ? ', "category": "character"' : ''}}]`;
+}
+
+/** Ask Gemini for the image boxes on a page PNG, through the detection rules. */
+export async function detectWithGemini(
+  pageUrl: string,
+  pageWidth: number,
+  pageHeight: number,
+  rules?: DetectionRules
+): Promise<DetectedBox[]> {
+  if (!GEMINI_API_KEY) throw new Error("GEMINI_API_KEY not configured");
+
+  const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
+  const model = genAI.getGenerativeModel({ model: GEMINI_DETECT_MODEL });
+
+  const base64 = await fetchPngAsBase64(pageUrl);
+
+  const result = await model.generateContent([
+    { text: buildPrompt(pageWidth, pageHeight, rules) },
+    {
+      inlineData: {
+        mimeType: "image/png",
+        data: base64
+      }
+    }
+  ]);
+
+  const text = result.response.text().trim();
+
+  // Extract JSON array from response
+  const match = text.match(/\[[\s\S]*\]/);
+  if (!match) return [];
+
+  try {
+    const parsed = JSON.parse(match[0]) as Array<{ x: number; y: number; width: number; height: number; category?: string }>;
+
+    // Convert normalized coords to pixel coords
+    const boxes: DetectedBox[] = parsed
+      .filter((b) => [b.x, b.y, b.width, b.height].every((n) => typeof n === "number" && Number.isFinite(n)))
+      .map((b) => ({
+        x: b.x * pageWidth,
+        y: b.y * pageHeight,
+        w: b.width * pageWidth,
+        h: b.height * pageHeight,
+        ...(typeof b.category === "string" && b.category ? { category: b.category } : {})
+      }));
+
+    // Same geometry rules as the Document AI detector
+    return applyDetectionRules(boxes, { width: pageWidth, height: pageHeight }, rules);
+  } catch {
+    console.error("Failed to parse Gemini response:", text);
+    return [];
+  }
+}
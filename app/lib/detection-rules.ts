@@ -0,0 +1,172 @@
+import { z } from "zod";
+import type { AssetBBox } from "./manifest";
+
+// Rules for image detection and cropping, edited as JSON in the project
+// settings (settings.detectionRulesJson). User-authored, so unknown keys are
+// tolerated.
+export const detectionRulesSchema = z.looseObject({
+  targets: z.array(z.string()).optional(),
+  ignore: z.array(z.string()).optional(),
+  minimumSize: z.object({ width: z.number().nonnegative(), height: z.number().nonnegative() }).optional(),
+  // Crops whose quality score (0..1, see asset-quality.ts) is lower aren't
+  // kept, and schema fill doesn't offer such assets
+  qualityThreshold: z.number().min(0).max(1).optional(),
+  // Pixels (at page resolution) added around each crop, per category
+  cropPadding: z
+    .object({ default: z.number().optional(), characters: z.number().optional(), locations: z.number().optional() })
+    .catchall(z.number())
+    .optional(),
+  // Categories whose boxes are stretched to the page edges they nearly touch
+  // (full-page art), and kept even when they cover most of the page
+  preferFullBleed: z.array(z.string()).optional(),
+  autoCategory: z.boolean().optional(),
+  // Geometry filters (see applyDetectionRules); defaults in DETECTION_DEFAULTS
+  minAreaFraction: z.number().min(0).max(1).optional(),
+  maxAreaFraction: z.number().min(0).max(1).optional(),
+  mergeIoU: z.number().min(0).max(1).optional(),
+  maxBoxes: z.number().int().positive().optional()
+});
+
+export type DetectionRules = z.infer<typeof detectionRulesSchema>;
+
+export type DetectorName = "docai" | "gemini";
+
+// What every detector returns: a box in page coordinates (PageImage
+// width/height), plus the detector's category for it if it has one.
+// Ensemble detection (detect-ensemble.ts) adds the rest.
+export type DetectedBox = AssetBBox & {
+  category?: string;
+  confidence?: number;
+  detectors?: DetectorName[];
+  needsReview?: boolean;
+};
+
+export const DETECTION_DEFAULTS = {
+  // Pixels at page resolution
+  minimumSize: { width: 50, height: 50 },
+  // Of the page area
+  minAreaFraction: 0.02,
+  maxAreaFraction: 0.92,
+  // Overlap above which the smaller of two boxes is dropped
+  mergeIoU: 0.85,
+  maxBoxes: 25,
+  // Edges this close to the page edge (as a fraction of it) are moved onto
+  // it for preferFullBleed categories
+  fullBleedSnap: 0.03
+};
+
+/** Parse saved detection rules JSON. Blank means no rules; invalid JSON or shape throws. */
+export function parseDetectionRules(json: string | undefined): DetectionRules | undefined {
+  if (!json?.trim()) return undefined;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("Invalid Detection Rules JSON");
+  }
+  const res = detectionRulesSchema.safeParse(raw);
+  if (!res.success) throw new Error(`Invalid Detection Rules: ${res.error.issues[0]?.message ?? "bad shape"}`);
+  return res.data;
+}
+
+// Categories are compared loosely: "Key Art", "keyArt" and "key-arts" are the same
+function categoryKey(name: string) {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "").replace(/s$/, "");
+}
+
+function inCategories(list: string[] | undefined, category: string | undefined) {
+  if (!list?.length || !category) return false;
+  const key = categoryKey(category);
+  return list.some((c) => categoryKey(c) === key);
+}
+
+function clamp(n: number, a: number, b: number) {
+  return Math.max(a, Math.min(b, n));
+}
+
+function area(b: AssetBBox) {
+  return b.w * b.h;
+}
+
+/** Intersection over union of two boxes, 0..1. */
+export function iou(a: AssetBBox, b: AssetBBox) {
+  const iw = Math.max(0, Math.min(a.x + a.w, b.x + b.w) - Math.max(a.x, b.x));
+  const ih = Math.max(0, Math.min(a.y + a.h, b.y + b.h) - Math.max(a.y, b.y));
+  const inter = iw * ih;
+  const union = area(a) + area(b) - inter;
+  return union <= 0 ? 0 : inter / union;
+}
+
+// Move edges that nearly touch the page's onto it
+function snapToEdges(b: DetectedBox, pageWidth: number, pageHeight: number): DetectedBox {
+  const snapX = pageWidth * DETECTION_DEFAULTS.fullBleedSnap;
+  const snapY = pageHeight * DETECTION_DEFAULTS.fullBleedSnap;
+  const left = b.x <= snapX ? 0 : b.x;
+  const top = b.y <= snapY ? 0 : b.y;
+  const right = pageWidth - (b.x + b.w) <= snapX ? pageWidth : b.x + b.w;
+  const bottom = pageHeight - (b.y + b.h) <= snapY ? pageHeight : b.y + b.h;
+  return { ...b, x: left, y: top, w: right - left, h: bottom - top };
+}
+
+/**
+ * The geometry every detector's boxes go through before cropping, so the
+ * rules mean the same thing whichever one found them: boxes are clamped to
+ * whole pixels on the page, preferFullBleed categories are stretched to the
+ * page edges, ignored categories and boxes outside the size limits are
+ * dropped, and near-duplicates are merged into the larger box. Returns at
+ * most maxBoxes, largest first.
+ */
+export function applyDetectionRules(
+  boxes: DetectedBox[],
+  page: { width: number; height: number },
+  rules: DetectionRules | undefined
+): DetectedBox[] {
+  const { width: pageWidth, height: pageHeight } = page;
+  if (!pageWidth || !pageHeight) return [];
+  const minimumSize = rules?.minimumSize ?? DETECTION_DEFAULTS.minimumSize;
+  const pageArea = pageWidth * pageHeight;
+  const minArea = pageArea * (rules?.minAreaFraction ?? DETECTION_DEFAULTS.minAreaFraction);
+  const maxArea = pageArea * (rules?.maxAreaFraction ?? DETECTION_DEFAULTS.maxAreaFraction);
+
+  const kept: DetectedBox[] = [];
+  for (const raw of boxes) {
+    const x = clamp(Math.floor(raw.x), 0, pageWidth - 1);
+    const y = clamp(Math.floor(raw.y), 0, pageHeight - 1);
+    let b: DetectedBox = {
+      x,
+      y,
+      w: clamp(Math.ceil(raw.x + raw.w) - x, 1, pageWidth - x),
+      h: clamp(Math.ceil(raw.y + raw.h) - y, 1, pageHeight - y),
+      ...(raw.category ? { category: raw.category } : {})
+    };
+    if (inCategories(rules?.ignore, b.category)) continue;
+    const fullBleed = inCategories(rules?.preferFullBleed, b.category);
+    if (fullBleed) b = snapToEdges(b, pageWidth, pageHeight);
+    if (b.w < minimumSize.width || b.h < minimumSize.height) continue;
+    if (area(b) < minArea) continue;
+    if (area(b) > maxArea && !fullBleed) continue;
+    kept.push(b);
+  }
+
+  const mergeIoU = rules?.mergeIoU ?? DETECTION_DEFAULTS.mergeIoU;
+  kept.sort((a, b) => area(b) - area(a));
+  const merged: DetectedBox[] = [];
+  for (const b of kept) {
+    if (!merged.some((k) => iou(b, k) > mergeIoU)) merged.push(b);
+  }
+  return merged.slice(0, rules?.maxBoxes ?? DETECTION_DEFAULTS.maxBoxes);
+}
+
+/**
+ * Crop padding for a detected category. Detectors name categories in the
+ * singular ("character") while the rules group them ("characters"), so keys
+ * are matched loosely before falling back to the default.
+ */
+export function cropPaddingFor(rules: DetectionRules | undefined, category?: string): number {
+  const padding = rules?.cropPadding;
+  if (!padding) return 0;
+  const key = category
+    ? Object.keys(padding).find((k) => k !== "default" && categoryKey(k) === categoryKey(category))
+    : undefined;
+  return Math.max(0, (key ? padding[key] : undefined) ?? padding.default ?? 0);
+}
@@ -0,0 +1,434 @@
+import { z } from "zod";
+import { cropAssets, cropBoxFromDetected } from "@/app/lib/asset-crops";
+import { dedupeAssets } from "@/app/lib/asset-dedupe";
+import { tagAssets } from "@/app/lib/asset-tagging";
+import { detectEnsemble } from "@/app/lib/detect-ensemble";
+import { detectWithGemini } from "@/app/lib/detect-gemini";
+import { detectionRulesSchema, parseDetectionRules, type DetectedBox, type DetectionRules } from "@/app/lib/detection-rules";
+import { fetchManifestDirect, fetchPageDirect } from "@/app/lib/manifest";
+import type { JournalContext } from "@/app/lib/manifest-journal";
+import { parsePipeline, pipelineSchema, planPipelineStep, type PipelineStep, type PipelineStepStatus } from "@/app/lib/pipeline";
+import { processSources } from "@/app/lib/process-sources";
+import { rasterizePages } from "@/app/lib/rasterize-pages";
+import { fillSchema, saveSchemaResults, SchemaFillError } from "@/app/lib/schema-results";
+import { UnsupportedSourceError } from "@/app/lib/sources";
+import { isManifestError, ValidationError } from "@/app/lib/validation";
+import { JobStepError, type Job, type JobHandler, type JobKind, type JobStepResult } from "./types";
+
+// Each kind of job does the same work as the route the UI calls (the lib
+// function behind it), one bounded piece at a time, with the job's cursor
+// saying where to pick up.
+
+// Time kept back from a step's budget for the runner to save the job
+const SAVE_MARGIN_MS = 30_000;
+
+// Saves made by a job are journalled under the route that does the same
+// work, with the job as the actor
+function journalFor(job: Job, route: string): JournalContext {
+  return { route, actor: `job:${job.jobId}` };
+}
+
+/**
+ * Run shared work, failing the step with the error's own status where it
+ * has one (a rejected or conflicting save, bad input, a project not ready
+ * for the step), so the runner retries only what may work next time.
+ */
+async function work<T>(run: () => Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (e) {
+    if (e instanceof JobStepError) throw e;
+    const message = e instanceof Error ? e.message : String(e);
+    if (
+      isManifestError(e) ||
+      e instanceof ValidationError ||
+      e instanceof UnsupportedSourceError ||
+      e instanceof SchemaFillError
+    ) {
+      throw new JobStepError(message, e.status);
+    }
+    throw new JobStepError(message, 500);
+  }
+}
+
+function stepBudget(budgetMs: number, max: number) {
+  return Math.max(10_000, Math.min(max, budgetMs - SAVE_MARGIN_MS));
+}
+
+type ListCursor<T> = { items: T[]; next: number };
+
+const processJob: JobHandler = {
+  params: z.object({
+    sourceId: z.string().trim().min(1).optional(),
+    sourceIds: z.array(z.string().trim().min(1)).optional()
+  }),
+  // Waiting on a Document AI batch operation can take up to 4 minutes
+  minStepMs: 250_000,
+  async step(job) {
+    const { sourceId, sourceIds } = job.params as { sourceId?: string; sourceIds?: string[] };
+    let cursor = job.cursor as ListCursor<string> | undefined;
+    if (!cursor) {
+      const manifest = await fetchManifestDirect(job.manifestUrl);
+      cursor = { items: sourceIds ?? (sourceId ? [sourceId] : manifest.sources.map((s) => s.sourceId)), next: 0 };
+    }
+    if (cursor.items.length === 0) throw new JobStepError("No source document uploaded.", 400);
+
+    // One source per step: Document AI on a long PDF can take most of an invocation
+    const r = await work(() =>
+      processSources(
+        { projectId: job.projectId, manifestUrl: job.manifestUrl, sourceId: cursor.items[cursor.next] },
+        journalFor(job, "/api/projects/process")
+      )
+    );
+    const next = cursor.next + 1;
+
+    return {
+      done: next >= cursor.items.length,
+      manifestUrl: r.manifestUrl,
+      cursor: { ...cursor, next },
+      progress: { done: next, total: cursor.items.length, message: `Processed ${cursor.items[cursor.next]}` },
+      result: { sources: [...(((job.result as { sources?: unknown[] }) ?? {}).sources ?? []), ...r.sources] }
+    };
+  }
+};
+
+const rasterizeJob: JobHandler = {
+  params: z.object({
+    sourceId: z.string().trim().min(1).optional(),
+    dpi: z.number().int().positive().optional(),
+    fromPage: z.number().int().positive().optional(),
+    toPage: z.number().int().positive().optional()
+  }),
+  minStepMs: 30_000,
+  async step(job, budgetMs) {
+    const params = job.params as { sourceId?: string; dpi?: number; fromPage?: number; toPage?: number };
+    const { fromPage, toPage } = params;
+    const r = await work(() =>
+      rasterizePages(
+        {
+          ...params,
+          projectId: job.projectId,
+          manifestUrl: job.manifestUrl,
+          fromPage: (job.cursor as number | undefined) ?? fromPage,
+          timeBudgetMs: stepBudget(budgetMs, 240_000)
+        },
+        journalFor(job, "/api/projects/pages/rasterize")
+      )
+    );
+
+    // Pages of the selected sources that fall in the requested range
+    const total = r.sources.reduce((n, s) => {
+      const first = Math.max(s.firstPage, fromPage ?? 1);
+      const last = Math.min(s.firstPage + s.pageCount - 1, toPage ?? Infinity);
+      return n + Math.max(0, last - first + 1);
+    }, 0);
+    const done = job.progress.done + r.pagesRendered.length + r.pagesSkipped.length;
+    const previous = (job.result as { rendered: number; skipped: number } | undefined) ?? { rendered: 0, skipped: 0 };
+    const result = { rendered: previous.rendered + r.pagesRendered.length, skipped: previous.skipped + r.pagesSkipped.length };
+
+    return {
+      done: r.nextPage === null,
+      manifestUrl: r.manifestUrl,
+      cursor: r.nextPage ?? undefined,
+      progress: { done, total, message: `Done ${done} of ${total} pages (${result.skipped} unchanged)` },
+      result
+    };
+  }
+};
+
+const detectJob: JobHandler = {
+  params: z.object({
+    pageNumbers: z.array(z.number().int().positive()).optional(),
+    // Defaults to the project's saved settings.detectionRulesJson
+    detectionRules: detectionRulesSchema.optional(),
+    // "ensemble" runs Document AI and Gemini and merges their boxes
+    detector: z.enum(["gemini", "ensemble"]).optional()
+  }),
+  minStepMs: 30_000,
+  async step(job) {
+    let cursor = job.cursor as ListCursor<number> | undefined;
+    if (!cursor) {
+      const manifest = await fetchManifestDirect(job.manifestUrl);
+      const pageNumbers = (job.params.pageNumbers as number[] | undefined) ??
+        manifest.pages.filter((p) => p.url).map((p) => p.pageNumber);
+      cursor = { items: pageNumbers, next: 0 };
+    }
+    if (cursor.items.length === 0) return { done: true, progress: { done: 0, total: 0, message: "No pages to detect" } };
+
+    const pageNumber = cursor.items[cursor.next];
+    const next = cursor.next + 1;
+    const { root, page } = await fetchPageDirect(job.manifestUrl, pageNumber);
+    let manifestUrl = job.manifestUrl;
+    let assets = 0;
+
+    if (page?.url) {
+      let rules = job.params.detectionRules as DetectionRules | undefined;
+      if (!rules) {
+        try {
+          rules = parseDetectionRules(root.settings.detectionRulesJson);
+        } catch (e) {
+          throw new JobStepError(e instanceof Error ? e.message : String(e), 400);
+        }
+      }
+
+      let boxes: DetectedBox[];
+      if (job.params.detector === "ensemble") {
+        const r = await work(() =>
+          detectEnsemble({ projectId: job.projectId, manifestUrl, pageNumbers: [pageNumber], detectionRules: rules })
+        );
+        // A Gemini failure is retried like one in the gemini branch, not
+        // taken for a page without assets
+        const failed = r.skipped.find((s) => s.pageNumber === pageNumber);
+        if (failed) throw new JobStepError(failed.error, 500);
+        boxes = r.pages[0]?.boxes ?? [];
+      } else {
+        boxes = await work(() => detectWithGemini(page.url, page.width, page.height, rules));
+      }
+
+      if (boxes.length > 0) {
+        const cropped = await work(() =>
+          cropAssets(
+            {
+              projectId: job.projectId,
+              manifestUrl,
+              pages: [{ pageNumber, boxes: boxes.map(cropBoxFromDetected) }],
+              detectionRules: rules
+            },
+            journalFor(job, "/api/projects/assets/crop")
+          )
+        );
+        manifestUrl = cropped.manifestUrl;
+        assets = cropped.pages.reduce((n, p) => n + p.assets.length, 0);
+      }
+    }
+
+    const previous = (job.result as { assets?: number } | undefined)?.assets ?? 0;
+    return {
+      done: next >= cursor.items.length,
+      manifestUrl,
+      cursor: { ...cursor, next },
+      progress: { done: next, total: cursor.items.length, message: `Page ${pageNumber}: ${assets} assets` },
+      result: { assets: previous + assets }
+    };
+  }
+};
+
+const dedupeJob: JobHandler = {
+  params: z.object({ maxDistance: z.number().int().min(0).max(32).optional(), force: z.boolean().optional() }),
+  minStepMs: 60_000,
+  async step(job) {
+    const r = await work(() =>
+      dedupeAssets(
+        { ...(job.params as { maxDistance?: number; force?: boolean }), projectId: job.projectId, manifestUrl: job.manifestUrl },
+        journalFor(job, "/api/projects/assets/dedupe")
+      )
+    );
+    const duplicates = r.groups.reduce((n, g) => n + g.duplicates.length, 0);
+    return {
+      done: true,
+      manifestUrl: r.manifestUrl,
+      progress: { done: 1, total: 1, message: `${duplicates} duplicates in ${r.groups.length} groups` },
+      result: { hashed: r.hashed, groups: r.groups, duplicates, relinked: r.relinked }
+    };
+  }
+};
+
+const tagJob: JobHandler = {
+  params: z.object({
+    overwrite: z.boolean().optional(),
+    retagStale: z.boolean().optional(),
+    force: z.boolean().optional(),
+    limitAssets: z.number().int().nonnegative().optional()
+  }),
+  minStepMs: 60_000,
+  async step(job, budgetMs) {
+    const params = job.params as { overwrite?: boolean; retagStale?: boolean; force?: boolean; limitAssets?: number };
+    const r = await work(() =>
+      tagAssets(
+        {
+          ...params,
+          projectId: job.projectId,
+          manifestUrl: job.manifestUrl,
+          fromAsset: job.cursor as { pageNumber: number; assetId: string } | undefined,
+          timeBudgetMs: stepBudget(budgetMs, 270_000)
+        },
+        journalFor(job, "/api/projects/assets/tag")
+      )
+    );
+
+    const previous = (job.result as
+      | { tagged: number; failed: number; unchanged: number; duplicates?: number }
+      | undefined) ?? { tagged: 0, failed: 0, unchanged: 0 };
+    const result = {
+      tagged: previous.tagged + r.tagged,
+      failed: previous.failed + r.failed,
+      unchanged: previous.unchanged + r.unchanged,
+      duplicates: (previous.duplicates ?? 0) + r.duplicates
+    };
+
+    return {
+      done: !r.timedOut,
+      manifestUrl: r.manifestUrl,
+      cursor: r.nextAsset,
+      // The first run sees every asset; later runs only what's left
+      progress: { done: result.tagged, total: job.progress.total ?? r.considered, message: `Tagged ${result.tagged} assets` },
+      result
+    };
+  }
+};
+
+const fillJob: JobHandler = {
+  params: z.object({ force: z.boolean().optional() }),
+  minStepMs: 120_000,
+  async step(job) {
+    const r = await work(() => fillSchema({ manifestUrl: job.manifestUrl, force: job.params.force as boolean | undefined }));
+    // Results are for review; saving them is still a separate /schema/save
+    return {
+      done: true,
+      progress: { done: 1, total: 1 },
+      result: { results: r.results, inputsHash: r.inputsHash, skipped: r.skipped ?? false }
+    };
+  }
+};
+
+type IngestCursor = {
+  steps: PipelineStep[];
+  next: number;
+  // The running step's own job state
+  sub?: Pick<Job, "params" | "cursor" | "progress" | "result">;
+};
+
+// Runs a pipeline (app/lib/pipeline.ts) by driving the other kinds' handlers
+// one step at a time. job.result.steps reports each pipeline step's status.
+const ingestJob: JobHandler = {
+  params: z.object({
+    // Only this source's text and pages
+    sourceId: z.string().trim().min(1).optional(),
+    // Defaults to the project's saved settings.pipelineJson
+    pipeline: pipelineSchema.optional()
+  }),
+  minStepMs: 120_000,
+  async step(job, budgetMs) {
+    const sourceId = job.params.sourceId as string | undefined;
+    let cursor = job.cursor as IngestCursor | undefined;
+    let statuses = ((job.result as { steps?: PipelineStepStatus[] } | undefined)?.steps ?? []).slice();
+
+    if (!cursor) {
+      const manifest = await fetchManifestDirect(job.manifestUrl);
+      if (sourceId && !manifest.sources.some((s) => s.sourceId === sourceId)) {
+        throw new JobStepError(`Unknown source ${sourceId}`, 404);
+      }
+      let steps: PipelineStep[];
+      try {
+        steps = ((job.params.pipeline as { steps: PipelineStep[] } | undefined) ??
+          parsePipeline(manifest.settings.pipelineJson)).steps;
+      } catch (e) {
+        throw new JobStepError(e instanceof Error ? e.message : String(e), 400);
+      }
+      cursor = { steps, next: 0 };
+      statuses = steps.map((s) => ({ step: s.step, status: "pending" }));
+    }
+
+    const definition = cursor.steps[cursor.next];
+    const handler = JOB_HANDLERS[definition.step];
+    let manifestUrl = job.manifestUrl;
+
+    // Record how the current step ended and move on to the next
+    const advance = (status: PipelineStepStatus, message: string): JobStepResult => {
+      statuses[cursor.next] = status;
+      const next = cursor.next + 1;
+      return {
+        done: next >= cursor.steps.length,
+        manifestUrl,
+        cursor: { ...cursor, next, sub: undefined },
+        progress: { done: next, total: cursor.steps.length, message: `${definition.step}: ${message}` },
+        result: { steps: statuses }
+      };
+    };
+
+    let sub = cursor.sub;
+    if (!sub) {
+      const manifest = await fetchManifestDirect(manifestUrl);
+      const plan = planPipelineStep(definition, manifest, { sourceId });
+      if ("skip" in plan) return advance({ step: definition.step, status: "skipped", reason: plan.skip }, plan.skip);
+      sub = { params: handler.params.parse(plan.params), progress: { done: 0 } };
+      statuses[cursor.next] = { step: definition.step, status: "running" };
+    }
+
+    const failed = (e: unknown) => {
+      const message = e instanceof Error ? e.message : String(e);
+      statuses[cursor.next] = { step: definition.step, status: "failed", reason: message, result: sub?.result };
+      // Kept only if the job fails; a retry runs the step again from its cursor
+      return new JobStepError(`${definition.step}: ${message}`, e instanceof JobStepError ? e.status : 500, {
+        steps: statuses
+      });
+    };
+
+    let r;
+    try {
+      // Listed one by one: keys the stored sub state lacks mustn't fall back to the ingest job's
+      const { params, cursor: subCursor, progress: subProgress, result } = sub;
+      r = await handler.step(
+        { ...job, kind: definition.step, params, cursor: subCursor, progress: subProgress, result },
+        budgetMs
+      );
+    } catch (e) {
+      throw failed(e);
+    }
+    if (r.manifestUrl) manifestUrl = r.manifestUrl;
+    sub = {
+      params: sub.params,
+      cursor: r.cursor,
+      progress: { ...sub.progress, ...r.progress },
+      result: r.result !== undefined ? r.result : sub.result
+    };
+
+    if (!r.done) {
+      statuses[cursor.next] = { step: definition.step, status: "running", result: sub.result };
+      return {
+        done: false,
+        manifestUrl,
+        cursor: { ...cursor, sub },
+        progress: {
+          done: cursor.next,
+          total: cursor.steps.length,
+          message: `${definition.step}: ${sub.progress.message ?? "working"}`
+        },
+        result: { steps: statuses }
+      };
+    }
+
+    const filled = sub.result as { results: string; inputsHash: string; skipped: boolean } | undefined;
+    if (definition.step === "fill" && filled?.skipped) {
+      const reason = "Saved schema results are current";
+      return advance({ step: definition.step, status: "skipped", reason }, reason);
+    }
+    if (definition.step === "fill" && definition.save !== false && filled) {
+      try {
+        const saved = await work(() =>
+          saveSchemaResults(
+            { projectId: job.projectId, manifestUrl, results: filled.results, inputsHash: filled.inputsHash },
+            journalFor(job, "/api/projects/schema/save")
+          )
+        );
+        manifestUrl = saved.manifestUrl;
+        // The saved results are in the project now; no need to repeat them here
+        sub.result = { schemaResultsUrl: saved.schemaResultsUrl };
+      } catch (e) {
+        throw failed(e);
+      }
+    }
+
+    return advance({ step: definition.step, status: "succeeded", result: sub.result }, "done");
+  }
+};
+
+export const JOB_HANDLERS: Record<JobKind, JobHandler> = {
+  process: processJob,
+  rasterize: rasterizeJob,
+  detect: detectJob,
+  dedupe: dedupeJob,
+  tag: tagJob,
+  fill: fillJob,
+  ingest: ingestJob
+};
@@ -0,0 +1,5 @@
+export type { Job, JobHandler, JobKind, JobProgress, JobStatus, JobStepResult } from "./types";
+export { JobStepError } from "./types";
+export { createJob, isTerminal, listJobs, readJob, requestCancel, writeJob } from "./store";
+export { jobRunner, kickJob, leaseExpired, runJob } from "./runner";
+export { JOB_HANDLERS } from "./handlers";
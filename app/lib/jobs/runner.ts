@@ -0,0 +1,147 @@
+import { JOB_HANDLERS } from "./handlers";
+import { isCancelRequested, isTerminal, readJob, writeJob } from "./store";
+import { JobStepError, type Job } from "./types";
+
+// A job runs as a chain of invocations. Each one takes the job's lease, runs
+// steps until its time budget is spent, saves, and kicks the next invocation.
+// Polling a job whose chain broke (a lost kick, a killed function) kicks it
+// again once the lease has expired.
+//
+// JOBS_RUNNER picks how the next invocation starts:
+//   inline  in this Node process (default outside Vercel; `next dev`/`next start`)
+//   http    POST /api/jobs/{id}/run on JOBS_BASE_URL or the calling request's
+//           origin, so each invocation is a fresh serverless function
+
+// Work per invocation, inside the run route's maxDuration of 300s
+const RUN_BUDGET_MS = 270_000;
+const LEASE_MS = 330_000;
+// Failed steps with a 5xx status are retried this many times before the job fails
+const MAX_STEP_FAILURES = 3;
+// A retry waits this long after the first failure, doubling with each further
+// one: long enough for a rate limit or a flaky service to recover, short
+// enough for an invocation to wait it out
+const RETRY_BASE_MS = 10_000;
+const RETRY_MAX_MS = 60_000;
+
+export type JobRunner = "inline" | "http";
+
+export function jobRunner(): JobRunner {
+  const v = (process.env.JOBS_RUNNER || "").trim().toLowerCase();
+  if (v === "inline" || v === "http") return v;
+  return process.env.VERCEL ? "http" : "inline";
+}
+
+/** Start (or continue) a job in a new invocation. `origin` is used by the http runner. */
+export async function kickJob(jobId: string, origin: string): Promise<void> {
+  if (jobRunner() === "inline") {
+    setTimeout(() => {
+      runJob(jobId, origin).catch((e) => console.error(`[jobs] ${jobId} crashed:`, e));
+    }, 0);
+    return;
+  }
+
+  const base = (process.env.JOBS_BASE_URL || origin).replace(/\/+$/, "");
+  try {
+    // The run route answers right away and works in the background
+    const res = await fetch(`${base}/api/jobs/${encodeURIComponent(jobId)}/run`, { method: "POST" });
+    if (!res.ok) console.error(`[jobs] Kick for ${jobId} returned ${res.status}`);
+  } catch (e) {
+    // Polling the job kicks it again once its lease runs out
+    console.error(`[jobs] Kick for ${jobId} failed:`, e);
+  }
+}
+
+/** How long to wait before retrying a job whose last `failures` steps failed. */
+export function retryDelayMs(failures: number) {
+  return Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, failures - 1));
+}
+
+// Milliseconds until a failed job may be retried; 0 if it may run now
+function retryWaitMs(job: Job) {
+  return job.retryAt ? Math.max(0, Date.parse(job.retryAt) - Date.now()) : 0;
+}
+
+export function leaseExpired(job: Job) {
+  return !job.lease || Date.parse(job.lease.expiresAt) < Date.now();
+}
+
+async function takeLease(jobId: string): Promise<Job | null> {
+  const job = await readJob(jobId);
+  if (!job || isTerminal(job) || !leaseExpired(job)) return null;
+
+  const runId = crypto.randomUUID();
+  job.lease = { runId, expiresAt: new Date(Date.now() + LEASE_MS).toISOString() };
+  job.status = "running";
+  job.invocations += 1;
+  await writeJob(job);
+
+  // Stores have no compare-and-swap; re-read so two racing runners don't both go ahead
+  const check = await readJob(jobId);
+  return check?.lease?.runId === runId ? job : null;
+}
+
+function finish(job: Job, status: Job["status"], error?: string) {
+  job.status = status;
+  job.error = error;
+  job.finishedAt = new Date().toISOString();
+}
+
+/** Run one invocation of a job. Does nothing if the job is finished or another runner holds it. */
+export async function runJob(jobId: string, origin: string): Promise<void> {
+  // The wait counts against the invocation's budget
+  const startedAt = Date.now();
+
+  // Wait out the backoff after a failed step before taking the job
+  const queued = await readJob(jobId);
+  const wait = queued ? retryWaitMs(queued) : 0;
+  if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+
+  const job = await takeLease(jobId);
+  if (!job) return;
+
+  const handler = JOB_HANDLERS[job.kind];
+  let steps = 0;
+
+  while (!isTerminal(job)) {
+    if (await isCancelRequested(job)) {
+      finish(job, "cancelled");
+      break;
+    }
+
+    const remaining = RUN_BUDGET_MS - (Date.now() - startedAt);
+    if (steps > 0 && remaining < handler.minStepMs) break;
+
+    try {
+      const r = await handler.step(job, remaining);
+      steps += 1;
+      job.failures = 0;
+      job.retryAt = undefined;
+      job.error = undefined;
+      if (r.manifestUrl) job.manifestUrl = r.manifestUrl;
+      job.cursor = r.cursor;
+      if (r.result !== undefined) job.result = r.result;
+      job.progress = { ...job.progress, ...r.progress };
+      if (r.done) finish(job, "succeeded");
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      const status = e instanceof JobStepError ? e.status : 500;
+      job.failures += 1;
+      if (status < 500 || job.failures >= MAX_STEP_FAILURES) {
+        if (e instanceof JobStepError && e.result !== undefined) job.result = e.result;
+        finish(job, "failed", message);
+      } else {
+        // Retried by the next invocation, once the backoff is over
+        job.error = message;
+        job.retryAt = new Date(Date.now() + retryDelayMs(job.failures)).toISOString();
+        break;
+      }
+    }
+
+    await writeJob(job);
+  }
+
+  job.lease = undefined;
+  await writeJob(job);
+
+  if (!isTerminal(job)) await kickJob(jobId, origin);
+}
@@ -0,0 +1,92 @@
+import { getProjectStore, projectPaths, readStoredJson } from "@/app/lib/store";
+import type { Job, JobKind } from "./types";
+
+// Jobs are JSON documents next to the project they work on, so they live in
+// whichever ProjectStore is configured (files under LOCAL_STORE_DIR locally).
+
+export function newJobId(projectId: string) {
+  return `${projectId}.${crypto.randomUUID().slice(0, 8)}`;
+}
+
+// Job ids end up in store pathnames, so only this shape is accepted
+const JOB_ID = /^([A-Za-z0-9-]+)\.[A-Za-z0-9]+$/;
+
+export function projectIdOfJob(jobId: string): string | null {
+  return JOB_ID.exec(jobId)?.[1] ?? null;
+}
+
+export function isTerminal(job: Job) {
+  return job.status === "succeeded" || job.status === "failed" || job.status === "cancelled";
+}
+
+// Stores hand back URLs on write; remember them so reads don't need a listing
+const jobUrls = new Map<string, string>();
+
+async function findObject(pathname: string): Promise<string | null> {
+  const match = (await getProjectStore().list(pathname)).find((o) => o.pathname === pathname);
+  return match?.url ?? null;
+}
+
+export async function createJob(
+  projectId: string,
+  kind: JobKind,
+  manifestUrl: string,
+  params: Record<string, unknown>
+): Promise<Job> {
+  const now = new Date().toISOString();
+  const job: Job = {
+    jobId: newJobId(projectId),
+    projectId,
+    kind,
+    status: "queued",
+    params,
+    manifestUrl,
+    progress: { done: 0 },
+    failures: 0,
+    invocations: 0,
+    createdAt: now,
+    updatedAt: now
+  };
+  await writeJob(job);
+  return job;
+}
+
+export async function writeJob(job: Job): Promise<void> {
+  job.updatedAt = new Date().toISOString();
+  const stored = await getProjectStore().put(
+    projectPaths.job(job.projectId, job.jobId),
+    JSON.stringify(job, null, 2),
+    "application/json"
+  );
+  jobUrls.set(job.jobId, stored.url);
+}
+
+export async function readJob(jobId: string): Promise<Job | null> {
+  const projectId = projectIdOfJob(jobId);
+  if (!projectId) return null;
+
+  let url = jobUrls.get(jobId) ?? null;
+  if (!url) {
+    url = await findObject(projectPaths.job(projectId, jobId));
+    if (!url) return null;
+    jobUrls.set(jobId, url);
+  }
+  return readStoredJson<Job>(url);
+}
+
+/** A project's jobs, newest first. */
+export async function listJobs(projectId: string): Promise<Job[]> {
+  const objects = (await getProjectStore().list(projectPaths.jobsPrefix(projectId))).filter((o) =>
+    o.pathname.endsWith(".json")
+  );
+  const jobs = await Promise.all(objects.map((o) => readStoredJson<Job>(o.url)));
+  return jobs.filter((j): j is Job => !!j).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function requestCancel(job: Job): Promise<void> {
+  await getProjectStore().put(projectPaths.jobCancel(job.projectId, job.jobId), new Date().toISOString(), "text/plain");
+}
+
+export async function isCancelRequested(job: Job): Promise<boolean> {
+  return !!(await findObject(projectPaths.jobCancel(job.projectId, job.jobId)));
+}
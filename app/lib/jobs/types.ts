@@ -0,0 +1,66 @@
+import type { z } from "zod";
+
+export type JobKind = "process" | "rasterize" | "detect" | "dedupe" | "tag" | "fill" | "ingest";
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+export type JobProgress = {
+  done: number;
+  // Unknown until the first step has looked at the project
+  total?: number;
+  message?: string;
+};
+
+export type Job = {
+  // "{projectId}.{random}", so a job can be found from its id alone
+  jobId: string;
+  projectId: string;
+  kind: JobKind;
+  status: JobStatus;
+  params: Record<string, unknown>;
+  // Latest manifest URL the job has seen; steps pass it on and update it
+  manifestUrl: string;
+  progress: JobProgress;
+  // Where the next step picks up; owned by the job's handler
+  cursor?: unknown;
+  result?: unknown;
+  error?: string;
+  // Failed steps retried so far (reset after a step succeeds)
+  failures: number;
+  // After a failed step, when the retry may start
+  retryAt?: string;
+  // Runner invocations so far, across serverless function calls
+  invocations: number;
+  // Held by the runner working on the job, so a duplicate kick does nothing
+  lease?: { runId: string; expiresAt: string };
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+};
+
+export type JobStepResult = {
+  done: boolean;
+  manifestUrl?: string;
+  cursor?: unknown;
+  progress?: Partial<JobProgress>;
+  result?: unknown;
+};
+
+export type JobHandler = {
+  params: z.ZodType<Record<string, unknown>>;
+  // Don't start a step with less time than this left in the invocation
+  minStepMs: number;
+  // Do one bounded piece of work; `budgetMs` is what's left of the invocation
+  step(job: Job, budgetMs: number): Promise<JobStepResult>;
+};
+
+/**
+ * A step failed. 5xx statuses are retried; anything else fails the job.
+ * `result`, if given, replaces the job's result when the job fails.
+ */
+export class JobStepError extends Error {
+  constructor(message: string, readonly status = 500, readonly result?: unknown) {
+    super(message);
+    this.name = "JobStepError";
+  }
+}
@@ -0,0 +1,27 @@
+// Errors from manifest updates (see updateManifest() in manifest.ts), kept
+// apart so validation.ts can turn them into responses without importing the
+// manifest code.
+
+/**
+ * Raised when a compare-and-swap save finds that someone else saved the
+ * manifest since it was read.
+ */
+export class ManifestConflictError extends Error {
+  readonly status = 409;
+
+  constructor(readonly expectedRevision: number, readonly actualRevision: number) {
+    super(`Manifest was modified concurrently (expected revision ${expectedRevision}, found ${actualRevision})`);
+    this.name = "ManifestConflictError";
+  }
+}
+
+/**
+ * Throw from an updateManifest() mutation to abandon the write. The message
+ * and status are meant to be returned to the caller as-is.
+ */
+export class ManifestUpdateRejected extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "ManifestUpdateRejected";
+  }
+}
@@ -0,0 +1,293 @@
+import type { PageImage, ProjectManifest, StoredManifest } from "./manifest";
+import type { PlacedBox } from "./manifest-migrations";
+import { deleteUnreferencedShards, loadShard, type PageShardRef } from "./manifest-shards";
+import { getProjectStore, parseJournalPath, projectPaths, readStoredJson } from "@/app/lib/store";
+
+// Every manifest save writes one journal entry, keyed by the revision it
+// produced: who saved, through which route, which paths changed, and a
+// snapshot of the root manifest as saved. The snapshot points at immutable
+// page shards, so it is enough for rollback to restore the whole manifest;
+// the change list is for humans reading the history.
+//
+// Entries are separate objects (projects/{id}/journal/{revision}.json) rather
+// than one appended log, since none of the stores can append and revisions
+// are already unique per project.
+//
+// Entries are kept until pruneJournal() is asked to drop the older ones;
+// the page shards only those entries pointed at go with them.
+
+export type JournalContext = {
+  // Route (or job) that made the change, e.g. "/api/projects/assets/delete"
+  route: string;
+  // Who asked for it; "anonymous" when the request doesn't say
+  actor?: string;
+  note?: string;
+};
+
+export type JournalChange = {
+  // e.g. "pages[pageNumber=3].assets[assetId=p3-img02].tags"
+  path: string;
+  op: "add" | "remove" | "change";
+  // JSON previews, truncated
+  before?: string;
+  after?: string;
+};
+
+export type JournalEntry = {
+  projectId: string;
+  revision: number;
+  timestamp: string;
+  actor: string;
+  route: string;
+  note?: string;
+  changes: JournalChange[];
+  // More changes than MAX_CHANGES; the list holds the first ones found
+  truncated?: boolean;
+  // Root manifest as stored. Entries written before sharding hold a full
+  // manifest with inline pages instead; loadManifest() reads both.
+  snapshot: StoredManifest;
+};
+
+export type JournalSummary = Omit<JournalEntry, "snapshot">;
+
+const MAX_CHANGES = 200;
+const PREVIEW_CHARS = 200;
+
+// Bookkeeping that changes on every save
+const IGNORED_ROOT_KEYS = new Set(["revision", "updatedAt", "debugLog", "pageShards"]);
+
+/** Journal context for a route handler. Clients may name themselves with an X-Actor header. */
+export function journalFromRequest(req: Request, note?: string): JournalContext {
+  const actor = (req.headers.get("x-actor") || "").trim().slice(0, 100);
+  return { route: new URL(req.url).pathname, actor: actor || undefined, note };
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function preview(v: unknown): string | undefined {
+  if (v === undefined) return undefined;
+  const s = JSON.stringify(v) ?? String(v);
+  return s.length > PREVIEW_CHARS ? `${s.slice(0, PREVIEW_CHARS)}…` : s;
+}
+
+// Pages and assets are matched by identity, so inserting one page doesn't
+// show up as every later page changing.
+function identity(v: unknown): string | null {
+  if (!isRecord(v)) return null;
+  if (typeof v.assetId === "string") return `assetId=${v.assetId}`;
+  if (typeof v.pageNumber === "number") return `pageNumber=${v.pageNumber}`;
+  return null;
+}
+
+function same(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function diffInto(before: unknown, after: unknown, path: string, out: JournalChange[]) {
+  if (out.length > MAX_CHANGES || same(before, after)) return;
+
+  if (before === undefined) {
+    out.push({ path, op: "add", after: preview(after) });
+    return;
+  }
+  if (after === undefined) {
+    out.push({ path, op: "remove", before: preview(before) });
+    return;
+  }
+
+  if (isRecord(before) && isRecord(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const k of keys) {
+      if (!path && IGNORED_ROOT_KEYS.has(k)) continue;
+      diffInto(before[k], after[k], path ? `${path}.${k}` : k, out);
+    }
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const keyed = [...before, ...after].every((v) => identity(v) !== null);
+    if (keyed) {
+      const b = new Map(before.map((v) => [identity(v) as string, v]));
+      const a = new Map(after.map((v) => [identity(v) as string, v]));
+      for (const k of new Set([...b.keys(), ...a.keys()])) {
+        diffInto(b.get(k), a.get(k), `${path}[${k}]`, out);
+      }
+      return;
+    }
+  }
+
+  out.push({ path, op: "change", before: preview(before), after: preview(after) });
+}
+
+/**
+ * Paths that differ between two manifests (null `before` = newly created).
+ * Saves pass only the pages they changed, so unchanged pages never show.
+ */
+export function diffManifests(
+  before: ProjectManifest | null,
+  after: ProjectManifest
+): { changes: JournalChange[]; truncated: boolean } {
+  const changes: JournalChange[] = [];
+  if (before) {
+    diffInto(before, after, "", changes);
+  } else {
+    changes.push({ path: "", op: "add", after: preview({ projectId: after.projectId }) });
+  }
+  const truncated = changes.length > MAX_CHANGES;
+  return { changes: changes.slice(0, MAX_CHANGES), truncated };
+}
+
+/**
+ * Record a save. Called after the root manifest is written, with `before`
+ * and `after` holding just the pages that changed; a failure here is logged
+ * rather than failing the save.
+ */
+export async function appendJournalEntry(
+  saved: StoredManifest,
+  before: ProjectManifest | null,
+  after: ProjectManifest,
+  context: JournalContext | undefined
+): Promise<void> {
+  const { changes, truncated } = diffManifests(before, after);
+  const entry: JournalEntry = {
+    projectId: saved.projectId,
+    revision: saved.revision ?? 0,
+    timestamp: saved.updatedAt ?? new Date().toISOString(),
+    actor: context?.actor || "anonymous",
+    route: context?.route || "unknown",
+    note: context?.note,
+    changes,
+    truncated: truncated || undefined,
+    snapshot: saved
+  };
+
+  try {
+    await getProjectStore().put(
+      projectPaths.journalEntry(saved.projectId, entry.revision),
+      JSON.stringify(entry),
+      "application/json"
+    );
+  } catch (e) {
+    console.error(`[journal] Failed to record revision ${entry.revision} of ${saved.projectId}:`, e);
+  }
+}
+
+async function journalObjects(projectId: string) {
+  const objects = await getProjectStore().list(projectPaths.journalPrefix(projectId));
+  return objects
+    .map((o) => ({ ...o, revision: parseJournalPath(o.pathname) }))
+    .filter((o): o is typeof o & { revision: number } => o.revision !== null)
+    .sort((a, b) => b.revision - a.revision);
+}
+
+/**
+ * Newest-first journal entries without their snapshots. `beforeRevision`
+ * pages backwards through older entries.
+ */
+export async function listJournal(
+  projectId: string,
+  options: { limit?: number; beforeRevision?: number } = {}
+): Promise<JournalSummary[]> {
+  const limit = Math.max(1, Math.min(200, options.limit ?? 50));
+  const objects = (await journalObjects(projectId))
+    .filter((o) => options.beforeRevision === undefined || o.revision < options.beforeRevision)
+    .slice(0, limit);
+
+  const entries = await Promise.all(objects.map((o) => readStoredJson<JournalEntry>(o.url)));
+
+  const out: JournalSummary[] = [];
+  for (const e of entries) {
+    if (!e) continue;
+    const summary: JournalSummary & { snapshot?: StoredManifest } = { ...e };
+    delete summary.snapshot;
+    out.push(summary);
+  }
+  return out;
+}
+
+export async function readJournalEntry(projectId: string, revision: number): Promise<JournalEntry | null> {
+  const match = (await journalObjects(projectId)).find((o) => o.revision === revision);
+  return match ? readStoredJson<JournalEntry>(match.url) : null;
+}
+
+const JOURNAL_READ_CONCURRENCY = 16;
+
+/**
+ * The box each of the `wanted` assets (page number -> asset ids) last had,
+ * with the size of the page render it is on, from the newest journal
+ * snapshot holding it. Assets no kept entry holds are left out.
+ */
+export async function findAssetBoxes(
+  projectId: string,
+  wanted: Map<number, Set<string>>
+): Promise<Map<number, Map<string, PlacedBox>>> {
+  const found = new Map<number, Map<string, PlacedBox>>();
+  const missing = () =>
+    [...wanted].filter(([pageNumber, ids]) => [...ids].some((id) => !found.get(pageNumber)?.has(id)));
+
+  const objects = await journalObjects(projectId);
+  for (let i = 0; i < objects.length && missing().length > 0; i += JOURNAL_READ_CONCURRENCY) {
+    const entries = await Promise.all(
+      objects.slice(i, i + JOURNAL_READ_CONCURRENCY).map((o) => readStoredJson<JournalEntry>(o.url))
+    );
+    // Newest first, so the first box found for an asset is its last one
+    for (const e of entries) {
+      const snapshot = e?.snapshot as { pageShards?: PageShardRef[]; pages?: PageImage[] } | undefined;
+      const pageNumbers = new Set(missing().map(([pageNumber]) => pageNumber));
+      let pages: PageImage[] = [];
+      if (Array.isArray(snapshot?.pageShards)) {
+        const refs = snapshot.pageShards.filter((r) => pageNumbers.has(r.pageNumber));
+        // Pruned shards are simply not there to look at
+        pages = (await Promise.all(refs.map((r) => loadShard(r).catch(() => null)))).filter((p) => !!p);
+      } else if (Array.isArray(snapshot?.pages)) {
+        pages = snapshot.pages.filter((p) => pageNumbers.has(p.pageNumber));
+      }
+
+      for (const page of pages) {
+        const ids = wanted.get(page.pageNumber);
+        const boxes = found.get(page.pageNumber) ?? new Map<string, PlacedBox>();
+        for (const a of Array.isArray(page.assets) ? page.assets : []) {
+          if (ids?.has(a.assetId) && !boxes.has(a.assetId) && a.bbox) {
+            boxes.set(a.assetId, { bbox: a.bbox, width: page.width, height: page.height });
+          }
+        }
+        if (boxes.size > 0) found.set(page.pageNumber, boxes);
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * Delete all but the newest `keepRevisions` journal entries (without it,
+ * every entry is kept), then the page shards that neither `current` (the
+ * root manifest as stored) nor a kept entry's snapshot points at. Rollback
+ * can only reach kept entries afterwards.
+ */
+export async function pruneJournal(
+  projectId: string,
+  current: { pageShards?: PageShardRef[] },
+  options: { keepRevisions?: number; dryRun?: boolean } = {}
+): Promise<{ deletedRevisions: number[]; deletedShards: string[] }> {
+  const objects = await journalObjects(projectId);
+  const keep = options.keepRevisions === undefined ? objects : objects.slice(0, options.keepRevisions);
+  const drop = objects.slice(keep.length);
+
+  // Entries written before sharding have inline pages and no shards
+  const roots: Array<{ pageShards: PageShardRef[] }> = current.pageShards ? [{ pageShards: current.pageShards }] : [];
+  for (let i = 0; i < keep.length; i += JOURNAL_READ_CONCURRENCY) {
+    const entries = await Promise.all(
+      keep.slice(i, i + JOURNAL_READ_CONCURRENCY).map((o) => readStoredJson<JournalEntry>(o.url))
+    );
+    for (const e of entries) {
+      const refs = (e?.snapshot as { pageShards?: PageShardRef[] } | undefined)?.pageShards;
+      if (Array.isArray(refs)) roots.push({ pageShards: refs });
+    }
+  }
+
+  if (!options.dryRun && drop.length > 0) await getProjectStore().del(drop.map((o) => o.url));
+  const deletedShards = await deleteUnreferencedShards(projectId, roots, { dryRun: options.dryRun });
+  return { deletedRevisions: drop.map((o) => o.revision), deletedShards };
+}
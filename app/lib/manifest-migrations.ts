@@ -0,0 +1,255 @@
+import { assetIdForBox, isLegacyAssetId, matchAssetIds, uniqueAssetId } from "./asset-ids";
+import type { AssetBBox, ProjectManifest } from "./manifest";
+
+// Manifests are upgraded on read (fetchManifestDirect) and persisted on the
+// next save, or in bulk via /api/projects/migrate. Each migration takes a
+// manifest at version `to - 1` and mutates it in place to version `to`.
+//
+// To change the manifest shape: bump the types in manifest.ts, append a
+// migration here, and update newManifest(). Never edit a migration that has
+// shipped; old manifests in storage still depend on it.
+
+type LooseRecord = Record<string, unknown>;
+
+// A box, and the size of the page render it was found on
+export type PlacedBox = { bbox: AssetBBox; width: number; height: number };
+
+// What a migration can't tell from the manifest itself, looked up by the
+// caller beforehand (see loadManifest())
+export type MigrationContext = {
+  // Page number -> positional tombstone id -> the box it last had (journal)
+  tombstoneBoxes?: Map<number, Map<string, PlacedBox>>;
+};
+
+type ManifestMigration = {
+  to: number;
+  description: string;
+  migrate: (m: LooseRecord, context: MigrationContext) => void;
+};
+
+function isRecord(v: unknown): v is LooseRecord {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function stringOr(v: unknown, fallback: string): string {
+  return typeof v === "string" ? v : fallback;
+}
+
+const MIGRATIONS: ManifestMigration[] = [
+  {
+    to: 1,
+    description: "Fill optional collections and settings; drop deprecated page-level tags",
+    migrate(m) {
+      if (!Array.isArray(m.pages)) m.pages = [];
+      m.pages = (m.pages as unknown[]).filter(isRecord);
+      for (const p of m.pages as LooseRecord[]) {
+        if (!Array.isArray(p.assets)) p.assets = [];
+        if (!Array.isArray(p.deletedAssetIds)) p.deletedAssetIds = [];
+        // PageImage.tags came from the pre-asset flow and nothing reads it
+        delete p.tags;
+      }
+
+      const s = isRecord(m.settings) ? m.settings : {};
+      m.settings = {
+        ...s,
+        aiRules: stringOr(s.aiRules, ""),
+        uiFieldsJson: stringOr(s.uiFieldsJson, "{}"),
+        taggingJson: stringOr(s.taggingJson, "{}"),
+        schemaJson: stringOr(s.schemaJson, "{}"),
+        completenessRules: stringOr(s.completenessRules, ""),
+        detectionRulesJson: stringOr(s.detectionRulesJson, "")
+      };
+
+      if (!Array.isArray(m.debugLog)) m.debugLog = [];
+      if (m.status !== "empty" && m.status !== "uploaded" && m.status !== "processed") {
+        m.status = m.extractedText ? "processed" : m.sourcePdf ? "uploaded" : "empty";
+      }
+    }
+  },
+  {
+    to: 2,
+    description: "Replace sourcePdf with source { url, filename, format }",
+    migrate(m) {
+      if (isRecord(m.sourcePdf) && typeof m.sourcePdf.url === "string" && m.sourcePdf.url) {
+        m.source = {
+          url: m.sourcePdf.url,
+          filename: stringOr(m.sourcePdf.filename, "source.pdf"),
+          format: "pdf"
+        };
+      }
+      delete m.sourcePdf;
+    }
+  },
+  {
+    to: 3,
+    description: "Replace source with sources[]; tag pages and assets with their sourceId",
+    migrate(m) {
+      const sources: LooseRecord[] = [];
+      if (isRecord(m.source)) {
+        const pages = (Array.isArray(m.pages) ? m.pages : []).filter(isRecord);
+        const lastPage = pages.reduce((n, p) => Math.max(n, typeof p.pageNumber === "number" ? p.pageNumber : 0), 0);
+        const sourceId = "src-1";
+
+        sources.push({
+          ...m.source,
+          sourceId,
+          addedAt: stringOr(m.createdAt, new Date(0).toISOString()),
+          // The only source's text is the combined text
+          extractedText: m.extractedText,
+          docAiJson: m.docAiJson,
+          firstPage: 1,
+          pageCount: lastPage || undefined
+        });
+
+        for (const p of pages) {
+          p.sourceId = sourceId;
+          p.sourcePageNumber = p.pageNumber;
+          for (const a of (Array.isArray(p.assets) ? p.assets : []).filter(isRecord)) a.sourceId = sourceId;
+        }
+      }
+
+      m.sources = sources;
+      delete m.source;
+      delete m.docAiJson;
+    }
+  },
+  {
+    to: 4,
+    description: "Add settings.pipelineJson",
+    migrate(m) {
+      const s = isRecord(m.settings) ? m.settings : {};
+      m.settings = { ...s, pipelineJson: stringOr(s.pipelineJson, "") };
+    }
+  },
+  {
+    to: 5,
+    description: "Add settings.ocrProvider",
+    migrate(m) {
+      const s = isRecord(m.settings) ? m.settings : {};
+      m.settings = { ...s, ocrProvider: stringOr(s.ocrProvider, "") };
+    }
+  },
+  {
+    to: 6,
+    description: "Rename positional asset ids (p3-img02) to ids from their place on the page",
+    migrate(m, context) {
+      for (const p of (Array.isArray(m.pages) ? m.pages : []).filter(isRecord)) {
+        const width = typeof p.width === "number" ? p.width : 0;
+        const height = typeof p.height === "number" ? p.height : 0;
+        const pageNumber = typeof p.pageNumber === "number" ? p.pageNumber : 0;
+        // Without a page size or a box there is no place to name; those keep
+        // their old id
+        if (!(width > 0 && height > 0 && pageNumber > 0)) continue;
+
+        const assets = (Array.isArray(p.assets) ? p.assets : []).filter(isRecord);
+        const deleted = Array.isArray(p.deletedAssetIds) ? (p.deletedAssetIds as unknown[]) : [];
+        const taken = new Set(
+          [...assets.map((a) => a.assetId), ...deleted].filter((id): id is string => typeof id === "string")
+        );
+
+        const renamed = new Map<string, string>();
+        for (const a of assets) {
+          const bbox = isRecord(a.bbox) ? a.bbox : {};
+          const box = { x: Number(bbox.x) || 0, y: Number(bbox.y) || 0, w: Number(bbox.w) || 0, h: Number(bbox.h) || 0 };
+          if (typeof a.assetId !== "string" || !isLegacyAssetId(a.assetId) || box.w <= 0 || box.h <= 0) continue;
+          const assetId = uniqueAssetId(assetIdForBox(pageNumber, box, { width, height }), taken);
+          renamed.set(a.assetId, assetId);
+          a.assetId = assetId;
+        }
+
+        // Tombstones have no box of their own, so they are renamed only
+        // where the journal remembers the asset's box, and only if the new id
+        // would still match that box found again. The rest keep their
+        // positional id, which matchAssetIds() gives the box in that position.
+        const placed = context.tombstoneBoxes?.get(pageNumber);
+        p.deletedAssetIds = deleted.map((id) => {
+          const was = typeof id === "string" && isLegacyAssetId(id) ? placed?.get(id) : undefined;
+          if (typeof id !== "string" || !was || !(was.width > 0 && was.height > 0)) return id;
+          // On this page's render, which may be a different size
+          const sx = width / was.width;
+          const sy = height / was.height;
+          const box = { x: was.bbox.x * sx, y: was.bbox.y * sy, w: was.bbox.w * sx, h: was.bbox.h * sy };
+          const assetId = renamed.get(id) ?? uniqueAssetId(assetIdForBox(pageNumber, box, { width, height }), taken);
+          const tombstone = { pageNumber, width, height, url: "", assets: [], deletedAssetIds: [assetId] };
+          if (matchAssetIds(tombstone, [box])[0] !== assetId) return id;
+          renamed.set(id, assetId);
+          return assetId;
+        });
+        if (renamed.size === 0) continue;
+
+        // Split and merge history refers to assets by id
+        for (const a of assets) {
+          for (const e of (Array.isArray(a.history) ? a.history : []).filter(isRecord)) {
+            if (Array.isArray(e.from)) e.from = e.from.map((id) => (typeof id === "string" ? renamed.get(id) ?? id : id));
+          }
+        }
+        assets.sort((a, b) => String(a.assetId).localeCompare(String(b.assetId)));
+        p.assets = assets;
+      }
+    }
+  }
+];
+
+export const CURRENT_MANIFEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].to;
+
+export function manifestVersion(raw: unknown): number {
+  const v = isRecord(raw) ? raw.manifestVersion : undefined;
+  return typeof v === "number" && Number.isInteger(v) && v > 0 ? v : 0;
+}
+
+export function needsMigration(raw: unknown): boolean {
+  return manifestVersion(raw) < CURRENT_MANIFEST_VERSION;
+}
+
+/**
+ * Positional tombstone ids per page number, in a manifest (pages inline)
+ * that the v6 migration hasn't renamed yet; see MigrationContext.
+ */
+export function legacyTombstones(raw: unknown): Map<number, Set<string>> {
+  const out = new Map<number, Set<string>>();
+  if (!isRecord(raw) || manifestVersion(raw) >= 6) return out;
+  for (const p of (Array.isArray(raw.pages) ? raw.pages : []).filter(isRecord)) {
+    const ids = (Array.isArray(p.deletedAssetIds) ? p.deletedAssetIds : []).filter(
+      (id): id is string => typeof id === "string" && isLegacyAssetId(id)
+    );
+    if (typeof p.pageNumber === "number" && ids.length > 0) out.set(p.pageNumber, new Set(ids));
+  }
+  return out;
+}
+
+export type MigrationResult = {
+  manifest: ProjectManifest;
+  fromVersion: number;
+  toVersion: number;
+  applied: string[];
+};
+
+/**
+ * Upgrade a manifest as read from storage to the current shape. Manifests
+ * written by a newer build are rejected rather than silently downgraded.
+ */
+export function migrateManifest(raw: unknown, context: MigrationContext = {}): MigrationResult {
+  if (!isRecord(raw)) throw new Error("Manifest is not a JSON object");
+
+  const fromVersion = manifestVersion(raw);
+  if (fromVersion > CURRENT_MANIFEST_VERSION) {
+    throw new Error(
+      `Manifest version ${fromVersion} is newer than this build supports (${CURRENT_MANIFEST_VERSION})`
+    );
+  }
+
+  const applied: string[] = [];
+  for (const mig of MIGRATIONS) {
+    if (mig.to <= fromVersion) continue;
+    mig.migrate(raw, context);
+    raw.manifestVersion = mig.to;
+    applied.push(`v${mig.to}: ${mig.description}`);
+  }
+
+  return {
+    manifest: raw as ProjectManifest,
+    fromVersion,
+    toVersion: CURRENT_MANIFEST_VERSION,
+    applied
+  };
+}
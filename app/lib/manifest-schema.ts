@@ -0,0 +1,144 @@
+import { z } from "zod";
+import { ASSET_CATEGORIES } from "./asset-categories";
+import type { AssetBBox, AssetDetection, AssetEdit, AssetQuality, PageAsset, PageImage, ProjectManifest, ProjectSettings, SourceDocument } from "./manifest";
+import { validate } from "./validation";
+
+// Runtime shape of the types in manifest.ts. The `satisfies` clauses keep the
+// two in step: adding a required field to a type without adding it here is a
+// compile error.
+//
+// Objects are loose so fields written by a newer build (or by hand) survive a
+// read-modify-write instead of being stripped.
+
+export const assetBBoxSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  w: z.number().nonnegative(),
+  h: z.number().nonnegative()
+}) satisfies z.ZodType<AssetBBox>;
+
+const assetDetectionSchema = z.looseObject({
+  detectors: z.array(z.string()),
+  confidence: z.number().min(0).max(1),
+  needsReview: z.boolean()
+}) satisfies z.ZodType<AssetDetection>;
+
+const assetEditSchema = z.looseObject({
+  timestamp: z.string(),
+  action: z.enum(["recrop", "split", "merge", "update"]),
+  bbox: assetBBoxSchema,
+  url: z.string(),
+  from: z.array(z.string()).optional(),
+  tags: z.array(z.string()).optional(),
+  category: z.enum(ASSET_CATEGORIES).optional()
+}) satisfies z.ZodType<AssetEdit>;
+
+const assetQualitySchema = z.looseObject({
+  width: z.number().nonnegative(),
+  height: z.number().nonnegative(),
+  sharpness: z.number().min(0).max(1),
+  artifacts: z.number().min(0).max(1),
+  textCoverage: z.number().min(0).max(1),
+  blank: z.boolean(),
+  score: z.number().min(0).max(1)
+}) satisfies z.ZodType<AssetQuality>;
+
+export const pageAssetSchema = z.looseObject({
+  assetId: z.string().min(1),
+  url: z.string(),
+  bbox: assetBBoxSchema,
+  tags: z.array(z.string()).optional(),
+  tagRationale: z.string().optional(),
+  sourceId: z.string().optional(),
+  caption: z.string().optional(),
+  nearbyText: z.string().optional(),
+  category: z.enum(ASSET_CATEGORIES).optional(),
+  detection: assetDetectionSchema.optional(),
+  history: z.array(assetEditSchema).optional(),
+  phash: z.string().optional(),
+  duplicateOf: z.string().optional(),
+  quality: assetQualitySchema.optional(),
+  inputsHash: z.string().optional(),
+  tagsInputsHash: z.string().optional()
+}) satisfies z.ZodType<PageAsset>;
+
+export const pageImageSchema = z.looseObject({
+  pageNumber: z.number().int().positive(),
+  // "" for pages recovered from assets before the page PNG is re-recorded
+  url: z.string(),
+  width: z.number().nonnegative(),
+  height: z.number().nonnegative(),
+  assets: z.array(pageAssetSchema),
+  deletedAssetIds: z.array(z.string()),
+  sourceId: z.string().optional(),
+  sourcePageNumber: z.number().int().positive().optional(),
+  inputsHash: z.string().optional(),
+  textUrl: z.string().optional(),
+  tablesUrl: z.string().optional()
+}) satisfies z.ZodType<PageImage>;
+
+const settingsHistoryEntrySchema = z.looseObject({
+  timestamp: z.string(),
+  label: z.string().optional(),
+  content: z.string()
+});
+
+export const settingsHistorySchema = z.looseObject({
+  aiRules: z.array(settingsHistoryEntrySchema).optional(),
+  taggingJson: z.array(settingsHistoryEntrySchema).optional(),
+  schemaJson: z.array(settingsHistoryEntrySchema).optional(),
+  completenessRules: z.array(settingsHistoryEntrySchema).optional(),
+  detectionRulesJson: z.array(settingsHistoryEntrySchema).optional(),
+  pipelineJson: z.array(settingsHistoryEntrySchema).optional()
+});
+
+export const projectSettingsSchema = z.looseObject({
+  aiRules: z.string(),
+  uiFieldsJson: z.string(),
+  taggingJson: z.string(),
+  schemaJson: z.string(),
+  completenessRules: z.string(),
+  detectionRulesJson: z.string(),
+  pipelineJson: z.string(),
+  ocrProvider: z.string(),
+  history: settingsHistorySchema.optional()
+}) satisfies z.ZodType<ProjectSettings>;
+
+const urlRef = z.looseObject({ url: z.string().min(1) });
+const derivedRef = z.looseObject({ url: z.string().min(1), inputsHash: z.string().optional() });
+
+export const sourceFormatSchema = z.enum(["pdf", "docx", "pptx", "images"]);
+
+export const sourceDocumentSchema = z.looseObject({
+  sourceId: z.string().min(1),
+  url: z.string().min(1),
+  filename: z.string(),
+  format: sourceFormatSchema,
+  addedAt: z.string(),
+  contentHash: z.string().optional(),
+  extractedText: derivedRef.optional(),
+  docAiJson: derivedRef.optional(),
+  firstPage: z.number().int().positive().optional(),
+  pageCount: z.number().int().nonnegative().optional()
+}) satisfies z.ZodType<SourceDocument>;
+
+export const projectManifestSchema = z.looseObject({
+  manifestVersion: z.number().int().positive(),
+  projectId: z.string().min(1),
+  createdAt: z.string(),
+  revision: z.number().int().nonnegative().optional(),
+  updatedAt: z.string().optional(),
+  sources: z.array(sourceDocumentSchema),
+  extractedText: urlRef.optional(),
+  formattedText: urlRef.optional(),
+  pages: z.array(pageImageSchema),
+  settings: projectSettingsSchema,
+  status: z.enum(["empty", "uploaded", "processed"]),
+  debugLog: z.array(z.string()),
+  schemaResults: derivedRef.optional()
+}) satisfies z.ZodType<ProjectManifest>;
+
+/** Throws ValidationError listing every offending path. */
+export function parseManifest(raw: unknown): ProjectManifest {
+  return validate(projectManifestSchema, raw, "manifest");
+}
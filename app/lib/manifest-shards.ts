@@ -0,0 +1,158 @@
+import { createHash } from "crypto";
+import type { PageImage } from "./manifest";
+import { getProjectStore, pathnameFromObjectUrl, projectPaths } from "@/app/lib/store";
+
+// Pages (and their assets) are stored one JSON document per page, outside
+// manifest.json, which only lists them:
+//
+//   manifest.json                        { ..., pageShards: [{ pageNumber, url, hash }] }
+//   shards/page-{n}-{hash}.json          PageImage
+//
+// Shards are content-addressed and never overwritten: a changed page is
+// written to a new shard and the root manifest is repointed. That keeps
+// single-page saves small, lets journal snapshots (root only) be restored
+// exactly, and makes shards safe to cache forever.
+//
+// Shards are kept while the current root or any journal snapshot points at
+// them. Pruning the journal (see pruneJournal() in manifest-journal.ts)
+// deletes the rest, along with shards left behind by saves that lost a race.
+
+export type PageShardRef = {
+  pageNumber: number;
+  url: string;
+  hash: string;
+};
+
+function pageJson(page: PageImage) {
+  return JSON.stringify(page);
+}
+
+export function pageHash(page: PageImage): string {
+  return createHash("sha256").update(pageJson(page)).digest("hex").slice(0, 16);
+}
+
+// Shard URL -> JSON text. Safe without invalidation since shards are immutable.
+const MAX_CACHED_SHARDS = 2000;
+const shardCache = new Map<string, string>();
+
+function remember(url: string, text: string) {
+  shardCache.set(url, text);
+  if (shardCache.size > MAX_CACHED_SHARDS) {
+    const oldest = shardCache.keys().next().value;
+    if (oldest !== undefined) shardCache.delete(oldest);
+  }
+}
+
+/** Read one shard. Returns a fresh copy, so callers may mutate it. */
+export async function loadShard(ref: PageShardRef): Promise<PageImage> {
+  let text = shardCache.get(ref.url);
+  if (text === undefined) {
+    const data = await getProjectStore().get(ref.url);
+    if (!data) throw new Error(`Manifest shard for page ${ref.pageNumber} is missing (${ref.url})`);
+    text = data.toString("utf-8");
+    remember(ref.url, text);
+  }
+  return JSON.parse(text) as PageImage;
+}
+
+const LOAD_CONCURRENCY = 16;
+
+/** Read shards in order, a few at a time. */
+export async function loadShards(refs: PageShardRef[]): Promise<PageImage[]> {
+  const out: PageImage[] = new Array(refs.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < refs.length) {
+      const i = next++;
+      out[i] = await loadShard(refs[i]);
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(LOAD_CONCURRENCY, refs.length) }, worker));
+  return out;
+}
+
+/**
+ * Shard reference for `page`, writing the shard only if no existing shard
+ * has the same content.
+ */
+export async function writeShard(projectId: string, page: PageImage, existing?: PageShardRef): Promise<PageShardRef> {
+  const hash = pageHash(page);
+  if (existing && existing.hash === hash && existing.pageNumber === page.pageNumber) return existing;
+
+  const text = pageJson(page);
+  const stored = await getProjectStore().put(
+    projectPaths.pageShard(projectId, page.pageNumber, hash),
+    text,
+    "application/json"
+  );
+  remember(stored.url, text);
+  return { pageNumber: page.pageNumber, url: stored.url, hash };
+}
+
+export type ShardWrite = {
+  refs: PageShardRef[];
+  // Pages whose shard changed, with the shard they replaced (if any)
+  changed: Array<{ page: PageImage; previous?: PageShardRef }>;
+  // Previous shards whose page is gone
+  removed: PageShardRef[];
+};
+
+const WRITE_CONCURRENCY = 8;
+
+/** Shards for every page of a manifest, reusing `previous` where the content is unchanged. */
+export async function writeShards(projectId: string, pages: PageImage[], previous: PageShardRef[]): Promise<ShardWrite> {
+  const byNumber = new Map(previous.map((r) => [r.pageNumber, r]));
+  const refs: PageShardRef[] = new Array(pages.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < pages.length) {
+      const i = next++;
+      refs[i] = await writeShard(projectId, pages[i], byNumber.get(pages[i].pageNumber));
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(WRITE_CONCURRENCY, pages.length) }, worker));
+
+  const changed: ShardWrite["changed"] = [];
+  pages.forEach((page, i) => {
+    const prev = byNumber.get(page.pageNumber);
+    if (refs[i] !== prev) changed.push({ page, previous: prev });
+  });
+
+  const kept = new Set(pages.map((p) => p.pageNumber));
+  const removed = previous.filter((r) => !kept.has(r.pageNumber));
+
+  return { refs, changed, removed };
+}
+
+// A save writes its shards before the root that points at them, so newer
+// unreferenced shards may still be in use
+const UNREFERENCED_GRACE_MS = 60 * 60 * 1000;
+
+/**
+ * Delete the project's shards that none of `roots` points at, except those
+ * written in the last hour. Returns their pathnames.
+ */
+export async function deleteUnreferencedShards(
+  projectId: string,
+  roots: Array<{ pageShards: PageShardRef[] }>,
+  options: { dryRun?: boolean } = {}
+): Promise<string[]> {
+  const store = getProjectStore();
+  const referenced = new Set(roots.flatMap((r) => r.pageShards.map((ref) => pathnameFromObjectUrl(ref.url) ?? ref.url)));
+  const candidates = (await store.list(projectPaths.shardsPrefix(projectId))).filter((o) => !referenced.has(o.pathname));
+
+  const unreferenced: typeof candidates = [];
+  for (const o of candidates) {
+    const info = await store.head(o.url);
+    if (info && Date.now() - info.uploadedAt.getTime() >= UNREFERENCED_GRACE_MS) unreferenced.push(o);
+  }
+  if (!options.dryRun && unreferenced.length > 0) {
+    await store.del(unreferenced.map((o) => o.url));
+    for (const o of unreferenced) shardCache.delete(o.url);
+  }
+  return unreferenced.map((o) => o.pathname);
+}
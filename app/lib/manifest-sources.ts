@@ -0,0 +1,235 @@
+import { PDFDocument } from "pdf-lib";
+import {
+  fetchManifestDirect,
+  newManifest,
+  saveManifest,
+  updateManifest,
+  ManifestUpdateRejected,
+  type PageImage,
+  type ProjectManifest,
+  type SourceDocument,
+  type SourceFormat
+} from "./manifest";
+import type { JournalContext } from "./manifest-journal";
+import { boxEdited } from "./asset-edits";
+import { contentHash } from "./content-hash";
+import { mergePageAssets } from "./page-assets";
+import { detectSourceFormat, newSourceId, sourceContentType, sourceExtension } from "./sources";
+import { getProjectStore, projectPaths, readStoredText } from "@/app/lib/store";
+
+// A project is built from several source documents (a series bible, some
+// character sheets, a style guide...). Their pages share one numbering:
+// each source owns a contiguous range of project page numbers, so everything
+// keyed by page number (shards, page/asset paths, tombstones) works without
+// knowing about sources. Pages and assets carry their sourceId.
+//
+// Text is kept per source and combined into manifest.extractedText, one
+// section per source, so text-only consumers (format-text, tag, schema/fill)
+// see every source at once and can tell them apart.
+
+export function findSource(manifest: ProjectManifest, sourceId: string): SourceDocument | undefined {
+  return manifest.sources.find((s) => s.sourceId === sourceId);
+}
+
+export function requireSource(manifest: ProjectManifest, sourceId: string): SourceDocument {
+  const source = findSource(manifest, sourceId);
+  if (!source) throw new ManifestUpdateRejected(`Unknown source ${sourceId}`, 404);
+  return source;
+}
+
+/**
+ * Add a source, or replace the file behind an existing sourceId. A replaced
+ * source keeps its page range (re-allocated if it no longer fits) but loses
+ * its extracted outputs until it is processed again, unless the new file has
+ * the same content hash as the old one.
+ */
+export function upsertSource(
+  manifest: ProjectManifest,
+  source: Pick<SourceDocument, "sourceId" | "url" | "filename" | "format" | "contentHash">
+): SourceDocument {
+  const existing = findSource(manifest, source.sourceId);
+  if (existing) {
+    const unchanged = !!source.contentHash && source.contentHash === existing.contentHash;
+    Object.assign(existing, source);
+    if (!unchanged) {
+      delete existing.extractedText;
+      delete existing.docAiJson;
+    }
+    return existing;
+  }
+  const added: SourceDocument = { ...source, addedAt: new Date().toISOString() };
+  manifest.sources.push(added);
+  return added;
+}
+
+/** Page count when it can be read cheaply (PDFs); otherwise known only after extraction. */
+export async function countSourcePages(format: SourceFormat, data: Buffer): Promise<number | undefined> {
+  if (format !== "pdf") return undefined;
+  try {
+    const pdf = await PDFDocument.load(data, { ignoreEncryption: true, updateMetadata: false });
+    return pdf.getPageCount();
+  } catch {
+    return undefined;
+  }
+}
+
+// Page numbers [start, end) held by anything other than `sourceId`
+function takenRanges(manifest: ProjectManifest, sourceId: string): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  for (const s of manifest.sources) {
+    if (s.sourceId === sourceId || !s.firstPage) continue;
+    ranges.push([s.firstPage, s.firstPage + Math.max(1, s.pageCount ?? 0)]);
+  }
+  for (const p of manifest.pages) {
+    if (p.sourceId !== sourceId) ranges.push([p.pageNumber, p.pageNumber + 1]);
+  }
+  return ranges;
+}
+
+/**
+ * Reserve `pageCount` project page numbers for a source and return the first.
+ * The source keeps its current range if it still fits; otherwise it moves
+ * after everything else.
+ */
+export function allocateSourcePages(manifest: ProjectManifest, sourceId: string, pageCount: number): number {
+  const source = requireSource(manifest, sourceId);
+  const taken = takenRanges(manifest, sourceId);
+  const end = (first: number) => first + Math.max(1, pageCount);
+  const fits = (first: number) => taken.every(([s, e]) => end(first) <= s || first >= e);
+
+  let first = source.firstPage;
+  if (!first || !fits(first)) {
+    first = taken.reduce((n, [, e]) => Math.max(n, e), 1);
+  }
+
+  source.firstPage = first;
+  source.pageCount = pageCount;
+  return first;
+}
+
+/**
+ * Swap a source's pages for freshly extracted ones (already numbered and
+ * tagged with the sourceId, asset ids matched by storeExtractedSource()).
+ * An asset extracted again keeps what was added to it since (tags,
+ * category, history, dedupe), tombstones carry over so deleted assets stay
+ * deleted, and assets edited by hand stay as they are. Returns the files of
+ * assets that are gone.
+ */
+export function replaceSourcePages(manifest: ProjectManifest, sourceId: string, pages: PageImage[]): string[] {
+  const previous = new Map(manifest.pages.filter((p) => p.sourceId === sourceId).map((p) => [p.pageNumber, p]));
+  const others = manifest.pages.filter((p) => p.sourceId !== sourceId);
+
+  const clash = pages.find((p) => others.some((o) => o.pageNumber === p.pageNumber));
+  if (clash) {
+    throw new ManifestUpdateRejected(`Page ${clash.pageNumber} already belongs to another source`, 409);
+  }
+
+  const replaced = pages.map((p): PageImage => {
+    const before = previous.get(p.pageNumber);
+    const edited = new Set(before?.assets.filter((a) => boxEdited(a)).map((a) => a.assetId));
+    const incoming = p.assets.filter((a) => !edited.has(a.assetId));
+    const found = new Set(incoming.map((a) => a.assetId));
+    const page: PageImage = {
+      ...p,
+      assets: (before?.assets ?? []).filter((a) => edited.has(a.assetId) || found.has(a.assetId)),
+      deletedAssetIds: [...(before?.deletedAssetIds ?? [])]
+    };
+    mergePageAssets(page, incoming);
+    return page;
+  });
+
+  manifest.pages = [...others, ...replaced].sort((a, b) => a.pageNumber - b.pageNumber);
+
+  const kept = new Set(replaced.flatMap((p) => p.assets.map((a) => a.url)));
+  return [...previous.values()].flatMap((p) => p.assets.map((a) => a.url)).filter((url) => url && !kept.has(url));
+}
+
+export function sourceTextHeader(source: SourceDocument): string {
+  return `=== SOURCE ${source.sourceId}: ${source.filename} ===`;
+}
+
+/**
+ * Rewrite the combined text from each source's own text and point
+ * manifest.extractedText at it. Sources without text yet are left out.
+ */
+export async function writeCombinedText(manifest: ProjectManifest): Promise<void> {
+  const sections: string[] = [];
+  for (const source of manifest.sources) {
+    if (!source.extractedText?.url) continue;
+    const text = (await readStoredText(source.extractedText.url)) ?? "";
+    sections.push(`${sourceTextHeader(source)}\n${text.trim()}`);
+  }
+
+  if (sections.length === 0) {
+    delete manifest.extractedText;
+    return;
+  }
+
+  const stored = await getProjectStore().put(
+    projectPaths.combinedText(manifest.projectId),
+    sections.join("\n\n"),
+    "text/plain; charset=utf-8"
+  );
+  manifest.extractedText = { url: stored.url };
+}
+
+function baseUrl(u: string) {
+  const url = new URL(u);
+  return `${url.origin}${url.pathname}`;
+}
+
+/**
+ * The manifest at `manifestUrlRaw`, or null if there is none: no URL, or
+ * nothing stored there. A manifest that can't be read or doesn't validate
+ * throws, so callers never replace one with a fresh manifest by mistake.
+ */
+export async function fetchManifestIfExists(manifestUrlRaw: string | undefined): Promise<ProjectManifest | null> {
+  if (!manifestUrlRaw) return null;
+  const url = baseUrl(manifestUrlRaw);
+  if (!(await getProjectStore().head(url))) return null;
+  return fetchManifestDirect(url);
+}
+
+/**
+ * Store an uploaded source file and add it to the project (or replace
+ * `sourceId`), creating the manifest if there is none at `manifestUrl`.
+ * Throws UnsupportedSourceError for files of no known format. Shared by
+ * /api/projects/upload-source and /api/projects/ingest.
+ */
+export async function uploadSource(
+  input: { file: File; projectId: string; manifestUrl?: string; sourceId?: string },
+  journal?: JournalContext
+): Promise<{ manifestUrl: string; sourceId: string; sourceUrl: string; format: SourceFormat }> {
+  const { file, projectId, manifestUrl: manifestUrlRaw } = input;
+  const sourceId = input.sourceId || newSourceId();
+
+  // 1) Upload the source (overwrite stable path)
+  const ab = await file.arrayBuffer();
+  const format = detectSourceFormat(file.name, new Uint8Array(ab, 0, Math.min(4, ab.byteLength)));
+  const source = await getProjectStore().put(
+    projectPaths.source(projectId, sourceId, sourceExtension(format)),
+    ab,
+    sourceContentType(format)
+  );
+  const pageCount = await countSourcePages(format, Buffer.from(ab));
+  const fileHash = contentHash(new Uint8Array(ab));
+
+  const applySource = (manifest: ProjectManifest) => {
+    upsertSource(manifest, { sourceId, url: source.url, filename: file.name, format, contentHash: fileHash });
+    // Reserve page numbers now so the source can be rasterized before it is processed
+    if (pageCount !== undefined) allocateSourcePages(manifest, sourceId, pageCount);
+    manifest.status = "uploaded";
+  };
+
+  // 2) Update manifest if it exists; otherwise recreate
+  let newUrl: string;
+  if (manifestUrlRaw && (await fetchManifestIfExists(manifestUrlRaw))) {
+    ({ manifestUrl: newUrl } = await updateManifest(baseUrl(manifestUrlRaw), applySource, { projectId, journal }));
+  } else {
+    const manifest = newManifest(projectId);
+    applySource(manifest);
+    newUrl = await saveManifest(manifest, journal);
+  }
+
+  return { manifestUrl: newUrl, sourceId, sourceUrl: source.url, format };
+}
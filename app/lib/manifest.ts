@@ -1,4 +1,12 @@
-import { put, head } from "@vercel/blob";
+import type { AssetCategory } from "@/app/lib/asset-categories";
+import { getProjectStore, isManifestPath, projectPaths, PROJECTS_PREFIX, type StoredObject } from "@/app/lib/store";
+import { CURRENT_MANIFEST_VERSION, legacyTombstones, migrateManifest, needsMigration } from "@/app/lib/manifest-migrations";
+import { parseManifest } from "@/app/lib/manifest-schema";
+import { appendJournalEntry, findAssetBoxes, type JournalContext } from "@/app/lib/manifest-journal";
+import { loadShard, loadShards, writeShard, writeShards, type PageShardRef } from "@/app/lib/manifest-shards";
+import { ManifestConflictError, ManifestUpdateRejected } from "@/app/lib/manifest-errors";
+
+export { ManifestConflictError, ManifestUpdateRejected };
 
 export type SettingsHistoryEntry = {
   timestamp: string;
@@ -12,6 +20,7 @@ export type SettingsHistory = {
   schemaJson?: SettingsHistoryEntry[];
   completenessRules?: SettingsHistoryEntry[];
   detectionRulesJson?: SettingsHistoryEntry[];
+  pipelineJson?: SettingsHistoryEntry[];
 };
 
 export type ProjectSettings = {
@@ -19,8 +28,13 @@ export type ProjectSettings = {
   uiFieldsJson: string;
   taggingJson: string;
   schemaJson: string;
-  completenessRules?: string;
-  detectionRulesJson?: string;
+  // "" when unset
+  completenessRules: string;
+  detectionRulesJson: string;
+  // Steps run by /api/projects/ingest; "" means the default (see app/lib/pipeline.ts)
+  pipelineJson: string;
+  // How PDF text is extracted: "docai", "pdfjs", "fixture", or "" for auto (see app/lib/ocr)
+  ocrProvider: string;
   history?: SettingsHistory;
 };
 
@@ -31,12 +45,72 @@ export type AssetBBox = {
   h: number;
 };
 
+// How an asset's box was found, when ensemble detection found it
+export type AssetDetection = {
+  detectors: string[];
+  // 0..1; higher when the detectors agree on the box
+  confidence: number;
+  // Found by one detector only
+  needsReview: boolean;
+};
+
+// A hand edit of an asset (see app/lib/asset-edits.ts): of its box, or
+// ("update") of its tags or category
+export type AssetEdit = {
+  timestamp: string;
+  action: "recrop" | "split" | "merge" | "update";
+  // The box and crop before the edit
+  bbox: AssetBBox;
+  url: string;
+  // The asset a split part was cut from, or the assets merged into this one
+  from?: string[];
+  // The tags and category before an update
+  tags?: string[];
+  category?: AssetCategory;
+};
+
+// Measured from an asset's crop (see app/lib/asset-quality.ts). All but
+// width and height are 0..1.
+export type AssetQuality = {
+  width: number;
+  height: number;
+  // Edge detail: low for blurry or upscaled crops
+  sharpness: number;
+  // JPEG blocking
+  artifacts: number;
+  // Share of the crop covered by the page's text
+  textCoverage: number;
+  // (Nearly) one flat colour
+  blank: boolean;
+  score: number;
+};
+
 export type PageAsset = {
-  assetId: string; // "p{page}-img{index}"
+  assetId: string; // "p{page}-y..x..w..h..", from its place on the page (see asset-ids.ts)
   url: string;
   bbox: AssetBBox;
   tags?: string[];
   tagRationale?: string;
+  // Source document the asset was cut from (same as its page's)
+  sourceId?: string;
+  // Text printed with the asset on its page (see app/lib/page-text.ts):
+  // the caption just below or above it, and the paragraphs around it
+  caption?: string;
+  nearbyText?: string;
+  // What it shows (see app/lib/asset-categories.ts); from detection or set by hand
+  category?: AssetCategory;
+  detection?: AssetDetection;
+  // Hand edits, newest first. Crop runs leave assets with edits alone.
+  history?: AssetEdit[];
+  // Perceptual hash of the crop, and the asset it is a near-duplicate of
+  // (see app/lib/asset-dedupe.ts). Duplicates aren't tagged or linked.
+  phash?: string;
+  duplicateOf?: string;
+  quality?: AssetQuality;
+
+  // Hashes of what the crop and the tags were made from; see content-hash.ts
+  inputsHash?: string;
+  tagsInputsHash?: string;
 };
 export type PageImage = {
   pageNumber: number;
@@ -44,43 +118,88 @@ export type PageImage = {
   width: number;
   height: number;
 
-  // NEW: cropped image assets extracted from this page
-  assets?: PageAsset[];
+  // Cropped image assets extracted from this page
+  assets: PageAsset[];
 
-  // NEW: tombstones.
+  // Tombstones.
   // Some routes (tagging / record-bulk / rebuild-index) historically fetched a
   // manifest, did work for a while, then saved it back. If a user deleted an
   // asset during that window, the old manifest write would "resurrect" it.
   // We keep a per-page list of deleted assetIds so later saves can respect it.
-  deletedAssetIds?: string[];
+  deletedAssetIds: string[];
 
-  // Optional fallback (older flow)
-  tags?: string[];
+  // Source document this page belongs to, and its page number within it
+  sourceId?: string;
+  sourcePageNumber?: number;
+
+  // Hash of what the page PNG was rendered from (unset for uploaded PNGs)
+  inputsHash?: string;
+
+  // The page's text, blocks and paragraphs in reading order (see app/lib/page-text.ts)
+  textUrl?: string;
+
+  // Tables and form fields Document AI found on the page (see app/lib/page-tables.ts)
+  tablesUrl?: string;
+};
+
+// Kinds of source document a project can be built from; see app/lib/sources
+export type SourceFormat = "pdf" | "docx" | "pptx" | "images";
+
+// A stored artifact made from other things, with the hash of those inputs
+// (see content-hash.ts). Unset inputsHash means "always redo".
+export type DerivedRef = { url: string; inputsHash?: string };
+
+export type SourceDocument = {
+  sourceId: string; // "src-{random}"
+  url: string;
+  filename: string;
+  format: SourceFormat;
+  addedAt: string;
+  // Hash of the file's bytes
+  contentHash?: string;
+
+  // This source's own text (the project's extractedText combines all of them)
+  extractedText?: DerivedRef;
+  // Raw Document AI JSON (PDF sources)
+  docAiJson?: DerivedRef;
+
+  // Project pages firstPage..firstPage+pageCount-1 are this source's pages;
+  // see manifest-sources.ts. Unset until the page count is known.
+  firstPage?: number;
+  pageCount?: number;
 };
 
 export type ProjectManifest = {
+  // Shape version; see manifest-migrations.ts
+  manifestVersion: number;
+
   projectId: string;
   createdAt: string;
 
-  sourcePdf?: { url: string; filename: string };
+  // Bumped on every save. updateManifest() compares it before writing so a
+  // stale copy can never overwrite a newer one (see ManifestConflictError).
+  revision?: number;
+  updatedAt?: string;
+
+  // Documents the project is built from, in the order they were added
+  sources: SourceDocument[];
+
+  // Text of every source combined, one section per source
   extractedText?: { url: string };
 
   // Cached Gemini-formatted text
   formattedText?: { url: string };
 
-  // NEW: raw Document AI JSON stored in Blob (used for detection)
-  docAiJson?: { url: string };
-
-  pages?: PageImage[];
+  pages: PageImage[];
 
   settings: ProjectSettings;
 
   status: "empty" | "uploaded" | "processed";
 
-  debugLog?: string[];
+  debugLog: string[];
 
   // Filled schema (generated by AI)
-  schemaResults?: { url: string };
+  schemaResults?: DerivedRef;
 };
 
 // Default IP Bible schema template
@@ -97,9 +216,13 @@ const DEFAULT_SCHEMA = {
 
 export function newManifest(projectId: string): ProjectManifest {
   return {
+    manifestVersion: CURRENT_MANIFEST_VERSION,
     projectId,
     createdAt: new Date().toISOString(),
     status: "empty",
+    sources: [],
+    pages: [],
+    debugLog: [],
     settings: {
       aiRules: `You are the "Otherly Exec". Be strict and coherent. Do not invent details.`,
       uiFieldsJson: JSON.stringify({ fields: [] }, null, 2),
@@ -108,62 +231,353 @@ export function newManifest(projectId: string): ProjectManifest {
         null,
         2
       ),
-      schemaJson: JSON.stringify(DEFAULT_SCHEMA, null, 2)
+      schemaJson: JSON.stringify(DEFAULT_SCHEMA, null, 2),
+      completenessRules: "",
+      detectionRulesJson: "",
+      pipelineJson: "",
+      ocrProvider: ""
     }
   };
 }
 
 export function manifestPath(projectId: string) {
-  return `projects/${projectId}/manifest.json`;
+  return projectPaths.manifest(projectId);
 }
 
-export async function saveManifest(manifest: ProjectManifest) {
-  const blob = await put(manifestPath(manifest.projectId), JSON.stringify(manifest, null, 2), {
-    access: "public",
-    contentType: "application/json",
-    addRandomSuffix: false
-  });
-  return blob.url;
+export function manifestRevision(manifest: ProjectManifest): number {
+  const r = manifest.revision;
+  return typeof r === "number" && Number.isFinite(r) && r > 0 ? Math.floor(r) : 0;
+}
+
+/**
+ * What manifest.json holds: everything except the pages, which are stored
+ * one shard per page (see manifest-shards.ts). Manifests written before
+ * sharding keep `pages` inline instead; they are read as-is and sharded by
+ * their next save.
+ */
+export type StoredManifest = Omit<ProjectManifest, "pages"> & { pageShards: PageShardRef[] };
+
+/** The manifest without its pages, as handed to updatePage() mutations. */
+export type ManifestRoot = Omit<ProjectManifest, "pages">;
+
+export function isShardedManifest(raw: unknown): raw is StoredManifest {
+  return !!raw && typeof raw === "object" && Array.isArray((raw as { pageShards?: unknown }).pageShards);
+}
+
+function inlinePages(raw: unknown): PageImage[] {
+  const pages = raw && typeof raw === "object" ? (raw as { pages?: unknown }).pages : undefined;
+  return Array.isArray(pages) ? (pages as PageImage[]) : [];
+}
+
+function withoutPages<T extends object>(m: T): Omit<T, "pages" | "pageShards"> {
+  const copy = { ...m } as T & { pages?: unknown; pageShards?: unknown };
+  delete copy.pages;
+  delete copy.pageShards;
+  return copy;
+}
+
+/**
+ * Full manifest from a stored root document (manifest.json or a journal
+ * snapshot): shards are loaded, older shapes migrated and the result
+ * validated. Throws ValidationError if it doesn't match ProjectManifest.
+ */
+export async function loadManifest(raw: unknown): Promise<ProjectManifest> {
+  const assembled = isShardedManifest(raw) ? { ...withoutPages(raw), pages: await loadShards(raw.pageShards) } : raw;
+  // Deleted assets under positional ids are renamed from the box the
+  // journal last saw them at (see the v6 migration)
+  const tombstones = legacyTombstones(assembled);
+  const projectId = (assembled as { projectId?: unknown } | null)?.projectId;
+  const tombstoneBoxes =
+    tombstones.size > 0 && typeof projectId === "string" ? await findAssetBoxes(projectId, tombstones) : undefined;
+  return parseManifest(migrateManifest(assembled, { tombstoneBoxes }).manifest);
+}
+
+type PageChange = { before?: PageImage; after?: PageImage };
+
+// Write the root document and journal it. Only the pages in `pageChanges`
+// are diffed, so single-page saves don't need the rest of the manifest.
+async function writeRoot(
+  root: StoredManifest,
+  previous: unknown,
+  pageChanges: PageChange[],
+  journal?: JournalContext
+): Promise<string> {
+  const stored = await getProjectStore().put(
+    manifestPath(root.projectId),
+    JSON.stringify(root, null, 2),
+    "application/json"
+  );
+
+  const pagesOf = (key: "before" | "after") =>
+    pageChanges.map((c) => c[key]).filter((p): p is PageImage => !!p);
+  const before =
+    previous && typeof previous === "object"
+      ? { ...withoutPages(previous as ProjectManifest), pages: pagesOf("before") }
+      : null;
+  const after = { ...withoutPages(root), pages: pagesOf("after") };
+
+  await appendJournalEntry(root, before, after, journal);
+  return stored.url;
+}
+
+/**
+ * Unconditional write. Bumps the revision of the manifest being written,
+ * writes shards for pages that changed since `previous` (the stored root it
+ * replaces) and journals the change; prefer updateManifest() for anything
+ * that starts from an existing manifest.
+ */
+export async function saveManifest(manifest: ProjectManifest, journal?: JournalContext, previous: unknown = null) {
+  manifest.revision = manifestRevision(manifest) + 1;
+  manifest.updatedAt = new Date().toISOString();
+
+  const previousRefs = isShardedManifest(previous) ? previous.pageShards : [];
+  const legacyPages = new Map(inlinePages(previous).map((p) => [p.pageNumber, p]));
+  const { refs, changed, removed } = await writeShards(manifest.projectId, manifest.pages, previousRefs);
+
+  const pageChanges: PageChange[] = [];
+  for (const c of changed) {
+    const before = c.previous ? await loadShard(c.previous) : legacyPages.get(c.page.pageNumber);
+    pageChanges.push({ before, after: c.page });
+  }
+  for (const r of removed) pageChanges.push({ before: await loadShard(r) });
+  const kept = new Set(manifest.pages.map((p) => p.pageNumber));
+  for (const p of legacyPages.values()) if (!kept.has(p.pageNumber)) pageChanges.push({ before: p });
+
+  return writeRoot({ ...withoutPages(manifest), pageShards: refs }, previous, pageChanges, journal);
+}
+
+/** Stored manifest JSON exactly as written, before any migration. */
+export async function fetchRawManifest(url: string): Promise<unknown> {
+  const data = await getProjectStore().get(url);
+  if (!data) {
+    throw new Error(`Failed to read manifest directly: not found`);
+  }
+  return JSON.parse(data.toString("utf-8")) as unknown;
 }
 
 /**
- * Force-fetch manifest bypassing Vercel Edge cache.
- * Uses downloadUrl from blob metadata which should be more reliable.
+ * Force-fetch manifest bypassing caches (the store's get() is uncached).
+ * Older manifests are upgraded to the current shape in memory; the upgrade
+ * is persisted by the next save. Throws ValidationError if the result still
+ * doesn't match ProjectManifest.
  */
 export async function fetchManifestDirect(url: string): Promise<ProjectManifest> {
-  const u = new URL(url);
-  const cleanUrl = `${u.origin}${u.pathname}`;
-  
-  // Try using blob head to get fresh download URL
-  try {
-    const blobInfo = await head(cleanUrl);
-    if (blobInfo?.downloadUrl) {
-      const res = await fetch(`${blobInfo.downloadUrl}?_=${Date.now()}`, { 
-        cache: "no-store",
-        headers: { 'Cache-Control': 'no-cache, no-store, must-revalidate', 'Pragma': 'no-cache' }
-      });
-      if (res.ok) {
-        return (await res.json()) as ProjectManifest;
-      }
+  return loadManifest(await fetchRawManifest(url));
+}
+
+// Whether one page can be read or updated on its own. Migrations may change
+// pages, so an outdated manifest has to be loaded (and saved) whole first.
+function isSingleShardReadable(raw: unknown): raw is StoredManifest {
+  return isShardedManifest(raw) && !needsMigration(raw);
+}
+
+// Validate/migrate a sharded root on its own, with the pages left out
+async function loadRoot(raw: StoredManifest): Promise<ManifestRoot> {
+  return withoutPages(await loadManifest({ ...withoutPages(raw), pages: [] }));
+}
+
+/**
+ * One page and the manifest root, reading a single shard rather than the
+ * whole manifest. `page` is null if the manifest has no such page.
+ */
+export async function fetchPageDirect(
+  url: string,
+  pageNumber: number
+): Promise<{ root: ManifestRoot; page: PageImage | null }> {
+  const raw = await fetchRawManifest(url);
+  if (!isSingleShardReadable(raw)) {
+    const manifest = await loadManifest(raw);
+    return { root: withoutPages(manifest), page: manifest.pages.find((p) => p.pageNumber === pageNumber) ?? null };
+  }
+  const ref = raw.pageShards.find((r) => r.pageNumber === pageNumber);
+  return { root: await loadRoot(raw), page: ref ? await loadShard(ref) : null };
+}
+
+/** Every project manifest in the store. */
+export async function listManifests(): Promise<StoredObject[]> {
+  const blobs = await getProjectStore().list(PROJECTS_PREFIX);
+  return blobs.filter((b) => isManifestPath(b.pathname));
+}
+
+// Revision of a stored root, read without loading shards
+function storedRevision(raw: unknown): number {
+  const r = raw && typeof raw === "object" ? (raw as { revision?: unknown }).revision : undefined;
+  return typeof r === "number" && Number.isFinite(r) && r > 0 ? Math.floor(r) : 0;
+}
+
+/**
+ * Compare-and-swap save: writes only if the stored manifest is still at
+ * `expectedRevision`.
+ *
+ * Vercel Blob has no conditional put, so this is a read-compare-write. The
+ * window it leaves is the few milliseconds between the check and the put,
+ * instead of the whole duration of a route.
+ */
+export async function saveManifestIfRevision(
+  manifestUrl: string,
+  manifest: ProjectManifest,
+  expectedRevision: number,
+  journal?: JournalContext
+): Promise<string> {
+  const current = await fetchRawManifest(manifestUrl);
+  const actual = storedRevision(current);
+  if (actual !== expectedRevision) throw new ManifestConflictError(expectedRevision, actual);
+
+  manifest.revision = expectedRevision;
+  return saveManifest(manifest, journal, current);
+}
+
+export type ManifestUpdateOptions = {
+  // Reject (HTTP 400) if the stored manifest belongs to another project.
+  projectId?: string;
+  maxAttempts?: number;
+  // Who/what is saving, for the journal entry
+  journal?: JournalContext;
+};
+
+export type ManifestUpdate<T> = {
+  manifest: ProjectManifest;
+  manifestUrl: string;
+  result: T;
+  attempts: number;
+};
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Back off with jitter so two writers don't keep colliding in lockstep
+function backoff(attempt: number) {
+  return sleep(100 * attempt + Math.floor(Math.random() * 150));
+}
+
+/**
+ * Read the latest manifest, apply `mutate` to it and save it with a revision
+ * check. If another writer got there first the mutation is re-applied to the
+ * fresh manifest, so `mutate` must be safe to run more than once.
+ */
+export async function updateManifest<T = void>(
+  manifestUrl: string,
+  mutate: (latest: ProjectManifest) => T | Promise<T>,
+  options: ManifestUpdateOptions = {}
+): Promise<ManifestUpdate<T>> {
+  const maxAttempts = Math.max(1, options.maxAttempts ?? 5);
+  let lastConflict: ManifestConflictError | null = null;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const latest = await fetchManifestDirect(manifestUrl);
+    const revision = manifestRevision(latest);
+
+    if (options.projectId !== undefined && latest.projectId !== options.projectId) {
+      throw new ManifestUpdateRejected("projectId does not match manifest");
+    }
+
+    const result = await mutate(latest);
+
+    try {
+      const newUrl = await saveManifestIfRevision(manifestUrl, latest, revision, options.journal);
+      return { manifest: latest, manifestUrl: newUrl, result, attempts: attempt };
+    } catch (e) {
+      if (!(e instanceof ManifestConflictError)) throw e;
+      lastConflict = e;
+      await backoff(attempt);
     }
-  } catch {
-    // Fall through to direct fetch
   }
-  
-  // Fallback: direct fetch with cache busting
-  const cacheBuster = `${cleanUrl}?v=${Date.now()}&r=${Math.random()}`;
-  
-  const res = await fetch(cacheBuster, { 
-    cache: "no-store",
-    headers: {
-      'Cache-Control': 'no-cache, no-store, must-revalidate',
-      'Pragma': 'no-cache'
+
+  throw lastConflict ?? new ManifestConflictError(0, 0);
+}
+
+export type PageUpdateOptions = ManifestUpdateOptions & {
+  // Start from an empty page if it doesn't exist yet (otherwise: 400)
+  create?: boolean;
+};
+
+export type PageUpdate<T> = {
+  page: PageImage;
+  manifestUrl: string;
+  revision: number;
+  result: T;
+  attempts: number;
+};
+
+function blankPage(pageNumber: number): PageImage {
+  return { pageNumber, url: "", width: 0, height: 0, assets: [], deletedAssetIds: [] };
+}
+
+/**
+ * updateManifest() for a single page: reads the root manifest and one shard,
+ * applies `mutate` and writes back just that shard plus the (small) root.
+ * `mutate` may also change root fields such as debugLog. Same retry rules
+ * as updateManifest().
+ */
+export async function updatePage<T = void>(
+  manifestUrl: string,
+  pageNumber: number,
+  mutate: (page: PageImage, root: ManifestRoot) => T | Promise<T>,
+  options: PageUpdateOptions = {}
+): Promise<PageUpdate<T>> {
+  const maxAttempts = Math.max(1, options.maxAttempts ?? 5);
+  let lastConflict: ManifestConflictError | null = null;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const raw = await fetchRawManifest(manifestUrl);
+
+    if (!isSingleShardReadable(raw)) {
+      // Not sharded yet, or behind a migration that may touch pages: go
+      // through the whole manifest once, which shards and migrates it
+      const { manifest, manifestUrl: newUrl, result, attempts } = await updateManifest(
+        manifestUrl,
+        async (latest) => {
+          let page = latest.pages.find((p) => p.pageNumber === pageNumber);
+          if (!page) {
+            if (!options.create) throw new ManifestUpdateRejected(`Page ${pageNumber} not found`);
+            page = blankPage(pageNumber);
+            latest.pages.push(page);
+            latest.pages.sort((a, b) => a.pageNumber - b.pageNumber);
+          }
+          return mutate(page, latest);
+        },
+        options
+      );
+      const page = manifest.pages.find((p) => p.pageNumber === pageNumber) ?? blankPage(pageNumber);
+      return { page, manifestUrl: newUrl, revision: manifestRevision(manifest), result, attempts };
+    }
+
+    const revision = storedRevision(raw);
+    const root = await loadRoot(raw);
+
+    if (options.projectId !== undefined && root.projectId !== options.projectId) {
+      throw new ManifestUpdateRejected("projectId does not match manifest");
     }
-  });
 
-  if (!res.ok) {
-    throw new Error(`Failed to read manifest directly: ${res.statusText}`);
+    const ref = raw.pageShards.find((r) => r.pageNumber === pageNumber);
+    if (!ref && !options.create) throw new ManifestUpdateRejected(`Page ${pageNumber} not found`);
+    const before = ref ? await loadShard(ref) : undefined;
+    const page = ref ? await loadShard(ref) : blankPage(pageNumber);
+
+    const result = await mutate(page, root);
+    // The page number is the shard key; keep it whatever mutate did
+    page.pageNumber = pageNumber;
+
+    const current = await fetchRawManifest(manifestUrl);
+    const actual = storedRevision(current);
+    if (actual !== revision) {
+      lastConflict = new ManifestConflictError(revision, actual);
+      await backoff(attempt);
+      continue;
+    }
+
+    const newRef = await writeShard(root.projectId, page, ref);
+    const pageShards = raw.pageShards.filter((r) => r.pageNumber !== pageNumber);
+    pageShards.push(newRef);
+    pageShards.sort((a, b) => a.pageNumber - b.pageNumber);
+
+    root.revision = revision + 1;
+    root.updatedAt = new Date().toISOString();
+    const newUrl = await writeRoot({ ...root, pageShards }, current, [{ before, after: page }], options.journal);
+
+    return { page, manifestUrl: newUrl, revision: root.revision, result, attempts: attempt };
   }
-  
-  return (await res.json()) as ProjectManifest;
+
+  throw lastConflict ?? new ManifestConflictError(0, 0);
 }
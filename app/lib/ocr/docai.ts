@@ -0,0 +1,322 @@
+import { GoogleAuth } from "google-auth-library";
+import { PDFDocument } from "pdf-lib";
+import type { OcrDocument, OcrPage, OcrProvider, OcrResult } from "./types";
+
+// Document AI, over its REST API. PDFs up to the processor's online page
+// limit go in one request. Longer ones are split with pdf-lib into real
+// sub-documents of that many pages, sent one at a time and merged back into
+// one Document with page numbers and text offsets corrected. With a GCS
+// bucket configured (DOCAI_BATCH_BUCKET), very long ones go through batch
+// processing instead.
+//
+// The result keeps the shape of an online process response ({ document }),
+// as stored in sources/{sourceId}/docai.json.
+
+type TextSegment = { startIndex?: string | number; endIndex?: string | number };
+// Batch output comes in shards
+type DocAiDocument = OcrDocument & {
+  shardInfo?: { shardIndex?: string | number; shardCount?: string | number; textOffset?: string | number };
+};
+
+// How long to wait for a batch operation
+const BATCH_TIMEOUT_MS = 240_000;
+
+const GCS_API = "https://storage.googleapis.com";
+const BATCH_POLL_MS = 5_000;
+
+function mustEnv(...names: string[]): string {
+  for (const name of names) {
+    const v = process.env[name]?.trim();
+    if (v) return v;
+  }
+  throw new Error(`Missing ${names[0]}`);
+}
+
+function envInt(name: string, fallback: number): number {
+  const n = Number(process.env[name]);
+  return Number.isInteger(n) && n > 0 ? n : fallback;
+}
+
+// Pages per online request; 15 is the limit of the OCR processor
+function pagesPerRequest() {
+  return envInt("DOCAI_PAGES_PER_REQUEST", 15);
+}
+
+function batchBucket(): string | undefined {
+  return process.env.DOCAI_BATCH_BUCKET?.trim().replace(/^gs:\/\//, "").replace(/\/+$/, "") || undefined;
+}
+
+function processorName(): string {
+  // GCP_PROJECT_ID is what older deployments set
+  const projectId = mustEnv("DOCAI_PROJECT_ID", "GCP_PROJECT_ID");
+  const location = mustEnv("DOCAI_LOCATION");
+  const processorId = mustEnv("DOCAI_PROCESSOR_ID");
+  return `projects/${projectId}/locations/${location}/processors/${processorId}`;
+}
+
+function apiBase(): string {
+  return `https://${mustEnv("DOCAI_LOCATION")}-documentai.googleapis.com/v1`;
+}
+
+let auth: GoogleAuth | null = null;
+
+// Service account from GCP_SA_KEY_JSON; GoogleAuth caches and refreshes the token
+async function accessToken(): Promise<string> {
+  if (!auth) {
+    let sa: { client_email?: string; private_key?: string };
+    try {
+      sa = JSON.parse(mustEnv("GCP_SA_KEY_JSON")) as typeof sa;
+    } catch (e) {
+      throw new Error(`Invalid GCP_SA_KEY_JSON: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    if (!sa.client_email || !sa.private_key) {
+      throw new Error("GCP_SA_KEY_JSON missing client_email/private_key");
+    }
+    auth = new GoogleAuth({
+      credentials: { client_email: sa.client_email, private_key: sa.private_key },
+      scopes: ["https://www.googleapis.com/auth/cloud-platform"]
+    });
+  }
+  const token = await auth.getAccessToken();
+  if (!token) throw new Error("Failed to get access token");
+  return token;
+}
+
+async function readErrorText(res: Response) {
+  try {
+    const t = await res.text();
+    return t || `${res.status} ${res.statusText}`;
+  } catch {
+    return `${res.status} ${res.statusText}`;
+  }
+}
+
+async function googleFetch(url: string, init: RequestInit & { what: string }): Promise<Response> {
+  const { what, ...rest } = init;
+  const headers = new Headers(rest.headers);
+  headers.set("Authorization", `Bearer ${await accessToken()}`);
+  const res = await fetch(url, { ...rest, headers });
+  if (!res.ok) throw new Error(`${what} error (${res.status}): ${await readErrorText(res)}`);
+  return res;
+}
+
+async function googleJson<T>(url: string, init: RequestInit & { what: string }): Promise<T> {
+  return (await (await googleFetch(url, init)).json()) as T;
+}
+
+async function processOnline(pdfBytes: Uint8Array): Promise<DocAiDocument> {
+  const result = await googleJson<{ document?: DocAiDocument }>(`${apiBase()}/${processorName()}:process`, {
+    what: "Document AI",
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      rawDocument: { content: Buffer.from(pdfBytes).toString("base64"), mimeType: "application/pdf" },
+      skipHumanReview: true
+    })
+  });
+  return result.document ?? {};
+}
+
+function shiftIndex(v: string | number | undefined, by: number): string {
+  // Unset means 0 in the JSON mapping
+  return String(Number(v ?? 0) + by);
+}
+
+// Move every text anchor `textShift` characters and every page reference
+// `pageShift` pages further into the merged document
+function shiftRefs(node: unknown, textShift: number, pageShift: number) {
+  if (Array.isArray(node)) {
+    for (const n of node) shiftRefs(n, textShift, pageShift);
+    return;
+  }
+  if (!node || typeof node !== "object") return;
+  const obj = node as Record<string, unknown>;
+  for (const [key, value] of Object.entries(obj)) {
+    if (key === "textAnchor" && value && typeof value === "object" && textShift) {
+      for (const seg of ((value as { textSegments?: TextSegment[] }).textSegments ?? [])) {
+        seg.startIndex = shiftIndex(seg.startIndex, textShift);
+        seg.endIndex = shiftIndex(seg.endIndex, textShift);
+      }
+    } else if (key === "pageRefs" && Array.isArray(value) && pageShift) {
+      for (const ref of value as Array<{ page?: string | number }>) ref.page = shiftIndex(ref.page, pageShift);
+    } else {
+      shiftRefs(value, textShift, pageShift);
+    }
+  }
+}
+
+/**
+ * Merge Documents made from consecutive parts of one file. Each part's
+ * anchors are assumed to start at `textOffset` (0 for separately processed
+ * sub-documents; batch shards set it) and its pages at `pageOffset`.
+ */
+function mergeDocuments(parts: Array<{ doc: DocAiDocument; pageOffset: number }>): DocAiDocument {
+  if (parts.length === 1 && !parts[0].pageOffset) return parts[0].doc;
+
+  let text = "";
+  const pages: OcrPage[] = [];
+  const entities: unknown[] = [];
+  for (const { doc, pageOffset } of parts) {
+    const textShift = text.length - Number(doc.shardInfo?.textOffset ?? 0);
+    for (const [i, page] of (doc.pages ?? []).entries()) {
+      shiftRefs(page, textShift, pageOffset);
+      page.pageNumber = (page.pageNumber ?? i + 1) + pageOffset;
+      pages.push(page);
+    }
+    if (Array.isArray(doc.entities)) {
+      shiftRefs(doc.entities, textShift, pageOffset);
+      entities.push(...doc.entities);
+    }
+    text += doc.text ?? "";
+  }
+
+  const merged: DocAiDocument = { ...parts[0].doc, text, pages, ...(entities.length > 0 ? { entities } : {}) };
+  delete merged.shardInfo;
+  return merged;
+}
+
+async function pdfSlice(src: PDFDocument, from: number, to: number): Promise<Uint8Array> {
+  const out = await PDFDocument.create();
+  const pages = await out.copyPages(src, Array.from({ length: to - from }, (_, i) => from + i));
+  for (const p of pages) out.addPage(p);
+  return out.save();
+}
+
+// Long PDFs: real sub-documents, one request each
+async function processSplit(src: PDFDocument, pageCount: number): Promise<DocAiDocument> {
+  const size = pagesPerRequest();
+  const parts: Array<{ doc: DocAiDocument; pageOffset: number }> = [];
+  for (let from = 0; from < pageCount; from += size) {
+    const to = Math.min(pageCount, from + size);
+    parts.push({ doc: await processOnline(await pdfSlice(src, from, to)), pageOffset: from });
+  }
+  return mergeDocuments(parts);
+}
+
+function gcsObjectUrl(bucket: string, name: string) {
+  return `${GCS_API}/storage/v1/b/${bucket}/o/${encodeURIComponent(name)}`;
+}
+
+async function gcsList(bucket: string, prefix: string): Promise<string[]> {
+  const names: string[] = [];
+  let pageToken: string | undefined;
+  do {
+    const q = new URLSearchParams({ prefix, ...(pageToken ? { pageToken } : {}) });
+    const res = await googleJson<{ items?: Array<{ name: string }>; nextPageToken?: string }>(
+      `${GCS_API}/storage/v1/b/${bucket}/o?${q}`,
+      { what: "GCS list" }
+    );
+    names.push(...(res.items ?? []).map((i) => i.name));
+    pageToken = res.nextPageToken;
+  } while (pageToken);
+  return names;
+}
+
+async function gcsDelete(bucket: string, names: string[]) {
+  for (const name of names) {
+    try {
+      await googleFetch(gcsObjectUrl(bucket, name), { what: "GCS delete", method: "DELETE" });
+    } catch {
+      // Leftovers only cost storage; a bucket lifecycle rule can sweep them
+    }
+  }
+}
+
+type Operation = {
+  name: string;
+  done?: boolean;
+  error?: { message?: string };
+  metadata?: { state?: string; individualProcessStatuses?: Array<{ status?: { code?: number; message?: string } }> };
+};
+
+// Very long PDFs: upload to GCS, batch process, wait, read the output shards
+async function processBatch(pdfBytes: Uint8Array, bucket: string, timeoutMs: number): Promise<DocAiDocument> {
+  const prefix = `docai/${crypto.randomUUID()}/`;
+  const inputName = `${prefix}input.pdf`;
+  const outputPrefix = `${prefix}output/`;
+
+  await googleFetch(`${GCS_API}/upload/storage/v1/b/${bucket}/o?uploadType=media&name=${encodeURIComponent(inputName)}`, {
+    what: "GCS upload",
+    method: "POST",
+    headers: { "Content-Type": "application/pdf" },
+    body: Buffer.from(pdfBytes)
+  });
+
+  try {
+    let op = await googleJson<Operation>(`${apiBase()}/${processorName()}:batchProcess`, {
+      what: "Document AI batch",
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        inputDocuments: { gcsDocuments: { documents: [{ gcsUri: `gs://${bucket}/${inputName}`, mimeType: "application/pdf" }] } },
+        documentOutputConfig: { gcsOutputConfig: { gcsUri: `gs://${bucket}/${outputPrefix}` } },
+        skipHumanReview: true
+      })
+    });
+
+    const deadline = Date.now() + timeoutMs;
+    while (!op.done) {
+      if (Date.now() > deadline) {
+        throw new Error(`Document AI batch still running after ${Math.round(timeoutMs / 1000)}s (${op.name})`);
+      }
+      await new Promise((r) => setTimeout(r, BATCH_POLL_MS));
+      op = await googleJson<Operation>(`${apiBase()}/${op.name}`, { what: "Document AI operation" });
+    }
+    const failed = op.error?.message ?? op.metadata?.individualProcessStatuses?.find((s) => s.status?.code)?.status?.message;
+    if (failed) throw new Error(`Document AI batch failed: ${failed}`);
+
+    const outputs = (await gcsList(bucket, outputPrefix)).filter((n) => n.endsWith(".json"));
+    const shards: DocAiDocument[] = [];
+    for (const name of outputs) {
+      const res = await googleFetch(`${gcsObjectUrl(bucket, name)}?alt=media`, { what: "GCS download" });
+      shards.push((await res.json()) as DocAiDocument);
+    }
+    if (shards.length === 0) throw new Error("Document AI batch wrote no output");
+    shards.sort((a, b) => Number(a.shardInfo?.shardIndex ?? 0) - Number(b.shardInfo?.shardIndex ?? 0));
+
+    // Shard page numbers and anchors already count from the start of the file
+    const doc = mergeDocuments(shards.map((doc) => ({ doc, pageOffset: 0 })));
+    await gcsDelete(bucket, outputs);
+    return doc;
+  } finally {
+    await gcsDelete(bucket, [inputName]);
+  }
+}
+
+/**
+ * Run a PDF through Document AI, however long it is. Files over
+ * DOCAI_BATCH_MIN_PAGES pages (default 100) use batch processing when
+ * DOCAI_BATCH_BUCKET is set; otherwise long files are split.
+ */
+async function processPdfWithDocAI(pdfBytes: Uint8Array): Promise<OcrResult> {
+  let src: PDFDocument | null = null;
+  try {
+    src = await PDFDocument.load(pdfBytes, { ignoreEncryption: true, updateMetadata: false });
+  } catch {
+    // Not readable by pdf-lib; Document AI may still manage it whole
+  }
+  const pageCount = src?.getPageCount() ?? 0;
+  const bucket = batchBucket();
+
+  let document: DocAiDocument;
+  if (bucket && pageCount > envInt("DOCAI_BATCH_MIN_PAGES", 100)) {
+    document = await processBatch(pdfBytes, bucket, BATCH_TIMEOUT_MS);
+  } else if (src && pageCount > pagesPerRequest()) {
+    document = await processSplit(src, pageCount);
+  } else {
+    document = await processOnline(pdfBytes);
+  }
+
+  return { provider: "docai", text: typeof document.text === "string" ? document.text : "", raw: { document }, warnings: [] };
+}
+
+export const docAiProvider: OcrProvider = {
+  name: "docai",
+  version: () => `docai:${process.env.DOCAI_PROCESSOR_ID ?? ""}`,
+  processPdf: processPdfWithDocAI
+};
+
+/** Whether Document AI credentials are configured at all. */
+export function docAiConfigured(): boolean {
+  return !!process.env.GCP_SA_KEY_JSON?.trim() && !!process.env.DOCAI_PROCESSOR_ID?.trim();
+}
@@ -0,0 +1,61 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { contentHash } from "@/app/lib/content-hash";
+import { countSourcePages } from "@/app/lib/manifest-sources";
+import type { OcrDocument, OcrPage, OcrProvider, OcrResult } from "./types";
+
+// A stand-in for offline development and CI. With OCR_FIXTURE_DIR set, a PDF
+// whose bytes hash to {hash} gets {OCR_FIXTURE_DIR}/{hash}.json (a Document,
+// or a process response wrapping one), e.g. a saved docai.json. Any other PDF
+// gets one placeholder paragraph per page.
+
+async function readFixture(pdf: Buffer): Promise<{ document: OcrDocument; file: string } | null> {
+  const dir = process.env.OCR_FIXTURE_DIR?.trim();
+  if (!dir) return null;
+  const file = path.join(dir, `${contentHash(pdf)}.json`);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(file, "utf-8"));
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw new Error(`Invalid OCR fixture ${file}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  const wrapped = raw as { document?: OcrDocument };
+  return { document: wrapped.document ?? (raw as OcrDocument), file };
+}
+
+function placeholderDocument(pageCount: number): OcrDocument {
+  let text = "";
+  const pages: OcrPage[] = [];
+  for (let n = 1; n <= pageCount; n++) {
+    const start = text.length;
+    text += `Fixture text for page ${n}.\n`;
+    const layout = { textAnchor: { textSegments: [{ startIndex: String(start), endIndex: String(text.length) }] } };
+    const paragraph = {
+      layout: {
+        ...layout,
+        boundingPoly: { normalizedVertices: [{ x: 0.1, y: 0.05 }, { x: 0.9, y: 0.05 }, { x: 0.9, y: 0.1 }, { x: 0.1, y: 0.1 }] }
+      }
+    };
+    pages.push({ pageNumber: n, layout, blocks: [paragraph], paragraphs: [paragraph] });
+  }
+  return { text, pages };
+}
+
+export const fixtureProvider: OcrProvider = {
+  name: "fixture",
+  version: () => `fixture-v1:${process.env.OCR_FIXTURE_DIR ?? ""}`,
+  async processPdf(pdf): Promise<OcrResult> {
+    const fixture = await readFixture(pdf);
+    if (fixture) {
+      return { provider: "fixture", text: fixture.document.text ?? "", raw: { document: fixture.document }, warnings: [] };
+    }
+    const document = placeholderDocument((await countSourcePages("pdf", pdf)) ?? 1);
+    return {
+      provider: "fixture",
+      text: document.text ?? "",
+      raw: { document },
+      warnings: [`fixture: no fixture for ${contentHash(pdf)}; using placeholder text`]
+    };
+  }
+};
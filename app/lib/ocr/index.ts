@@ -0,0 +1,57 @@
+import { readPdfTextLayer } from "@/app/lib/sources/pdf";
+import { docAiConfigured, docAiProvider } from "./docai";
+import { fixtureProvider } from "./fixture";
+import { hasTextLayer, pdfJsProvider, textLayerResult } from "./pdfjs";
+import {
+  OCR_PROVIDER_SETTINGS,
+  type OcrProvider,
+  type OcrProviderName,
+  type OcrProviderSetting,
+  type OcrResult
+} from "./types";
+
+export type { OcrDocument, OcrPage, OcrProvider, OcrProviderName, OcrProviderSetting, OcrResult } from "./types";
+export { OCR_PROVIDER_SETTINGS, OCR_PROVIDERS } from "./types";
+
+const PROVIDERS: Record<OcrProviderName, OcrProvider> = {
+  docai: docAiProvider,
+  pdfjs: pdfJsProvider,
+  fixture: fixtureProvider
+};
+
+export function getOcrProvider(name: OcrProviderName): OcrProvider {
+  return PROVIDERS[name];
+}
+
+/** settings.ocrProvider as saved; blank means "auto". */
+export function parseOcrProviderSetting(value: string | undefined): OcrProviderSetting {
+  const v = (value ?? "").trim() || "auto";
+  if (!(OCR_PROVIDER_SETTINGS as readonly string[]).includes(v)) {
+    throw new Error(`Unknown OCR provider "${v}" (expected ${OCR_PROVIDER_SETTINGS.join(", ")})`);
+  }
+  return v as OcrProviderSetting;
+}
+
+/** What processing a PDF under `setting` depends on, for its inputsHash. */
+export function ocrVersion(setting: OcrProviderSetting): string {
+  if (setting !== "auto") return PROVIDERS[setting].version();
+  return `auto:${pdfJsProvider.version()}:${docAiProvider.version()}`;
+}
+
+/**
+ * Extract a PDF's text and layout with the provider `setting` names. "auto"
+ * uses the PDF's own text layer when it has one and Document AI when it
+ * doesn't (a scan).
+ */
+export async function extractPdfText(setting: OcrProviderSetting, pdf: Buffer): Promise<OcrResult> {
+  if (setting !== "auto") return PROVIDERS[setting].processPdf(pdf);
+
+  const layer = await readPdfTextLayer(pdf);
+  if (hasTextLayer(layer)) return textLayerResult(layer);
+  if (!docAiConfigured()) {
+    throw new Error(
+      "This PDF has no text layer and Document AI is not configured (GCP_SA_KEY_JSON, DOCAI_PROCESSOR_ID). Set the OCR provider to pdfjs or fixture to process it anyway."
+    );
+  }
+  return docAiProvider.processPdf(pdf);
+}
@@ -0,0 +1,144 @@
+import { readPdfTextLayer, type PdfTextItem, type PdfTextPage } from "@/app/lib/sources/pdf";
+import type { OcrDocument, OcrLayout, OcrPage, OcrProvider, OcrResult } from "./types";
+
+// Born-digital PDFs already carry their text. pdf.js reads it (no OCR, no
+// credentials) and the runs are grouped into lines and paragraphs by
+// position, then written out as a Document like Document AI's.
+
+type Box = PdfTextItem["box"];
+type Line = { text: string; box: Box };
+
+// A page counts as having a text layer with at least this many characters
+const MIN_PAGE_CHARS = 20;
+
+function union(a: Box, b: Box): Box {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return { x, y, w: Math.max(a.x + a.w, b.x + b.w) - x, h: Math.max(a.y + a.h, b.y + b.h) - y };
+}
+
+// Runs on one baseline, split where pdf.js marks a line end or the baseline moves
+function toLines(items: PdfTextItem[]): Line[] {
+  const lines: Line[] = [];
+  let current: Line | null = null;
+  for (const item of items) {
+    const sameLine =
+      current && Math.abs(item.box.y + item.box.h - (current.box.y + current.box.h)) <= Math.max(item.box.h, 0.002) / 2;
+    if (current && item.str && !sameLine) {
+      lines.push(current);
+      current = null;
+    }
+    if (item.str) {
+      if (!current) {
+        current = { text: item.str, box: item.box };
+      } else {
+        // pdf.js usually emits the spaces; add one where runs are visibly apart
+        const prev: Line = current;
+        const gap = item.box.x - (prev.box.x + prev.box.w);
+        const space = gap > item.box.h * 0.2 && !prev.text.endsWith(" ") && !item.str.startsWith(" ");
+        current = { text: prev.text + (space ? " " : "") + item.str, box: union(prev.box, item.box) };
+      }
+    }
+    if (item.hasEOL && current) {
+      lines.push(current);
+      current = null;
+    }
+  }
+  if (current) lines.push(current);
+  return lines.filter((l) => l.text.trim());
+}
+
+// Consecutive lines stay in one paragraph unless there's a blank line's worth
+// of space between them or the text jumps back up (a new column)
+function toParagraphs(lines: Line[]): Line[][] {
+  const paragraphs: Line[][] = [];
+  for (const line of lines) {
+    const last = paragraphs[paragraphs.length - 1]?.at(-1);
+    const gap = last ? line.box.y - (last.box.y + last.box.h) : Infinity;
+    if (last && gap >= -last.box.h / 2 && gap <= Math.max(last.box.h, line.box.h)) {
+      paragraphs[paragraphs.length - 1].push(line);
+    } else {
+      paragraphs.push([line]);
+    }
+  }
+  return paragraphs;
+}
+
+function layout(start: number, end: number, box?: Box): OcrLayout {
+  return {
+    textAnchor: { textSegments: [{ startIndex: String(start), endIndex: String(end) }] },
+    ...(box
+      ? {
+          boundingPoly: {
+            normalizedVertices: [
+              { x: box.x, y: box.y },
+              { x: box.x + box.w, y: box.y },
+              { x: box.x + box.w, y: box.y + box.h },
+              { x: box.x, y: box.y + box.h }
+            ]
+          }
+        }
+      : {})
+  };
+}
+
+/** Text layer pages as a Document AI style Document. */
+export function documentFromTextLayer(pages: PdfTextPage[]): OcrDocument {
+  let text = "";
+  const docPages: OcrPage[] = [];
+  for (const page of pages) {
+    const pageStart = text.length;
+    const paragraphs: OcrPage["paragraphs"] = [];
+    const lines: OcrPage["lines"] = [];
+    for (const paragraph of toParagraphs(toLines(page.items))) {
+      const paragraphStart = text.length;
+      for (const line of paragraph) {
+        const lineStart = text.length;
+        text += `${line.text.trim()}\n`;
+        lines.push({ layout: layout(lineStart, text.length, line.box) });
+      }
+      const box = paragraph.map((l) => l.box).reduce(union);
+      paragraphs.push({ layout: layout(paragraphStart, text.length, box) });
+    }
+    docPages.push({
+      pageNumber: page.pageNumber,
+      dimension: { width: page.width, height: page.height, unit: "points" },
+      layout: layout(pageStart, text.length),
+      // No separate block detection: a paragraph is its own block
+      blocks: paragraphs,
+      paragraphs,
+      lines
+    });
+  }
+  return { text, pages: docPages };
+}
+
+function pageChars(page: PdfTextPage) {
+  return page.items.reduce((n, i) => n + i.str.replace(/\s/g, "").length, 0);
+}
+
+/** Whether at least half of the pages have real text, so OCR would add little. */
+export function hasTextLayer(pages: PdfTextPage[]): boolean {
+  if (pages.length === 0) return false;
+  return pages.filter((p) => pageChars(p) >= MIN_PAGE_CHARS).length * 2 >= pages.length;
+}
+
+/** Build the result from an already read text layer (see extractPdfText). */
+export function textLayerResult(pages: PdfTextPage[]): OcrResult {
+  const document = documentFromTextLayer(pages);
+  const empty = pages.filter((p) => pageChars(p) < MIN_PAGE_CHARS).map((p) => p.pageNumber);
+  return {
+    provider: "pdfjs",
+    text: document.text ?? "",
+    raw: { document },
+    warnings: empty.length > 0 ? [`pdfjs: no text layer on page(s) ${empty.join(", ")}; they may need OCR`] : []
+  };
+}
+
+export const pdfJsProvider: OcrProvider = {
+  name: "pdfjs",
+  version: () => "pdfjs-v1",
+  async processPdf(pdf) {
+    return textLayerResult(await readPdfTextLayer(pdf));
+  }
+};
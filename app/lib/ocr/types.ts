@@ -0,0 +1,51 @@
+// Text extraction for PDF sources. Every provider answers in Document AI's
+// Document JSON (text, plus pages with layout, blocks and paragraphs pointing
+// into it through text anchors), which is what sources/{id}/docai.json holds
+// and page-text.ts reads, whoever produced it.
+//
+// Safe to import from the browser: no provider code lives here.
+
+type TextSegment = { startIndex?: string | number; endIndex?: string | number };
+export type OcrLayout = {
+  textAnchor?: { textSegments?: TextSegment[] };
+  boundingPoly?: { normalizedVertices?: Array<{ x?: number; y?: number }> };
+};
+export type OcrPage = Record<string, unknown> & {
+  pageNumber?: number;
+  dimension?: { width?: number; height?: number; unit?: string };
+  layout?: OcrLayout;
+  blocks?: Array<{ layout?: OcrLayout }>;
+  paragraphs?: Array<{ layout?: OcrLayout }>;
+  lines?: Array<{ layout?: OcrLayout }>;
+};
+// Only the parts this app reads; everything else is passed through
+export type OcrDocument = Record<string, unknown> & {
+  text?: string;
+  pages?: OcrPage[];
+};
+
+export const OCR_PROVIDERS = ["docai", "pdfjs", "fixture"] as const;
+export type OcrProviderName = (typeof OCR_PROVIDERS)[number];
+
+// settings.ocrProvider: a provider, or "auto" ("" in the manifest) for the
+// text layer when the PDF has one and Document AI otherwise
+export const OCR_PROVIDER_SETTINGS = ["auto", ...OCR_PROVIDERS] as const;
+export type OcrProviderSetting = (typeof OCR_PROVIDER_SETTINGS)[number];
+
+export type OcrResult = {
+  provider: OcrProviderName;
+  text: string;
+  // Stored as docai.json; same shape as a Document AI process response
+  raw: { document: OcrDocument };
+  warnings: string[];
+};
+
+export interface OcrProvider {
+  readonly name: OcrProviderName;
+
+  /** Identifies what the provider would make of a file; changes when its output would. */
+  version(): string;
+
+  /** Text and layout of a PDF. */
+  processPdf(pdf: Buffer): Promise<OcrResult>;
+}
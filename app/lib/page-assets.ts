@@ -0,0 +1,87 @@
+import type { AssetCategory } from "./asset-categories";
+import type { AssetBBox, AssetDetection, AssetQuality, PageAsset, PageImage } from "./manifest";
+
+export type IncomingAsset = {
+  assetId: string;
+  url: string;
+  bbox: AssetBBox;
+  tags?: string[];
+  category?: AssetCategory;
+  inputsHash?: string;
+  detection?: AssetDetection;
+  phash?: string;
+  quality?: AssetQuality;
+};
+
+/**
+ * Add or replace assets on a page by assetId. Tombstoned assetIds are never
+ * brought back. A replaced asset keeps everything not given here (tags,
+ * category, detection, hand-edit history) except what belongs to its old
+ * crop: a new file or crop hash clears its perceptual hash, quality and
+ * duplicateOf unless new ones are given. Kept tags keep their tagsInputsHash,
+ * which no longer matches if the crop changed; new tags replace the old ones
+ * and their rationale.
+ */
+export function mergePageAssets(page: PageImage, incoming: IncomingAsset[]) {
+  const deleted = new Set<string>(page.deletedAssetIds);
+  const byId = new Map<string, PageAsset>();
+  for (const e of page.assets) byId.set(e.assetId, e);
+  for (const a of incoming) {
+    if (deleted.has(a.assetId)) continue;
+    const existing = byId.get(a.assetId);
+    const asset: PageAsset = { ...existing, assetId: a.assetId, url: a.url, bbox: a.bbox, sourceId: page.sourceId };
+    if (!existing || existing.url !== a.url || existing.inputsHash !== a.inputsHash) {
+      delete asset.phash;
+      delete asset.quality;
+      delete asset.duplicateOf;
+    }
+    if (a.inputsHash) asset.inputsHash = a.inputsHash;
+    else delete asset.inputsHash;
+    if (a.tags) {
+      asset.tags = a.tags;
+      // Tags given here were not made from a hashed input
+      delete asset.tagsInputsHash;
+      delete asset.tagRationale;
+    }
+    if (a.category) asset.category = a.category;
+    if (a.detection) asset.detection = a.detection;
+    if (a.phash) asset.phash = a.phash;
+    if (a.quality) asset.quality = a.quality;
+    byId.set(a.assetId, asset);
+  }
+  page.assets = Array.from(byId.values())
+    .filter((a) => !deleted.has(a.assetId))
+    .sort((a, b) => a.assetId.localeCompare(b.assetId));
+}
+
+/**
+ * Carry a page's asset boxes, and those in their edit history, over to a
+ * render of the page at a new size. Ids stay valid: they are in fractions
+ * of the page. Pages without a size yet have nothing to scale from.
+ */
+export function rescalePageAssets(page: PageImage, width: number, height: number) {
+  if (!(page.width > 0 && page.height > 0) || (page.width === width && page.height === height)) return;
+  const sx = width / page.width;
+  const sy = height / page.height;
+  const scale = (b: AssetBBox): AssetBBox => ({ x: b.x * sx, y: b.y * sy, w: b.w * sx, h: b.h * sy });
+  for (const a of page.assets) {
+    a.bbox = scale(a.bbox);
+    for (const e of a.history ?? []) e.bbox = scale(e.bbox);
+  }
+}
+
+/**
+ * Give `keep` the tags of `others` too, and a category if it has none.
+ * Hand-set tags (no tagsInputsHash) must survive re-tagging, so the result
+ * only keeps a hash if none of them were set by hand.
+ */
+export function mergeAssetTags(keep: PageAsset, others: PageAsset[]) {
+  const all = [keep, ...others];
+  const tags = [...new Set(all.flatMap((a) => a.tags ?? []))];
+  if (tags.length > 0) {
+    keep.tags = tags;
+    if (all.some((a) => a.tags?.length && !a.tagsInputsHash)) delete keep.tagsInputsHash;
+    else keep.tagsInputsHash ??= others.find((a) => a.tagsInputsHash)?.tagsInputsHash;
+  }
+  keep.category ??= others.find((a) => a.category)?.category;
+}
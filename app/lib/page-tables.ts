@@ -0,0 +1,164 @@
+import type { ProjectManifest } from "./manifest";
+import { anchorText, docAiPages, layoutBox, readPageText, type DocAiLayout, type LayoutBox } from "./page-text";
+import { getProjectStore, projectPaths, readStoredJson } from "@/app/lib/store";
+
+// Tables and form key/values on one project page, stored as JSON next to the
+// page's text (pages/page-{n}.tables.json) and linked from
+// PageImage.tablesUrl. Document AI's Form Parser finds them; processors and
+// providers that don't leave the page without a tablesUrl.
+
+export type PageTable = {
+  bbox?: LayoutBox;
+  // One name per column; several header rows are joined with " / ". Empty
+  // when the table has no header row.
+  columns: string[];
+  // Cell text, one array per body row. A cell spanning rows or columns is
+  // repeated in each of them, so every row has a value for every column.
+  rows: string[][];
+};
+
+export type PageFormField = {
+  name: string;
+  value: string;
+  bbox?: LayoutBox;
+};
+
+export type PageTables = {
+  pageNumber: number;
+  sourceId?: string;
+  sourcePageNumber?: number;
+  tables: PageTable[];
+  formFields: PageFormField[];
+};
+
+// The table parts of a Document AI page
+type DocAiCell = { layout?: DocAiLayout; rowSpan?: number; colSpan?: number };
+type DocAiRow = { cells?: DocAiCell[] };
+type DocAiTable = { layout?: DocAiLayout; headerRows?: DocAiRow[]; bodyRows?: DocAiRow[] };
+type DocAiFormField = { fieldName?: DocAiLayout; fieldValue?: DocAiLayout };
+
+function cellText(text: string, layout: DocAiLayout | undefined) {
+  return anchorText(text, layout?.textAnchor).replace(/\s+/g, " ").trim();
+}
+
+// Lay rows out on a grid, following row and column spans
+function toGrid(text: string, rows: DocAiRow[]): string[][] {
+  const grid: string[][] = rows.map(() => []);
+  rows.forEach((row, r) => {
+    let c = 0;
+    for (const cell of row.cells ?? []) {
+      while (grid[r][c] !== undefined) c++;
+      const value = cellText(text, cell.layout);
+      for (let dr = 0; dr < Math.max(1, cell.rowSpan ?? 1) && r + dr < rows.length; dr++) {
+        for (let dc = 0; dc < Math.max(1, cell.colSpan ?? 1); dc++) grid[r + dr][c + dc] = value;
+      }
+      c += Math.max(1, cell.colSpan ?? 1);
+    }
+  });
+  const width = Math.max(0, ...grid.map((row) => row.length));
+  return grid.map((row) => Array.from({ length: width }, (_, i) => row[i] ?? ""));
+}
+
+function toTable(text: string, table: DocAiTable): PageTable {
+  const header = toGrid(text, table.headerRows ?? []);
+  const rows = toGrid(text, table.bodyRows ?? []).filter((row) => row.some((v) => v));
+  const width = Math.max(0, ...header.map((r) => r.length), ...rows.map((r) => r.length));
+  const columns =
+    header.length === 0
+      ? []
+      : Array.from({ length: width }, (_, i) => [...new Set(header.map((r) => r[i] ?? "").filter(Boolean))].join(" / "));
+  return {
+    ...(layoutBox(table.layout) ? { bbox: layoutBox(table.layout) } : {}),
+    columns,
+    rows: rows.map((row) => Array.from({ length: width }, (_, i) => row[i] ?? ""))
+  };
+}
+
+/**
+ * Per-page tables and form fields from a Document AI response, keyed by the
+ * page's number within the source. Pages with neither are left out.
+ */
+export function pageTablesFromDocAi(
+  raw: unknown
+): Array<Omit<PageTables, "pageNumber"> & { sourcePageNumber: number }> {
+  const out: Array<Omit<PageTables, "pageNumber"> & { sourcePageNumber: number }> = [];
+  for (const { text, page, sourcePageNumber } of docAiPages(raw)) {
+    const tables = (Array.isArray(page.tables) ? (page.tables as DocAiTable[]) : [])
+      .map((t) => toTable(text, t))
+      .filter((t) => t.rows.length > 0);
+    const formFields = (Array.isArray(page.formFields) ? (page.formFields as DocAiFormField[]) : [])
+      .map((f) => ({
+        name: cellText(text, f.fieldName).replace(/:$/, ""),
+        value: cellText(text, f.fieldValue),
+        bbox: layoutBox(f.fieldName)
+      }))
+      .filter((f) => f.name);
+    if (tables.length > 0 || formFields.length > 0) out.push({ sourcePageNumber, tables, formFields });
+  }
+  return out;
+}
+
+/** Store a page's tables; returns the URL for PageImage.tablesUrl. */
+export async function storePageTables(projectId: string, pageTables: PageTables): Promise<string> {
+  const blob = await getProjectStore().put(
+    projectPaths.pageTables(projectId, pageTables.pageNumber),
+    JSON.stringify(pageTables),
+    "application/json"
+  );
+  return blob.url;
+}
+
+export async function readPageTables(url: string | undefined): Promise<PageTables | null> {
+  if (!url) return null;
+  try {
+    return await readStoredJson<PageTables>(url);
+  } catch {
+    return null;
+  }
+}
+
+/** A table's rows as objects keyed by column name, when it has a header. */
+export function tableRecords(table: PageTable): Array<Record<string, string>> | string[][] {
+  if (table.columns.length === 0 || table.columns.some((c) => !c)) return table.rows;
+  return table.rows.map((row) => Object.fromEntries(table.columns.map((c, i) => [c, row[i] ?? ""])));
+}
+
+/**
+ * Every stored table and form field in the project, page by page, with the
+ * source filename and the paragraph just above each table as its title.
+ */
+export async function projectTables(manifest: ProjectManifest): Promise<
+  Array<{
+    page: number;
+    source?: string;
+    tables: Array<{ title?: string; rows: ReturnType<typeof tableRecords> }>;
+    formFields: Array<{ name: string; value: string }>;
+  }>
+> {
+  const sourceNames = new Map(manifest.sources.map((src) => [src.sourceId, src.filename]));
+  const out: Awaited<ReturnType<typeof projectTables>> = [];
+  for (const page of manifest.pages) {
+    const stored = await readPageTables(page.tablesUrl);
+    if (!stored) continue;
+    const pageText = stored.tables.length > 0 ? await readPageText(page.textUrl) : null;
+    out.push({
+      page: page.pageNumber,
+      source: sourceNames.get(page.sourceId ?? ""),
+      tables: stored.tables.map((table) => {
+        const title = table.bbox && pageText ? titleAbove(pageText.paragraphs, table.bbox) : undefined;
+        return { ...(title ? { title } : {}), rows: tableRecords(table) };
+      }),
+      formFields: stored.formFields.map(({ name, value }) => ({ name, value }))
+    });
+  }
+  return out;
+}
+
+// A short paragraph ending just above the table and overlapping it sideways
+function titleAbove(paragraphs: Array<{ text: string; bbox?: LayoutBox }>, box: LayoutBox): string | undefined {
+  return paragraphs
+    .filter((p): p is { text: string; bbox: LayoutBox } => !!p.bbox && p.text.length <= 120)
+    .map((p) => ({ p, gap: box.y - (p.bbox.y + p.bbox.h) }))
+    .filter(({ p, gap }) => gap >= -0.005 && gap <= 0.05 && p.bbox.x < box.x + box.w && p.bbox.x + p.bbox.w > box.x)
+    .sort((a, b) => a.gap - b.gap)[0]?.p.text;
+}
@@ -0,0 +1,300 @@
+import type { AssetBBox, PageImage, ProjectManifest } from "./manifest";
+import { sourceTextHeader } from "./manifest-sources";
+import { getProjectStore, projectPaths, readStoredJson, readStoredText } from "@/app/lib/store";
+
+// Text and layout of one project page, stored as JSON next to the page PNG
+// (pages/page-{n}.json) and linked from PageImage.textUrl. PDFs get it from
+// Document AI; formats extracted directly get what they have (slide text).
+
+/** A box as fractions of the page size (0..1), so it fits any render size. */
+export type LayoutBox = { x: number; y: number; w: number; h: number };
+
+export type PageTextBlock = {
+  text: string;
+  bbox?: LayoutBox;
+};
+
+export type PageText = {
+  pageNumber: number;
+  sourceId?: string;
+  sourcePageNumber?: number;
+  text: string;
+  // Both in reading order
+  blocks: PageTextBlock[];
+  paragraphs: PageTextBlock[];
+};
+
+// The parts of Document AI's Document JSON read here. Indexes are int64s,
+// which the REST API sends as strings.
+type DocAiTextAnchor = { textSegments?: Array<{ startIndex?: string | number; endIndex?: string | number }> };
+export type DocAiLayout = {
+  textAnchor?: DocAiTextAnchor;
+  boundingPoly?: { normalizedVertices?: Array<{ x?: number; y?: number }> };
+};
+export type DocAiPage = Record<string, unknown> & {
+  pageNumber?: number;
+  layout?: DocAiLayout;
+  blocks?: Array<{ layout?: DocAiLayout }>;
+  paragraphs?: Array<{ layout?: DocAiLayout }>;
+};
+type DocAiDocument = { text?: string; pages?: DocAiPage[] };
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+// Stored docai.json is one process response (see docai.ts). Sources processed
+// before long PDFs were merged have { chunks: [...] } instead.
+function docAiDocuments(raw: unknown): DocAiDocument[] {
+  if (!isRecord(raw)) return [];
+  const responses = Array.isArray(raw.chunks) ? raw.chunks : [raw];
+  return responses
+    .map((r) => (isRecord(r) && isRecord(r.document) ? (r.document as DocAiDocument) : null))
+    .filter((d): d is DocAiDocument => !!d);
+}
+
+export function anchorText(text: string, anchor: DocAiTextAnchor | undefined): string {
+  return (anchor?.textSegments ?? [])
+    .map((s) => text.slice(Number(s.startIndex ?? 0), Number(s.endIndex ?? 0)))
+    .join("");
+}
+
+export function layoutBox(layout: DocAiLayout | undefined): LayoutBox | undefined {
+  const vs = layout?.boundingPoly?.normalizedVertices ?? [];
+  if (vs.length === 0) return undefined;
+  const xs = vs.map((v) => v.x ?? 0);
+  const ys = vs.map((v) => v.y ?? 0);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, w: Math.max(...xs) - x, h: Math.max(...ys) - y };
+}
+
+function toBlocks(text: string, items: Array<{ layout?: DocAiLayout }> | undefined): PageTextBlock[] {
+  return (items ?? [])
+    .map((item) => ({ text: anchorText(text, item.layout?.textAnchor).trim(), bbox: layoutBox(item.layout) }))
+    .filter((b) => b.text);
+}
+
+/**
+ * Every page of a stored Document AI response with the document text its
+ * anchors point into, numbered within the source.
+ */
+export function docAiPages(raw: unknown): Array<{ text: string; page: DocAiPage; sourcePageNumber: number }> {
+  const out: Array<{ text: string; page: DocAiPage; sourcePageNumber: number }> = [];
+  for (const doc of docAiDocuments(raw)) {
+    for (const page of doc.pages ?? []) {
+      out.push({ text: doc.text ?? "", page, sourcePageNumber: page.pageNumber ?? out.length + 1 });
+    }
+  }
+  return out;
+}
+
+/**
+ * Per-page text, blocks and paragraphs from a Document AI response, keyed by
+ * the page's number within the source. Document AI lists blocks and
+ * paragraphs in reading order, which is kept.
+ */
+export function pageTextsFromDocAi(raw: unknown): Array<Omit<PageText, "pageNumber"> & { sourcePageNumber: number }> {
+  return docAiPages(raw).map(({ text, page, sourcePageNumber }) => ({
+    sourcePageNumber,
+    text: anchorText(text, page.layout?.textAnchor).trim(),
+    blocks: toBlocks(text, page.blocks),
+    paragraphs: toBlocks(text, page.paragraphs)
+  }));
+}
+
+/** Store a page's text and layout; returns the URL for PageImage.textUrl. */
+export async function storePageText(projectId: string, pageText: PageText): Promise<string> {
+  const blob = await getProjectStore().put(
+    projectPaths.pageText(projectId, pageText.pageNumber),
+    JSON.stringify(pageText),
+    "application/json"
+  );
+  return blob.url;
+}
+
+export async function readPageText(url: string | undefined): Promise<PageText | null> {
+  if (!url) return null;
+  try {
+    return await readStoredJson<PageText>(url);
+  } catch {
+    return null;
+  }
+}
+
+function distance(a: LayoutBox, b: LayoutBox) {
+  const dx = Math.max(0, a.x - (b.x + b.w), b.x - (a.x + a.w));
+  const dy = Math.max(0, a.y - (b.y + b.h), b.y - (a.y + a.h));
+  return Math.hypot(dx, dy);
+}
+
+function overlap(a0: number, a1: number, b0: number, b1: number) {
+  return Math.max(0, Math.min(a1, b1) - Math.max(a0, b0));
+}
+
+// Fraction of `inner` that lies inside `outer`
+function insideShare(inner: LayoutBox, outer: LayoutBox) {
+  const area = inner.w * inner.h;
+  if (area <= 0) return 0;
+  return (overlap(inner.x, inner.x + inner.w, outer.x, outer.x + outer.w) * overlap(inner.y, inner.y + inner.h, outer.y, outer.y + outer.h)) / area;
+}
+
+// How close a caption has to be, as fractions of the page
+const CAPTION_MAX_GAP = 0.05;
+const CAPTION_MAX_CHARS = 300;
+const NEARBY_MAX_DISTANCE = 0.12;
+const NEARBY_MAX_CHARS = 600;
+
+export type AssetText = {
+  caption?: string;
+  nearbyText?: string;
+};
+
+/**
+ * The text printed next to an asset, from the page's paragraph positions.
+ * `caption` is a short paragraph just below the asset (or just above, if
+ * nothing is below) that shares most of its width; `nearbyText` is the other
+ * paragraphs within a short distance, in reading order. Text inside the
+ * asset's box is part of the picture and left out. Empty when the page has
+ * no paragraph positions.
+ */
+export function assetText(pageText: PageText, page: Pick<PageImage, "width" | "height">, bbox: AssetBBox): AssetText {
+  const paragraphs = (pageText.paragraphs.length > 0 ? pageText.paragraphs : pageText.blocks).filter(
+    (p): p is PageTextBlock & { bbox: LayoutBox } => !!p.bbox
+  );
+  if (!page.width || !page.height || paragraphs.length === 0) return {};
+
+  const box: LayoutBox = { x: bbox.x / page.width, y: bbox.y / page.height, w: bbox.w / page.width, h: bbox.h / page.height };
+  const outside = paragraphs.filter((p) => insideShare(p.bbox, box) < 0.5);
+
+  const alongside = (p: LayoutBox) => overlap(p.x, p.x + p.w, box.x, box.x + box.w) >= 0.3 * Math.min(p.w, box.w);
+  const gapBelow = (p: LayoutBox) => p.y - (box.y + box.h);
+  const gapAbove = (p: LayoutBox) => box.y - (p.y + p.h);
+  const captionFrom = (gap: (p: LayoutBox) => number) =>
+    outside
+      .filter((p) => p.text.length <= CAPTION_MAX_CHARS && alongside(p.bbox))
+      .map((p) => ({ p, gap: gap(p.bbox) }))
+      .filter(({ gap }) => gap >= -0.01 && gap <= CAPTION_MAX_GAP)
+      .sort((a, b) => a.gap - b.gap)[0]?.p;
+  const caption = captionFrom(gapBelow) ?? captionFrom(gapAbove);
+
+  const nearby: string[] = [];
+  let used = 0;
+  const close = outside
+    .filter((p) => p !== caption)
+    .map((p) => ({ p, d: distance(p.bbox, box) }))
+    .filter(({ d }) => d <= NEARBY_MAX_DISTANCE)
+    .sort((a, b) => a.d - b.d);
+  const picked = new Set<PageTextBlock>();
+  for (const { p } of close) {
+    if (used + p.text.length > NEARBY_MAX_CHARS && picked.size > 0) break;
+    picked.add(p);
+    used += p.text.length + 1;
+  }
+  for (const p of outside) if (picked.has(p)) nearby.push(p.text);
+
+  return {
+    ...(caption ? { caption: caption.text } : {}),
+    ...(nearby.length > 0 ? { nearbyText: nearby.join("\n").slice(0, NEARBY_MAX_CHARS) } : {})
+  };
+}
+
+/**
+ * How much of an asset's box (0..1) is covered by the page's text
+ * paragraphs: near 1 for a crop that is mostly a text panel. 0 when the
+ * page has no paragraph positions.
+ */
+export function textCoverage(pageText: PageText | null, page: Pick<PageImage, "width" | "height">, bbox: AssetBBox): number {
+  if (!pageText || !page.width || !page.height || bbox.w <= 0 || bbox.h <= 0) return 0;
+  const box: LayoutBox = { x: bbox.x / page.width, y: bbox.y / page.height, w: bbox.w / page.width, h: bbox.h / page.height };
+  let covered = 0;
+  for (const p of pageText.paragraphs.length > 0 ? pageText.paragraphs : pageText.blocks) {
+    if (p.bbox) covered += insideShare(box, p.bbox);
+  }
+  // Paragraphs don't overlap, or barely
+  return Math.min(1, covered);
+}
+
+/**
+ * Set caption and nearbyText on a page's assets (or just `assetIds`) from
+ * the page's text. Assets on pages without text lose both.
+ */
+export async function addAssetText(page: PageImage, assetIds?: Iterable<string>): Promise<void> {
+  const only = assetIds ? new Set(assetIds) : null;
+  const pageText = await readPageText(page.textUrl);
+  for (const asset of page.assets) {
+    if (only && !only.has(asset.assetId)) continue;
+    delete asset.caption;
+    delete asset.nearbyText;
+    if (pageText) Object.assign(asset, assetText(pageText, page, asset.bbox));
+  }
+}
+
+/**
+ * Up to `maxChars` of a page's text, favouring the paragraphs nearest to
+ * `near` (a box in page pixels, e.g. an asset's) and kept in reading order.
+ * Without a box, or without paragraph positions, it's the start of the page.
+ */
+export function textAround(
+  pageText: PageText,
+  maxChars: number,
+  near?: { bbox: AssetBBox; pageWidth: number; pageHeight: number }
+): string {
+  const paragraphs = pageText.paragraphs.length > 0 ? pageText.paragraphs : pageText.blocks;
+  if (
+    !near ||
+    !near.pageWidth ||
+    !near.pageHeight ||
+    pageText.text.length <= maxChars ||
+    paragraphs.some((p) => !p.bbox)
+  ) {
+    return pageText.text.slice(0, maxChars);
+  }
+
+  const target: LayoutBox = {
+    x: near.bbox.x / near.pageWidth,
+    y: near.bbox.y / near.pageHeight,
+    w: near.bbox.w / near.pageWidth,
+    h: near.bbox.h / near.pageHeight
+  };
+  const nearest = paragraphs
+    .map((p, i) => ({ i, d: distance(p.bbox as LayoutBox, target), len: p.text.length }))
+    .sort((a, b) => a.d - b.d);
+
+  const picked = new Set<number>();
+  let used = 0;
+  for (const p of nearest) {
+    if (used + p.len > maxChars && picked.size > 0) break;
+    picked.add(p.i);
+    used += p.len + 2;
+  }
+  return paragraphs
+    .filter((_, i) => picked.has(i))
+    .map((p) => p.text)
+    .join("\n\n")
+    .slice(0, maxChars);
+}
+
+/**
+ * Every source's text, page by page with "--- Page N ---" headers and the
+ * paragraphs Document AI found, for text consumers that care about structure
+ * (format-text). Sources without per-page text use their plain text.
+ */
+export async function structuredProjectText(manifest: ProjectManifest): Promise<string> {
+  const sections: string[] = [];
+  for (const source of manifest.sources) {
+    const pages = manifest.pages.filter((p) => p.sourceId === source.sourceId && p.textUrl);
+    const parts: string[] = [];
+    for (const page of pages) {
+      const pageText = await readPageText(page.textUrl);
+      if (!pageText) continue;
+      const paragraphs = pageText.paragraphs.length > 0 ? pageText.paragraphs.map((p) => p.text) : [pageText.text];
+      parts.push(`--- Page ${page.pageNumber} ---\n${paragraphs.join("\n\n")}`);
+    }
+    if (parts.length === 0 && source.extractedText?.url) {
+      parts.push(((await readStoredText(source.extractedText.url)) ?? "").trim());
+    }
+    if (parts.length > 0) sections.push(`${sourceTextHeader(source)}\n${parts.join("\n\n")}`);
+  }
+  return sections.join("\n\n");
+}
@@ -0,0 +1,142 @@
+import { z } from "zod";
+import type { ProjectManifest } from "@/app/lib/manifest";
+
+// The chain /api/projects/ingest runs, edited as JSON in the project settings
+// (settings.pipelineJson). Blank means DEFAULT_PIPELINE. Each step names a
+// background job kind (app/lib/jobs) and carries a few of its options.
+
+export const pipelineStepSchema = z.discriminatedUnion("step", [
+  z.object({ step: z.literal("process") }),
+  z.object({ step: z.literal("rasterize"), dpi: z.number().int().positive().optional() }),
+  // "ensemble" runs Document AI and Gemini and merges their boxes
+  z.object({ step: z.literal("detect"), detector: z.enum(["gemini", "ensemble"]).optional() }),
+  // Mark near-duplicate assets, so tag and fill only see one of each
+  z.object({ step: z.literal("dedupe"), maxDistance: z.number().int().min(0).max(32).optional() }),
+  // Tag assets that already have tags again: all of them (overwrite), or
+  // those whose tags were made from inputs that have since changed
+  z.object({ step: z.literal("tag"), overwrite: z.boolean().optional(), retagStale: z.boolean().optional() }),
+  // Save the filled schema as the project's schema results (default true)
+  z.object({ step: z.literal("fill"), save: z.boolean().optional() })
+]);
+
+export const pipelineSchema = z.object({ steps: z.array(pipelineStepSchema).min(1, "A pipeline needs a step") });
+
+export type PipelineStep = z.infer<typeof pipelineStepSchema>;
+export type Pipeline = z.infer<typeof pipelineSchema>;
+
+export const DEFAULT_PIPELINE: Pipeline = {
+  steps: [
+    { step: "process" },
+    { step: "rasterize" },
+    { step: "detect" },
+    { step: "dedupe" },
+    { step: "tag", retagStale: true },
+    { step: "fill", save: true }
+  ]
+};
+
+/** Parse saved pipeline JSON. Blank means the default; invalid JSON or shape throws. */
+export function parsePipeline(json: string | undefined): Pipeline {
+  if (!json?.trim()) return DEFAULT_PIPELINE;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("Invalid Pipeline JSON");
+  }
+  const res = pipelineSchema.safeParse(raw);
+  if (!res.success) throw new Error(`Invalid Pipeline: ${res.error.issues[0]?.message ?? "bad shape"}`);
+  return res.data;
+}
+
+export type PipelineStepStatus = {
+  step: PipelineStep["step"];
+  status: "pending" | "running" | "succeeded" | "skipped" | "failed";
+  // Why a step was skipped or failed
+  reason?: string;
+  // The step's job result, when it ran
+  result?: unknown;
+};
+
+export type PipelineScope = {
+  // Only this source's text and pages; default is the whole project
+  sourceId?: string;
+};
+
+// Either the step's outputs are current, or the job params that bring them up to date
+export type PipelinePlan = { skip: string } | { params: Record<string, unknown> };
+
+function inScope<T extends { sourceId?: string }>(items: T[], scope: PipelineScope): T[] {
+  return scope.sourceId ? items.filter((i) => i.sourceId === scope.sourceId) : items;
+}
+
+function hasAssets(manifest: ProjectManifest) {
+  return manifest.pages.some((p) => {
+    const deleted = new Set(p.deletedAssetIds);
+    return p.assets.some((a) => !deleted.has(a.assetId));
+  });
+}
+
+/**
+ * Decide what a step has left to do. Steps only work on what is missing
+ * (unprocessed sources, unrendered pages, pages without assets), so
+ * re-running a pipeline picks up where the last run stopped. Dedupe, tag and
+ * fill always run: they only hash, tag or fill what changed.
+ */
+export function planPipelineStep(step: PipelineStep, manifest: ProjectManifest, scope: PipelineScope): PipelinePlan {
+  switch (step.step) {
+    case "process": {
+      const sources = inScope(manifest.sources, scope).filter((s) => !s.extractedText?.url);
+      if (sources.length === 0) return { skip: "Every source is processed" };
+      return { params: { sourceIds: sources.map((s) => s.sourceId) } };
+    }
+
+    case "rasterize": {
+      const sources = inScope(manifest.sources, scope).filter((s) => s.format === "pdf");
+      if (sources.length === 0) return { skip: "No PDF sources" };
+
+      const rendered = new Set(manifest.pages.filter((p) => p.url).map((p) => p.pageNumber));
+      const missing: number[] = [];
+      let unallocated = false;
+      for (const s of sources) {
+        if (s.firstPage === undefined || s.pageCount === undefined) {
+          unallocated = true;
+          continue;
+        }
+        for (let n = s.firstPage; n < s.firstPage + s.pageCount; n++) {
+          if (!rendered.has(n)) missing.push(n);
+        }
+      }
+      if (!unallocated && missing.length === 0) return { skip: "Every page is rendered" };
+
+      return {
+        params: {
+          sourceId: scope.sourceId,
+          dpi: step.dpi,
+          // Sources without a page count yet need the whole range
+          ...(unallocated ? {} : { fromPage: Math.min(...missing), toPage: Math.max(...missing) })
+        }
+      };
+    }
+
+    case "detect": {
+      // A page someone removed assets from has been looked at, even if none are left
+      const pages = inScope(manifest.pages, scope).filter(
+        (p) => p.url && p.assets.length === 0 && p.deletedAssetIds.length === 0
+      );
+      if (pages.length === 0) return { skip: "No pages without assets" };
+      return { params: { pageNumbers: pages.map((p) => p.pageNumber), detector: step.detector } };
+    }
+
+    case "dedupe":
+      if (!hasAssets(manifest)) return { skip: "No assets to compare" };
+      return { params: { maxDistance: step.maxDistance } };
+
+    case "tag":
+      if (!hasAssets(manifest)) return { skip: "No assets to tag" };
+      return { params: { overwrite: step.overwrite, retagStale: step.retagStale } };
+
+    case "fill":
+      return { params: {} };
+  }
+}
@@ -0,0 +1,317 @@
+import {
+  fetchManifestDirect,
+  updateManifest,
+  ManifestUpdateRejected,
+  type PageImage,
+  type ProjectManifest,
+  type SourceDocument
+} from "./manifest";
+import type { JournalContext } from "./manifest-journal";
+import { relinkSchemaResults } from "./asset-dedupe";
+import { contentHash } from "./content-hash";
+import { extractPdfText, ocrVersion, parseOcrProviderSetting, type OcrProviderName, type OcrProviderSetting } from "./ocr";
+import {
+  allocateSourcePages,
+  countSourcePages,
+  replaceSourcePages,
+  requireSource,
+  writeCombinedText
+} from "./manifest-sources";
+import { pageTablesFromDocAi, storePageTables } from "./page-tables";
+import { addAssetText, pageTextsFromDocAi, storePageText } from "./page-text";
+import { extractSource, storeExtractedSource } from "./sources";
+import { getProjectStore, moveToTrash, projectPaths } from "@/app/lib/store";
+
+// Processing sources: text (and layout) from each source document, and for
+// formats that carry their own images, the pages and assets too. Shared by
+// /api/projects/process and the process job.
+
+// What processing one source produced, applied to the manifest afterwards
+type SourceResult = {
+  sourceId: string;
+  fileHash: string;
+  inputsHash: string;
+  // Inputs unchanged since the last run; nothing else is set
+  skipped?: boolean;
+  textUrl?: string;
+  docAiJsonUrl?: string;
+  pageCount?: number;
+  // Planned page range; pages are only set for formats extracted directly
+  firstPage?: number;
+  pages?: PageImage[];
+  // Old URL -> new, for assets whose file moved
+  moved?: Map<string, string>;
+  // PDFs: per-page text and layout, and tables where there are any, set on
+  // pages (created blank if not rendered yet)
+  pageTexts?: Array<{ pageNumber: number; sourcePageNumber: number; textUrl: string; tablesUrl?: string }>;
+  // PDFs: the provider that extracted the text
+  ocrProvider?: OcrProviderName;
+  warnings: string[];
+};
+
+async function fetchSourceBytes(sourceUrl: string): Promise<Buffer> {
+  const bytes = await getProjectStore().get(sourceUrl);
+  if (!bytes) throw new Error("Cannot fetch source document: not found");
+  return bytes;
+}
+
+// Hash of what processing a source depends on: its bytes and, for PDFs, the
+// OCR provider setting (and the Document AI processor behind it)
+function processInputsHash(source: SourceDocument, fileHash: string, ocr: OcrProviderSetting) {
+  return contentHash("process-v4", fileHash, source.format, source.format === "pdf" ? ocrVersion(ocr) : null);
+}
+
+function isProcessed(source: SourceDocument, inputsHash: string) {
+  return (
+    source.extractedText?.inputsHash === inputsHash &&
+    (source.format !== "pdf" || source.docAiJson?.inputsHash === inputsHash)
+  );
+}
+
+type Hashes = Pick<SourceResult, "fileHash" | "inputsHash">;
+
+// PDFs: text and layout from the OCR provider, for the whole source and per
+// page. Pages are numbered from the source's planned range in `plan`.
+async function processPdfSource(
+  plan: ProjectManifest,
+  source: SourceDocument,
+  bytes: Buffer,
+  hashes: Hashes,
+  ocr: OcrProviderSetting
+): Promise<SourceResult> {
+  const { projectId } = plan;
+  const { provider, text: fullText, raw, warnings } = await extractPdfText(ocr, bytes);
+  const pageCount = source.pageCount ?? (await countSourcePages("pdf", bytes));
+  const firstPage = pageCount !== undefined ? allocateSourcePages(plan, source.sourceId, pageCount) : undefined;
+
+  const pageTexts: NonNullable<SourceResult["pageTexts"]> = [];
+  if (firstPage !== undefined && pageCount !== undefined) {
+    const tables = new Map(pageTablesFromDocAi(raw).map((t) => [t.sourcePageNumber, t]));
+    for (const t of pageTextsFromDocAi(raw)) {
+      if (t.sourcePageNumber > pageCount) continue;
+      const pageNumber = firstPage + t.sourcePageNumber - 1;
+      const textUrl = await storePageText(projectId, { ...t, pageNumber, sourceId: source.sourceId });
+      const pageTables = tables.get(t.sourcePageNumber);
+      const tablesUrl = pageTables
+        ? await storePageTables(projectId, { ...pageTables, pageNumber, sourceId: source.sourceId })
+        : undefined;
+      pageTexts.push({ pageNumber, sourcePageNumber: t.sourcePageNumber, textUrl, ...(tablesUrl ? { tablesUrl } : {}) });
+    }
+  }
+
+  const store = getProjectStore();
+  const textBlob = await store.put(projectPaths.sourceText(projectId, source.sourceId), fullText, "text/plain; charset=utf-8");
+  const docAiBlob = await store.put(
+    projectPaths.sourceDocAiJson(projectId, source.sourceId),
+    JSON.stringify(raw, null, 2),
+    "application/json"
+  );
+
+  return {
+    sourceId: source.sourceId,
+    ...hashes,
+    textUrl: textBlob.url,
+    docAiJsonUrl: docAiBlob.url,
+    pageCount,
+    firstPage,
+    pageTexts,
+    ocrProvider: provider,
+    warnings
+  };
+}
+
+// DOCX / PPTX / image folders carry their own text and images, so they are
+// turned into text, pages and assets in one go. `plan` is a scratch copy of
+// the manifest used to pick page numbers before anything is uploaded.
+async function processExtractedSource(
+  plan: ProjectManifest,
+  source: SourceDocument,
+  bytes: Buffer,
+  hashes: Hashes
+): Promise<SourceResult> {
+  const extracted = await extractSource(source.format, bytes);
+  const firstPage = allocateSourcePages(plan, source.sourceId, extracted.pages.length);
+  const { textUrl, pages, moved } = await storeExtractedSource(
+    plan.projectId,
+    source.sourceId,
+    extracted,
+    firstPage,
+    plan.pages
+  );
+
+  // Page images come straight out of the file, so they are as current as the
+  // source itself; assets are hashed from their own image
+  for (const page of pages) {
+    page.inputsHash = contentHash("extract-page-v1", hashes.inputsHash, page.sourcePageNumber);
+  }
+
+  return {
+    sourceId: source.sourceId,
+    ...hashes,
+    textUrl,
+    pageCount: extracted.pages.length,
+    firstPage,
+    pages,
+    moved,
+    warnings: extracted.warnings
+  };
+}
+
+export type ProcessSourcesInput = {
+  projectId: string;
+  manifestUrl: string;
+  // Process just this source; default is every source
+  sourceId?: string;
+  // Process sources whose file and settings haven't changed since last time too
+  force?: boolean;
+};
+
+export type ProcessedSourceSummary = {
+  sourceId: string;
+  pageCount?: number;
+  skipped: boolean;
+  ocrProvider?: OcrProviderName;
+  warnings: string[];
+};
+
+/**
+ * Process a project's sources and record the results in its manifest.
+ * Sources whose inputs haven't changed are skipped unless `force` is set.
+ * Rejects with ManifestUpdateRejected when there is nothing to process or
+ * the OCR setting is invalid.
+ */
+export async function processSources(
+  input: ProcessSourcesInput,
+  journal?: JournalContext
+): Promise<{ manifestUrl: string; sources: ProcessedSourceSummary[] }> {
+  const { projectId, manifestUrl, sourceId, force } = input;
+
+  const manifest = await fetchManifestDirect(manifestUrl);
+
+  if (manifest.projectId !== projectId) {
+    throw new ManifestUpdateRejected("projectId does not match manifest");
+  }
+
+  const sources = sourceId ? [requireSource(manifest, sourceId)] : manifest.sources;
+  if (sources.length === 0) {
+    throw new ManifestUpdateRejected("No source document uploaded.");
+  }
+
+  let ocr: OcrProviderSetting;
+  try {
+    ocr = parseOcrProviderSetting(manifest.settings.ocrProvider);
+  } catch (e) {
+    throw new ManifestUpdateRejected(e instanceof Error ? e.message : String(e));
+  }
+
+  // 1) Extract each source (the OCR provider for PDFs)
+  const plan = structuredClone(manifest);
+  const results: SourceResult[] = [];
+  for (const source of sources) {
+    const bytes = await fetchSourceBytes(source.url);
+    const fileHash = contentHash(bytes);
+    const hashes = { fileHash, inputsHash: processInputsHash(source, fileHash, ocr) };
+    if (!force && isProcessed(source, hashes.inputsHash)) {
+      results.push({ sourceId: source.sourceId, ...hashes, skipped: true, warnings: [] });
+      continue;
+    }
+    results.push(
+      source.format === "pdf"
+        ? await processPdfSource(plan, source, bytes, hashes, ocr)
+        : await processExtractedSource(plan, source, bytes, hashes)
+    );
+  }
+  const processed = results.filter((r): r is SourceResult & { textUrl: string } => !r.skipped);
+  const sourcesSummary = results.map((r) => ({
+    sourceId: r.sourceId,
+    pageCount: r.pageCount,
+    skipped: r.skipped ?? false,
+    ...(r.ocrProvider ? { ocrProvider: r.ocrProvider } : {}),
+    warnings: r.warnings
+  }));
+  if (processed.length === 0) {
+    return { manifestUrl, sources: sourcesSummary };
+  }
+
+  // Schema results linking to assets whose file moved follow them
+  const moved = new Map(processed.flatMap((r) => [...(r.moved ?? [])]));
+  const relinked = await relinkSchemaResults(projectId, manifest.schemaResults?.url, moved);
+  let dropped: string[] = [];
+
+  // 2) Update manifest
+  const { manifestUrl: newManifestUrl, manifest: updated } = await updateManifest(
+    manifestUrl,
+    async (latest) => {
+      const timestamp = new Date().toISOString();
+      if (relinked.url && latest.schemaResults) latest.schemaResults.url = relinked.url;
+      dropped = [];
+
+      for (const r of processed) {
+        const source = requireSource(latest, r.sourceId);
+        source.contentHash = r.fileHash;
+        source.extractedText = { url: r.textUrl, inputsHash: r.inputsHash };
+        if (r.docAiJsonUrl) source.docAiJson = { url: r.docAiJsonUrl, inputsHash: r.inputsHash };
+
+        if (r.pages && r.pageCount !== undefined) {
+          // Page files were uploaded under the planned numbers; bail out if
+          // another source took them in the meantime
+          if (allocateSourcePages(latest, r.sourceId, r.pageCount) !== r.firstPage) {
+            throw new ManifestUpdateRejected("Page numbers changed while processing; run Process again", 409);
+          }
+          dropped.push(...replaceSourcePages(latest, r.sourceId, r.pages));
+        } else if (r.pageTexts && r.pageCount !== undefined) {
+          if (allocateSourcePages(latest, r.sourceId, r.pageCount) !== r.firstPage) {
+            throw new ManifestUpdateRejected("Page numbers changed while processing; run Process again", 409);
+          }
+          for (const t of r.pageTexts) {
+            const page = latest.pages.find((p) => p.pageNumber === t.pageNumber);
+            if (page) {
+              page.textUrl = t.textUrl;
+              if (t.tablesUrl) page.tablesUrl = t.tablesUrl;
+              else delete page.tablesUrl;
+              // Assets detected before the text was in
+              await addAssetText(page);
+            } else {
+              // Rasterize fills in the image later
+              latest.pages.push({
+                pageNumber: t.pageNumber,
+                url: "",
+                width: 0,
+                height: 0,
+                assets: [],
+                deletedAssetIds: [],
+                sourceId: r.sourceId,
+                sourcePageNumber: t.sourcePageNumber,
+                textUrl: t.textUrl,
+                ...(t.tablesUrl ? { tablesUrl: t.tablesUrl } : {})
+              });
+            }
+          }
+          latest.pages.sort((a, b) => a.pageNumber - b.pageNumber);
+        } else if (r.pageCount !== undefined && !source.firstPage) {
+          allocateSourcePages(latest, r.sourceId, r.pageCount);
+        }
+
+        const pages = latest.pages.filter((p) => p.sourceId === r.sourceId);
+        const assetCount = pages.reduce((n, p) => n + p.assets.length, 0);
+        const tablePages = r.pageTexts?.filter((t) => t.tablesUrl).length ?? 0;
+        latest.debugLog.unshift(
+          `[${timestamp}] PROCESS ${source.format} ${source.filename} (${source.sourceId}): ${r.pageCount ?? "?"} pages, ${assetCount} assets${tablePages ? `, tables or form fields on ${tablePages} page(s)` : ""}${r.ocrProvider ? `, text by ${r.ocrProvider}` : ""}.`
+        );
+        for (const w of r.warnings.slice(0, 10)) latest.debugLog.unshift(`[${timestamp}] PROCESS warning: ${w}`);
+      }
+      if (latest.debugLog.length > 50) latest.debugLog = latest.debugLog.slice(0, 50);
+
+      await writeCombinedText(latest);
+      latest.status = "processed";
+    },
+    { projectId, journal }
+  );
+  // Files of assets that moved or are gone. Trashed rather than dropped so a
+  // manifest rollback can restore them.
+  const inUse = new Set(updated.pages.flatMap((p) => p.assets.map((a) => a.url)));
+  const gone = [...new Set([...moved.keys(), ...dropped])].filter((url) => !inUse.has(url));
+  if (gone.length > 0) await moveToTrash(getProjectStore(), projectId, gone);
+
+  return { manifestUrl: newManifestUrl, sources: sourcesSummary };
+}
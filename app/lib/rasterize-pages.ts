@@ -0,0 +1,220 @@
+import { fetchManifestDirect, updateManifest, ManifestUpdateRejected, type SourceDocument } from "./manifest";
+import type { JournalContext } from "./manifest-journal";
+import { contentHash } from "./content-hash";
+import { allocateSourcePages, requireSource } from "./manifest-sources";
+import { rescalePageAssets } from "./page-assets";
+import { DEFAULT_RASTER_DPI, openPdf, type PdfRenderer } from "./sources/pdf";
+import { getProjectStore, projectPaths } from "@/app/lib/store";
+
+// Rendering PDF sources to page PNGs, in project page numbers. Shared by
+// /api/projects/pages/rasterize and the rasterize job, which resumes from
+// nextPage.
+
+// Stop starting new pages after this long and hand back nextPage, leaving
+// time to record the last batch before the function is cut off
+export const RASTERIZE_TIME_BUDGET_MS = 240_000;
+
+// Pages are recorded in batches as they are rendered, so an interrupted run
+// keeps what it finished
+const RECORD_BATCH = 10;
+
+export type RasterizeInput = {
+  projectId: string;
+  manifestUrl: string;
+  // Rasterize just this source; default is every PDF source
+  sourceId?: string;
+  dpi?: number;
+  // Project page numbers to render, inclusive. Pass a previous result's
+  // nextPage as fromPage to resume.
+  fromPage?: number;
+  toPage?: number;
+  // Callers with less time left (background jobs) can shorten the budget
+  timeBudgetMs?: number;
+  // Render pages already rendered from the same file at the same DPI too
+  force?: boolean;
+};
+
+export type RasterizeResult = {
+  manifestUrl: string;
+  dpi: number;
+  pagesRendered: number[];
+  // Already rendered from the same file at the same DPI
+  pagesSkipped: number[];
+  // First page not rendered yet, or null when the range is done
+  nextPage: number | null;
+  sources: Array<{ sourceId: string; firstPage: number; pageCount: number }>;
+};
+
+type PlannedSource = {
+  source: SourceDocument;
+  pdf: PdfRenderer;
+  fileHash: string;
+  firstPage: number;
+};
+
+type RenderedPage = {
+  sourceId: string;
+  pageNumber: number;
+  sourcePageNumber: number;
+  url: string;
+  width: number;
+  height: number;
+  inputsHash: string;
+};
+
+async function fetchSourceBytes(sourceUrl: string): Promise<Buffer> {
+  const bytes = await getProjectStore().get(sourceUrl);
+  if (!bytes) throw new Error("Cannot fetch source document: not found");
+  return bytes;
+}
+
+/**
+ * Render the project's PDF pages (or `sourceId`'s) in the requested range and
+ * record them in the manifest in batches, until done or out of time. Pages
+ * already rendered from the same inputs are skipped unless `force` is set.
+ */
+export async function rasterizePages(input: RasterizeInput, journal?: JournalContext): Promise<RasterizeResult> {
+  const startedAt = Date.now();
+  const planned: PlannedSource[] = [];
+
+  try {
+    const { projectId, manifestUrl, sourceId, fromPage, toPage, force } = input;
+    const dpi = input.dpi ?? DEFAULT_RASTER_DPI;
+    const timeBudgetMs = input.timeBudgetMs ?? RASTERIZE_TIME_BUDGET_MS;
+
+    const manifest = await fetchManifestDirect(manifestUrl);
+
+    if (manifest.projectId !== projectId) {
+      throw new ManifestUpdateRejected("projectId does not match manifest");
+    }
+
+    const sources = sourceId
+      ? [requireSource(manifest, sourceId)]
+      : manifest.sources.filter((s) => s.format === "pdf");
+    if (sources.length === 0 || sources.some((s) => s.format !== "pdf")) {
+      throw new ManifestUpdateRejected("Only PDF sources are rasterized");
+    }
+
+    // 1) Open each PDF and settle its page range (sources whose page count
+    // wasn't known when they were added get one now)
+    const plan = structuredClone(manifest);
+    for (const source of sources) {
+      const bytes = await fetchSourceBytes(source.url);
+      const pdf = await openPdf(bytes);
+      planned.push({
+        source,
+        pdf,
+        fileHash: contentHash(bytes),
+        firstPage: allocateSourcePages(plan, source.sourceId, pdf.pageCount)
+      });
+    }
+
+    const queue = planned.flatMap(({ source, pdf, fileHash, firstPage }) =>
+      Array.from({ length: pdf.pageCount }, (_, i) => ({
+        source,
+        pdf,
+        pageNumber: firstPage + i,
+        sourcePageNumber: i + 1,
+        inputsHash: contentHash("rasterize-v1", fileHash, i + 1, dpi)
+      }))
+    ).filter((q) => (!fromPage || q.pageNumber >= fromPage) && (!toPage || q.pageNumber <= toPage));
+
+    // Pages already rendered from these inputs
+    const current = new Set(
+      manifest.pages.filter((p) => p.url && p.inputsHash).map((p) => `${p.pageNumber}:${p.inputsHash}`)
+    );
+
+    let currentManifestUrl = manifestUrl;
+
+    async function record(batch: RenderedPage[]) {
+      const { manifestUrl: newManifestUrl } = await updateManifest(
+        currentManifestUrl,
+        (latest) => {
+          // Page files were uploaded under the planned numbers; bail out if
+          // another source took them in the meantime
+          for (const p of planned) {
+            if (allocateSourcePages(latest, p.source.sourceId, p.pdf.pageCount) !== p.firstPage) {
+              throw new ManifestUpdateRejected("Page numbers changed while rasterizing; run it again", 409);
+            }
+          }
+
+          for (const r of batch) {
+            const page = {
+              pageNumber: r.pageNumber,
+              url: r.url,
+              width: r.width,
+              height: r.height,
+              sourceId: r.sourceId,
+              sourcePageNumber: r.sourcePageNumber,
+              inputsHash: r.inputsHash
+            };
+            const idx = latest.pages.findIndex((p) => p.pageNumber === r.pageNumber);
+            if (idx >= 0) {
+              // Rendered at another DPI: assets keep pointing at the same place
+              rescalePageAssets(latest.pages[idx], r.width, r.height);
+              latest.pages[idx] = { ...latest.pages[idx], ...page };
+            } else {
+              latest.pages.push({ ...page, assets: [], deletedAssetIds: [] });
+            }
+          }
+          latest.pages.sort((a, b) => a.pageNumber - b.pageNumber);
+
+          const timestamp = new Date().toISOString();
+          latest.debugLog.unshift(
+            `[${timestamp}] RASTERIZE: Rendered pages ${batch[0].pageNumber}-${batch[batch.length - 1].pageNumber} at ${dpi} DPI`
+          );
+          if (latest.debugLog.length > 50) latest.debugLog = latest.debugLog.slice(0, 50);
+        },
+        { projectId, journal }
+      );
+      currentManifestUrl = newManifestUrl;
+    }
+
+    // 2) Render, upload and record, until done or out of time
+    const store = getProjectStore();
+    const rendered: number[] = [];
+    const skipped: number[] = [];
+    let batch: RenderedPage[] = [];
+    let next = 0;
+
+    for (; next < queue.length; next++) {
+      if (Date.now() - startedAt > timeBudgetMs) break;
+
+      const q = queue[next];
+      if (!force && current.has(`${q.pageNumber}:${q.inputsHash}`)) {
+        skipped.push(q.pageNumber);
+        continue;
+      }
+      const out = await q.pdf.render(q.sourcePageNumber, dpi);
+      const blob = await store.put(projectPaths.page(projectId, q.pageNumber), out.png, "image/png");
+
+      batch.push({
+        sourceId: q.source.sourceId,
+        pageNumber: q.pageNumber,
+        sourcePageNumber: q.sourcePageNumber,
+        url: blob.url,
+        width: out.width,
+        height: out.height,
+        inputsHash: q.inputsHash
+      });
+      rendered.push(q.pageNumber);
+
+      if (batch.length >= RECORD_BATCH) {
+        await record(batch);
+        batch = [];
+      }
+    }
+    if (batch.length > 0) await record(batch);
+
+    return {
+      manifestUrl: currentManifestUrl,
+      dpi,
+      pagesRendered: rendered,
+      pagesSkipped: skipped,
+      nextPage: next < queue.length ? queue[next].pageNumber : null,
+      sources: planned.map((p) => ({ sourceId: p.source.sourceId, firstPage: p.firstPage, pageCount: p.pdf.pageCount }))
+    };
+  } finally {
+    for (const p of planned) await p.pdf.close();
+  }
+}
@@ -0,0 +1,328 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { fetchManifestDirect, updateManifest } from "./manifest";
+import type { JournalContext } from "./manifest-journal";
+import { ASSET_CATEGORIES, dropMismatchedAssets, type AssetCategory } from "./asset-categories";
+import { belowQuality } from "./asset-quality";
+import { contentHash } from "./content-hash";
+import { parseDetectionRules } from "./detection-rules";
+import { projectTables } from "./page-tables";
+import { assetText, readPageText } from "./page-text";
+import { getProjectStore, projectPaths, readStoredText } from "@/app/lib/store";
+
+// Filling the project's schema with Gemini from its text and tagged assets,
+// and saving the results. Shared by /api/projects/schema/fill and
+// /schema/save and the fill job.
+
+const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY ?? "");
+
+/**
+ * The project can't be filled as it stands: its schema isn't valid JSON
+ * (400), or it has no text yet (409).
+ */
+export class SchemaFillError extends Error {
+  constructor(message: string, readonly status: 400 | 409 = 400) {
+    super(message);
+    this.name = "SchemaFillError";
+  }
+}
+
+export type FillSchemaResult = {
+  results: string;
+  // Pass to saveSchemaResults() so the next fill can tell the results are current
+  inputsHash: string;
+  // The saved results were made from the same prompt, and are returned as they are
+  skipped?: boolean;
+  // Asset references removed from fields for another category
+  categoryMismatches?: ReturnType<typeof dropMismatchedAssets>;
+  // Tagged assets left out for scoring below the qualityThreshold
+  lowQuality?: number;
+};
+
+/**
+ * Ask Gemini to fill the schema in the project's settings. Unless `force` is
+ * set, saved results made from the same prompt are returned instead. The
+ * results are not saved; see saveSchemaResults(). Throws SchemaFillError
+ * when there is nothing valid to fill from.
+ */
+export async function fillSchema(input: { manifestUrl: string; force?: boolean }): Promise<FillSchemaResult> {
+  const { manifestUrl, force } = input;
+
+  // Load manifest
+  const manifest = await fetchManifestDirect(manifestUrl);
+
+  // Get AI rules and schema JSON from settings
+  const aiRules = manifest.settings.aiRules;
+  const schemaJsonRaw = manifest.settings.schemaJson || "{}";
+
+  let schemaDefinition: unknown;
+  try {
+    schemaDefinition = JSON.parse(schemaJsonRaw);
+  } catch {
+    throw new SchemaFillError("Invalid schemaJson in settings");
+  }
+
+  // Load extracted text if available
+  let extractedText = "";
+  if (manifest.extractedText?.url) {
+    try {
+      extractedText = (await readStoredText(manifest.extractedText.url)) ?? "";
+    } catch {
+      // Continue without extracted text
+    }
+  }
+
+  // Load formatted text if available (prefer this over extracted)
+  let formattedText = "";
+  if (manifest.formattedText?.url) {
+    try {
+      formattedText = (await readStoredText(manifest.formattedText.url)) ?? "";
+    } catch {
+      // Continue without formatted text
+    }
+  }
+
+  // Use formatted text if available, otherwise extracted text
+  const sourceText = formattedText || extractedText;
+
+  if (!sourceText) {
+    throw new SchemaFillError("No extracted or formatted text available. Please process the sources first.", 409);
+  }
+
+  // Get assets with their URLs and tags for matching
+  interface TaggedAsset {
+    url: string;
+    assetId: string;
+    page: number;
+    // Filename of the source document the asset came from
+    source?: string;
+    tags: string[];
+    category?: AssetCategory;
+    // Text printed next to the asset on its page
+    caption?: string;
+    nearbyText?: string;
+    // Quality score (0..1, see asset-quality.ts) and pixel size
+    quality?: number;
+    size?: string;
+  }
+  const taggedAssets: TaggedAsset[] = [];
+  const sourceNames = new Map(manifest.sources.map((src) => [src.sourceId, src.filename]));
+  const assetIds = new Set(manifest.pages.flatMap((p) => p.assets.map((a) => a.assetId)));
+  // Assets scoring below the detection rules' qualityThreshold aren't offered
+  let qualityThreshold: number | undefined;
+  try {
+    qualityThreshold = parseDetectionRules(manifest.settings.detectionRulesJson)?.qualityThreshold;
+  } catch {
+    // Invalid rules don't hold up schema fill
+  }
+  let lowQuality = 0;
+  
+  if (manifest.pages) {
+    for (const page of manifest.pages) {
+      if (page.assets) {
+        const pageText = page.assets.some((a) => a.tags?.length) ? await readPageText(page.textUrl) : null;
+        for (const asset of page.assets) {
+          // Near-duplicates are linked through their canonical asset
+          if (asset.duplicateOf && assetIds.has(asset.duplicateOf)) continue;
+          if (belowQuality(asset, qualityThreshold)) {
+            lowQuality++;
+            continue;
+          }
+          if (asset.url && asset.tags && asset.tags.length > 0) {
+            const { caption, nearbyText } = pageText
+              ? assetText(pageText, page, asset.bbox)
+              : { caption: asset.caption, nearbyText: asset.nearbyText };
+            taggedAssets.push({
+              url: asset.url,
+              assetId: asset.assetId,
+              page: page.pageNumber,
+              source: sourceNames.get(asset.sourceId ?? page.sourceId ?? ""),
+              tags: asset.tags,
+              ...(asset.category ? { category: asset.category } : {}),
+              ...(caption ? { caption } : {}),
+              ...(nearbyText ? { nearbyText } : {}),
+              ...(asset.quality
+                ? { quality: Math.round(asset.quality.score * 100) / 100, size: `${asset.quality.width}x${asset.quality.height}` }
+                : {})
+            });
+          }
+        }
+      }
+    }
+  }
+  
+  // Best first, so the pick for a lead image starts at the top; unmeasured
+  // assets go last
+  taggedAssets.sort((a, b) => (b.quality ?? -1) - (a.quality ?? -1));
+
+  // Tables and form fields, kept as rows so list fields can be filled
+  // straight from them
+  const tables = await projectTables(manifest);
+
+  // Get unique tags for context
+  const allTags = taggedAssets.flatMap(a => a.tags);
+  const uniqueTags = [...new Set(allTags)].sort();
+
+  // Build the prompt for Gemini
+  const prompt = `You are an expert IP Bible creator. Your task is to fill in a structured schema based on the source material provided.
+
+## AI RULES (follow strictly):
+${aiRules}
+
+## SCHEMA DEFINITION:
+${JSON.stringify(schemaDefinition, null, 2)}
+
+## SOURCE MATERIAL:
+The material comes from ${manifest.sources.length || 1} source document(s)${manifest.sources.length ? `: ${manifest.sources.map((src) => src.filename).join(", ")}` : ""}. Each one starts with a "=== SOURCE ... ===" header naming the document; use all of them.
+
+${sourceText}
+
+## TABLES AND FORM FIELDS (extracted from the source pages as structured data):
+${tables.length > 0 ? JSON.stringify(tables, null, 2) : "None found."}
+
+## TAGGED ASSETS (images with their URLs and tags, best quality first - USE THESE FOR IMAGE FIELDS):
+${taggedAssets.length > 0 ? JSON.stringify(taggedAssets, null, 2) : "No tagged assets available."}
+
+## UNIQUE TAGS FOUND:
+${uniqueTags.length > 0 ? uniqueTags.join(", ") : "None"}
+
+## ASSET MATCHING INSTRUCTIONS:
+When populating image/asset fields in the schema, you MUST match tagged assets to the appropriate fields:
+
+1. **For Character Images**: Search tagged assets for the character's name in the tags array. Match by:
+ - Exact name match (highest confidence: 0.8+)
+ - Partial name match (medium: 0.5-0.8)
+ - Role match like "protagonist", "villain" (lower: 0.3-0.5)
+
+2. **For Location Images**: Search for location name or environment type in tags.
+
+3. **For Style Images**: Use assets with style-related tags (colors, art style, composition).
+
+4. **Output Format for image fields**:
+ - If a matching asset is found, return: { "url": "[actual asset URL]", "source": "extracted", "caption": "[brief description]", "_matchConfidence": 0.X, "_matchReason": "[why this asset matches]" }
+ - If no asset matches with confidence >= 0.3, return: null
+
+5. **Captions**: An asset's "caption" and "nearbyText" are printed right next to it on the page (e.g. "Kael, age 17, in the Ashlands"). They are the strongest evidence of who or what it shows: a name in the caption outweighs tags.
+
+6. **Categories**: An asset's "category" (${ASSET_CATEGORIES.join(", ")}) says what it shows. Only put it in fields for that kind of image: "character" assets in character images (e.g. CharacterList[].Images), "location" assets in location images, "keyArt" in key art or cover fields, "logo" in logo fields, "style" in style references. Assets without a category may go in any image field. Mismatches are removed from your output.
+
+7. **Image quality**: An asset's "quality" (0-1) scores its resolution, sharpness and compression, and "size" is its width x height in pixels. For a LeadImage, key art, cover, hero or banner field, and any field holding a single image, choose the highest-quality asset among those that match; never pick a small (under 300px on its short side) or low-quality (under 0.5) asset there when a better match exists.
+
+8. **CRITICAL**: Use the ACTUAL URLs from the tagged assets list above. Do NOT invent URLs.
+
+## GENERAL INSTRUCTIONS:
+1. Analyze the source material carefully
+2. Fill the schema according to 3 levels:
+ - L1: High-level overview (mostly images/key art references)
+ - L2: Category breakdown (main text descriptions)  
+ - L3: Detailed entries (full specifications)
+3. For each domain (OVERVIEW, CHARACTERS, WORLD, LORE, STYLE, STORY), provide appropriate content
+4. Be comprehensive but accurate - do NOT invent details not in the source material
+5. Use "Unknown" for missing string fields, [] for missing arrays
+6. For real-world locations (cities, countries), infer Setting, Context, Scale from world knowledge
+7. **Tables**: When a table matches an array field (e.g. an episode list or timeline table for STORY.CanonTimelineTable.Beat[], a stat sheet or roster for CharacterList), fill that array from the table: one item per row, in the table's order, mapping columns to the item's fields by meaning and keeping cell values verbatim. Prefer the table over the same information in the prose, which may be flattened. Form fields ("name": "value") fill the matching scalar fields the same way.
+
+## OUTPUT FORMAT:
+Return ONLY valid JSON with this exact structure:
+{
+"L1": {
+  "OVERVIEW": { ... },
+  "CHARACTERS": { ... },
+  "WORLD": { ... },
+  "LORE": { ... },
+  "STYLE": { ... },
+  "STORY": { ... }
+},
+"L2": {
+  "OVERVIEW": { "IPTitle": "...", "Logline": "...", ... },
+  "CHARACTERS": { "CharacterList": [...] },
+  ...
+},
+"L3": {
+  "CHARACTERS": { "CharacterList": [...] },
+  "WORLD": { "Locations": [...] },
+  ...
+}
+}
+
+Fill ALL fields based on the schema definition. Match the field names exactly.`;
+
+  // Call Gemini with high output token limit for large schema
+  const GEMINI_DETECT_MODEL = process.env.GEMINI_DETECT_MODEL || "gemini-2.0-flash";
+
+  // The prompt carries every input (text, settings, tagged assets), so the
+  // saved results are still current if it hasn't changed
+  const inputsHash = contentHash("fill-v3", prompt, GEMINI_DETECT_MODEL);
+  if (!force && manifest.schemaResults?.url && manifest.schemaResults.inputsHash === inputsHash) {
+    const saved = await readStoredText(manifest.schemaResults.url).catch(() => null);
+    if (saved !== null) return { results: saved, inputsHash, skipped: true };
+  }
+  const model = genAI.getGenerativeModel({ 
+    model: GEMINI_DETECT_MODEL,
+    generationConfig: {
+      maxOutputTokens: 65536,  // Maximum output for large schema
+      responseMimeType: "application/json",  // Ensure JSON output
+    }
+  });
+  const result = await model.generateContent(prompt);
+  const response = result.response;
+  const text = response.text();
+
+  // Try to extract JSON from the response
+  let cleanedText = text.trim();
+  
+  // Remove markdown code blocks if present
+  if (cleanedText.startsWith("```json")) {
+    cleanedText = cleanedText.slice(7);
+  } else if (cleanedText.startsWith("```")) {
+    cleanedText = cleanedText.slice(3);
+  }
+  if (cleanedText.endsWith("```")) {
+    cleanedText = cleanedText.slice(0, -3);
+  }
+  cleanedText = cleanedText.trim();
+
+  // Validate that it's valid JSON
+  try {
+    JSON.parse(cleanedText);
+  } catch {
+    // If not valid JSON, return the raw text anyway
+    // User can edit it in the panel
+  }
+
+  // Format the JSON nicely, without assets put in a field for another category
+  let formattedResults = cleanedText;
+  let categoryMismatches: ReturnType<typeof dropMismatchedAssets> = [];
+  try {
+    const parsed = JSON.parse(cleanedText);
+    const categoryByUrl = new Map(
+      taggedAssets.filter((a) => a.category).map((a) => [a.url, a.category as AssetCategory])
+    );
+    categoryMismatches = dropMismatchedAssets(parsed, categoryByUrl);
+    formattedResults = JSON.stringify(parsed, null, 2);
+  } catch {
+    // Keep as-is if parsing fails
+  }
+
+  return { results: formattedResults, categoryMismatches, lowQuality, inputsHash };
+}
+
+/** Store schema results (edited or straight from fillSchema()) and point the manifest at them. */
+export async function saveSchemaResults(
+  input: { projectId: string; manifestUrl: string; results: string; inputsHash?: string },
+  journal?: JournalContext
+): Promise<{ manifestUrl: string; schemaResultsUrl: string }> {
+  const { projectId, manifestUrl, results, inputsHash } = input;
+
+  // Saved even if it isn't valid JSON: the user might be editing it
+  const blob = await getProjectStore().put(projectPaths.schemaResults(projectId), results, "application/json");
+
+  const { manifestUrl: newManifestUrl } = await updateManifest(
+    manifestUrl,
+    (manifest) => {
+      manifest.schemaResults = { url: blob.url, inputsHash };
+    },
+    { projectId, journal }
+  );
+
+  return { manifestUrl: newManifestUrl, schemaResultsUrl: blob.url };
+}
@@ -0,0 +1,38 @@
+import mammoth from "mammoth";
+import type { ExtractedPage, ExtractedSource } from "./types";
+import { imagePage, readSourceImage } from "./images";
+
+/**
+ * Word documents have no fixed pages, so only the text and the embedded
+ * images are kept: each image becomes a page of its own, in document order.
+ */
+export async function extractDocx(data: Buffer): Promise<ExtractedSource> {
+  const warnings: string[] = [];
+  const embedded: Buffer[] = [];
+
+  // convertToHtml is the only mammoth API that visits images; the HTML itself is discarded
+  await mammoth.convertToHtml(
+    { buffer: data },
+    {
+      convertImage: mammoth.images.imgElement(async (image) => {
+        embedded.push(await image.readAsBuffer());
+        return { src: "" };
+      })
+    }
+  );
+
+  const { value: text, messages } = await mammoth.extractRawText({ buffer: data });
+  for (const m of messages) warnings.push(`docx: ${m.message}`);
+
+  const pages: ExtractedPage[] = [];
+  for (const [i, bytes] of embedded.entries()) {
+    const image = await readSourceImage(bytes);
+    if (!image) {
+      warnings.push(`docx: skipped embedded image ${i + 1} (unsupported format)`);
+      continue;
+    }
+    pages.push(await imagePage(pages.length + 1, image));
+  }
+
+  return { text: text.trim(), pages, warnings };
+}
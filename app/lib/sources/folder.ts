@@ -0,0 +1,44 @@
+import JSZip from "jszip";
+import type { ExtractedPage, ExtractedSource } from "./types";
+import { imagePage, readSourceImage } from "./images";
+
+const IMAGE_FILE = /\.(jpe?g|png|webp|gif)$/i;
+
+// Natural order, so "art-2.jpg" comes before "art-10.jpg"
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: "base" });
+
+function isHidden(path: string) {
+  return path.split("/").some((part) => part.startsWith(".") || part === "__MACOSX");
+}
+
+/**
+ * A zip of images (e.g. a folder of concept art): one page per image, sorted
+ * by path. There is no document text, so the extracted text is the list of
+ * image paths, which often carries names the schema fill can use.
+ */
+export async function extractImageFolder(data: Buffer): Promise<ExtractedSource> {
+  const zip = await JSZip.loadAsync(data);
+  const warnings: string[] = [];
+
+  const entries = Object.values(zip.files)
+    .filter((f) => !f.dir && !isHidden(f.name))
+    .sort((a, b) => collator.compare(a.name, b.name));
+
+  const pages: ExtractedPage[] = [];
+  const names: string[] = [];
+  for (const entry of entries) {
+    if (!IMAGE_FILE.test(entry.name)) {
+      warnings.push(`zip: skipped ${entry.name} (not an image)`);
+      continue;
+    }
+    const image = await readSourceImage(await entry.async("nodebuffer"));
+    if (!image) {
+      warnings.push(`zip: skipped ${entry.name} (unreadable image)`);
+      continue;
+    }
+    pages.push(await imagePage(pages.length + 1, image));
+    names.push(`Page ${pages.length}: ${entry.name}`);
+  }
+
+  return { text: names.join("\n"), pages, warnings };
+}
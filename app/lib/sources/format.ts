@@ -0,0 +1,66 @@
+import type { SourceFormat } from "./types";
+import { UnsupportedSourceError } from "./types";
+
+const EXTENSIONS: Record<SourceFormat, string> = {
+  pdf: "pdf",
+  docx: "docx",
+  pptx: "pptx",
+  images: "zip"
+};
+
+const CONTENT_TYPES: Record<SourceFormat, string> = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  images: "application/zip"
+};
+
+/** Content types accepted for source uploads (also used by the browser upload token). */
+export const SOURCE_CONTENT_TYPES = [
+  ...Object.values(CONTENT_TYPES),
+  // What browsers report for .zip on some platforms
+  "application/x-zip-compressed"
+];
+
+/**
+ * Content types browsers may upload straight to the store (/api/blob, or
+ * PUT /api/store for the other backends): page and asset PNGs, and sources.
+ */
+export const UPLOAD_CONTENT_TYPES = ["image/png", ...SOURCE_CONTENT_TYPES];
+
+/** File-picker `accept` string for source uploads. */
+export const SOURCE_ACCEPT = ".pdf,.docx,.pptx,.zip";
+
+export function sourceExtension(format: SourceFormat): string {
+  return EXTENSIONS[format];
+}
+
+export function sourceContentType(format: SourceFormat): string {
+  return CONTENT_TYPES[format];
+}
+
+/**
+ * Format of an uploaded source, from its filename. DOCX, PPTX and image
+ * folders are all zip files, so the content can't tell them apart cheaply;
+ * the bytes are only checked for being a PDF or a zip at all.
+ */
+export function detectSourceFormat(filename: string, head?: Uint8Array): SourceFormat {
+  const ext = filename.toLowerCase().split(".").pop() ?? "";
+  const format = (Object.keys(EXTENSIONS) as SourceFormat[]).find((f) => EXTENSIONS[f] === ext);
+  if (!format) {
+    throw new UnsupportedSourceError(`Unsupported source file "${filename}" (expected .pdf, .docx, .pptx or .zip)`);
+  }
+
+  if (head && head.length >= 4) {
+    const magic = String.fromCharCode(...head.slice(0, 4));
+    const ok = format === "pdf" ? magic === "%PDF" : magic === "PK\u0003\u0004";
+    if (!ok) throw new UnsupportedSourceError(`"${filename}" is not a valid .${ext} file`);
+  }
+
+  return format;
+}
+
+/** Id for a new source document. Minted by whoever uploads it, since it is part of the upload path. */
+export function newSourceId(): string {
+  return `src-${crypto.randomUUID().slice(0, 8)}`;
+}
@@ -0,0 +1,46 @@
+import sharp from "sharp";
+import type { ExtractedPage, SourceImage } from "./types";
+
+const RASTER_TYPES: Record<string, { ext: string; contentType: string }> = {
+  jpeg: { ext: "jpg", contentType: "image/jpeg" },
+  png: { ext: "png", contentType: "image/png" },
+  webp: { ext: "webp", contentType: "image/webp" },
+  gif: { ext: "gif", contentType: "image/gif" }
+};
+
+/**
+ * Decode just enough of an image to know its type and size. Returns null for
+ * anything sharp can't read (EMF/WMF drawings in Office files, corrupt data).
+ */
+export async function readSourceImage(data: Buffer): Promise<SourceImage | null> {
+  try {
+    const meta = await sharp(data).metadata();
+    const type = meta.format ? RASTER_TYPES[meta.format] : undefined;
+    if (!type || !meta.width || !meta.height) return null;
+    return { data, ...type, width: meta.width, height: meta.height };
+  } catch {
+    return null;
+  }
+}
+
+/** The same image as PNG, which is what page images are stored as. */
+export async function toPng(image: SourceImage): Promise<SourceImage> {
+  if (image.ext === "png") return image;
+  const data = await sharp(image.data).png().toBuffer();
+  return { ...image, data, ext: "png", contentType: "image/png" };
+}
+
+/**
+ * A standalone image as a page: the image itself is the page, and also its
+ * one asset (full frame), so it can be tagged like a crop or re-split by
+ * detection.
+ */
+export async function imagePage(pageNumber: number, image: SourceImage): Promise<ExtractedPage> {
+  return {
+    pageNumber,
+    image: await toPng(image),
+    width: image.width,
+    height: image.height,
+    assets: [{ image, bbox: { x: 0, y: 0, w: image.width, h: image.height } }]
+  };
+}
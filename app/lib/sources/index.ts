@@ -0,0 +1,131 @@
+import type { PageImage } from "../manifest";
+import { perceptualHash } from "@/app/lib/asset-dedupe";
+import { boxEdited } from "@/app/lib/asset-edits";
+import { matchAssetIds } from "@/app/lib/asset-ids";
+import { measureQuality } from "@/app/lib/asset-quality";
+import { contentHash } from "@/app/lib/content-hash";
+import { storePageText } from "@/app/lib/page-text";
+import { getProjectStore, projectPaths } from "@/app/lib/store";
+import type { ExtractedSource, SourceFormat } from "./types";
+import { extractDocx } from "./docx";
+import { extractPptx } from "./pptx";
+import { extractImageFolder } from "./folder";
+
+export type { ExtractedAsset, ExtractedPage, ExtractedSource, SourceFormat, SourceImage } from "./types";
+export { UnsupportedSourceError } from "./types";
+export * from "./format";
+
+/**
+ * Text, pages and assets of a non-PDF source. PDFs are handled by the
+ * Document AI + rasterize steps instead, and are rejected here.
+ */
+export async function extractSource(format: SourceFormat, data: Buffer): Promise<ExtractedSource> {
+  switch (format) {
+    case "docx":
+      return extractDocx(data);
+    case "pptx":
+      return extractPptx(data);
+    case "images":
+      return extractImageFolder(data);
+    default:
+      throw new Error(`${format} sources are not extracted directly`);
+  }
+}
+
+/**
+ * Upload the extracted text, per-page text, page images and assets to the
+ * usual project paths. Source page N becomes project page `firstPage + N - 1`. Returns
+ * manifest pages ready to be merged into the manifest (see
+ * replaceSourcePages()).
+ *
+ * `previous` are the source's pages as they are now. An image found where
+ * one of their assets (or tombstones) is takes its id (see asset-ids.ts), so
+ * its tags and links carry over; deleted and hand-edited ones aren't
+ * uploaded, and an image that hasn't changed keeps its file. `moved` maps
+ * the old URL of an asset whose file changed place to the new one.
+ */
+export async function storeExtractedSource(
+  projectId: string,
+  sourceId: string,
+  extracted: ExtractedSource,
+  firstPage: number,
+  previous: PageImage[] = []
+): Promise<{ textUrl: string; pages: PageImage[]; moved: Map<string, string> }> {
+  const store = getProjectStore();
+
+  const text = await store.put(projectPaths.sourceText(projectId, sourceId), extracted.text, "text/plain; charset=utf-8");
+
+  const pages: PageImage[] = [];
+  const moved = new Map<string, string>();
+  for (const p of extracted.pages) {
+    const pageNumber = firstPage + p.pageNumber - 1;
+    const pageBlob = p.image ? await store.put(projectPaths.page(projectId, pageNumber), p.image.data, p.image.contentType) : null;
+
+    const before = previous.find((b) => b.pageNumber === pageNumber && b.sourceId === sourceId);
+    const known = before ?? { pageNumber, url: "", width: p.width, height: p.height, assets: [], deletedAssetIds: [] };
+    const ids = matchAssetIds(known, p.assets.map((a) => a.bbox));
+    const deleted = new Set(known.deletedAssetIds);
+
+    const assets: PageImage["assets"] = [];
+    for (const [i, a] of p.assets.entries()) {
+      const assetId = ids[i];
+      const existing = known.assets.find((e) => e.assetId === assetId);
+      if (deleted.has(assetId) || boxEdited(existing)) continue;
+
+      const inputsHash = contentHash("extract-asset-v2", a.image.data, a.bbox);
+      let url = existing?.url;
+      if (!url || existing?.inputsHash !== inputsHash) {
+        ({ url } = await store.put(
+          projectPaths.asset(projectId, pageNumber, assetId, a.image.ext),
+          a.image.data,
+          a.image.contentType
+        ));
+        if (existing?.url && existing.url !== url) moved.set(existing.url, url);
+      }
+      // Formats sharp can't read (e.g. EMF in Office files) go without.
+      // Embedded images are kept whatever their quality: they aren't crops.
+      const phash = await perceptualHash(a.image.data).catch(() => undefined);
+      const quality = await measureQuality(a.image.data).catch(() => undefined);
+      assets.push({
+        assetId,
+        url,
+        bbox: a.bbox,
+        sourceId,
+        inputsHash,
+        ...(phash ? { phash } : {}),
+        ...(quality ? { quality } : {})
+      });
+    }
+
+    // No layout to go on, so each line is a paragraph without a position
+    const paragraphs = (p.text ?? "")
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((line) => ({ text: line }));
+    const textUrl = p.text?.trim()
+      ? await storePageText(projectId, {
+          pageNumber,
+          sourceId,
+          sourcePageNumber: p.pageNumber,
+          text: p.text.trim(),
+          blocks: paragraphs,
+          paragraphs
+        })
+      : undefined;
+
+    pages.push({
+      pageNumber,
+      url: pageBlob?.url ?? "",
+      width: p.width,
+      height: p.height,
+      assets,
+      deletedAssetIds: [],
+      sourceId,
+      sourcePageNumber: p.pageNumber,
+      ...(textUrl ? { textUrl } : {})
+    });
+  }
+
+  return { textUrl: text.url, pages, moved };
+}
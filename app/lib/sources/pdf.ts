@@ -0,0 +1,139 @@
+import path from "path";
+import { createCanvas } from "@napi-rs/canvas";
+
+// Server-side PDF page rendering: pdfjs draws into an @napi-rs/canvas, the
+// same pair pdfjs falls back to under Node. The browser rasterizer in
+// app/page.tsx rendered at scale 1.25, i.e. 90 DPI.
+
+export const DEFAULT_RASTER_DPI = 90;
+export const MIN_RASTER_DPI = 36;
+export const MAX_RASTER_DPI = 600;
+
+export type RenderedPdfPage = {
+  pageNumber: number;
+  png: Buffer;
+  width: number;
+  height: number;
+};
+
+export type PdfRenderer = {
+  pageCount: number;
+  render(pageNumber: number, dpi: number): Promise<RenderedPdfPage>;
+  close(): Promise<void>;
+};
+
+// One run of text from a page's text layer. The box is in fractions of the
+// page (0..1), from its top-left corner.
+export type PdfTextItem = {
+  str: string;
+  hasEOL: boolean;
+  box: { x: number; y: number; w: number; h: number };
+};
+
+export type PdfTextPage = {
+  pageNumber: number;
+  // In points
+  width: number;
+  height: number;
+  items: PdfTextItem[];
+};
+
+type PdfJs = typeof import("pdfjs-dist/legacy/build/pdf.mjs");
+
+let pdfjs: Promise<PdfJs> | null = null;
+
+// The legacy build is the one meant for Node; loaded lazily since it is large
+function loadPdfJs(): Promise<PdfJs> {
+  pdfjs ??= import("pdfjs-dist/legacy/build/pdf.mjs");
+  return pdfjs;
+}
+
+// Fonts that PDFs reference without embedding (Helvetica, Times...)
+function standardFontDataUrl() {
+  return path.join(process.cwd(), "node_modules", "pdfjs-dist", "standard_fonts") + path.sep;
+}
+
+async function loadDocument(data: Buffer) {
+  const { getDocument } = await loadPdfJs();
+  return getDocument({
+    // pdfjs takes ownership of (and detaches) the array it is given
+    data: new Uint8Array(data),
+    standardFontDataUrl: standardFontDataUrl(),
+    isEvalSupported: false
+  }).promise;
+}
+
+/** Open a PDF for rendering. Call close() when done to free pdfjs resources. */
+export async function openPdf(data: Buffer): Promise<PdfRenderer> {
+  const doc = await loadDocument(data);
+
+  return {
+    pageCount: doc.numPages,
+
+    async render(pageNumber, dpi) {
+      const page = await doc.getPage(pageNumber);
+      try {
+        const viewport = page.getViewport({ scale: dpi / 72 });
+        const width = Math.max(1, Math.floor(viewport.width));
+        const height = Math.max(1, Math.floor(viewport.height));
+
+        const canvas = createCanvas(width, height);
+        const ctx = canvas.getContext("2d");
+        await page.render({
+          canvasContext: ctx as unknown as CanvasRenderingContext2D,
+          viewport
+        }).promise;
+
+        return { pageNumber, png: await canvas.encode("png"), width, height };
+      } finally {
+        page.cleanup();
+      }
+    },
+
+    async close() {
+      await doc.destroy();
+    }
+  };
+}
+
+/**
+ * The text layer of every page, in content-stream order: what a born-digital
+ * PDF says without OCR. Scanned pages come back with no items.
+ */
+export async function readPdfTextLayer(data: Buffer): Promise<PdfTextPage[]> {
+  const doc = await loadDocument(data);
+  try {
+    const pages: PdfTextPage[] = [];
+    for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+      const page = await doc.getPage(pageNumber);
+      try {
+        const viewport = page.getViewport({ scale: 1 });
+        const content = await page.getTextContent();
+        const items: PdfTextItem[] = [];
+        for (const item of content.items) {
+          if (!("str" in item)) continue;
+          const [x, y] = [item.transform[4] as number, item.transform[5] as number];
+          // Baseline start and top end of the run, in viewport (top-left) coordinates
+          const [x0, y0] = viewport.convertToViewportPoint(x, y);
+          const [x1, y1] = viewport.convertToViewportPoint(x + item.width, y + item.height);
+          items.push({
+            str: item.str,
+            hasEOL: item.hasEOL,
+            box: {
+              x: Math.min(x0, x1) / viewport.width,
+              y: Math.min(y0, y1) / viewport.height,
+              w: Math.abs(x1 - x0) / viewport.width,
+              h: Math.abs(y1 - y0) / viewport.height
+            }
+          });
+        }
+        pages.push({ pageNumber, width: viewport.width, height: viewport.height, items });
+      } finally {
+        page.cleanup();
+      }
+    }
+    return pages;
+  } finally {
+    await doc.destroy();
+  }
+}
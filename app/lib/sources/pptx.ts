@@ -0,0 +1,168 @@
+import JSZip from "jszip";
+import sharp from "sharp";
+import type { ExtractedAsset, ExtractedPage, ExtractedSource, SourceImage } from "./types";
+import { readSourceImage } from "./images";
+
+// Office measures in EMUs: 914400 per inch, so 9525 per pixel at 96 DPI
+const EMU_PER_PX = 9525;
+// 16:9 default, for decks that don't declare a size
+const DEFAULT_SLIDE_EMU = { cx: 12192000, cy: 6858000 };
+
+function decodeXml(s: string): string {
+  return s
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, h: string) => String.fromCodePoint(parseInt(h, 16)))
+    .replace(/&#(\d+);/g, (_, d: string) => String.fromCodePoint(Number(d)))
+    .replace(/&amp;/g, "&");
+}
+
+function attr(tag: string, name: string): string | undefined {
+  const m = tag.match(new RegExp(`\\b${name}="([^"]*)"`));
+  return m ? decodeXml(m[1]) : undefined;
+}
+
+function emuToPx(v: string | undefined): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? Math.round(n / EMU_PER_PX) : 0;
+}
+
+// Resolve a relationship target relative to the part that references it
+function resolvePart(fromPart: string, target: string): string {
+  if (target.startsWith("/")) return target.slice(1);
+  const parts = fromPart.split("/").slice(0, -1);
+  for (const seg of target.split("/")) {
+    if (seg === "..") parts.pop();
+    else if (seg && seg !== ".") parts.push(seg);
+  }
+  return parts.join("/");
+}
+
+async function readPart(zip: JSZip, path: string): Promise<string | null> {
+  const file = zip.file(path);
+  return file ? file.async("string") : null;
+}
+
+// Relationship id -> part path, for the part at `partPath`
+async function readRels(zip: JSZip, partPath: string): Promise<Map<string, string>> {
+  const slash = partPath.lastIndexOf("/");
+  const relsPath = `${partPath.slice(0, slash + 1)}_rels/${partPath.slice(slash + 1)}.rels`;
+  const xml = (await readPart(zip, relsPath)) ?? "";
+
+  const rels = new Map<string, string>();
+  for (const tag of xml.match(/<Relationship\b[^>]*>/g) ?? []) {
+    const id = attr(tag, "Id");
+    const target = attr(tag, "Target");
+    if (!id || !target || attr(tag, "TargetMode") === "External") continue;
+    rels.set(id, resolvePart(partPath, target));
+  }
+  return rels;
+}
+
+function slideText(xml: string): string {
+  const paragraphs = xml.match(/<a:p\b[\s\S]*?<\/a:p>/g) ?? [];
+  return paragraphs
+    .map((p) => (p.match(/<a:t>([\s\S]*?)<\/a:t>/g) ?? []).map((t) => decodeXml(t.slice(5, -6))).join(""))
+    .filter((line) => line.trim())
+    .join("\n");
+}
+
+// Told once per deck, with the process response's warnings
+const PICTURES_ONLY_WARNING =
+  "pptx: slide images show the slides' pictures only; text, shapes and backgrounds are left out";
+
+/**
+ * A slide drawn from its pictures alone, each at its place on a white
+ * slide-sized page. Slides can't be fully rendered here, but this is enough
+ * for detection and cropping to work on the pictures.
+ */
+async function slideImage(width: number, height: number, assets: ExtractedAsset[]): Promise<SourceImage> {
+  const layers: sharp.OverlayOptions[] = [];
+  for (const a of assets) {
+    if (a.bbox.w < 1 || a.bbox.h < 1) continue;
+    const input = await sharp(a.image.data).resize(a.bbox.w, a.bbox.h, { fit: "fill" }).png().toBuffer();
+    layers.push({ input, left: a.bbox.x, top: a.bbox.y });
+  }
+  const data = await sharp({ create: { width, height, channels: 3, background: "#ffffff" } })
+    .composite(layers)
+    .png()
+    .toBuffer();
+  return { data, ext: "png", contentType: "image/png", width, height };
+}
+
+/**
+ * PowerPoint decks: one page per slide, in presentation order, with the
+ * slide text and the pictures placed on it. Each picture is an asset whose
+ * bbox is where it sits on the slide (pictures inside grouped shapes use the
+ * group's coordinates and may be off). The page image only has the pictures
+ * (see slideImage), which the warnings say.
+ */
+export async function extractPptx(data: Buffer): Promise<ExtractedSource> {
+  const zip = await JSZip.loadAsync(data);
+  const warnings: string[] = [];
+
+  const presentation = await readPart(zip, "ppt/presentation.xml");
+  if (!presentation) throw new Error("Not a PowerPoint file: ppt/presentation.xml is missing");
+
+  const sizeTag = presentation.match(/<p:sldSz\b[^>]*>/)?.[0] ?? "";
+  const width = emuToPx(attr(sizeTag, "cx") ?? String(DEFAULT_SLIDE_EMU.cx));
+  const height = emuToPx(attr(sizeTag, "cy") ?? String(DEFAULT_SLIDE_EMU.cy));
+
+  const presentationRels = await readRels(zip, "ppt/presentation.xml");
+  const slideParts = (presentation.match(/<p:sldId\b[^>]*>/g) ?? [])
+    .map((tag) => presentationRels.get(attr(tag, "r:id") ?? ""))
+    .filter((p): p is string => !!p);
+
+  const pages: ExtractedPage[] = [];
+  const texts: string[] = [];
+
+  for (const [i, part] of slideParts.entries()) {
+    const pageNumber = i + 1;
+    const xml = await readPart(zip, part);
+    if (!xml) {
+      warnings.push(`pptx: slide ${pageNumber} is missing (${part})`);
+      pages.push({ pageNumber, image: await slideImage(width, height, []), width, height, assets: [] });
+      continue;
+    }
+
+    const text = slideText(xml);
+    texts.push(`--- Slide ${pageNumber} ---${text ? `\n${text}` : ""}`);
+
+    const rels = await readRels(zip, part);
+    const assets: ExtractedAsset[] = [];
+    for (const pic of xml.match(/<p:pic\b[\s\S]*?<\/p:pic>/g) ?? []) {
+      const embed = pic.match(/<a:blip\b[^>]*>/)?.[0];
+      const mediaPart = embed ? rels.get(attr(embed, "r:embed") ?? "") : undefined;
+      const media = mediaPart ? zip.file(mediaPart) : null;
+      if (!media) continue;
+
+      const image = await readSourceImage(await media.async("nodebuffer"));
+      if (!image) {
+        warnings.push(`pptx: skipped ${mediaPart} on slide ${pageNumber} (unsupported format)`);
+        continue;
+      }
+
+      const xfrm = pic.match(/<a:xfrm\b[\s\S]*?<\/a:xfrm>/)?.[0] ?? "";
+      const off = xfrm.match(/<a:off\b[^>]*>/)?.[0] ?? "";
+      const ext = xfrm.match(/<a:ext\b[^>]*>/)?.[0] ?? "";
+      const x = Math.max(0, emuToPx(attr(off, "x")));
+      const y = Math.max(0, emuToPx(attr(off, "y")));
+      assets.push({
+        image,
+        bbox: {
+          x,
+          y,
+          w: Math.max(0, Math.min(width - x, emuToPx(attr(ext, "cx")))),
+          h: Math.max(0, Math.min(height - y, emuToPx(attr(ext, "cy"))))
+        }
+      });
+    }
+
+    pages.push({ pageNumber, image: await slideImage(width, height, assets), width, height, assets, text });
+  }
+
+  if (pages.length > 0) warnings.unshift(PICTURES_ONLY_WARNING);
+  return { text: texts.join("\n\n"), pages, warnings };
+}
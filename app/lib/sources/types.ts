@@ -0,0 +1,50 @@
+import type { AssetBBox, SourceFormat } from "../manifest";
+
+export type { SourceFormat };
+
+export type SourceImage = {
+  data: Buffer;
+  // File extension the image is stored under ("png", "jpg", ...)
+  ext: string;
+  contentType: string;
+  width: number;
+  height: number;
+};
+
+export type ExtractedAsset = {
+  image: SourceImage;
+  // Where the image sits on its page, in page pixels
+  bbox: AssetBBox;
+};
+
+export type ExtractedPage = {
+  pageNumber: number;
+  // Rendered page (for PPTX slides, their pictures only)
+  image?: SourceImage;
+  width: number;
+  height: number;
+  assets: ExtractedAsset[];
+  // The page's own text, one paragraph per line, when the format has it per page
+  text?: string;
+};
+
+/**
+ * A non-PDF source reduced to what the PDF pipeline produces: the full text
+ * plus pages with their image assets. PDFs don't go through this; their text
+ * comes from Document AI and their pages from rasterizing.
+ */
+export type ExtractedSource = {
+  text: string;
+  pages: ExtractedPage[];
+  // Things that were skipped (unsupported images, empty entries, ...)
+  warnings: string[];
+};
+
+export class UnsupportedSourceError extends Error {
+  readonly status = 415;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedSourceError";
+  }
+}
@@ -0,0 +1,48 @@
+import type { ProjectStore, StorageBackend } from "./types";
+import { VercelBlobStore } from "./vercel";
+import { LocalFsStore } from "./local";
+import { S3Store } from "./s3";
+
+export type { ProjectStore, StorageBackend, StoredObject, StoredObjectInfo, StoreBody } from "./types";
+export * from "./paths";
+export { moveToTrash, restoreFromTrash } from "./trash";
+
+let cached: ProjectStore | null = null;
+
+export function storageBackend(): StorageBackend {
+  const v = (process.env.STORAGE_BACKEND || "vercel").trim().toLowerCase();
+  if (v === "local" || v === "s3" || v === "vercel") return v;
+  throw new Error(`Unknown STORAGE_BACKEND "${v}" (expected vercel, local or s3)`);
+}
+
+/**
+ * The store selected by STORAGE_BACKEND (default "vercel"). "local" keeps
+ * everything under LOCAL_STORE_DIR for offline development and CI; "s3"
+ * targets any S3-compatible server for on-prem hosting.
+ */
+export function getProjectStore(): ProjectStore {
+  if (cached) return cached;
+
+  switch (storageBackend()) {
+    case "local":
+      cached = new LocalFsStore();
+      break;
+    case "s3":
+      cached = new S3Store();
+      break;
+    default:
+      cached = new VercelBlobStore();
+  }
+
+  return cached;
+}
+
+export async function readStoredText(url: string): Promise<string | null> {
+  const buf = await getProjectStore().get(url);
+  return buf ? buf.toString("utf-8") : null;
+}
+
+export async function readStoredJson<T>(url: string): Promise<T | null> {
+  const text = await readStoredText(url);
+  return text === null ? null : (JSON.parse(text) as T);
+}
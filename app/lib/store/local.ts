@@ -0,0 +1,132 @@
+import { promises as fs, type Dirent } from "fs";
+import path from "path";
+import type { ProjectStore, StoreBody, StoredObject, StoredObjectInfo } from "./types";
+import { contentTypeForPath } from "./paths";
+
+// Files are served back by app/api/store/[...path]/route.ts, so URLs point at
+// this app. LOCAL_STORE_PUBLIC_URL must be reachable from the server too
+// (routes fetch their own blobs, e.g. page PNGs for Gemini).
+const DEFAULT_ROOT = ".data/store";
+const DEFAULT_PUBLIC_URL = "http://localhost:3000/api/store";
+
+/**
+ * Reject anything that could escape the store root. Pathnames always come
+ * from paths.ts, but the serving route passes user-controlled segments.
+ */
+export function isSafePathname(pathname: string): boolean {
+  if (!pathname || pathname.startsWith("/") || pathname.includes("\\")) return false;
+  return pathname.split("/").every((seg) => seg !== ".." && seg !== ".");
+}
+
+export class LocalFsStore implements ProjectStore {
+  readonly backend = "local" as const;
+  private readonly root: string;
+  private readonly publicUrl: string;
+
+  constructor(root = process.env.LOCAL_STORE_DIR || DEFAULT_ROOT, publicUrl = process.env.LOCAL_STORE_PUBLIC_URL || DEFAULT_PUBLIC_URL) {
+    this.root = path.resolve(root);
+    this.publicUrl = publicUrl.replace(/\/+$/, "");
+  }
+
+  private filePath(pathname: string): string {
+    if (!isSafePathname(pathname)) throw new Error(`Invalid store pathname: ${pathname}`);
+    return path.join(this.root, ...pathname.split("/"));
+  }
+
+  private urlFor(pathname: string): string {
+    return `${this.publicUrl}/${pathname}`;
+  }
+
+  /** Map one of our URLs back to a pathname; null for foreign URLs. */
+  pathnameFromUrl(url: string): string | null {
+    const noQuery = url.split(/[?#]/)[0];
+    if (!noQuery.startsWith(`${this.publicUrl}/`)) return null;
+    const pathname = decodeURIComponent(noQuery.slice(this.publicUrl.length + 1));
+    return isSafePathname(pathname) ? pathname : null;
+  }
+
+  // Content type is derived from the extension when served, so it isn't stored
+  async put(pathname: string, body: StoreBody): Promise<StoredObject> {
+    const file = this.filePath(pathname);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+
+    // Write-then-rename so readers never see a half-written manifest
+    const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    const data = typeof body === "string" ? body : body instanceof ArrayBuffer ? Buffer.from(body) : body;
+    await fs.writeFile(tmp, data);
+    await fs.rename(tmp, file);
+
+    return { url: this.urlFor(pathname), pathname };
+  }
+
+  async get(url: string): Promise<Buffer | null> {
+    const pathname = this.pathnameFromUrl(url);
+    if (!pathname) return null;
+    try {
+      return await fs.readFile(this.filePath(pathname));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw e;
+    }
+  }
+
+  async head(url: string): Promise<StoredObjectInfo | null> {
+    const pathname = this.pathnameFromUrl(url);
+    if (!pathname) return null;
+    try {
+      const st = await fs.stat(this.filePath(pathname));
+      if (!st.isFile()) return null;
+      return {
+        url: this.urlFor(pathname),
+        pathname,
+        size: st.size,
+        uploadedAt: st.mtime,
+        contentType: contentTypeForPath(pathname)
+      };
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw e;
+    }
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const out: StoredObject[] = [];
+
+    // Walk from the deepest directory fully contained in the prefix
+    const dirPart = prefix.includes("/") ? prefix.slice(0, prefix.lastIndexOf("/") + 1) : "";
+    const walk = async (relDir: string) => {
+      let entries: Dirent[];
+      try {
+        entries = await fs.readdir(path.join(this.root, ...relDir.split("/").filter(Boolean)), { withFileTypes: true });
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === "ENOENT") return;
+        throw e;
+      }
+      for (const entry of entries) {
+        const rel = `${relDir}${entry.name}`;
+        if (entry.isDirectory()) {
+          if (`${rel}/`.startsWith(prefix) || prefix.startsWith(`${rel}/`)) await walk(`${rel}/`);
+        } else if (entry.isFile() && rel.startsWith(prefix) && !rel.endsWith(".tmp")) {
+          out.push({ url: this.urlFor(rel), pathname: rel });
+        }
+      }
+    };
+    await walk(dirPart);
+
+    return out.sort((a, b) => a.pathname.localeCompare(b.pathname));
+  }
+
+  async del(urls: string[]): Promise<void> {
+    for (const url of urls) {
+      const pathname = this.pathnameFromUrl(url);
+      if (!pathname) continue;
+      await fs.rm(this.filePath(pathname), { force: true });
+    }
+  }
+
+  /** Used by the serving route; pathname comes straight from the request. */
+  async readPath(pathname: string): Promise<Buffer | null> {
+    if (!isSafePathname(pathname)) return null;
+    return this.get(this.urlFor(pathname));
+  }
+}
@@ -0,0 +1,142 @@
+// Storage layout for a project. Every backend uses the same pathnames, so
+// routes should build them here instead of concatenating strings.
+//
+//   projects/{projectId}/manifest.json
+//   projects/{projectId}/shards/page-{n}-{hash}.json
+//   projects/{projectId}/sources/{sourceId}/source.{pdf,docx,pptx,zip}
+//   projects/{projectId}/sources/{sourceId}/text.txt
+//   projects/{projectId}/sources/{sourceId}/docai.json
+//   projects/{projectId}/extracted/combined.txt
+//   projects/{projectId}/formatted-text.txt
+//   projects/{projectId}/schema-results.json
+//   projects/{projectId}/pages/page-{n}.png
+//   projects/{projectId}/pages/page-{n}.json
+//   projects/{projectId}/pages/page-{n}.tables.json
+//   projects/{projectId}/assets/p{n}/{assetId}.png
+//   projects/{projectId}/journal/{revision}.json
+//   projects/{projectId}/jobs/{jobId}.json
+//   projects/{projectId}/jobs/{jobId}.cancel
+//   projects/{projectId}/trash/{path relative to the project}
+//
+// Projects from before multiple sources keep their one source at
+// source/source.pdf, with its text and Document AI output in extracted/.
+
+export const PROJECTS_PREFIX = "projects/";
+
+export function projectPrefix(projectId: string) {
+  return `${PROJECTS_PREFIX}${projectId}/`;
+}
+
+export const projectPaths = {
+  manifest: (projectId: string) => `${projectPrefix(projectId)}manifest.json`,
+  // Per-page manifest shards; named by content hash, so never overwritten
+  shardsPrefix: (projectId: string) => `${projectPrefix(projectId)}shards/`,
+  pageShard: (projectId: string, pageNumber: number, hash: string) =>
+    `${projectPrefix(projectId)}shards/page-${pageNumber}-${hash}.json`,
+  source: (projectId: string, sourceId: string, ext: string) =>
+    `${projectPrefix(projectId)}sources/${sourceId}/source.${ext}`,
+  sourceText: (projectId: string, sourceId: string) => `${projectPrefix(projectId)}sources/${sourceId}/text.txt`,
+  sourceDocAiJson: (projectId: string, sourceId: string) =>
+    `${projectPrefix(projectId)}sources/${sourceId}/docai.json`,
+  // Every source's text in one file (manifest.extractedText)
+  combinedText: (projectId: string) => `${projectPrefix(projectId)}extracted/combined.txt`,
+  formattedText: (projectId: string) => `${projectPrefix(projectId)}formatted-text.txt`,
+  schemaResults: (projectId: string) => `${projectPrefix(projectId)}schema-results.json`,
+  pagesPrefix: (projectId: string) => `${projectPrefix(projectId)}pages/`,
+  page: (projectId: string, pageNumber: number) => `${projectPrefix(projectId)}pages/page-${pageNumber}.png`,
+  // The page's text and layout (PageImage.textUrl)
+  pageText: (projectId: string, pageNumber: number) => `${projectPrefix(projectId)}pages/page-${pageNumber}.json`,
+  // Its tables and form fields (PageImage.tablesUrl)
+  pageTables: (projectId: string, pageNumber: number) =>
+    `${projectPrefix(projectId)}pages/page-${pageNumber}.tables.json`,
+  assetsPrefix: (projectId: string) => `${projectPrefix(projectId)}assets/`,
+  pageAssetsPrefix: (projectId: string, pageNumber: number) => `${projectPrefix(projectId)}assets/p${pageNumber}/`,
+  asset: (projectId: string, pageNumber: number, assetId: string, ext = "png") =>
+    `${projectPrefix(projectId)}assets/p${pageNumber}/${assetId}.${ext}`,
+  journalPrefix: (projectId: string) => `${projectPrefix(projectId)}journal/`,
+  // Zero-padded so a plain listing sorts by revision
+  journalEntry: (projectId: string, revision: number) =>
+    `${projectPrefix(projectId)}journal/${String(revision).padStart(8, "0")}.json`,
+  jobsPrefix: (projectId: string) => `${projectPrefix(projectId)}jobs/`,
+  job: (projectId: string, jobId: string) => `${projectPrefix(projectId)}jobs/${jobId}.json`,
+  // Written by a cancel request; kept apart from the job document, which the runner rewrites
+  jobCancel: (projectId: string, jobId: string) => `${projectPrefix(projectId)}jobs/${jobId}.cancel`,
+  // Copy kept when a file is deleted, so a manifest rollback can bring it back
+  trashPrefix: (projectId: string) => `${projectPrefix(projectId)}trash/`,
+  trash: (projectId: string, pathname: string) =>
+    `${projectPrefix(projectId)}trash/${pathname.slice(projectPrefix(projectId).length)}`
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  json: "application/json",
+  txt: "text/plain; charset=utf-8",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  pdf: "application/pdf"
+};
+
+export function contentTypeForPath(pathname: string): string {
+  const ext = pathname.split(/[?#]/)[0].split(".").pop()?.toLowerCase() ?? "";
+  return CONTENT_TYPES[ext] ?? "application/octet-stream";
+}
+
+// What browsers may upload: page PNGs, asset crops and source files. The
+// rest (manifests, shards, journal, jobs, text...) is written by the server
+// only, manifests through compare-and-swap updates.
+const UPLOAD_PATHS = [
+  /^projects\/[^/]+\/pages\/page-\d+\.png$/,
+  /^projects\/[^/]+\/assets\/p\d+\/p\d+-[a-z0-9_]+\.png$/,
+  /^projects\/[^/]+\/sources\/[a-z0-9-]+\/source\.(?:pdf|docx|pptx|zip)$/i
+];
+
+export function isUploadPath(pathname: string) {
+  return UPLOAD_PATHS.some((re) => re.test(pathname));
+}
+
+export function isManifestPath(pathname: string) {
+  return pathname.startsWith(PROJECTS_PREFIX) && pathname.endsWith("/manifest.json");
+}
+
+export function parseJournalPath(pathname: string): number | null {
+  // projects/{id}/journal/00000012.json
+  const m = pathname.match(/\/journal\/(\d+)\.json$/);
+  if (!m) return null;
+  const n = Number(m[1]);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+/**
+ * Recover the store pathname from an object URL. Every backend serves
+ * objects at a URL ending in the pathname (after an optional prefix such as
+ * a bucket name or /api/store).
+ */
+export function pathnameFromObjectUrl(url: string): string | null {
+  let p: string;
+  try {
+    p = decodeURIComponent(new URL(url).pathname);
+  } catch {
+    return null;
+  }
+  const i = p.indexOf(`/${PROJECTS_PREFIX}`);
+  return i >= 0 ? p.slice(i + 1) : null;
+}
+
+export function parsePagePath(pathname: string): number | null {
+  // projects/{id}/pages/page-12.png
+  const m = pathname.match(/\/pages\/page-(\d+)\.png$/i);
+  if (!m) return null;
+  const n = Number(m[1]);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+export function parseAssetPath(pathname: string): { pageNumber: number; assetId: string } | null {
+  // projects/{id}/assets/p12/p12-y0120x0340w0440h0250.png, or p12-img03.png
+  // from before asset ids named the box (suffixed variants included)
+  const m = pathname.match(/^projects\/[^/]+\/assets\/p(\d+)\/(p\d+-(?:img\d+|y\d{4}x\d{4}w\d{4}h\d{4}(?:_\d+)?))(?![\d_])/);
+  if (!m) return null;
+  const pageNumber = Number(m[1]);
+  if (!Number.isFinite(pageNumber) || pageNumber <= 0) return null;
+  return { pageNumber, assetId: m[2] };
+}
@@ -0,0 +1,142 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  DeleteObjectsCommand,
+  type ListObjectsV2CommandOutput
+} from "@aws-sdk/client-s3";
+import type { ProjectStore, StoreBody, StoredObject, StoredObjectInfo } from "./types";
+
+// Works with AWS S3 and S3-compatible servers (MinIO, Cloudflare R2, Ceph).
+//
+//   S3_BUCKET            bucket name (required)
+//   S3_PUBLIC_URL        base URL objects are readable at (required), e.g.
+//                        https://cdn.example.com or http://localhost:9000/bucket
+//   S3_REGION            defaults to us-east-1
+//   S3_ENDPOINT          custom endpoint for non-AWS servers
+//   S3_FORCE_PATH_STYLE  "true" for MinIO-style path addressing
+//   S3_ACCESS_KEY_ID / S3_SECRET_ACCESS_KEY  optional; falls back to the
+//                        default AWS credential chain
+
+function mustEnv(name: string): string {
+  const v = process.env[name];
+  if (!v || !String(v).trim()) throw new Error(`Missing ${name}`);
+  return String(v).trim();
+}
+
+function isNotFound(e: unknown): boolean {
+  const err = e as { name?: string; $metadata?: { httpStatusCode?: number } };
+  return err?.name === "NotFound" || err?.name === "NoSuchKey" || err?.$metadata?.httpStatusCode === 404;
+}
+
+export class S3Store implements ProjectStore {
+  readonly backend = "s3" as const;
+  private readonly client: S3Client;
+  private readonly bucket: string;
+  private readonly publicUrl: string;
+
+  constructor() {
+    this.bucket = mustEnv("S3_BUCKET");
+    this.publicUrl = mustEnv("S3_PUBLIC_URL").replace(/\/+$/, "");
+
+    const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+    const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+
+    this.client = new S3Client({
+      region: process.env.S3_REGION || "us-east-1",
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+      credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined
+    });
+  }
+
+  private urlFor(key: string): string {
+    return `${this.publicUrl}/${key}`;
+  }
+
+  private keyFromUrl(url: string): string | null {
+    const noQuery = url.split(/[?#]/)[0];
+    if (!noQuery.startsWith(`${this.publicUrl}/`)) return null;
+    return decodeURIComponent(noQuery.slice(this.publicUrl.length + 1));
+  }
+
+  async put(pathname: string, body: StoreBody, contentType: string): Promise<StoredObject> {
+    const data = typeof body === "string" ? body : body instanceof ArrayBuffer ? new Uint8Array(body) : body;
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: pathname,
+        Body: data,
+        ContentType: contentType,
+        CacheControl: "no-cache"
+      })
+    );
+    return { url: this.urlFor(pathname), pathname };
+  }
+
+  async get(url: string): Promise<Buffer | null> {
+    const key = this.keyFromUrl(url);
+    if (!key) return null;
+    try {
+      const res = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      if (!res.Body) return null;
+      return Buffer.from(await res.Body.transformToByteArray());
+    } catch (e) {
+      if (isNotFound(e)) return null;
+      throw e;
+    }
+  }
+
+  async head(url: string): Promise<StoredObjectInfo | null> {
+    const key = this.keyFromUrl(url);
+    if (!key) return null;
+    try {
+      const res = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+      return {
+        url: this.urlFor(key),
+        pathname: key,
+        size: res.ContentLength ?? 0,
+        uploadedAt: res.LastModified ?? new Date(0),
+        contentType: res.ContentType ?? "application/octet-stream"
+      };
+    } catch (e) {
+      if (isNotFound(e)) return null;
+      throw e;
+    }
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const out: StoredObject[] = [];
+    let token: string | undefined = undefined;
+
+    for (;;) {
+      const page: ListObjectsV2CommandOutput = await this.client.send(
+        new ListObjectsV2Command({ Bucket: this.bucket, Prefix: prefix, ContinuationToken: token })
+      );
+      for (const o of page.Contents ?? []) {
+        if (o.Key) out.push({ url: this.urlFor(o.Key), pathname: o.Key });
+      }
+      token = page.IsTruncated ? page.NextContinuationToken : undefined;
+      if (!token) break;
+    }
+
+    return out;
+  }
+
+  async del(urls: string[]): Promise<void> {
+    const keys = urls.map((u) => this.keyFromUrl(u)).filter((k): k is string => !!k);
+
+    // DeleteObjects accepts at most 1000 keys per call
+    for (let i = 0; i < keys.length; i += 1000) {
+      const chunk = keys.slice(i, i + 1000);
+      await this.client.send(
+        new DeleteObjectsCommand({
+          Bucket: this.bucket,
+          Delete: { Objects: chunk.map((Key) => ({ Key })), Quiet: true }
+        })
+      );
+    }
+  }
+}
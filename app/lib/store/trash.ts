@@ -0,0 +1,45 @@
+import type { ProjectStore } from "./types";
+import { contentTypeForPath, pathnameFromObjectUrl, projectPaths, projectPrefix } from "./paths";
+
+// Deleted project files are copied under projects/{id}/trash/ first, so that
+// rolling the manifest back (manifest-journal.ts) can put them back.
+
+function projectPathname(projectId: string, url: string): string | null {
+  const pathname = pathnameFromObjectUrl(url);
+  return pathname && pathname.startsWith(projectPrefix(projectId)) ? pathname : null;
+}
+
+/** Copy to trash, then delete. Files outside the project are deleted without a copy. */
+export async function moveToTrash(store: ProjectStore, projectId: string, urls: string[]): Promise<void> {
+  for (const url of urls) {
+    const pathname = projectPathname(projectId, url);
+    if (!pathname) continue;
+    const data = await store.get(url);
+    if (data) await store.put(projectPaths.trash(projectId, pathname), data, contentTypeForPath(pathname));
+  }
+  if (urls.length > 0) await store.del(urls);
+}
+
+/**
+ * Put back any of `urls` that are missing but have a trash copy. Returns the
+ * URLs that are still missing afterwards.
+ */
+export async function restoreFromTrash(store: ProjectStore, projectId: string, urls: string[]): Promise<string[]> {
+  const missing: string[] = [];
+  const trash = new Map((await store.list(projectPaths.trashPrefix(projectId))).map((o) => [o.pathname, o.url]));
+
+  for (const url of urls) {
+    if (await store.head(url)) continue;
+
+    const pathname = projectPathname(projectId, url);
+    const trashUrl = pathname ? trash.get(projectPaths.trash(projectId, pathname)) : undefined;
+    const data = trashUrl ? await store.get(trashUrl) : null;
+    if (!pathname || !data) {
+      missing.push(url);
+      continue;
+    }
+    await store.put(pathname, data, contentTypeForPath(pathname));
+  }
+
+  return missing;
+}
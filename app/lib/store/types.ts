@@ -0,0 +1,38 @@
+export type StorageBackend = "vercel" | "local" | "s3";
+
+export type StoredObject = {
+  url: string;
+  pathname: string;
+};
+
+export type StoredObjectInfo = StoredObject & {
+  size: number;
+  uploadedAt: Date;
+  contentType: string;
+};
+
+export type StoreBody = string | Buffer | ArrayBuffer | Uint8Array;
+
+/**
+ * Where project files live. Objects are written by pathname (see paths.ts)
+ * and addressed by the URL the backend hands back, which is what the manifest
+ * stores and what the browser loads.
+ */
+export interface ProjectStore {
+  readonly backend: StorageBackend;
+
+  /** Write (or overwrite) an object at a stable pathname. */
+  put(pathname: string, body: StoreBody, contentType: string): Promise<StoredObject>;
+
+  /** Read an object, bypassing caches. Resolves to null if it does not exist. */
+  get(url: string): Promise<Buffer | null>;
+
+  /** Object metadata, or null if it does not exist. */
+  head(url: string): Promise<StoredObjectInfo | null>;
+
+  /** Every object under a prefix (all pages of results). */
+  list(prefix: string): Promise<StoredObject[]>;
+
+  /** Delete objects by URL. Missing objects are ignored. */
+  del(urls: string[]): Promise<void>;
+}
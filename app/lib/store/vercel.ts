@@ -0,0 +1,98 @@
+import { put, list, del, head, BlobNotFoundError } from "@vercel/blob";
+import type { ProjectStore, StoreBody, StoredObject, StoredObjectInfo } from "./types";
+
+type ListResult = {
+  blobs: Array<{ url: string; pathname?: string }>;
+  cursor?: string | null;
+};
+
+function baseUrl(u: string) {
+  const url = new URL(u);
+  return `${url.origin}${url.pathname}`;
+}
+
+const NO_CACHE_HEADERS = { "Cache-Control": "no-cache, no-store, must-revalidate", Pragma: "no-cache" };
+
+export class VercelBlobStore implements ProjectStore {
+  readonly backend = "vercel" as const;
+
+  async put(pathname: string, body: StoreBody, contentType: string): Promise<StoredObject> {
+    const data = body instanceof Uint8Array && !Buffer.isBuffer(body) ? Buffer.from(body) : body;
+    const blob = await put(pathname, data, {
+      access: "public",
+      contentType,
+      addRandomSuffix: false
+    });
+    return { url: blob.url, pathname: blob.pathname };
+  }
+
+  /**
+   * Force-fetch bypassing Vercel Edge cache.
+   * Uses downloadUrl from blob metadata which should be more reliable.
+   */
+  async get(url: string): Promise<Buffer | null> {
+    const cleanUrl = baseUrl(url);
+
+    // Try using blob head to get fresh download URL
+    try {
+      const blobInfo = await head(cleanUrl);
+      if (blobInfo?.downloadUrl) {
+        const res = await fetch(`${blobInfo.downloadUrl}?_=${Date.now()}`, {
+          cache: "no-store",
+          headers: NO_CACHE_HEADERS
+        });
+        if (res.ok) return Buffer.from(await res.arrayBuffer());
+      }
+    } catch {
+      // Fall through to direct fetch
+    }
+
+    // Fallback: direct fetch with cache busting
+    const res = await fetch(`${cleanUrl}?v=${Date.now()}&r=${Math.random()}`, {
+      cache: "no-store",
+      headers: NO_CACHE_HEADERS
+    });
+    if (res.status === 404) return null;
+    if (!res.ok) throw new Error(`Failed to read ${cleanUrl}: ${res.status} ${res.statusText}`);
+    return Buffer.from(await res.arrayBuffer());
+  }
+
+  async head(url: string): Promise<StoredObjectInfo | null> {
+    try {
+      const info = await head(baseUrl(url));
+      return {
+        url: info.url,
+        pathname: info.pathname,
+        size: info.size,
+        uploadedAt: info.uploadedAt,
+        contentType: info.contentType
+      };
+    } catch (e) {
+      if (e instanceof BlobNotFoundError) return null;
+      throw e;
+    }
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const out: StoredObject[] = [];
+    let cursor: string | undefined = undefined;
+
+    for (;;) {
+      const page = (await list({ prefix, limit: 1000, cursor })) as unknown as ListResult;
+
+      for (const b of page.blobs) {
+        if (typeof b.url === "string" && b.url) out.push({ url: b.url, pathname: b.pathname || "" });
+      }
+
+      const next = page.cursor ?? undefined;
+      cursor = typeof next === "string" && next.length > 0 ? next : undefined;
+      if (!cursor) break;
+    }
+
+    return out;
+  }
+
+  async del(urls: string[]): Promise<void> {
+    if (urls.length > 0) await del(urls);
+  }
+}
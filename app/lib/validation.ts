@@ -0,0 +1,135 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { ManifestConflictError, ManifestUpdateRejected } from "./manifest-errors";
+
+export type ValidationIssue = {
+  // Dotted path into the validated value, e.g. "pages[2].assets[0].bbox.w"
+  path: string;
+  message: string;
+};
+
+/**
+ * A request body or stored document did not have the expected shape.
+ * Routes return it as a 400 with the full issue list (see validationErrorResponse).
+ */
+export class ValidationError extends Error {
+  readonly status = 400;
+
+  constructor(readonly subject: string, readonly issues: ValidationIssue[]) {
+    const shown = issues.slice(0, 5).map((i) => `${i.path || "(root)"}: ${i.message}`);
+    if (issues.length > shown.length) shown.push(`and ${issues.length - shown.length} more`);
+    super(`Invalid ${subject}: ${shown.join("; ")}`);
+    this.name = "ValidationError";
+  }
+}
+
+function formatPath(path: ReadonlyArray<PropertyKey>): string {
+  let out = "";
+  for (const seg of path) {
+    if (typeof seg === "number") out += `[${seg}]`;
+    else out += out ? `.${String(seg)}` : String(seg);
+  }
+  return out;
+}
+
+function toIssues(err: z.ZodError): ValidationIssue[] {
+  return err.issues.map((i) => ({ path: formatPath(i.path), message: i.message }));
+}
+
+/** Parse `value` with `schema`, throwing ValidationError on mismatch. */
+export function validate<S extends z.ZodType>(schema: S, value: unknown, subject: string): z.output<S> {
+  const res = schema.safeParse(value);
+  if (!res.success) throw new ValidationError(subject, toIssues(res.error));
+  return res.data;
+}
+
+export function validationErrorResponse(e: ValidationError) {
+  return NextResponse.json({ ok: false, error: e.message, issues: e.issues }, { status: e.status });
+}
+
+/** Whether `e` is a failed manifest update: a save conflict or a rejected mutation. */
+export function isManifestError(e: unknown): e is ManifestConflictError | ManifestUpdateRejected {
+  return e instanceof ManifestConflictError || e instanceof ManifestUpdateRejected;
+}
+
+/** A failed manifest update as a response, with the error's own status (409 for conflicts). */
+export function manifestErrorResponse(e: ManifestConflictError | ManifestUpdateRejected) {
+  return NextResponse.json({ ok: false, error: e.message }, { status: e.status });
+}
+
+export type ParsedBody<T> = { ok: true; body: T } | { ok: false; response: NextResponse };
+
+/**
+ * Read and validate a JSON request body. On failure `response` is a ready
+ * 400 to return from the route.
+ */
+export async function parseJsonBody<S extends z.ZodType>(
+  req: Request,
+  schema: S
+): Promise<ParsedBody<z.output<S>>> {
+  let raw: unknown;
+  try {
+    raw = await req.json();
+  } catch {
+    return { ok: false, response: NextResponse.json({ ok: false, error: "Invalid JSON body" }, { status: 400 }) };
+  }
+
+  try {
+    return { ok: true, body: validate(schema, raw, "request body") };
+  } catch (e) {
+    if (e instanceof ValidationError) return { ok: false, response: validationErrorResponse(e) };
+    throw e;
+  }
+}
+
+/** Same as parseJsonBody for multipart forms; File entries are passed through as-is. */
+export async function parseFormBody<S extends z.ZodType>(
+  req: Request,
+  schema: S
+): Promise<ParsedBody<z.output<S>>> {
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch {
+    return { ok: false, response: NextResponse.json({ ok: false, error: "Invalid form body" }, { status: 400 }) };
+  }
+
+  try {
+    return { ok: true, body: validate(schema, Object.fromEntries(form.entries()), "form body") };
+  } catch (e) {
+    if (e instanceof ValidationError) return { ok: false, response: validationErrorResponse(e) };
+    throw e;
+  }
+}
+
+// Field helpers shared by the route body schemas
+
+/** Trimmed, non-empty string. */
+export const requiredString = z.string().trim().min(1, "Required");
+
+/** Trimmed string; missing becomes "". */
+export const optionalString = z.string().trim().optional().default("");
+
+function parsesAsJson(s: string): boolean {
+  try {
+    JSON.parse(s);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** String holding a JSON document. */
+export const jsonString = z.string().refine(parsesAsJson, "Not valid JSON");
+
+/** String holding a JSON document, or blank. */
+export const optionalJsonString = z.string().refine((s) => !s.trim() || parsesAsJson(s), "Not valid JSON");
+
+/** 1-based page number. Form fields arrive as strings, so numeric strings are accepted. */
+export const pageNumberField = z.coerce.number().int().positive();
+
+/** A source id as used in storage paths: letters, digits and dashes only. */
+export const sourceIdField = z
+  .string()
+  .trim()
+  .regex(/^[a-z0-9-]+$/i, "Only letters, digits and dashes");
@@ -2,6 +2,10 @@
 
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import { upload } from "@vercel/blob/client";
+import { projectPaths } from "@/app/lib/store/paths";
+import { detectSourceFormat, newSourceId, SOURCE_ACCEPT, sourceExtension } from "@/app/lib/sources/format";
+import { OCR_PROVIDER_SETTINGS } from "@/app/lib/ocr/types";
+import { ASSET_CATEGORIES, ASSET_CATEGORY_LABELS, type AssetCategory } from "@/app/lib/asset-categories";
 
 type AssetBBox = { x: number; y: number; w: number; h: number };
 
@@ -11,8 +15,16 @@ type PageAsset = {
   bbox: AssetBBox;
   tags?: string[];
   tagRationale?: string;
+  caption?: string;
+  nearbyText?: string;
+  category?: AssetCategory;
+  detection?: { detectors: string[]; confidence: number; needsReview: boolean };
+  duplicateOf?: string;
+  quality?: { width: number; height: number; sharpness: number; artifacts: number; textCoverage: number; blank: boolean; score: number };
 };
 
+type DetectedBox = { x: number; y: number; w: number; h: number; category?: string; needsReview?: boolean };
+
 type SettingsHistoryEntry = {
   timestamp: string;
   label?: string;
@@ -25,25 +37,33 @@ type SettingsHistory = {
   schemaJson?: SettingsHistoryEntry[];
   completenessRules?: SettingsHistoryEntry[];
   detectionRulesJson?: SettingsHistoryEntry[];
+  pipelineJson?: SettingsHistoryEntry[];
 };
 
 type Manifest = {
+  manifestVersion?: number;
   projectId: string;
   createdAt: string;
   status: "empty" | "uploaded" | "processed";
-  sourcePdf?: { url: string; filename: string };
+  sources?: Array<{
+    sourceId: string;
+    url: string;
+    filename: string;
+    format: "pdf" | "docx" | "pptx" | "images";
+    firstPage?: number;
+    pageCount?: number;
+  }>;
   extractedText?: { url: string };
   formattedText?: { url: string };
-  docAiJson?: { url: string };
   schemaResults?: { url: string };
   pages?: Array<{
     pageNumber: number;
     url: string;
     width: number;
     height: number;
-    tags?: string[];
     assets?: PageAsset[];
     deletedAssetIds?: string[];
+    sourceId?: string;
   }>;
   settings: {
     aiRules: string;
@@ -52,6 +72,8 @@ type Manifest = {
     schemaJson: string;
     completenessRules?: string;
     detectionRulesJson?: string;
+    pipelineJson?: string;
+    ocrProvider?: string;
     history?: SettingsHistory;
   };
 };
@@ -66,25 +88,6 @@ type ProjectRow = {
   hasText: boolean;
 };
 
-type PdfJsLib = {
-  getDocument: (opts: { url: string; withCredentials?: boolean }) => PdfLoadingTask;
-  GlobalWorkerOptions: { workerSrc: string };
-};
-
-type PdfLoadingTask = { promise: Promise<PdfDocument> };
-
-type PdfDocument = {
-  numPages: number;
-  getPage: (pageNumber: number) => Promise<PdfPage>;
-};
-
-type PdfPage = {
-  getViewport: (opts: { scale: number }) => PdfViewport;
-  render: (opts: { canvasContext: CanvasRenderingContext2D; viewport: PdfViewport }) => { promise: Promise<void> };
-};
-
-type PdfViewport = { width: number; height: number };
-
 async function readErrorText(res: Response) {
   try {
     const t = await res.text();
@@ -94,6 +97,70 @@ async function readErrorText(res: Response) {
   }
 }
 
+// Which ProjectStore the server is configured with (STORAGE_BACKEND). Vercel
+// Blob takes direct browser uploads; the other backends go through /api/store.
+const STORAGE_BACKEND = process.env.NEXT_PUBLIC_STORAGE_BACKEND || "vercel";
+
+// Pages per /api/projects/pages/rasterize request
+const RASTER_PAGES_PER_REQUEST = 10;
+
+const OCR_PROVIDER_LABELS: Record<(typeof OCR_PROVIDER_SETTINGS)[number], string> = {
+  auto: "Auto (the PDF's text layer, else Document AI)",
+  docai: "Document AI",
+  pdfjs: "pdf.js text layer (no OCR)",
+  fixture: "Fixture (offline testing)"
+};
+
+async function uploadToStore(pathname: string, file: File): Promise<{ url: string }> {
+  if (STORAGE_BACKEND === "vercel") {
+    return upload(pathname, file, { access: "public", handleUploadUrl: "/api/blob" });
+  }
+
+  const r = await fetch(`/api/store/${pathname}`, {
+    method: "PUT",
+    headers: { "Content-Type": file.type || "application/octet-stream" },
+    body: file
+  });
+  if (!r.ok) throw new Error(await readErrorText(r));
+  return (await r.json()) as { url: string };
+}
+
+type BackgroundJob = {
+  jobId: string;
+  status: "queued" | "running" | "succeeded" | "failed" | "cancelled";
+  manifestUrl: string;
+  progress: { done: number; total?: number; message?: string };
+  result?: unknown;
+  error?: string;
+};
+
+const JOB_POLL_MS = 2000;
+
+// Enqueue a job (/api/jobs) and poll it until it finishes. The job keeps
+// running on the server if the page is closed.
+async function runBackgroundJob(
+  body: { projectId: string; manifestUrl: string; kind: string; params?: object },
+  onProgress: (job: BackgroundJob) => void
+): Promise<BackgroundJob> {
+  const r = await fetch("/api/jobs", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body)
+  });
+  if (!r.ok) throw new Error(await readErrorText(r));
+  const { jobId } = (await r.json()) as { jobId: string };
+
+  for (;;) {
+    await new Promise((resolve) => setTimeout(resolve, JOB_POLL_MS));
+    const pr = await fetch(`/api/jobs/${encodeURIComponent(jobId)}`, { cache: "no-store" });
+    if (!pr.ok) throw new Error(await readErrorText(pr));
+    const { job } = (await pr.json()) as { job: BackgroundJob };
+    onProgress(job);
+    if (job.status === "succeeded") return job;
+    if (job.status === "failed" || job.status === "cancelled") throw new Error(job.error || `Job ${job.status}`);
+  }
+}
+
 function setUrlParams(pid: string, m: string) {
   const url = new URL(window.location.href);
   url.searchParams.set("pid", pid);
@@ -122,10 +189,6 @@ function bust(url: string) {
   return u.toString();
 }
 
-function setPdfJsWorker(pdfjs: PdfJsLib) {
-  pdfjs.GlobalWorkerOptions.workerSrc = new URL("pdfjs-dist/build/pdf.worker.min.mjs", import.meta.url).toString();
-}
-
 function Chevron({ up }: { up: boolean }) {
   return (
     <svg width="18" height="18" viewBox="0 0 24 24" fill="none" aria-hidden="true">
@@ -180,8 +243,8 @@ function Tabs({
   value,
   onChange
 }: {
-  value: "ai" | "tagging" | "schema" | "completeness" | "detection";
-  onChange: (v: "ai" | "tagging" | "schema" | "completeness" | "detection") => void;
+  value: "ai" | "tagging" | "schema" | "completeness" | "detection" | "pipeline";
+  onChange: (v: "ai" | "tagging" | "schema" | "completeness" | "detection" | "pipeline") => void;
 }) {
   const tabStyle = (active: boolean): React.CSSProperties => ({
     border: "1px solid #000",
@@ -221,6 +284,9 @@ function Tabs({
       <button type="button" onClick={() => onChange("detection")} style={tabStyle(value === "detection")}>
         Detection
       </button>
+      <button type="button" onClick={() => onChange("pipeline")} style={tabStyle(value === "pipeline")}>
+        Pipeline
+      </button>
     </div>
   );
 }
@@ -1006,6 +1072,7 @@ function ObjectCard({
 
 export default function Page() {
   const fileRef = useRef<HTMLInputElement>(null);
+  const addSourceRef = useRef<HTMLInputElement>(null);
 
   const [busy, setBusy] = useState("");
   const [projectId, setProjectId] = useState<string>("");
@@ -1020,7 +1087,7 @@ export default function Page() {
   const [projects, setProjects] = useState<ProjectRow[]>([]);
 
   const [settingsOpen, setSettingsOpen] = useState(true);
-  const [settingsTab, setSettingsTab] = useState<"ai" | "tagging" | "schema" | "completeness" | "detection">("ai");
+  const [settingsTab, setSettingsTab] = useState<"ai" | "tagging" | "schema" | "completeness" | "detection" | "pipeline">("ai");
   const [settingsBusy, setSettingsBusy] = useState(false);
   const [settingsError, setSettingsError] = useState<string>("");
 
@@ -1029,6 +1096,11 @@ export default function Page() {
   const [schemaJsonDraft, setSchemaJsonDraft] = useState<string>("");
   const [completenessRulesDraft, setCompletenessRulesDraft] = useState<string>("");
   const [detectionRulesJsonDraft, setDetectionRulesJsonDraft] = useState<string>("");
+  const [pipelineJsonDraft, setPipelineJsonDraft] = useState<string>("");
+  // "ensemble" also asks Document AI and merges the boxes (assets/detect-ensemble)
+  const [detector, setDetector] = useState<"gemini" | "ensemble">("gemini");
+  // "" is auto
+  const [ocrProviderDraft, setOcrProviderDraft] = useState<string>("");
 
   // Settings history state
   const [settingsHistory, setSettingsHistory] = useState<SettingsHistory>({});
@@ -1066,6 +1138,8 @@ export default function Page() {
   });
 
   const [assetsOpen, setAssetsOpen] = useState(true);
+  // "" shows every asset, "none" the ones without a category
+  const [categoryFilter, setCategoryFilter] = useState<AssetCategory | "" | "none">("");
   const [deletingAssets, setDeletingAssets] = useState<Record<string, boolean>>({});
 
   const [textPanelOpen, setTextPanelOpen] = useState(false);
@@ -1080,6 +1154,8 @@ export default function Page() {
   const [schemaResultsOpen, setSchemaResultsOpen] = useState(false);
   const [schemaResults, setSchemaResults] = useState<string>("");
   const [schemaResultsDraft, setSchemaResultsDraft] = useState<string>("");
+  // Last fill output and the hash of its inputs, saved along with it if unedited
+  const [filledSchema, setFilledSchema] = useState<{ results: string; inputsHash: string } | null>(null);
   const [schemaFillBusy, setSchemaFillBusy] = useState(false);
   const [schemaSaveBusy, setSchemaSaveBusy] = useState(false);
   const [schemaResultsTab, setSchemaResultsTab] = useState<string>("OVERVIEW");
@@ -1107,6 +1183,7 @@ export default function Page() {
       case "schema": return schemaJsonDraft;
       case "completeness": return completenessRulesDraft;
       case "detection": return detectionRulesJsonDraft;
+      case "pipeline": return pipelineJsonDraft;
       default: return "";
     }
   }
@@ -1119,6 +1196,7 @@ export default function Page() {
       case "schema": return "schemaJson";
       case "completeness": return "completenessRules";
       case "detection": return "detectionRulesJson";
+      case "pipeline": return "pipelineJson";
       default: return "aiRules";
     }
   }
@@ -1152,6 +1230,7 @@ export default function Page() {
       case "schema": setSchemaJsonDraft(content); break;
       case "completeness": setCompletenessRulesDraft(content); break;
       case "detection": setDetectionRulesJsonDraft(content); break;
+      case "pipeline": setPipelineJsonDraft(content); break;
     }
     setShowHistoryPanel(false);
   }
@@ -1230,6 +1309,7 @@ export default function Page() {
       case "schema": setSchemaJsonDraft(extracted); break;
       case "completeness": setCompletenessRulesDraft(extracted); break;
       case "detection": setDetectionRulesJsonDraft(extracted); break;
+      case "pipeline": setPipelineJsonDraft(extracted); break;
     }
   }
 
@@ -1252,6 +1332,8 @@ export default function Page() {
     setSchemaJsonDraft(m.settings?.schemaJson ?? "");
     setCompletenessRulesDraft(m.settings?.completenessRules ?? "");
     setDetectionRulesJsonDraft(m.settings?.detectionRulesJson ?? "");
+    setPipelineJsonDraft(m.settings?.pipelineJson ?? "");
+    setOcrProviderDraft(m.settings?.ocrProvider ?? "");
     setSettingsHistory(m.settings?.history ?? {});
 
     // Load cached formatted text if available
@@ -1342,8 +1424,56 @@ export default function Page() {
     return { projectId: j.projectId, manifestUrl: j.manifestUrl };
   }
 
+  // Upload a source file straight to the store and add it to the project's sources
+  async function storeSource(pid: string, currentManifestUrl: string, file: File): Promise<string> {
+    const format = detectSourceFormat(file.name);
+    const sourceId = newSourceId();
+
+    // Use client-side upload to bypass serverless function size limits
+    const blob = await uploadToStore(projectPaths.source(pid, sourceId, sourceExtension(format)), file);
+
+    // Record the source URL in the manifest
+    const r = await fetch("/api/projects/record-source", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        projectId: pid,
+        manifestUrl: currentManifestUrl,
+        sourceId,
+        sourceUrl: blob.url,
+        filename: file.name,
+        format
+      })
+    });
+    if (!r.ok) throw new Error(`Record source failed: ${await readErrorText(r)}`);
+
+    const j = (await r.json()) as { ok: boolean; manifestUrl?: string; error?: string };
+    if (!j.ok || !j.manifestUrl) throw new Error(j.error || "Record source failed (bad response)");
+    return j.manifestUrl;
+  }
+
+  async function addSource(file: File) {
+    setLastError("");
+    if (!projectId || !manifestUrl) return setLastError("Open or load a project first");
+    detectSourceFormat(file.name);
+
+    setBusy("Adding SOURCE...");
+    try {
+      const newManifestUrl = await storeSource(projectId, manifestUrl, file);
+      log(`Added source ${file.name}`);
+      setManifestUrl(newManifestUrl);
+      setUrlParams(projectId, newManifestUrl);
+      await loadManifest(newManifestUrl);
+      await refreshProjects();
+    } finally {
+      setBusy("");
+    }
+  }
+
   async function uploadSource(file: File) {
     setLastError("");
+    // Before creating a project, so an unsupported file doesn't leave an empty one behind
+    detectSourceFormat(file.name);
     setBusy("Uploading SOURCE...");
 
     // Preserve current settings before creating new project
@@ -1353,6 +1483,8 @@ export default function Page() {
       schemaJson: schemaJsonDraft,
       completenessRules: completenessRulesDraft,
       detectionRulesJson: detectionRulesJsonDraft,
+      pipelineJson: pipelineJsonDraft,
+      ocrProvider: ocrProviderDraft,
       history: settingsHistory
     };
 
@@ -1368,32 +1500,12 @@ export default function Page() {
       // Always create a new project for each upload
       const p = await createProject();
 
-      // Use client-side upload to bypass serverless function size limits
-      const blob = await upload(`projects/${p.projectId}/source/source.pdf`, file, {
-        access: "public",
-        handleUploadUrl: "/api/blob"
-      });
+      const newManifestUrl = await storeSource(p.projectId, p.manifestUrl, file);
 
-      // Record the PDF URL in the manifest
-      const r = await fetch("/api/projects/record-source", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          projectId: p.projectId,
-          manifestUrl: p.manifestUrl,
-          sourcePdfUrl: blob.url,
-          filename: file.name
-        })
-      });
-      if (!r.ok) throw new Error(`Record source failed: ${await readErrorText(r)}`);
-
-      const j = (await r.json()) as { ok: boolean; manifestUrl?: string; error?: string };
-      if (!j.ok || !j.manifestUrl) throw new Error(j.error || "Record source failed (bad response)");
-
-      setManifestUrl(j.manifestUrl);
-      setUrlParams(p.projectId, j.manifestUrl);
+      setManifestUrl(newManifestUrl);
+      setUrlParams(p.projectId, newManifestUrl);
 
-      await loadManifest(j.manifestUrl);
+      await loadManifest(newManifestUrl);
 
       // Restore settings from previous project (loadManifest clears them for new projects)
       setAiRulesDraft(savedSettings.aiRules);
@@ -1401,6 +1513,8 @@ export default function Page() {
       setSchemaJsonDraft(savedSettings.schemaJson);
       setCompletenessRulesDraft(savedSettings.completenessRules);
       setDetectionRulesJsonDraft(savedSettings.detectionRulesJson);
+      setPipelineJsonDraft(savedSettings.pipelineJson);
+      setOcrProviderDraft(savedSettings.ocrProvider);
       setSettingsHistory(savedSettings.history);
 
       await refreshProjects();
@@ -1413,11 +1527,11 @@ export default function Page() {
     setLastError("");
 
     if (!projectId || !manifestUrl) return setLastError("Missing projectId/manifestUrl");
-    if (!manifest?.sourcePdf?.url) return setLastError("No source PDF");
+    if (!manifest?.sources?.length) return setLastError("No source document");
     if (busy) return;
 
     setBusy("Processing...");
-    log("Starting DocAI processing...");
+    log(`Processing ${manifest.sources.length} source(s) (DocAI for PDFs)...`);
 
     try {
       const r = await fetch("/api/projects/process", {
@@ -1428,10 +1542,19 @@ export default function Page() {
 
       if (!r.ok) throw new Error(await readErrorText(r));
 
-      const j = (await r.json()) as { ok: boolean; manifestUrl?: string; error?: string };
+      const j = (await r.json()) as {
+        ok: boolean;
+        manifestUrl?: string;
+        sources?: Array<{ sourceId: string; warnings?: string[] }>;
+        error?: string;
+      };
       if (!j.ok || !j.manifestUrl) throw new Error(j.error || "Process failed (bad response)");
 
-      log("DocAI processing complete");
+      // e.g. PPTX slide images only showing the slides' pictures
+      for (const src of j.sources ?? []) {
+        for (const w of src.warnings ?? []) log(`${src.sourceId}: ${w}`);
+      }
+      log("Processing complete");
       setManifestUrl(j.manifestUrl);
       setUrlParams(projectId, j.manifestUrl);
 
@@ -1467,85 +1590,68 @@ export default function Page() {
     setLastError("");
 
     if (!projectId || !manifestUrl) return setLastError("Missing projectId/manifestUrl");
-    if (!manifest?.sourcePdf?.url) return setLastError("No source PDF");
+    const pdfSources = (manifest?.sources ?? []).filter((src) => src.format === "pdf");
+    if (pdfSources.length === 0) return setLastError("Only PDF sources are rasterized");
     if (busy || rasterProgress.running) return;
 
+    const totalPages = pdfSources.reduce((n, src) => n + (src.pageCount ?? 0), 0);
     setBusy("Rasterizing...");
-    setRasterProgress({ running: true, currentPage: 0, totalPages: 0, uploaded: 0 });
+    setRasterProgress({ running: true, currentPage: 0, totalPages, uploaded: 0 });
     log("Starting rasterization...");
 
     try {
-      const pdfjsImport = (await import("pdfjs-dist")) as unknown as PdfJsLib;
-      setPdfJsWorker(pdfjsImport);
-
-      const loadingTask = pdfjsImport.getDocument({ url: manifest.sourcePdf.url, withCredentials: false });
-      const pdf = await loadingTask.promise;
-
-      const totalPages = Number(pdf.numPages) || 0;
-      setRasterProgress((p) => ({ ...p, totalPages }));
-      log(`PDF has ${totalPages} pages`);
-
-      // Collect all page data first, then save in one batch at the end
-      const allPages: Array<{ pageNumber: number; url: string; width: number; height: number }> = [];
-
-      for (let pageNumber = 1; pageNumber <= totalPages; pageNumber++) {
-        setRasterProgress((p) => ({ ...p, currentPage: pageNumber }));
-
-        const page = await pdf.getPage(pageNumber);
-        const scale = 1.25;
-        const viewport = page.getViewport({ scale });
-
-        const canvas = document.createElement("canvas");
-        const ctx = canvas.getContext("2d");
-        if (!ctx) throw new Error("Cannot create canvas 2D context");
-
-        canvas.width = Math.max(1, Math.floor(viewport.width));
-        canvas.height = Math.max(1, Math.floor(viewport.height));
-
-        await page.render({ canvasContext: ctx, viewport }).promise;
-
-        const pngBlob = await new Promise<Blob>((resolve, reject) => {
-          canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("toBlob returned null"))), "image/png");
-        });
-
-        const file = new File([pngBlob], `page-${pageNumber}.png`, { type: "image/png" });
+      let currentManifestUrl = manifestUrl;
+
+      for (const source of pdfSources) {
+        // Rendered on the server a few pages per request, so progress shows
+        // and a failed request can be picked up from where it stopped
+        let fromPage = source.firstPage;
+        let lastPage = source.firstPage && source.pageCount ? source.firstPage + source.pageCount - 1 : undefined;
+
+        for (;;) {
+          const toPage = fromPage && lastPage ? Math.min(lastPage, fromPage + RASTER_PAGES_PER_REQUEST - 1) : undefined;
+          const r = await fetch("/api/projects/pages/rasterize", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ projectId, manifestUrl: currentManifestUrl, sourceId: source.sourceId, fromPage, toPage })
+          });
 
-        const blob = await upload(`projects/${projectId}/pages/page-${pageNumber}.png`, file, {
-          access: "public",
-          handleUploadUrl: "/api/blob"
-        });
+          if (!r.ok) throw new Error(await readErrorText(r));
+
+          const j = (await r.json()) as {
+            ok: boolean;
+            manifestUrl?: string;
+            pagesRendered?: number[];
+            nextPage?: number | null;
+            sources?: Array<{ sourceId: string; firstPage: number; pageCount: number }>;
+            error?: string;
+          };
+          if (!j.ok || !j.manifestUrl) throw new Error(j.error || "Rasterize failed (bad response)");
+
+          currentManifestUrl = j.manifestUrl;
+          setManifestUrl(j.manifestUrl);
+          setUrlParams(projectId, j.manifestUrl);
+
+          const rendered = j.pagesRendered ?? [];
+          setRasterProgress((p) => ({ ...p, currentPage: p.currentPage + rendered.length, uploaded: p.uploaded + rendered.length }));
+          if (rendered.length > 0) {
+            log(`Rendered pages ${rendered[0]}-${rendered[rendered.length - 1]} of ${source.filename}`);
+          }
 
-        // Collect page data instead of saving one by one
-        allPages.push({
-          pageNumber,
-          url: blob.url,
-          width: canvas.width,
-          height: canvas.height
-        });
+          // The server has the authoritative page range (it may have just been assigned)
+          const range = j.sources?.find((s) => s.sourceId === source.sourceId);
+          if (!range) break;
+          lastPage = range.firstPage + range.pageCount - 1;
+          const next = Math.max(range.firstPage, j.nextPage ?? (toPage ? toPage + 1 : lastPage + 1));
+          if (next > lastPage) break;
+          fromPage = next;
+        }
 
-        setRasterProgress((p) => ({ ...p, uploaded: p.uploaded + 1 }));
-        log(`Uploaded page ${pageNumber}/${totalPages}`);
+        log(`All pages of ${source.filename} saved`);
       }
 
-      // Now save all pages in one bulk operation to avoid race conditions
-      log(`Saving ${allPages.length} pages to manifest...`);
-      const r = await fetch("/api/projects/pages/record-bulk", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ projectId, manifestUrl, pages: allPages })
-      });
-
-      if (!r.ok) throw new Error(await readErrorText(r));
-
-      const j = (await r.json()) as { ok: boolean; manifestUrl?: string; error?: string };
-      if (!j.ok || !j.manifestUrl) throw new Error(j.error || "Record bulk pages failed");
-
-      log(`All ${allPages.length} pages saved successfully`);
-      setManifestUrl(j.manifestUrl);
-      setUrlParams(projectId, j.manifestUrl);
-
       // Load final manifest at the end
-      await loadManifest(j.manifestUrl);
+      await loadManifest(currentManifestUrl);
       await refreshProjects();
     } catch (e) {
       const msg = e instanceof Error ? e.message : String(e);
@@ -1557,32 +1663,15 @@ export default function Page() {
     }
   }
 
-  async function recordAssetsBulk(pageNumber: number, assets: Array<{ assetId: string; url: string; bbox: AssetBBox }>) {
-    const r = await fetch("/api/projects/assets/record-bulk", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ projectId, manifestUrl, pageNumber, assets })
-    });
-
-    if (!r.ok) throw new Error(await readErrorText(r));
-
-    const j = (await r.json()) as { ok: boolean; manifestUrl?: string; error?: string };
-    if (!j.ok || !j.manifestUrl) throw new Error(j.error || "Record bulk failed (bad response)");
-
-    setManifestUrl(j.manifestUrl);
-    setUrlParams(projectId, j.manifestUrl);
-    await loadManifest(j.manifestUrl);
-  }
-
   async function splitImages() {
     setLastError("");
 
     if (!projectId || !manifestUrl) return setLastError("Missing projectId/manifestUrl");
-    if (!manifest?.pages?.length) return setLastError("No page PNGs - run Rasterize first");
+    // Pages known only from their text have no PNG to look at yet
+    const pages = (manifest?.pages ?? []).filter((p) => p.url);
+    if (!pages.length) return setLastError("No page PNGs - run Rasterize first");
     if (busy || splitProgress.running) return;
 
-    const pages = manifest.pages;
-
     // Parse detection rules from settings
     let detectionRules: object | undefined;
     if (detectionRulesJsonDraft.trim()) {
@@ -1595,83 +1684,100 @@ export default function Page() {
 
     setBusy("Detecting images...");
     setSplitProgress({ running: true, page: 0, totalPages: pages.length, assetsUploaded: 0 });
-    log("Starting image detection with Gemini...");
+    log(detector === "ensemble" ? "Starting image detection with Gemini and Document AI..." : "Starting image detection with Gemini...");
 
     try {
+      let currentManifestUrl = manifestUrl;
+
       for (const page of pages) {
         setSplitProgress((s) => ({ ...s, page: page.pageNumber }));
         log(`Detecting images on page ${page.pageNumber}...`);
 
-        // Use Gemini to detect images on this page
-        const detectRes = await fetch("/api/projects/assets/detect-gemini", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            pageUrl: page.url,
-            pageWidth: page.width,
-            pageHeight: page.height,
-            detectionRules
-          })
-        });
+        // Use Gemini (and Document AI, for the ensemble) to detect images on this page
+        const detectRes =
+          detector === "ensemble"
+            ? await fetch("/api/projects/assets/detect-ensemble", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                  projectId,
+                  manifestUrl: currentManifestUrl,
+                  pageNumbers: [page.pageNumber],
+                  detectionRules
+                })
+              })
+            : await fetch("/api/projects/assets/detect-gemini", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                  pageUrl: page.url,
+                  pageWidth: page.width,
+                  pageHeight: page.height,
+                  detectionRules
+                })
+              });
 
         if (!detectRes.ok) {
           log(`Detection failed for page ${page.pageNumber}: ${await readErrorText(detectRes)}`);
           continue;
         }
 
-        const detected = (await detectRes.json()) as { boxes?: Array<{ x: number; y: number; width: number; height: number; category?: string }>; error?: string };
-        const boxes = detected.boxes ?? [];
-        log(`Found ${boxes.length} images on page ${page.pageNumber}`);
+        let boxes: DetectedBox[];
+        if (detector === "ensemble") {
+          const detected = (await detectRes.json()) as {
+            pages?: Array<{ boxes: DetectedBox[] }>;
+            skipped?: Array<{ pageNumber: number; error: string }>;
+          };
+          for (const s of detected.skipped ?? []) log(s.error);
+          boxes = detected.pages?.[0]?.boxes ?? [];
+          const review = boxes.filter((b) => b.needsReview).length;
+          log(`Found ${boxes.length} images on page ${page.pageNumber}${review ? ` (${review} found by one detector only, flagged for review)` : ""}`);
+        } else {
+          const detected = (await detectRes.json()) as { boxes?: DetectedBox[]; error?: string };
+          boxes = detected.boxes ?? [];
+          log(`Found ${boxes.length} images on page ${page.pageNumber}`);
+        }
 
         if (boxes.length === 0) continue;
 
-        const img = await new Promise<HTMLImageElement>((resolve, reject) => {
-          const el = new Image();
-          el.crossOrigin = "anonymous";
-          el.onload = () => resolve(el);
-          el.onerror = () => reject(new Error(`Failed to load page image p${page.pageNumber}`));
-          el.src = bust(page.url);
+        // Cropped, uploaded and recorded on the server
+        const cropRes = await fetch("/api/projects/assets/crop", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            projectId,
+            manifestUrl: currentManifestUrl,
+            pages: [{ pageNumber: page.pageNumber, boxes }],
+            detectionRules
+          })
         });
 
-        const uploadedForPage: Array<{ assetId: string; url: string; bbox: AssetBBox }> = [];
-
-        for (let i = 0; i < boxes.length; i++) {
-          const b = boxes[i];
-          // Convert from {x, y, width, height} to {x, y, w, h}
-          const bbox: AssetBBox = { x: b.x, y: b.y, w: b.width, h: b.height };
-
-          const canvas = document.createElement("canvas");
-          const ctx = canvas.getContext("2d");
-          if (!ctx) throw new Error("Cannot create canvas 2D context");
-
-          canvas.width = Math.max(1, Math.floor(bbox.w));
-          canvas.height = Math.max(1, Math.floor(bbox.h));
-
-          ctx.drawImage(img, bbox.x, bbox.y, bbox.w, bbox.h, 0, 0, canvas.width, canvas.height);
-
-          const pngBlob = await new Promise<Blob>((resolve, reject) => {
-            canvas.toBlob((bb) => (bb ? resolve(bb) : reject(new Error("toBlob returned null"))), "image/png");
-          });
-
-          const assetId = `p${page.pageNumber}-img${String(i + 1).padStart(2, "0")}`;
-          const file = new File([pngBlob], `${assetId}.png`, { type: "image/png" });
-
-          const uploaded = await upload(`projects/${projectId}/assets/p${page.pageNumber}/${assetId}.png`, file, {
-            access: "public",
-            handleUploadUrl: "/api/blob"
-          });
-
-          uploadedForPage.push({ assetId, url: uploaded.url, bbox });
-
-          setSplitProgress((s) => ({ ...s, assetsUploaded: s.assetsUploaded + 1 }));
-          log(`Uploaded asset ${assetId}`);
-        }
-
-        if (uploadedForPage.length > 0) {
-          await recordAssetsBulk(page.pageNumber, uploadedForPage);
+        if (!cropRes.ok) throw new Error(await readErrorText(cropRes));
+
+        const cropped = (await cropRes.json()) as {
+          ok: boolean;
+          manifestUrl?: string;
+          pages?: Array<{ pageNumber: number; assets: Array<{ assetId: string }> }>;
+          skipped?: Array<{ pageNumber: number; error: string }>;
+          rejected?: Array<{ pageNumber: number; assetId: string; quality: { score: number } }>;
+          error?: string;
+        };
+        if (!cropped.ok || !cropped.manifestUrl) throw new Error(cropped.error || "Crop failed (bad response)");
+
+        currentManifestUrl = cropped.manifestUrl;
+        setManifestUrl(cropped.manifestUrl);
+        setUrlParams(projectId, cropped.manifestUrl);
+
+        for (const s of cropped.skipped ?? []) log(s.error);
+        for (const r of cropped.rejected ?? []) {
+          log(`Rejected ${r.assetId} on page ${r.pageNumber}: quality ${r.quality.score} is below the threshold`);
         }
+        const assetCount = (cropped.pages ?? []).reduce((n, p) => n + p.assets.length, 0);
+        setSplitProgress((s) => ({ ...s, assetsUploaded: s.assetsUploaded + assetCount }));
+        log(`Cropped ${assetCount} assets on page ${page.pageNumber}`);
       }
 
+      await loadManifest(currentManifestUrl);
       log("Detection complete");
       await refreshProjects();
     } catch (e) {
@@ -1771,43 +1877,25 @@ export default function Page() {
     log(`Starting tagging of ${totalAssets} assets (overwrite mode)...`);
 
     try {
-      const r = await fetch("/api/projects/assets/tag", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ projectId, manifestUrl, overwrite: true })
-      });
-
-      const j = (await r.json()) as {
-        ok: boolean;
-        manifestUrl?: string;
-        error?: string;
-        considered?: number;
-        tagged?: number;
-        failed?: number;
-        errors?: Array<{ pageNumber: number; assetId: string; error: string }>;
-        timedOut?: boolean;
-        message?: string;
-      };
-
-      if (!r.ok || !j.ok || !j.manifestUrl) throw new Error(j.error || `Tagging failed (${r.status})`);
-
-      let logMsg = `Tagging complete: ${j.tagged} assets tagged out of ${j.considered} considered`;
-      if (j.failed && j.failed > 0) {
-        logMsg += ` (${j.failed} failed)`;
-        if (j.errors && j.errors.length > 0) {
-          const firstErr = j.errors[0];
-          log(`First error: ${firstErr.assetId} - ${firstErr.error}`);
-        }
-      }
-      if (j.timedOut) {
-        logMsg += ` - PARTIAL (time limit reached, run again to continue)`;
-      }
+      // Near-duplicates are tagged once, through their canonical asset
+      const deduped = await runBackgroundJob({ projectId, manifestUrl, kind: "dedupe" }, () => {});
+      const dupes = deduped.result as { duplicates: number; groups: unknown[] };
+      if (dupes.duplicates > 0) log(`Found ${dupes.duplicates} duplicate assets in ${dupes.groups.length} groups; tagging one of each`);
+
+      // Runs as a background job, which continues past the single-request time limit
+      const job = await runBackgroundJob(
+        { projectId, manifestUrl: deduped.manifestUrl, kind: "tag", params: { overwrite: true } },
+        (j) => setTaggingProgress((s) => ({ ...s, tagged: j.progress.done }))
+      );
+      const result = job.result as { tagged: number; failed: number };
+
+      let logMsg = `Tagging complete: ${result.tagged} assets tagged`;
+      if (result.failed > 0) logMsg += ` (${result.failed} failed)`;
       log(logMsg);
-      setTaggingProgress((s) => ({ ...s, tagged: j.tagged ?? 0 }));
 
-      setManifestUrl(j.manifestUrl);
-      setUrlParams(projectId, j.manifestUrl);
-      await loadManifest(j.manifestUrl);
+      setManifestUrl(job.manifestUrl);
+      setUrlParams(projectId, job.manifestUrl);
+      await loadManifest(job.manifestUrl);
       await refreshProjects();
     } catch (e) {
       const msg = e instanceof Error ? e.message : String(e);
@@ -1837,12 +1925,21 @@ export default function Page() {
       const j = (await r.json()) as {
         ok: boolean;
         results?: string;
+        inputsHash?: string;
+        skipped?: boolean;
+        categoryMismatches?: Array<{ path: string; category: string; expected: string }>;
+        lowQuality?: number;
         error?: string;
       };
 
       if (!r.ok || !j.ok || !j.results) throw new Error(j.error || `Schema fill failed (${r.status})`);
 
-      log("Schema fill complete");
+      log(j.skipped ? "Schema inputs unchanged; showing the saved results" : "Schema fill complete");
+      for (const m of j.categoryMismatches ?? []) {
+        log(`Removed a ${m.category} asset from ${m.path} (expects ${m.expected})`);
+      }
+      if (j.lowQuality) log(`Left out ${j.lowQuality} tagged assets below the quality threshold`);
+      setFilledSchema(j.inputsHash ? { results: j.results, inputsHash: j.inputsHash } : null);
       setSchemaResultsDraft(j.results);
       setSchemaResultsOpen(true);
     } catch (e) {
@@ -1866,7 +1963,12 @@ export default function Page() {
       const r = await fetch("/api/projects/schema/save", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ projectId, manifestUrl, results: schemaResultsDraft })
+        body: JSON.stringify({
+          projectId,
+          manifestUrl,
+          results: schemaResultsDraft,
+          inputsHash: filledSchema?.results === schemaResultsDraft ? filledSchema.inputsHash : undefined
+        })
       });
 
       const j = (await r.json()) as {
@@ -1984,6 +2086,16 @@ export default function Page() {
       }
     }
 
+    // Validate pipelineJson is valid JSON (if not empty)
+    if (pipelineJsonDraft.trim()) {
+      try {
+        JSON.parse(pipelineJsonDraft);
+      } catch {
+        setSettingsError("Pipeline JSON is invalid.");
+        return;
+      }
+    }
+
     setSettingsBusy(true);
     try {
       const r = await fetch("/api/projects/settings/save", {
@@ -1997,6 +2109,8 @@ export default function Page() {
           schemaJson: schemaJsonDraft,
           completenessRules: completenessRulesDraft,
           detectionRulesJson: detectionRulesJsonDraft,
+          pipelineJson: pipelineJsonDraft,
+          ocrProvider: ocrProviderDraft,
           history: settingsHistory
         })
       });
@@ -2049,12 +2163,13 @@ export default function Page() {
         log("Failed to load cached text, re-formatting...");
       }
 
-      // Format with Gemini and cache the result
+      // Format with Gemini and cache the result. The server formats the
+      // project's text page by page (paragraphs in reading order) itself.
       log("Formatting with Gemini...");
       const fRes = await fetch("/api/projects/format-text", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ projectId, manifestUrl, text: raw })
+        body: JSON.stringify({ projectId, manifestUrl })
       });
 
       if (!fRes.ok) {
@@ -2086,6 +2201,46 @@ export default function Page() {
     }
   }
 
+  async function setAssetCategory(pageNumber: number, assetId: string, category: AssetCategory | null) {
+    if (!projectId || !manifestUrl) return;
+    setLastError("");
+
+    setManifest((prev) => {
+      if (!prev?.pages) return prev;
+      return {
+        ...prev,
+        pages: prev.pages.map((p) =>
+          p.pageNumber !== pageNumber
+            ? p
+            : {
+                ...p,
+                assets: (p.assets ?? []).map((a) =>
+                  a.assetId === assetId ? { ...a, category: category ?? undefined } : a
+                )
+              }
+        )
+      };
+    });
+
+    try {
+      const r = await fetch("/api/projects/assets/update", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ projectId, manifestUrl, pageNumber, assetId, category })
+      });
+
+      const j = (await r.json().catch(() => null)) as { ok?: boolean; manifestUrl?: string; error?: string } | null;
+      if (!r.ok || !j?.ok || !j.manifestUrl) throw new Error(j?.error || `Update failed (${r.status})`);
+
+      setManifestUrl(j.manifestUrl);
+      setUrlParams(projectId, j.manifestUrl);
+      await loadManifest(j.manifestUrl);
+    } catch (e) {
+      setLastError(e instanceof Error ? e.message : String(e));
+      await loadManifest(manifestUrl);
+    }
+  }
+
   async function deleteAsset(pageNumber: number, assetId: string) {
     if (!projectId || !manifestUrl) return;
 
@@ -2137,6 +2292,9 @@ export default function Page() {
 
   const pagesCount = manifest?.pages?.length ?? 0;
 
+  const hasSources = (manifest?.sources ?? []).length > 0;
+  const hasPdfSource = (manifest?.sources ?? []).some((src) => src.format === "pdf");
+
   const totalAssetsCount =
     (manifest?.pages ?? []).reduce((acc, p) => acc + (Array.isArray(p.assets) ? p.assets.length : 0), 0) ?? 0;
 
@@ -2148,6 +2306,14 @@ export default function Page() {
     return out;
   }, [manifest]);
 
+  const visibleAssets = useMemo(
+    () =>
+      categoryFilter === ""
+        ? assetsFlat
+        : assetsFlat.filter(({ asset }) => (asset.category ?? "none") === categoryFilter),
+    [assetsFlat, categoryFilter]
+  );
+
   const taggedAssetsCount = useMemo(() => {
     let n = 0;
     for (const p of manifest?.pages ?? []) {
@@ -2212,8 +2378,55 @@ export default function Page() {
         <div style={{ padding: 10 }}>
           <div style={{ fontSize: 12, fontWeight: 800 }}>
             p{pageNumber} · {asset.assetId}
+            {asset.detection?.needsReview && (
+              <span
+                title={`Found by ${asset.detection.detectors.join(", ")} only (confidence ${asset.detection.confidence})`}
+                style={{ marginLeft: 6, padding: "1px 6px", borderRadius: 999, background: "#fde68a", fontWeight: 600 }}
+              >
+                review
+              </span>
+            )}
+            {asset.duplicateOf && (
+              <span
+                title={`Same image as ${asset.duplicateOf}; tagged and linked through it`}
+                style={{ marginLeft: 6, padding: "1px 6px", borderRadius: 999, background: "#e5e7eb", fontWeight: 600 }}
+              >
+                duplicate
+              </span>
+            )}
+            {asset.quality && (
+              <span
+                title={`Quality ${asset.quality.score}: ${asset.quality.width}x${asset.quality.height}px, sharpness ${asset.quality.sharpness}, artifacts ${asset.quality.artifacts}, text ${asset.quality.textCoverage}${asset.quality.blank ? ", blank" : ""}`}
+                style={{ marginLeft: 6, padding: "1px 6px", borderRadius: 999, background: asset.quality.score < 0.5 ? "#fecaca" : "#e5e7eb", fontWeight: 600 }}
+              >
+                q {asset.quality.score.toFixed(2)}
+              </span>
+            )}
           </div>
 
+          <select
+            aria-label="Category"
+            value={asset.category ?? ""}
+            disabled={delBusy}
+            onChange={(e) =>
+              void setAssetCategory(pageNumber, asset.assetId, (e.target.value || null) as AssetCategory | null)
+            }
+            style={{ marginTop: 6, border: "1px solid rgba(0,0,0,0.25)", borderRadius: 8, padding: "2px 6px", fontSize: 12 }}
+          >
+            <option value="">No category</option>
+            {ASSET_CATEGORIES.map((c) => (
+              <option key={c} value={c}>
+                {ASSET_CATEGORY_LABELS[c]}
+              </option>
+            ))}
+          </select>
+
+          {asset.caption && (
+            <div title={asset.nearbyText} style={{ marginTop: 6, fontSize: 12, fontStyle: "italic", opacity: 0.8 }}>
+              {asset.caption}
+            </div>
+          )}
+
           {tags.length > 0 && (
             <div style={{ marginTop: 8, display: "flex", flexWrap: "wrap", gap: 6 }}>
               {tags.slice(0, 20).map((t) => (
@@ -2321,7 +2534,7 @@ export default function Page() {
               <li><strong>View Text</strong> — Review extracted text</li>
               <li><strong>Rasterize PNGs</strong> — Convert PDF pages to images</li>
               <li><strong>Detect Images</strong> — AI identifies and crops images from pages</li>
-              <li><strong>Tag Assets</strong> — AI categorizes and labels extracted images</li>
+              <li><strong>Tag Assets</strong> — AI categorizes and labels extracted images, once per set of duplicates</li>
               <li><strong>Fill Schema</strong> — AI populates the structured data schema</li>
               <li><strong>Completeness %</strong> — Review extraction quality score</li>
             </ol>
@@ -2358,15 +2571,25 @@ export default function Page() {
 
         <button
           type="button"
-          disabled={!manifest?.sourcePdf?.url || !!busy}
+          disabled={!manifest || !!busy}
+          onClick={() => addSourceRef.current?.click()}
+          title="Add another document to this project"
+          style={{ border: "1px solid #000", background: "#fff", padding: "10px 12px", borderRadius: 12, opacity: manifest && !busy ? 1 : 0.4 }}
+        >
+          + Add Source
+        </button>
+
+        <button
+          type="button"
+          disabled={!hasSources || !!busy}
           onClick={() => void processPdf()}
           style={{
             border: "1px solid #000",
-            background: manifest?.sourcePdf?.url && !busy ? "#000" : "#fff",
-            color: manifest?.sourcePdf?.url && !busy ? "#fff" : "#000",
+            background: hasSources && !busy ? "#000" : "#fff",
+            color: hasSources && !busy ? "#fff" : "#000",
             padding: "10px 12px",
             borderRadius: 12,
-            opacity: manifest?.sourcePdf?.url && !busy ? 1 : 0.4
+            opacity: hasSources && !busy ? 1 : 0.4
           }}
         >
           2. Process Text
@@ -2390,15 +2613,15 @@ export default function Page() {
 
         <button
           type="button"
-          disabled={!manifest?.sourcePdf?.url || !!busy || rasterProgress.running}
+          disabled={!hasPdfSource || !!busy || rasterProgress.running}
           onClick={() => void rasterizeToPngs()}
           style={{
             border: "1px solid #000",
-            background: manifest?.sourcePdf?.url && !busy ? "#000" : "#fff",
-            color: manifest?.sourcePdf?.url && !busy ? "#fff" : "#000",
+            background: hasPdfSource && !busy ? "#000" : "#fff",
+            color: hasPdfSource && !busy ? "#fff" : "#000",
             padding: "10px 12px",
             borderRadius: 12,
-            opacity: manifest?.sourcePdf?.url && !busy ? 1 : 0.4
+            opacity: hasPdfSource && !busy ? 1 : 0.4
           }}
         >
           4. Rasterize PNGs
@@ -2419,6 +2642,16 @@ export default function Page() {
         >
           5. Detect Images
         </button>
+        <select
+          aria-label="Detector"
+          value={detector}
+          disabled={!!busy || splitProgress.running}
+          onChange={(e) => setDetector(e.target.value as "gemini" | "ensemble")}
+          style={{ border: "1px solid #000", borderRadius: 12, padding: "10px 8px", fontSize: 13 }}
+        >
+          <option value="gemini">Gemini</option>
+          <option value="ensemble">Gemini + Document AI</option>
+        </select>
 
         <button
           type="button"
@@ -2665,20 +2898,24 @@ export default function Page() {
             <div style={{ fontSize: 12, wordBreak: "break-all" }}>{manifestUrl || "—"}</div>
 
             <div style={{ marginTop: 10 }}>
-              <span style={{ opacity: 0.7 }}>sourcePdf:</span>
+              <span style={{ opacity: 0.7 }}>sources:</span>
             </div>
-            <div style={{ fontSize: 12, wordBreak: "break-all" }}>{manifest?.sourcePdf?.url || "—"}</div>
+            {hasSources ? (
+              (manifest?.sources ?? []).map((src) => (
+                <div key={src.sourceId} style={{ fontSize: 12, wordBreak: "break-all" }}>
+                  {src.filename} ({src.format}
+                  {src.firstPage ? `, pages ${src.firstPage}–${src.firstPage + Math.max(1, src.pageCount ?? 1) - 1}` : ""}) — {src.url}
+                </div>
+              ))
+            ) : (
+              <div style={{ fontSize: 12, wordBreak: "break-all" }}>—</div>
+            )}
 
             <div style={{ marginTop: 10 }}>
               <span style={{ opacity: 0.7 }}>extractedText:</span>
             </div>
             <div style={{ fontSize: 12, wordBreak: "break-all" }}>{manifest?.extractedText?.url || "—"}</div>
 
-            <div style={{ marginTop: 10 }}>
-              <span style={{ opacity: 0.7 }}>docAiJson:</span>
-            </div>
-            <div style={{ fontSize: 12, wordBreak: "break-all" }}>{manifest?.docAiJson?.url || "—"}</div>
-
             <div style={{ marginTop: 10 }}>
               <span style={{ opacity: 0.7 }}>pages:</span> {pagesCount}
             </div>
@@ -3248,6 +3485,53 @@ export default function Page() {
   "cropPadding": { "default": 5, "characters": 10 },
   "preferFullBleed": ["locations", "keyArt"],
   "autoCategory": true
+}`}
+                    style={{
+                      width: "100%",
+                      maxWidth: "100%",
+                      minHeight: 200,
+                      border: "1px solid rgba(0,0,0,0.35)",
+                      borderRadius: 12,
+                      padding: 12,
+                      fontSize: 13,
+                      fontFamily: "ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace",
+                      boxSizing: "border-box",
+                      display: "block"
+                    }}
+                  />
+                </div>
+              )}
+              {settingsTab === "pipeline" && (
+                <div>
+                  <label style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 12, fontSize: 13 }}>
+                    PDF text from
+                    <select
+                      value={ocrProviderDraft || "auto"}
+                      onChange={(e) => setOcrProviderDraft(e.target.value === "auto" ? "" : e.target.value)}
+                      style={{ border: "1px solid rgba(0,0,0,0.35)", borderRadius: 8, padding: "4px 8px", fontSize: 13 }}
+                    >
+                      {OCR_PROVIDER_SETTINGS.map((p) => (
+                        <option key={p} value={p}>
+                          {OCR_PROVIDER_LABELS[p]}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <div style={{ marginBottom: 10, fontSize: 12, color: "#666" }}>
+                    Steps the one-shot ingest (<code>/api/projects/ingest</code>) runs, in order. Leave blank for all six. Steps whose outputs are already current are skipped.
+                  </div>
+                  <textarea
+                    value={pipelineJsonDraft}
+                    onChange={(e) => setPipelineJsonDraft(e.target.value)}
+                    placeholder={`{
+  "steps": [
+    { "step": "process" },
+    { "step": "rasterize", "dpi": 90 },
+    { "step": "detect" },
+    { "step": "dedupe" },
+    { "step": "tag", "retagStale": true },
+    { "step": "fill", "save": true }
+  ]
 }`}
                     style={{
                       width: "100%",
@@ -3747,15 +4031,31 @@ export default function Page() {
 
         {assetsOpen && (
           <div style={{ padding: "0 14px 14px 14px" }}>
-            <div style={{ fontSize: 13, opacity: 0.75, marginBottom: 10 }}>
-              {taggedAssetsCount} tagged / {totalAssetsCount} total
+            <div style={{ display: "flex", alignItems: "center", gap: 10, fontSize: 13, marginBottom: 10 }}>
+              <span style={{ opacity: 0.75 }}>
+                {taggedAssetsCount} tagged / {totalAssetsCount} total
+              </span>
+              <select
+                aria-label="Filter by category"
+                value={categoryFilter}
+                onChange={(e) => setCategoryFilter(e.target.value as AssetCategory | "" | "none")}
+                style={{ border: "1px solid rgba(0,0,0,0.35)", borderRadius: 8, padding: "2px 6px", fontSize: 13 }}
+              >
+                <option value="">All categories</option>
+                {ASSET_CATEGORIES.map((c) => (
+                  <option key={c} value={c}>
+                    {ASSET_CATEGORY_LABELS[c]}
+                  </option>
+                ))}
+                <option value="none">No category</option>
+              </select>
             </div>
 
-            {assetsFlat.length === 0 ? (
+            {visibleAssets.length === 0 ? (
               <div style={{ fontSize: 13, opacity: 0.7 }}>—</div>
             ) : (
               <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(220px, 1fr))", gap: 10 }}>
-                {assetsFlat.map(({ pageNumber, asset }) => assetCard(pageNumber, asset))}
+                {visibleAssets.map(({ pageNumber, asset }) => assetCard(pageNumber, asset))}
               </div>
             )}
           </div>
@@ -3765,7 +4065,7 @@ export default function Page() {
       <input
         ref={fileRef}
         type="file"
-        accept="application/pdf"
+        accept={SOURCE_ACCEPT}
         style={{ display: "none" }}
         onChange={async (e) => {
           const f = e.target.files?.[0];
@@ -3778,6 +4078,23 @@ export default function Page() {
           }
         }}
       />
+
+      <input
+        ref={addSourceRef}
+        type="file"
+        accept={SOURCE_ACCEPT}
+        style={{ display: "none" }}
+        onChange={async (e) => {
+          const f = e.target.files?.[0];
+          e.target.value = "";
+          if (!f) return;
+          try {
+            await addSource(f);
+          } catch (err) {
+            setLastError(err instanceof Error ? err.message : String(err));
+          }
+        }}
+      />
     </div>
   );
 }
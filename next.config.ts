@@ -1,8 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  // Keep google-auth-library external to avoid bundling issues
-  serverExternalPackages: ["google-auth-library"],
+  // Keep google-auth-library external to avoid bundling issues; pdfjs-dist and
+  // @napi-rs/canvas (server-side rasterizing) load worker files and a native binary
+  serverExternalPackages: ["google-auth-library", "pdfjs-dist", "@napi-rs/canvas"],
 };
 
 export default nextConfig;